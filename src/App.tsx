@@ -17,7 +17,13 @@ import Investimentos from "./pages/Investimentos";
 import Dividas from "./pages/Dividas";
 import Transacoes from "./pages/Transacoes";
 import ImportarTransacoes from "./pages/ImportarTransacoes";
+import Importacoes from "./pages/Importacoes";
 import Planejamento from "./pages/Planejamento";
+import RegrasCategorizacao from "./pages/RegrasCategorizacao";
+import Recorrentes from "./pages/Recorrentes";
+import Tags from "./pages/Tags";
+import Favorecidos from "./pages/Favorecidos";
+import Lixeira from "./pages/Lixeira";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -93,6 +99,14 @@ const App = () => {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/importacoes" 
+              element={
+                <ProtectedRoute>
+                  <Importacoes />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/planejamento" 
               element={
@@ -101,6 +115,46 @@ const App = () => {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/regras" 
+              element={
+                <ProtectedRoute>
+                  <RegrasCategorizacao />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/recorrentes" 
+              element={
+                <ProtectedRoute>
+                  <Recorrentes />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/tags" 
+              element={
+                <ProtectedRoute>
+                  <Tags />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/favorecidos" 
+              element={
+                <ProtectedRoute>
+                  <Favorecidos />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/lixeira" 
+              element={
+                <ProtectedRoute>
+                  <Lixeira />
+                </ProtectedRoute>
+              } 
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
             </Routes>
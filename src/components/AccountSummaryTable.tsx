@@ -20,11 +20,12 @@ interface AccountRow {
   residualBalance: number;
   incomes: number;
   expenses: number;
+  transfers: number; // Net of transfers received minus transfers sent
   monthBalance: number;
   hasStoredResidual: boolean;
 }
 
-type SortKey = 'accountName' | 'residualBalance' | 'incomes' | 'expenses' | 'monthBalance';
+type SortKey = 'accountName' | 'residualBalance' | 'incomes' | 'expenses' | 'transfers' | 'monthBalance';
 type SortDir = 'asc' | 'desc';
 
 const formatCurrency = (value: number) =>
@@ -47,9 +48,9 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
       const [accountsRes, balancesCurrentRes, transactionsCurrentRes, balancesPrevRes, transactionsPrevRes] = await Promise.all([
         supabase.from('accounts').select('id, name').eq('user_id', userId),
         supabase.from('account_balances').select('account_id, residual_balance').eq('user_id', userId).eq('reference_month', referenceMonth),
-        supabase.from('transactions').select('account_id, type, amount').eq('user_id', userId).eq('reference_month', referenceMonth),
+        supabase.from('transactions').select('account_id, type, amount, transfer_id').eq('user_id', userId).eq('reference_month', referenceMonth),
         supabase.from('account_balances').select('account_id, residual_balance').eq('user_id', userId).eq('reference_month', previousMonth),
-        supabase.from('transactions').select('account_id, type, amount').eq('user_id', userId).eq('reference_month', previousMonth),
+        supabase.from('transactions').select('account_id, type, amount, transfer_id').eq('user_id', userId).eq('reference_month', previousMonth),
       ]);
 
       const accounts = accountsRes.data || [];
@@ -65,7 +66,7 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
       const prevBalanceMap = new Map<number, number>();
       balancesPrev.forEach(b => prevBalanceMap.set(b.account_id, Number(b.residual_balance)));
 
-      // Compute previous month incomes/expenses per account
+      // Compute previous month incomes/expenses per account (transfers move money like any other entry)
       const prevIncomeMap = new Map<number, number>();
       const prevExpenseMap = new Map<number, number>();
       transactionsPrev.forEach(t => {
@@ -77,12 +78,15 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
         }
       });
 
-      // Current month incomes/expenses per account
+      // Current month incomes/expenses per account; both sides of a transfer go to their own column
       const incomeMap = new Map<number, number>();
       const expenseMap = new Map<number, number>();
+      const transferMap = new Map<number, number>();
       transactionsCurrent.forEach(t => {
         const amt = Math.abs(Number(t.amount));
-        if (t.type === 'Income') {
+        if (t.transfer_id) {
+          transferMap.set(t.account_id, (transferMap.get(t.account_id) || 0) + (t.type === 'Income' ? amt : -amt));
+        } else if (t.type === 'Income') {
           incomeMap.set(t.account_id, (incomeMap.get(t.account_id) || 0) + amt);
         } else {
           expenseMap.set(t.account_id, (expenseMap.get(t.account_id) || 0) + amt);
@@ -92,6 +96,7 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
       const newRows: AccountRow[] = accounts.map(acc => {
         const incomes = incomeMap.get(acc.id) || 0;
         const expenses = expenseMap.get(acc.id) || 0;
+        const transfers = transferMap.get(acc.id) || 0;
         const hasStoredResidual = currentBalanceMap.has(acc.id);
 
         let residualBalance: number;
@@ -111,7 +116,8 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
           residualBalance,
           incomes,
           expenses,
-          monthBalance: incomes - expenses + residualBalance,
+          transfers,
+          monthBalance: incomes - expenses + transfers + residualBalance,
           hasStoredResidual,
         };
       });
@@ -165,7 +171,7 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
             ? {
                 ...r,
                 residualBalance: value,
-                monthBalance: r.incomes - r.expenses + value,
+                monthBalance: r.incomes - r.expenses + r.transfers + value,
                 hasStoredResidual: true,
               }
             : r
@@ -209,9 +215,10 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
         residual: acc.residual + r.residualBalance,
         incomes: acc.incomes + r.incomes,
         expenses: acc.expenses + r.expenses,
+        transfers: acc.transfers + r.transfers,
         balance: acc.balance + r.monthBalance,
       }),
-      { residual: 0, incomes: 0, expenses: 0, balance: 0 }
+      { residual: 0, incomes: 0, expenses: 0, transfers: 0, balance: 0 }
     );
   }, [filteredAndSorted]);
 
@@ -274,13 +281,14 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
                 <TableHead className="text-right"><SortButton column="residualBalance" label="Saldo Residual" /></TableHead>
                 <TableHead className="text-right"><SortButton column="incomes" label="Entradas" /></TableHead>
                 <TableHead className="text-right"><SortButton column="expenses" label="Saídas" /></TableHead>
+                <TableHead className="text-right"><SortButton column="transfers" label="Transferências" /></TableHead>
                 <TableHead className="text-right"><SortButton column="monthBalance" label="Saldo do Mês" /></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {filteredAndSorted.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
                     Nenhuma conta encontrada
                   </TableCell>
                 </TableRow>
@@ -308,6 +316,9 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
                       <TableCell className="text-right font-medium">
                         {formatCurrency(row.expenses)}
                       </TableCell>
+                      <TableCell className="text-right font-medium text-blue-600">
+                        {formatCurrency(row.transfers)}
+                      </TableCell>
                       <TableCell
                         className={`text-right font-bold ${
                           row.monthBalance >= 0 ? 'text-green-600' : 'text-destructive'
@@ -323,6 +334,7 @@ const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ referenceMont
                     <TableCell className="text-right">{formatCurrency(totals.residual)}</TableCell>
                     <TableCell className="text-right">{formatCurrency(totals.incomes)}</TableCell>
                     <TableCell className="text-right">{formatCurrency(totals.expenses)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(totals.transfers)}</TableCell>
                     <TableCell
                       className={`text-right ${totals.balance >= 0 ? 'text-green-600' : 'text-destructive'}`}
                     >
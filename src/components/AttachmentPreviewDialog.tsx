@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ExternalLink, FileText } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  TransactionAttachment,
+  fetchAttachments,
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+} from '@/lib/attachments';
+
+interface AttachmentPreviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactionId: number | null;
+  title?: string;
+}
+
+interface PreviewItem {
+  attachment: TransactionAttachment;
+  url: string;
+}
+
+export const AttachmentPreviewDialog: React.FC<AttachmentPreviewDialogProps> = ({
+  isOpen,
+  onClose,
+  transactionId,
+  title
+}) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<PreviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    if (!transactionId) return;
+    try {
+      setLoading(true);
+      setItems([]);
+      const attachments = await fetchAttachments(transactionId);
+      setItems(await Promise.all(attachments.map(async attachment => ({
+        attachment,
+        url: await getAttachmentUrl(attachment)
+      }))));
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar anexos",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [transactionId, toast]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadData();
+    }
+  }, [isOpen, loadData]);
+
+  // Object URLs from the local stand-in hold the file in memory until revoked
+  useEffect(() => () => {
+    items.filter(item => item.url.startsWith('blob:')).forEach(item => URL.revokeObjectURL(item.url));
+  }, [items]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title ? `Anexos: ${title}` : 'Anexos'}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">Carregando...</div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Nenhum anexo.</div>
+        ) : (
+          <div className="space-y-4">
+            {items.map(({ attachment, url }) => (
+              <div key={attachment.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium truncate">{attachment.file_name}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={url} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Abrir
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+                {isImageAttachment(attachment) ? (
+                  <img src={url} alt={attachment.file_name} className="max-h-[60vh] mx-auto rounded-md object-contain" />
+                ) : (
+                  <div className="flex items-center justify-center gap-2 rounded-md bg-muted py-8 text-sm text-muted-foreground">
+                    <FileText className="h-5 w-5" />
+                    Documento PDF: use "Abrir" para visualizar
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileText, Image as ImageIcon, Paperclip, Upload, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  TransactionAttachment,
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+  validateAttachmentFile,
+} from '@/lib/attachments';
+
+interface AttachmentUploadAreaProps {
+  attachments: TransactionAttachment[]; // Already stored files
+  pendingFiles: File[]; // Chosen files, uploaded when the transaction is saved
+  onAddFiles: (files: File[]) => void;
+  onRemoveAttachment: (attachment: TransactionAttachment) => void;
+  onRemovePendingFile: (index: number) => void;
+}
+
+/**
+ * Drop area and file list for receipts and invoices. Nothing is uploaded or
+ * deleted here; the parent applies the changes when the transaction is saved.
+ */
+export const AttachmentUploadArea: React.FC<AttachmentUploadAreaProps> = ({
+  attachments,
+  pendingFiles,
+  onAddFiles,
+  onRemoveAttachment,
+  onRemovePendingFile
+}) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    const files = Array.from(fileList);
+    const errors = files.map(validateAttachmentFile).filter((error): error is string => error !== null);
+
+    if (errors.length > 0) {
+      toast({
+        title: "Erro",
+        description: errors.join('\n'),
+        variant: "destructive"
+      });
+    }
+
+    const valid = files.filter(file => validateAttachmentFile(file) === null);
+    if (valid.length > 0) onAddFiles(valid);
+  };
+
+  const handleOpen = async (attachment: TransactionAttachment) => {
+    try {
+      window.open(await getAttachmentUrl(attachment), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao abrir anexo",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed p-4 text-sm cursor-pointer transition-colors ${
+          isDragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25 hover:bg-muted/50'
+        }`}
+      >
+        <Upload className="h-5 w-5 text-muted-foreground" />
+        <span className="text-muted-foreground">Arraste arquivos ou clique para anexar</span>
+        <span className="text-xs text-muted-foreground">Fotos (JPG, PNG, WEBP, HEIC) ou PDF, até 10 MB</span>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {(attachments.length > 0 || pendingFiles.length > 0) && (
+        <ul className="space-y-1">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+              {isImageAttachment(attachment)
+                ? <ImageIcon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                : <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />}
+              <button
+                type="button"
+                onClick={() => handleOpen(attachment)}
+                className="flex-1 truncate text-left hover:underline"
+                title="Abrir"
+              >
+                {attachment.file_name}
+              </button>
+              <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>
+              <Button type="button" variant="ghost" size="sm" className="h-6 px-1" onClick={() => onRemoveAttachment(attachment)} title="Remover anexo">
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+          {pendingFiles.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center gap-2 rounded-md border border-dashed px-2 py-1 text-sm">
+              <Paperclip className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate">{file.name}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(file.size)} · a enviar</span>
+              <Button type="button" variant="ghost" size="sm" className="h-6 px-1" onClick={() => onRemovePendingFile(index)} title="Remover anexo">
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { TagInput } from '@/components/TagInput';
+import { useToast } from '@/hooks/use-toast';
+import { Database } from '@/integrations/supabase/types';
+import { BulkAction, BulkTransactionChanges, bulkUpdateTransactions } from '@/lib/bulkTransactions';
+
+interface NamedItem {
+  id: number;
+  name: string;
+}
+
+interface BulkEditModalProps {
+  action: Exclude<BulkAction, 'delete'> | null;
+  transactionIds: number[];
+  accounts: NamedItem[];
+  categories: (NamedItem & { type: Database['public']['Enums']['category_type'] })[];
+  subcategories: (NamedItem & { category_id: number })[];
+  tags: NamedItem[];
+  onClose: () => void;
+  onDone: () => void;
+}
+
+const TITLES: Record<Exclude<BulkAction, 'delete'>, string> = {
+  category: 'Alterar Categoria',
+  subcategory: 'Alterar Subcategoria',
+  account: 'Mover para Outra Conta',
+  reference_month: 'Alterar Mês de Referência',
+  add_tags: 'Adicionar Tags',
+  remove_tags: 'Remover Tags'
+};
+
+export const BulkEditModal: React.FC<BulkEditModalProps> = ({
+  action,
+  transactionIds,
+  accounts,
+  categories,
+  subcategories,
+  tags,
+  onClose,
+  onDone
+}) => {
+  const { toast } = useToast();
+  const [value, setValue] = useState('');
+  const [subcategoryId, setSubcategoryId] = useState('none');
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (action) {
+      setValue(action === 'reference_month' ? new Date().toISOString().slice(0, 7) + '-01' : '');
+      setSubcategoryId('none');
+      setTagNames([]);
+    }
+  }, [action]);
+
+  const buildChanges = (): BulkTransactionChanges | null => {
+    switch (action) {
+      case 'category':
+        if (!value) return null;
+        return {
+          category_id: value === 'none' ? null : parseInt(value),
+          subcategory_id: subcategoryId === 'none' ? null : parseInt(subcategoryId)
+        };
+      case 'subcategory':
+        if (!value) return null;
+        return { subcategory_id: value === 'none' ? null : parseInt(value) };
+      case 'account':
+        return value ? { account_id: parseInt(value) } : null;
+      case 'reference_month':
+        return value ? { reference_month: value } : null;
+      case 'add_tags':
+        return tagNames.length > 0 ? { add_tags: tagNames } : null;
+      case 'remove_tags': {
+        // Only existing tags can be removed; other names are ignored
+        const ids = tags.filter(t => tagNames.includes(t.name)).map(t => t.id);
+        return ids.length > 0 ? { remove_tags: ids } : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const changes = buildChanges();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!changes) return;
+
+    try {
+      setSaving(true);
+      const updated = await bulkUpdateTransactions(transactionIds, changes);
+      const skipped = transactionIds.length - updated;
+
+      toast({
+        title: "Sucesso",
+        description: skipped > 0
+          ? `${updated} transações atualizadas; ${skipped} ignoradas (divididas ou de outra categoria)`
+          : `${updated} transações atualizadas`
+      });
+      onDone();
+      onClose();
+    } catch (error) {
+      console.error('Error updating transactions:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao atualizar transações",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Debt and investment categories need the linked debt or investment, which only the transaction form sets
+  const availableCategories = categories.filter(c => c.type !== 'Debt' && c.type !== 'Investment');
+  const categorySubcategories = subcategories.filter(s => s.category_id === parseInt(value));
+
+  return (
+    <Dialog open={action !== null} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{action ? TITLES[action] : ''}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {transactionIds.length} transações selecionadas.
+          </p>
+
+          {action === 'category' && (
+            <>
+              <div>
+                <Label>Categoria *</Label>
+                <Select value={value} onValueChange={(val) => {
+                  setValue(val);
+                  setSubcategoryId('none');
+                }}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a categoria" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    <SelectItem value="none">Sem categoria</SelectItem>
+                    {availableCategories.map(c => (
+                      <SelectItem key={c.id} value={c.id.toString()}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {categorySubcategories.length > 0 && (
+                <div>
+                  <Label>Subcategoria</Label>
+                  <Select value={subcategoryId} onValueChange={setSubcategoryId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background">
+                      <SelectItem value="none">Nenhuma</SelectItem>
+                      {categorySubcategories.map(s => (
+                        <SelectItem key={s.id} value={s.id.toString()}>{s.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                A subcategoria, a dívida e o investimento vinculados são removidos. Transações divididas não são alteradas.
+              </p>
+            </>
+          )}
+
+          {action === 'subcategory' && (
+            <>
+              <div>
+                <Label>Subcategoria *</Label>
+                <Select value={value} onValueChange={setValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a subcategoria" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    <SelectItem value="none">Nenhuma</SelectItem>
+                    {subcategories.map(s => (
+                      <SelectItem key={s.id} value={s.id.toString()}>
+                        {categories.find(c => c.id === s.category_id)?.name} › {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Só são alteradas as transações da categoria da subcategoria escolhida.
+              </p>
+            </>
+          )}
+
+          {action === 'account' && (
+            <div>
+              <Label>Conta *</Label>
+              <Select value={value} onValueChange={setValue}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a conta" />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {accounts.map(a => (
+                    <SelectItem key={a.id} value={a.id.toString()}>{a.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {action === 'reference_month' && (
+            <div>
+              <Label>Mês de Referência *</Label>
+              <MonthYearPicker
+                value={value}
+                onValueChange={setValue}
+                placeholder="Selecione o mês de referência"
+              />
+            </div>
+          )}
+
+          {(action === 'add_tags' || action === 'remove_tags') && (
+            <div>
+              <Label htmlFor="bulk_tags">Tags *</Label>
+              <TagInput
+                id="bulk_tags"
+                value={tagNames}
+                onChange={setTagNames}
+                suggestions={tags.map(t => t.name)}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving || !changes}>
+              {saving ? 'Aplicando...' : 'Aplicar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,432 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Database } from '@/integrations/supabase/types';
+import {
+  CategorizationRule,
+  CategorizationRuleInput,
+  RULE_MATCH_TYPES,
+  RuleMatchType,
+  saveCategorizationRule,
+  validateRulePattern,
+} from '@/lib/categorizationRules';
+
+interface Account {
+  id: number;
+  name: string;
+}
+
+interface Category {
+  id: number;
+  name: string;
+  type: Database['public']['Enums']['category_type'];
+}
+
+interface Subcategory {
+  id: number;
+  name: string;
+  category_id: number;
+}
+
+interface Investment {
+  id: number;
+  name: string;
+}
+
+interface Debt {
+  id: number;
+  description: string;
+}
+
+interface RuleFormData {
+  name: string;
+  match_type: RuleMatchType;
+  pattern: string;
+  amount_min: string;
+  amount_max: string;
+  account_id: string;
+  transaction_type: string;
+  category_id: string;
+  subcategory_id: string;
+  debt_id: string;
+  investment_id: string;
+  is_active: boolean;
+}
+
+interface CategorizationRuleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rule?: CategorizationRule | null;
+  defaults?: Partial<CategorizationRuleInput>; // Prefill for "create rule from this row"
+  onRuleSaved?: (rule: CategorizationRule) => void;
+}
+
+const ANY = 'any';
+
+const toFormData = (source: Partial<CategorizationRuleInput> | null | undefined): RuleFormData => ({
+  name: source?.name ?? '',
+  match_type: (source?.match_type as RuleMatchType) ?? 'contains',
+  pattern: source?.pattern ?? '',
+  amount_min: source?.amount_min?.toString() ?? '',
+  amount_max: source?.amount_max?.toString() ?? '',
+  account_id: source?.account_id?.toString() ?? ANY,
+  transaction_type: source?.transaction_type ?? ANY,
+  category_id: source?.category_id?.toString() ?? '',
+  subcategory_id: source?.subcategory_id?.toString() ?? '',
+  debt_id: source?.debt_id?.toString() ?? '',
+  investment_id: source?.investment_id?.toString() ?? '',
+  is_active: source?.is_active ?? true,
+});
+
+export const CategorizationRuleModal: React.FC<CategorizationRuleModalProps> = ({
+  isOpen,
+  onClose,
+  rule = null,
+  defaults,
+  onRuleSaved,
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [investments, setInvestments] = useState<Investment[]>([]);
+  const [debts, setDebts] = useState<Debt[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<RuleFormData>(toFormData(null));
+
+  useEffect(() => {
+    if (isOpen && user) {
+      fetchLookupData();
+      setFormData(toFormData(rule ?? defaults));
+    }
+  }, [isOpen, user, rule, defaults]);
+
+  const fetchLookupData = async () => {
+    try {
+      const [accountsRes, categoriesRes, subcategoriesRes, investmentsRes, debtsRes] = await Promise.all([
+        supabase.from('accounts').select('id, name').eq('user_id', user!.id).order('name'),
+        supabase.from('categories').select('id, name, type').eq('user_id', user!.id).order('name'),
+        supabase.from('subcategories').select('id, name, category_id').eq('user_id', user!.id).order('name'),
+        supabase.from('investments').select('id, name').eq('user_id', user!.id).order('name'),
+        supabase.from('debts').select('id, description').eq('user_id', user!.id).order('description'),
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (subcategoriesRes.error) throw subcategoriesRes.error;
+      if (investmentsRes.error) throw investmentsRes.error;
+      if (debtsRes.error) throw debtsRes.error;
+
+      setAccounts(accountsRes.data || []);
+      setCategories(categoriesRes.data || []);
+      setSubcategories(subcategoriesRes.data || []);
+      setInvestments(investmentsRes.data || []);
+      setDebts(debtsRes.data || []);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar dados",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const selectedCategory = categories.find(c => c.id === parseInt(formData.category_id));
+  const availableSubcategories = subcategories.filter(s => s.category_id === parseInt(formData.category_id));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const patternError = validateRulePattern(formData.match_type, formData.pattern);
+    if (patternError) {
+      toast({ title: "Erro", description: patternError, variant: "destructive" });
+      return;
+    }
+
+    if (!formData.category_id) {
+      toast({ title: "Erro", description: "Selecione a categoria que a regra deve aplicar", variant: "destructive" });
+      return;
+    }
+
+    if (selectedCategory?.type === 'Debt' && !formData.debt_id) {
+      toast({ title: "Erro", description: "Para categorias de dívidas, é obrigatório vincular a uma dívida", variant: "destructive" });
+      return;
+    }
+
+    if (selectedCategory?.type === 'Investment' && !formData.investment_id) {
+      toast({ title: "Erro", description: "Para categorias de investimentos, é obrigatório vincular a um investimento", variant: "destructive" });
+      return;
+    }
+
+    const amountMin = formData.amount_min ? parseFloat(formData.amount_min) : null;
+    const amountMax = formData.amount_max ? parseFloat(formData.amount_max) : null;
+    if (amountMin !== null && amountMax !== null && amountMin > amountMax) {
+      toast({ title: "Erro", description: "O valor mínimo não pode ser maior que o máximo", variant: "destructive" });
+      return;
+    }
+
+    const ruleData: CategorizationRuleInput = {
+      name: formData.name.trim() || formData.pattern.trim(),
+      match_type: formData.match_type,
+      pattern: formData.pattern.trim(),
+      amount_min: amountMin,
+      amount_max: amountMax,
+      account_id: formData.account_id !== ANY ? parseInt(formData.account_id) : null,
+      transaction_type: formData.transaction_type !== ANY
+        ? formData.transaction_type as Database['public']['Enums']['transaction_type']
+        : null,
+      category_id: parseInt(formData.category_id),
+      subcategory_id: formData.subcategory_id ? parseInt(formData.subcategory_id) : null,
+      debt_id: selectedCategory?.type === 'Debt' && formData.debt_id ? parseInt(formData.debt_id) : null,
+      investment_id: selectedCategory?.type === 'Investment' && formData.investment_id ? parseInt(formData.investment_id) : null,
+      is_active: formData.is_active,
+    };
+
+    try {
+      setSaving(true);
+      const saved = await saveCategorizationRule(user!.id, ruleData, rule?.id);
+      toast({
+        title: "Sucesso",
+        description: rule ? "Regra atualizada com sucesso" : "Regra criada com sucesso"
+      });
+      onRuleSaved?.(saved);
+      onClose();
+    } catch (error) {
+      console.error('Error saving categorization rule:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao salvar regra",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Editar Regra' : 'Nova Regra de Categorização'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="rule-name">Nome</Label>
+            <Input
+              id="rule-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Ex: iFood → Alimentação"
+              maxLength={80}
+            />
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-4">
+            <p className="text-sm font-medium">Quando a transação...</p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <Label>Descrição</Label>
+                <Select
+                  value={formData.match_type}
+                  onValueChange={(value) => setFormData({ ...formData, match_type: value as RuleMatchType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {RULE_MATCH_TYPES.map(t => (
+                      <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="sm:col-span-2">
+                <Label htmlFor="rule-pattern">Texto *</Label>
+                <Input
+                  id="rule-pattern"
+                  value={formData.pattern}
+                  onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                  placeholder={formData.match_type === 'regex' ? 'Ex: ^(PAG\\*)?IFOOD' : 'Ex: IFOOD'}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="rule-amount-min">Valor mínimo</Label>
+                <Input
+                  id="rule-amount-min"
+                  type="number"
+                  step="0.01"
+                  value={formData.amount_min}
+                  onChange={(e) => setFormData({ ...formData, amount_min: e.target.value })}
+                  placeholder="Qualquer"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-amount-max">Valor máximo</Label>
+                <Input
+                  id="rule-amount-max"
+                  type="number"
+                  step="0.01"
+                  value={formData.amount_max}
+                  onChange={(e) => setFormData({ ...formData, amount_max: e.target.value })}
+                  placeholder="Qualquer"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Conta</Label>
+                <Select
+                  value={formData.account_id}
+                  onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    <SelectItem value={ANY}>Qualquer conta</SelectItem>
+                    {accounts.map(account => (
+                      <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Tipo</Label>
+                <Select
+                  value={formData.transaction_type}
+                  onValueChange={(value) => setFormData({ ...formData, transaction_type: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    <SelectItem value={ANY}>Qualquer tipo</SelectItem>
+                    <SelectItem value="Expense">Despesa</SelectItem>
+                    <SelectItem value="Income">Receita</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-4">
+            <p className="text-sm font-medium">...aplicar</p>
+            <div>
+              <Label>Categoria *</Label>
+              <Select
+                value={formData.category_id}
+                onValueChange={(value) => setFormData({
+                  ...formData,
+                  category_id: value,
+                  subcategory_id: '',
+                  debt_id: '',
+                  investment_id: ''
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a categoria" />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {availableSubcategories.length > 0 && (
+              <div>
+                <Label>Subcategoria</Label>
+                <Select
+                  value={formData.subcategory_id}
+                  onValueChange={(value) => setFormData({ ...formData, subcategory_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a subcategoria" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {availableSubcategories.map(subcategory => (
+                      <SelectItem key={subcategory.id} value={subcategory.id.toString()}>{subcategory.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {selectedCategory?.type === 'Debt' && (
+              <div>
+                <Label>Vincular a Dívida *</Label>
+                <Select
+                  value={formData.debt_id}
+                  onValueChange={(value) => setFormData({ ...formData, debt_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a dívida" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {debts.map(debt => (
+                      <SelectItem key={debt.id} value={debt.id.toString()}>{debt.description}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {selectedCategory?.type === 'Investment' && (
+              <div>
+                <Label>Vincular a Investimento *</Label>
+                <Select
+                  value={formData.investment_id}
+                  onValueChange={(value) => setFormData({ ...formData, investment_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o investimento" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {investments.map(investment => (
+                      <SelectItem key={investment.id} value={investment.id.toString()}>{investment.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="rule-active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+            />
+            <Label htmlFor="rule-active">Regra ativa</Label>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {rule ? 'Atualizar Regra' : 'Salvar Regra'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ExportFormat,
+  ExportNumberFormat,
+  ExportPeriod,
+  ExportTransaction,
+  buildExportFile,
+  downloadFile
+} from '@/lib/transactionExport';
+
+interface ExportTransactionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Transactions matching the list's filters, with the period applied
+  fetchTransactions: (period: ExportPeriod) => Promise<ExportTransaction[]>;
+  filterMonth: string;
+}
+
+const currentMonth = () => new Date().toISOString().slice(0, 7) + '-01';
+
+export const ExportTransactionsModal: React.FC<ExportTransactionsModalProps> = ({
+  isOpen,
+  onClose,
+  fetchTransactions,
+  filterMonth
+}) => {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [numberFormat, setNumberFormat] = useState<ExportNumberFormat>('pt-BR');
+  const [periodKind, setPeriodKind] = useState<ExportPeriod['kind']>('filters');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [fromMonth, setFromMonth] = useState('');
+  const [toMonth, setToMonth] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      const month = filterMonth || currentMonth();
+      setPeriodKind('filters');
+      setFromMonth(month);
+      setToMonth(month);
+      setFromDate(month);
+      setToDate(new Date().toISOString().slice(0, 10));
+    }
+  }, [isOpen, filterMonth]);
+
+  const buildPeriod = (): ExportPeriod | null => {
+    switch (periodKind) {
+      case 'dates':
+        return fromDate && toDate && fromDate <= toDate ? { kind: 'dates', from: fromDate, to: toDate } : null;
+      case 'months':
+        return fromMonth && toMonth && fromMonth <= toMonth ? { kind: 'months', from: fromMonth, to: toMonth } : null;
+      default:
+        return { kind: 'filters' };
+    }
+  };
+
+  const period = buildPeriod();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!period) return;
+
+    try {
+      setExporting(true);
+      const transactions = await fetchTransactions(period);
+
+      if (transactions.length === 0) {
+        toast({
+          title: "Erro",
+          description: "Nenhuma transação encontrada para exportar",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      downloadFile(await buildExportFile(transactions, format, numberFormat));
+      toast({
+        title: "Sucesso",
+        description: `${transactions.length} transações exportadas`
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error exporting transactions:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao exportar transações",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exportar Transações</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>Formato</Label>
+            <Select value={format} onValueChange={(val) => setFormat(val as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background">
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                <SelectItem value="ofx">OFX</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format === 'csv' && (
+            <div>
+              <Label>Números e datas</Label>
+              <Select value={numberFormat} onValueChange={(val) => setNumberFormat(val as ExportNumberFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  <SelectItem value="pt-BR">Brasileiro (1234,56 e 31/01/2026, separado por ;)</SelectItem>
+                  <SelectItem value="international">Internacional (1234.56 e 2026-01-31, separado por ,)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {format === 'ofx' && (
+            <p className="text-xs text-muted-foreground">
+              Um extrato por conta, identificada pelo seu código. Receitas entram como crédito e despesas como débito.
+            </p>
+          )}
+
+          <div>
+            <Label>Período</Label>
+            <Select value={periodKind} onValueChange={(val) => setPeriodKind(val as ExportPeriod['kind'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background">
+                <SelectItem value="filters">Transações da lista (filtros atuais)</SelectItem>
+                <SelectItem value="dates">Intervalo de datas</SelectItem>
+                <SelectItem value="months">Intervalo de meses de referência</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {periodKind === 'dates' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="export_from_date">De</Label>
+                <Input id="export_from_date" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="export_to_date">Até</Label>
+                <Input id="export_to_date" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {periodKind === 'months' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>De</Label>
+                <MonthYearPicker value={fromMonth} onValueChange={setFromMonth} placeholder="Mês inicial" />
+              </div>
+              <div>
+                <Label>Até</Label>
+                <MonthYearPicker value={toMonth} onValueChange={setToMonth} placeholder="Mês final" />
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {periodKind === 'filters'
+              ? 'Exporta todas as transações que a lista mostra, não só as carregadas, com as duas pernas de cada transferência.'
+              : 'O período substitui o filtro de mês; os demais filtros e a busca da lista continuam valendo.'}
+          </p>
+          {!period && (
+            <p className="text-xs text-destructive">Informe o início e o fim do período, com o início antes do fim.</p>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={exporting || !period}>
+              {exporting ? 'Exportando...' : 'Exportar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
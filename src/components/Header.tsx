@@ -1,7 +1,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { LogOut, User, Home, CreditCard, FolderOpen, TrendingUp, Wallet, ArrowLeftRight, Upload, Calendar } from 'lucide-react';
+import { LogOut, User, Home, CreditCard, FolderOpen, TrendingUp, Wallet, ArrowLeftRight, Upload, Calendar, Trash2 } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import {
   DropdownMenu,
@@ -22,6 +22,7 @@ export const Header = () => {
     { name: 'Transações', href: '/transacoes', icon: ArrowLeftRight },
     { name: 'Categorias', href: '/categorias', icon: FolderOpen },
     { name: 'Contas', href: '/contas', icon: CreditCard },
+    { name: 'Lixeira', href: '/lixeira', icon: Trash2 },
   ];
 
   return (
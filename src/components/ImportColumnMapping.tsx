@@ -0,0 +1,386 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, ArrowRight, Save, Trash2 } from 'lucide-react';
+import {
+  CSVCell,
+  CSVMapping,
+  CSVDateFormat,
+  CSVDecimalStyle,
+  CSV_BANK_PRESETS,
+  CSV_DATE_FORMATS,
+  CSV_DECIMAL_STYLES,
+  applyCSVMapping,
+  formatCSVCell,
+} from '@/lib/csvImport';
+import { ImportPreset } from '@/lib/importPresets';
+
+const PREVIEW_ROWS = 8;
+// The preview only validates the start of large files; the full parse reports later errors
+const PREVIEW_SCAN_ROWS = 500;
+
+const DELIMITERS = [
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: ',', label: 'Vírgula (,)' },
+  { value: '\t', label: 'Tab' },
+];
+
+interface ImportColumnMappingProps {
+  rows: CSVCell[][];
+  sheetNames?: string[]; // Spreadsheets: pick the sheet instead of the delimiter
+  selectedSheet?: number;
+  onSheetChange?: (index: number) => void;
+  mapping: CSVMapping;
+  onMappingChange: (mapping: CSVMapping) => void;
+  presets: ImportPreset[];
+  selectedPresetKey: string;
+  onPresetSelect: (key: string) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (presetId: number) => void;
+  onBack: () => void;
+  onContinue: () => void;
+  processing?: boolean; // The whole file is being parsed after "Continuar"
+}
+
+export const ImportColumnMapping: React.FC<ImportColumnMappingProps> = ({
+  rows,
+  sheetNames,
+  selectedSheet = 0,
+  onSheetChange,
+  mapping,
+  onMappingChange,
+  presets,
+  selectedPresetKey,
+  onPresetSelect,
+  onSavePreset,
+  onDeletePreset,
+  onBack,
+  onContinue,
+  processing = false,
+}) => {
+  const [presetName, setPresetName] = useState('');
+
+  const columnCount = useMemo(
+    () => rows.slice(0, mapping.skipRows + 20).reduce((max, row) => Math.max(max, row.length), 0),
+    [rows, mapping.skipRows]
+  );
+
+  const headerRow = mapping.skipRows > 0 ? rows[mapping.skipRows - 1] : undefined;
+
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => ({
+    value: i.toString(),
+    label: headerRow?.[i] !== undefined && headerRow[i] !== '' ? `Coluna ${i + 1} (${formatCSVCell(headerRow[i])})` : `Coluna ${i + 1}`,
+  }));
+
+  const preview = useMemo(() => {
+    try {
+      const sample = rows.slice(0, mapping.skipRows + PREVIEW_SCAN_ROWS);
+      return { transactions: applyCSVMapping(sample, mapping).slice(0, PREVIEW_ROWS), error: null };
+    } catch (error) {
+      return { transactions: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [rows, mapping]);
+
+  const update = (changes: Partial<CSVMapping>) => onMappingChange({ ...mapping, ...changes });
+
+  const selectedSavedPreset = selectedPresetKey.startsWith('saved:')
+    ? presets.find(p => `saved:${p.id}` === selectedPresetKey)
+    : undefined;
+
+  const renderColumnSelect = (id: string, label: string, value: number, onChange: (column: number) => void) => (
+    <div>
+      <Label htmlFor={id} className="text-sm font-medium">{label}</Label>
+      <Select value={value >= 0 ? value.toString() : ''} onValueChange={(val) => onChange(parseInt(val))}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Selecione a coluna" />
+        </SelectTrigger>
+        <SelectContent className="bg-background">
+          {columnOptions.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const mappedColumns = new Set(
+    mapping.amountMode === 'split'
+      ? [mapping.dateColumn, mapping.descriptionColumn, mapping.debitColumn, mapping.creditColumn]
+      : [mapping.dateColumn, mapping.descriptionColumn, mapping.amountColumn]
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Passo 2: Mapear Colunas do Arquivo</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Presets */}
+          <div className="flex flex-col md:flex-row gap-4 md:items-end">
+            <div className="flex-1">
+              <Label className="text-sm font-medium">Modelo</Label>
+              <Select value={selectedPresetKey} onValueChange={onPresetSelect}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Mapeamento personalizado" />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {presets.map(preset => (
+                    <SelectItem key={`saved:${preset.id}`} value={`saved:${preset.id}`}>
+                      {preset.name} (salvo)
+                    </SelectItem>
+                  ))}
+                  {CSV_BANK_PRESETS.map(preset => (
+                    <SelectItem key={`bank:${preset.id}`} value={`bank:${preset.id}`}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedSavedPreset && (
+              <Button
+                variant="outline"
+                onClick={() => onDeletePreset(selectedSavedPreset.id)}
+                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Excluir modelo
+              </Button>
+            )}
+          </div>
+
+          {/* File layout */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {sheetNames ? (
+              <div>
+                <Label className="text-sm font-medium">Planilha</Label>
+                <Select value={selectedSheet.toString()} onValueChange={(val) => onSheetChange?.(parseInt(val))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {sheetNames.map((name, index) => (
+                      <SelectItem key={index} value={index.toString()}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label className="text-sm font-medium">Separador</Label>
+                <Select value={mapping.delimiter} onValueChange={(val) => update({ delimiter: val })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {DELIMITERS.map(d => (
+                      <SelectItem key={d.label} value={d.value}>{d.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="skip-rows" className="text-sm font-medium">Linhas de cabeçalho a ignorar</Label>
+              <Input
+                id="skip-rows"
+                type="number"
+                min={0}
+                value={mapping.skipRows}
+                onChange={(e) => update({ skipRows: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+            <div>
+              <Label className="text-sm font-medium">Formato da data</Label>
+              <Select value={mapping.dateFormat} onValueChange={(val) => update({ dateFormat: val as CSVDateFormat })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {CSV_DATE_FORMATS.map(f => (
+                    <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Column mapping */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderColumnSelect('date-column', 'Coluna da data *', mapping.dateColumn, (c) => update({ dateColumn: c }))}
+            {renderColumnSelect('description-column', 'Coluna da descrição *', mapping.descriptionColumn, (c) => update({ descriptionColumn: c }))}
+            <div>
+              <Label className="text-sm font-medium">Valores</Label>
+              <Select value={mapping.amountMode} onValueChange={(val) => update({ amountMode: val as CSVMapping['amountMode'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  <SelectItem value="single">Uma coluna com sinal</SelectItem>
+                  <SelectItem value="split">Colunas separadas de débito e crédito</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {mapping.amountMode === 'single' ? (
+              renderColumnSelect('amount-column', 'Coluna do valor *', mapping.amountColumn, (c) => update({ amountColumn: c }))
+            ) : (
+              <>
+                {renderColumnSelect('debit-column', 'Coluna de débito (saídas) *', mapping.debitColumn, (c) => update({ debitColumn: c }))}
+                {renderColumnSelect('credit-column', 'Coluna de crédito (entradas) *', mapping.creditColumn, (c) => update({ creditColumn: c }))}
+              </>
+            )}
+            <div>
+              <Label className="text-sm font-medium">Separador decimal</Label>
+              <Select value={mapping.decimalStyle} onValueChange={(val) => update({ decimalStyle: val as CSVDecimalStyle })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {CSV_DECIMAL_STYLES.map(s => (
+                    <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-6">
+            {mapping.amountMode === 'single' && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="invert-sign"
+                  checked={mapping.invertSign}
+                  onCheckedChange={(checked) => update({ invertSign: checked })}
+                />
+                <Label htmlFor="invert-sign" className="text-sm">Valores positivos são despesas (fatura de cartão)</Label>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="ignore-invalid"
+                checked={mapping.ignoreInvalidRows}
+                onCheckedChange={(checked) => update({ ignoreInvalidRows: checked })}
+              />
+              <Label htmlFor="ignore-invalid" className="text-sm">Ignorar linhas inválidas (totais, saldos)</Label>
+            </div>
+          </div>
+
+          {/* Raw file preview */}
+          <div>
+            <Label className="text-sm font-medium">Pré-visualização do arquivo</Label>
+            <div className="mt-2 overflow-x-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    {columnOptions.map(option => (
+                      <TableHead
+                        key={option.value}
+                        className={mappedColumns.has(parseInt(option.value)) ? 'bg-primary/10 text-primary' : ''}
+                      >
+                        {option.label}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, mapping.skipRows + PREVIEW_ROWS).map((row, rowIndex) => (
+                    <TableRow key={rowIndex} className={rowIndex < mapping.skipRows ? 'opacity-40 line-through' : ''}>
+                      <TableCell className="text-xs text-muted-foreground">{rowIndex + 1}</TableCell>
+                      {columnOptions.map((_, columnIndex) => (
+                        <TableCell key={columnIndex} className="text-xs whitespace-nowrap">
+                          {formatCSVCell(row[columnIndex])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Parsed preview */}
+          {preview.error ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription className="whitespace-pre-line">{preview.error}</AlertDescription>
+            </Alert>
+          ) : (
+            <div>
+              <Label className="text-sm font-medium">Resultado da leitura</Label>
+              <div className="mt-2 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Valor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.transactions.map((transaction, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{new Date(transaction.date + 'T12:00:00').toLocaleDateString('pt-BR')}</TableCell>
+                        <TableCell>{transaction.description}</TableCell>
+                        <TableCell>{transaction.type === 'Income' ? 'Receita' : 'Despesa'}</TableCell>
+                        <TableCell className={transaction.type === 'Income' ? 'text-green-600' : 'text-red-600'}>
+                          R$ {transaction.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {/* Save preset */}
+          <div className="flex flex-col md:flex-row gap-2 md:items-end pt-2">
+            <div className="flex-1">
+              <Label htmlFor="preset-name" className="text-sm font-medium">Salvar este mapeamento para a conta</Label>
+              <Input
+                id="preset-name"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Ex: Extrato Nubank"
+                maxLength={60}
+              />
+            </div>
+            <Button
+              variant="outline"
+              disabled={!presetName.trim()}
+              onClick={() => {
+                onSavePreset(presetName.trim());
+                setPresetName('');
+              }}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Salvar modelo
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={onBack}>
+          Voltar
+        </Button>
+        <Button onClick={onContinue} disabled={!!preview.error || processing} size="lg">
+          <ArrowRight className="h-4 w-4 mr-2" />
+          Continuar para Categorização
+        </Button>
+      </div>
+    </div>
+  );
+};
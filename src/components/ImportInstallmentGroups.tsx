@@ -0,0 +1,129 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CreditCard } from 'lucide-react';
+import { InstallmentGroup, InstallmentPurchase } from '@/lib/installments';
+
+/**
+ * What to do with a detected group: 'create' a purchase, 'none' to import the
+ * rows as plain expenses, or 'purchase:<id>' to link to an existing purchase.
+ */
+export interface InstallmentChoice {
+  target: string;
+  totalAmount: string; // Editable total for purchases being created
+}
+
+interface ImportInstallmentGroupsProps {
+  groups: InstallmentGroup[];
+  purchases: InstallmentPurchase[];
+  choices: Record<string, InstallmentChoice>;
+  onChoiceChange: (key: string, choice: InstallmentChoice) => void;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const ImportInstallmentGroups: React.FC<ImportInstallmentGroupsProps> = ({
+  groups,
+  purchases,
+  choices,
+  onChoiceChange
+}) => {
+  if (groups.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CreditCard className="h-5 w-5" />
+          Compras parceladas detectadas
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Vincule as parcelas a uma compra parcelada para acompanhar o valor total e ver as próximas
+          parcelas no planejamento dos meses seguintes.
+        </p>
+
+        {groups.map(group => {
+          const choice = choices[group.key] ?? { target: 'none', totalAmount: '' };
+          const remaining = group.total - group.lastCurrent;
+          const linkedPurchase = choice.target.startsWith('purchase:')
+            ? purchases.find(p => p.id === parseInt(choice.target.split(':')[1]))
+            : undefined;
+
+          return (
+            <div key={group.key} className="border rounded-md p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{group.description}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {group.rowIndexes.length > 1
+                      ? `Parcelas ${group.firstCurrent} a ${group.lastCurrent} de ${group.total}`
+                      : `Parcela ${group.firstCurrent} de ${group.total}`}
+                    {' · '}{formatCurrency(group.installmentAmount)} por parcela
+                  </p>
+                </div>
+                <Badge variant="outline">
+                  {remaining > 0
+                    ? `Restam ${remaining} (${formatCurrency(remaining * group.installmentAmount)})`
+                    : 'Última parcela'}
+                </Badge>
+              </div>
+
+              <div className="flex flex-col md:flex-row gap-3">
+                <div className="flex-1">
+                  <Label className="text-sm font-medium">Compra parcelada</Label>
+                  <Select
+                    value={choice.target}
+                    onValueChange={(value) => onChoiceChange(group.key, { ...choice, target: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background">
+                      <SelectItem value="create">Criar nova compra parcelada</SelectItem>
+                      {purchases
+                        .filter(p => p.total_installments === group.total)
+                        .map(p => (
+                          <SelectItem key={p.id} value={`purchase:${p.id}`}>
+                            Vincular a: {p.description} ({formatCurrency(Number(p.total_amount))} em {p.total_installments}x)
+                          </SelectItem>
+                        ))}
+                      <SelectItem value="none">Não vincular (despesas avulsas)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {choice.target === 'create' && (
+                  <div className="md:w-48">
+                    <Label htmlFor={`installment-total-${group.key}`} className="text-sm font-medium">
+                      Valor total da compra
+                    </Label>
+                    <Input
+                      id={`installment-total-${group.key}`}
+                      type="number"
+                      step="0.01"
+                      value={choice.totalAmount}
+                      onChange={(e) => onChoiceChange(group.key, { ...choice, totalAmount: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {linkedPurchase && (
+                <p className="text-xs text-muted-foreground">
+                  Compra registrada com primeira parcela em{' '}
+                  {new Date(linkedPurchase.first_reference_month + 'T12:00:00').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}.
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
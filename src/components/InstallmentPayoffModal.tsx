@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import {
+  InstallmentPurchase,
+  InstallmentTransaction,
+  fetchInstallmentPurchase,
+  fetchInstallmentTransactions,
+  payOffInstallmentPurchase,
+} from '@/lib/installments';
+import { formatReferenceMonth } from '@/lib/referenceMonth';
+
+interface InstallmentPayoffModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  purchaseId: number | null;
+  onPaidOff?: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const currentMonth = () => new Date().toISOString().slice(0, 7) + '-01';
+
+const remainingAmount = (installments: InstallmentTransaction[], from: number) =>
+  installments
+    .filter(t => t.installment_number !== null && t.installment_number >= from)
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+export const InstallmentPayoffModal: React.FC<InstallmentPayoffModalProps> = ({
+  isOpen,
+  onClose,
+  purchaseId,
+  onPaidOff
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [purchase, setPurchase] = useState<InstallmentPurchase | null>(null);
+  const [installments, setInstallments] = useState<InstallmentTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    from_installment: '',
+    amount: '',
+    transaction_date: new Date().toISOString().split('T')[0],
+    reference_month: currentMonth()
+  });
+
+  const loadData = useCallback(async () => {
+    if (!purchaseId) return;
+    try {
+      setLoading(true);
+      const [loadedPurchase, loadedInstallments] = await Promise.all([
+        fetchInstallmentPurchase(purchaseId),
+        fetchInstallmentTransactions(purchaseId)
+      ]);
+      const numbered = loadedInstallments.filter(t => t.installment_number !== null);
+
+      // Installments of past and current months were most likely paid already
+      const firstOpen = numbered.find(t => t.reference_month > currentMonth())
+        ?? numbered.find(t => t.reference_month === currentMonth());
+      const from = firstOpen?.installment_number ?? null;
+
+      setPurchase(loadedPurchase);
+      setInstallments(numbered);
+      setFormData({
+        from_installment: from?.toString() ?? '',
+        amount: from === null ? '' : remainingAmount(numbered, from).toFixed(2),
+        transaction_date: new Date().toISOString().split('T')[0],
+        reference_month: currentMonth()
+      });
+    } catch (error) {
+      console.error('Error fetching installment purchase:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar compra parcelada",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [purchaseId, toast]);
+
+  useEffect(() => {
+    if (isOpen && user) {
+      loadData();
+    }
+  }, [isOpen, user, loadData]);
+
+  // Installments of past months were already posted and can't be replaced
+  const openInstallments = installments.filter(t => t.reference_month >= currentMonth());
+  const from = parseInt(formData.from_installment);
+  const remaining = installments.filter(t => t.installment_number !== null && t.installment_number >= from);
+  const originalAmount = remainingAmount(installments, from);
+
+  const handleFromChange = (value: string) => {
+    setFormData({
+      ...formData,
+      from_installment: value,
+      amount: remainingAmount(installments, parseInt(value)).toFixed(2)
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!purchase) return;
+
+    if (!(parseFloat(formData.amount) > 0)) {
+      toast({
+        title: "Erro",
+        description: "O valor deve ser maior que zero",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await payOffInstallmentPurchase(
+        purchase.id,
+        from,
+        parseFloat(formData.amount),
+        formData.transaction_date,
+        formData.reference_month
+      );
+
+      toast({
+        title: "Sucesso",
+        description: `${remaining.length} parcela${remaining.length === 1 ? '' : 's'} quitada${remaining.length === 1 ? '' : 's'} antecipadamente`
+      });
+      onClose();
+      onPaidOff?.();
+    } catch (error) {
+      console.error('Error paying off installment purchase:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao quitar compra parcelada",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Quitar Parcelas Restantes</DialogTitle>
+        </DialogHeader>
+
+        {loading || !purchase ? (
+          <div className="text-center py-8">Carregando...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="rounded-lg border p-4 text-sm">
+              <p className="font-medium">{purchase.description}</p>
+              <p className="text-muted-foreground">
+                {purchase.total_installments}x de {formatCurrency(Number(purchase.installment_amount))}
+                {` · total ${formatCurrency(Number(purchase.total_amount))}`}
+              </p>
+            </div>
+
+            <div>
+              <Label>Quitar a partir da parcela *</Label>
+              <Select value={formData.from_installment} onValueChange={handleFromChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {openInstallments.map(installment => (
+                    <SelectItem key={installment.id} value={String(installment.installment_number)}>
+                      {installment.installment_number}/{purchase.total_installments} · {formatReferenceMonth(installment.reference_month)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {openInstallments.length === 0
+                  ? 'Todas as parcelas são de meses anteriores e já foram lançadas.'
+                  : `${remaining.length} parcela${remaining.length === 1 ? '' : 's'} somando ${formatCurrency(originalAmount)} serão substituídas por um único lançamento.`}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="payoff-amount">Valor pago *</Label>
+              <Input
+                id="payoff-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+              {parseFloat(formData.amount) < originalAmount && (
+                <p className="text-xs text-green-600 mt-1">
+                  Desconto de {formatCurrency(originalAmount - parseFloat(formData.amount))}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="payoff-date">Data *</Label>
+                <Input
+                  id="payoff-date"
+                  type="date"
+                  value={formData.transaction_date}
+                  onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label>Mês de Referência *</Label>
+                <MonthYearPicker
+                  value={formData.reference_month}
+                  onValueChange={(value) => setFormData({ ...formData, reference_month: value })}
+                  placeholder="Selecione o mês"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving || remaining.length === 0}>
+                Quitar Parcelas
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { Database } from '@/integrations/supabase/types';
+import { addMonths, createInstallmentPurchase, splitInstallmentAmounts } from '@/lib/installments';
+import { formatReferenceMonth } from '@/lib/referenceMonth';
+
+interface Account {
+  id: number;
+  name: string;
+}
+
+interface Category {
+  id: number;
+  name: string;
+  type: Database['public']['Enums']['category_type'];
+}
+
+interface Subcategory {
+  id: number;
+  name: string;
+  category_id: number;
+}
+
+type AmountMode = 'total' | 'installment';
+
+interface InstallmentPurchaseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const MAX_INSTALLMENTS = 120;
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const emptyForm = () => ({
+  description: '',
+  account_id: '',
+  category_id: '',
+  subcategory_id: '',
+  amount_mode: 'total' as AmountMode,
+  amount: '',
+  total_installments: '',
+  first_transaction_date: new Date().toISOString().split('T')[0],
+  first_reference_month: new Date().toISOString().slice(0, 7) + '-01'
+});
+
+export const InstallmentPurchaseModal: React.FC<InstallmentPurchaseModalProps> = ({
+  isOpen,
+  onClose,
+  onSaved
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [accountsRes, categoriesRes, subcategoriesRes] = await Promise.all([
+        supabase.from('accounts').select('id, name').eq('user_id', user?.id).order('name'),
+        supabase.from('categories').select('id, name, type').eq('user_id', user?.id).order('name'),
+        supabase.from('subcategories').select('id, name, category_id').eq('user_id', user?.id).order('name')
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (subcategoriesRes.error) throw subcategoriesRes.error;
+
+      setAccounts(accountsRes.data || []);
+      setCategories(categoriesRes.data || []);
+      setSubcategories(subcategoriesRes.data || []);
+      setFormData(emptyForm());
+    } catch (error) {
+      console.error('Error fetching installment purchase data:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar dados",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (isOpen && user) {
+      loadData();
+    }
+  }, [isOpen, user, loadData]);
+
+  // Debt and investment payments also update the linked balance, which only TransactionModal does
+  const availableCategories = categories.filter(c => c.type !== 'Debt' && c.type !== 'Investment');
+  const availableSubcategories = subcategories.filter(s => s.category_id === parseInt(formData.category_id));
+
+  const amount = parseFloat(formData.amount);
+  const totalInstallments = parseInt(formData.total_installments);
+  const validInstallments = totalInstallments >= 2 && totalInstallments <= MAX_INSTALLMENTS;
+
+  // Mirrors what the server will create, so the user sees the exact values before saving
+  const installmentAmounts = amount > 0 && validInstallments
+    ? formData.amount_mode === 'total'
+      ? splitInstallmentAmounts(amount, totalInstallments)
+      : Array.from({ length: totalInstallments }, () => Math.round(amount * 100) / 100)
+    : [];
+  const previewTotal = installmentAmounts.reduce((sum, value) => sum + value, 0);
+
+  const validate = (): string | null => {
+    if (!formData.description.trim()) return 'Informe a descrição';
+    if (!formData.account_id) return 'Selecione a conta';
+    if (!(amount > 0)) return 'O valor deve ser maior que zero';
+    if (!validInstallments) return `O número de parcelas deve estar entre 2 e ${MAX_INSTALLMENTS}`;
+    if (installmentAmounts[totalInstallments - 1] <= 0) return 'Valor total insuficiente para o número de parcelas';
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validate();
+    if (validationError) {
+      toast({
+        title: "Erro",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createInstallmentPurchase({
+        accountId: parseInt(formData.account_id),
+        description: formData.description.trim(),
+        totalInstallments,
+        firstReferenceMonth: formData.first_reference_month,
+        firstTransactionDate: formData.first_transaction_date,
+        totalAmount: formData.amount_mode === 'total' ? amount : undefined,
+        installmentAmount: formData.amount_mode === 'installment' ? amount : undefined,
+        categoryId: formData.category_id ? parseInt(formData.category_id) : null,
+        subcategoryId: formData.subcategory_id ? parseInt(formData.subcategory_id) : null
+      });
+
+      toast({
+        title: "Sucesso",
+        description: `Compra parcelada criada com ${totalInstallments} parcelas`
+      });
+      onClose();
+      onSaved?.();
+    } catch (error) {
+      console.error('Error creating installment purchase:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao salvar compra parcelada",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova Compra Parcelada</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">Carregando...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="installment-description">Descrição *</Label>
+              <Input
+                id="installment-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Ex: Geladeira"
+                maxLength={200}
+                required
+              />
+            </div>
+
+            <div>
+              <Label>Conta *</Label>
+              <Select
+                value={formData.account_id}
+                onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a conta" />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Categoria</Label>
+                <Select
+                  value={formData.category_id}
+                  onValueChange={(value) => setFormData({ ...formData, category_id: value, subcategory_id: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a categoria" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {availableCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {availableSubcategories.length > 0 && (
+                <div>
+                  <Label>Subcategoria</Label>
+                  <Select
+                    value={formData.subcategory_id}
+                    onValueChange={(value) => setFormData({ ...formData, subcategory_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a subcategoria" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background">
+                      {availableSubcategories.map(subcategory => (
+                        <SelectItem key={subcategory.id} value={subcategory.id.toString()}>{subcategory.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4 p-4 rounded-lg border">
+              <RadioGroup
+                value={formData.amount_mode}
+                onValueChange={(value) => setFormData({ ...formData, amount_mode: value as AmountMode })}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="total" id="amount-mode-total" />
+                  <Label htmlFor="amount-mode-total">Valor total</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="installment" id="amount-mode-installment" />
+                  <Label htmlFor="amount-mode-installment">Valor da parcela</Label>
+                </div>
+              </RadioGroup>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="installment-amount">
+                    {formData.amount_mode === 'total' ? 'Valor total *' : 'Valor da parcela *'}
+                  </Label>
+                  <Input
+                    id="installment-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    placeholder="0,00"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="installment-count">Parcelas *</Label>
+                  <Input
+                    id="installment-count"
+                    type="number"
+                    min="2"
+                    max={MAX_INSTALLMENTS}
+                    value={formData.total_installments}
+                    onChange={(e) => setFormData({ ...formData, total_installments: e.target.value })}
+                    placeholder="Ex: 10"
+                    required
+                  />
+                </div>
+              </div>
+
+              {installmentAmounts.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {installmentAmounts[0] !== installmentAmounts[1]
+                    ? `1ª parcela de ${formatCurrency(installmentAmounts[0])} e ${totalInstallments - 1} de ${formatCurrency(installmentAmounts[1])}`
+                    : `${totalInstallments}x de ${formatCurrency(installmentAmounts[0])}`}
+                  {` · total ${formatCurrency(previewTotal)}`}
+                  <br />
+                  {`De ${formatReferenceMonth(formData.first_reference_month)} a ${formatReferenceMonth(addMonths(formData.first_reference_month, totalInstallments - 1))}`}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="installment-first-date">Data da 1ª parcela *</Label>
+                <Input
+                  id="installment-first-date"
+                  type="date"
+                  value={formData.first_transaction_date}
+                  onChange={(e) => setFormData({ ...formData, first_transaction_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label>Mês da 1ª parcela *</Label>
+                <MonthYearPicker
+                  value={formData.first_reference_month}
+                  onValueChange={(value) => setFormData({ ...formData, first_reference_month: value })}
+                  placeholder="Selecione o mês"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                Salvar Compra Parcelada
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Store } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PayeeSummary, fetchPayeeSummary } from '@/lib/payees';
+
+interface PayeeSpendingCardProps {
+  referenceMonth: string;
+  limit?: number;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const PayeeSpendingCard: React.FC<PayeeSpendingCardProps> = ({ referenceMonth, limit = 8 }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [payees, setPayees] = useState<PayeeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadSummary = useCallback(async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      const summary = await fetchPayeeSummary(referenceMonth, referenceMonth);
+      setPayees(summary.filter(p => Number(p.expense_total) > 0));
+    } catch (error) {
+      console.error('Error loading payee summary:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar gastos por favorecido",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, referenceMonth, toast]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  // The summary comes sorted by expense, largest first
+  const topPayees = payees.slice(0, limit);
+  const largestExpense = topPayees.length > 0 ? Number(topPayees[0].expense_total) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Store className="h-5 w-5" />
+          Gastos por Favorecido
+        </CardTitle>
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/favorecidos">Ver todos</Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : topPayees.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            Nenhuma despesa com favorecido neste mês.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {topPayees.map(payee => (
+              <div key={payee.payee_id} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium truncate">{payee.payee_name}</span>
+                  <span className="text-red-600 whitespace-nowrap">
+                    {formatCurrency(Number(payee.expense_total))}
+                    <span className="text-muted-foreground ml-2">
+                      ({payee.transaction_count} {payee.transaction_count === 1 ? 'transação' : 'transações'})
+                    </span>
+                  </span>
+                </div>
+                <Progress value={largestExpense > 0 ? (Number(payee.expense_total) / largestExpense) * 100 : 0} className="h-2" />
+              </div>
+            ))}
+            {payees.length > limit && (
+              <div className="text-xs text-muted-foreground">
+                E mais {payees.length - limit} {payees.length - limit === 1 ? 'favorecido' : 'favorecidos'}.
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
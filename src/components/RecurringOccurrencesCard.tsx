@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, Edit, RefreshCw, Repeat, SkipForward } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { RecurringTemplateModal } from '@/components/RecurringTemplateModal';
+import {
+  PendingOccurrence,
+  confirmRecurringOccurrences,
+  fetchPendingOccurrences,
+  generateRecurringOccurrences,
+  skipRecurringOccurrence,
+} from '@/lib/recurring';
+
+interface RecurringOccurrencesCardProps {
+  referenceMonth: string;
+  hideWhenEmpty?: boolean; // The dashboard only shows the card when something is pending
+  onConfirmed?: () => void; // Lets the parent reload its transactions
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+export const RecurringOccurrencesCard: React.FC<RecurringOccurrencesCardProps> = ({
+  referenceMonth,
+  hideWhenEmpty = false,
+  onConfirmed
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [occurrences, setOccurrences] = useState<PendingOccurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [editingOccurrence, setEditingOccurrence] = useState<PendingOccurrence | null>(null);
+
+  // Opening a month materializes whatever is due in it before listing what is pending
+  const loadOccurrences = useCallback(async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      await generateRecurringOccurrences(user.id, referenceMonth);
+      setOccurrences(await fetchPendingOccurrences(user.id, referenceMonth));
+    } catch (error) {
+      console.error('Error loading recurring occurrences:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar lançamentos recorrentes",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, referenceMonth, toast]);
+
+  useEffect(() => {
+    loadOccurrences();
+  }, [loadOccurrences]);
+
+  const handleConfirm = async (occurrenceIds: number[]) => {
+    setWorking(true);
+    try {
+      const confirmed = await confirmRecurringOccurrences(occurrenceIds);
+      toast({
+        title: "Sucesso",
+        description: confirmed === 1 ? "1 lançamento confirmado" : `${confirmed} lançamentos confirmados`
+      });
+      setOccurrences(prev => prev.filter(o => !occurrenceIds.includes(o.id)));
+      onConfirmed?.();
+    } catch (error) {
+      console.error('Error confirming recurring occurrences:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao confirmar lançamentos",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSkip = async (occurrence: PendingOccurrence) => {
+    try {
+      await skipRecurringOccurrence(occurrence.id);
+      setOccurrences(prev => prev.filter(o => o.id !== occurrence.id));
+    } catch (error) {
+      console.error('Error skipping recurring occurrence:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao pular lançamento",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (hideWhenEmpty && (loading || occurrences.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Lançamentos Recorrentes Pendentes
+            {occurrences.length > 0 && <Badge variant="secondary">{occurrences.length}</Badge>}
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadOccurrences} disabled={loading || working}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Gerar lançamentos
+            </Button>
+            {occurrences.length > 1 && (
+              <Button size="sm" onClick={() => handleConfirm(occurrences.map(o => o.id))} disabled={working}>
+                <Check className="h-4 w-4 mr-2" />
+                Confirmar todos
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-4 text-muted-foreground">Carregando...</div>
+        ) : occurrences.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum lançamento recorrente pendente neste mês.</p>
+        ) : (
+          <div className="divide-y">
+            {occurrences.map(occurrence => {
+              const overdue = occurrence.reference_month < referenceMonth;
+              return (
+                <div key={occurrence.id} className="flex items-center gap-4 py-2">
+                  <div className="w-24 text-sm text-muted-foreground">{formatDate(occurrence.transaction_date)}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{occurrence.description}</span>
+                      {overdue && <Badge variant="destructive">Atrasado</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {occurrence.accounts?.name}
+                      {occurrence.categories?.name && ` · ${occurrence.categories.name}`}
+                    </p>
+                  </div>
+                  <div className={`font-medium ${occurrence.type === 'Income' ? 'text-green-600' : 'text-red-600'}`}>
+                    {occurrence.type === 'Income' ? '+' : '-'}{formatCurrency(Number(occurrence.amount))}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleConfirm([occurrence.id])}
+                      disabled={working}
+                      title="Confirmar lançamento"
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingOccurrence(occurrence)}
+                      title="Editar"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSkip(occurrence)}
+                      disabled={working}
+                      title="Pular esta ocorrência"
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <RecurringTemplateModal
+        isOpen={editingOccurrence !== null}
+        onClose={() => setEditingOccurrence(null)}
+        occurrence={editingOccurrence}
+        onSaved={loadOccurrences}
+      />
+    </Card>
+  );
+};
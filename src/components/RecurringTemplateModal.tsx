@@ -0,0 +1,560 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { Database } from '@/integrations/supabase/types';
+import {
+  RECURRING_FREQUENCIES,
+  RecurringFrequency,
+  RecurringOccurrence,
+  RecurringTemplate,
+  RecurringTemplateInput,
+  createRecurringTemplate,
+  fetchRecurringTemplate,
+  nextOccurrenceDate,
+  remainingOccurrenceCount,
+  updateRecurringOccurrence,
+  updateRecurringTemplate,
+} from '@/lib/recurring';
+
+type TransactionType = Database['public']['Enums']['transaction_type'];
+
+interface Account {
+  id: number;
+  name: string;
+}
+
+interface Category {
+  id: number;
+  name: string;
+  type: Database['public']['Enums']['category_type'];
+}
+
+interface Subcategory {
+  id: number;
+  name: string;
+  category_id: number;
+}
+
+type EditScope = 'single' | 'future';
+type EndMode = 'never' | 'date' | 'count';
+
+interface TemplateFormData {
+  description: string;
+  type: TransactionType;
+  amount: string;
+  account_id: string;
+  category_id: string;
+  subcategory_id: string;
+  frequency: RecurringFrequency;
+  frequency_interval: string;
+  day_of_month: string;
+  start_date: string;
+  end_mode: EndMode;
+  end_date: string;
+  occurrence_count: string;
+  // Only used when editing a single occurrence
+  transaction_date: string;
+  reference_month: string;
+}
+
+interface RecurringTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  template?: RecurringTemplate | null; // Template being edited from the list; a new one is created when empty
+  occurrence?: RecurringOccurrence | null; // Pending occurrence being edited; its template is loaded
+  onSaved?: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): TemplateFormData => ({
+  description: '',
+  type: 'Expense',
+  amount: '',
+  account_id: '',
+  category_id: '',
+  subcategory_id: '',
+  frequency: 'monthly',
+  frequency_interval: '1',
+  day_of_month: today().slice(8, 10).replace(/^0/, ''),
+  start_date: today(),
+  end_mode: 'never',
+  end_date: '',
+  occurrence_count: '',
+  transaction_date: today(),
+  reference_month: today().slice(0, 7) + '-01'
+});
+
+// The template's schedule as it continues from `fromDate`; transaction values come from
+// the occurrence when one is being edited, since that is what the user is looking at
+const toFormData = (
+  template: RecurringTemplate,
+  fromDate: string,
+  occurrence: RecurringOccurrence | null
+): TemplateFormData => {
+  const values = occurrence ?? template;
+  const remaining = remainingOccurrenceCount(template, fromDate);
+
+  return {
+    description: values.description,
+    type: template.type,
+    amount: values.amount.toString(),
+    account_id: values.account_id.toString(),
+    category_id: values.category_id?.toString() ?? '',
+    subcategory_id: values.subcategory_id?.toString() ?? '',
+    frequency: template.frequency as RecurringFrequency,
+    frequency_interval: template.frequency_interval.toString(),
+    day_of_month: template.day_of_month?.toString() ?? fromDate.slice(8, 10).replace(/^0/, ''),
+    start_date: fromDate,
+    end_mode: remaining !== null ? 'count' : template.end_date ? 'date' : 'never',
+    end_date: template.end_date ?? '',
+    occurrence_count: remaining?.toString() ?? '',
+    transaction_date: occurrence?.transaction_date ?? fromDate,
+    reference_month: occurrence?.reference_month ?? fromDate.slice(0, 7) + '-01'
+  };
+};
+
+export const RecurringTemplateModal: React.FC<RecurringTemplateModalProps> = ({
+  isOpen,
+  onClose,
+  template = null,
+  occurrence = null,
+  onSaved
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [editedTemplate, setEditedTemplate] = useState<RecurringTemplate | null>(null);
+  const [fromDate, setFromDate] = useState(today);
+  const [scope, setScope] = useState<EditScope>('single');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<TemplateFormData>(emptyForm);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [accountsRes, categoriesRes, subcategoriesRes, loadedTemplate] = await Promise.all([
+        supabase.from('accounts').select('id, name').eq('user_id', user?.id).order('name'),
+        supabase.from('categories').select('id, name, type').eq('user_id', user?.id).order('name'),
+        supabase.from('subcategories').select('id, name, category_id').eq('user_id', user?.id).order('name'),
+        occurrence ? fetchRecurringTemplate(occurrence.template_id) : Promise.resolve(template)
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (subcategoriesRes.error) throw subcategoriesRes.error;
+
+      setAccounts(accountsRes.data || []);
+      setCategories(categoriesRes.data || []);
+      setSubcategories(subcategoriesRes.data || []);
+      setEditedTemplate(loadedTemplate);
+      setScope('single');
+
+      if (loadedTemplate) {
+        // From the list, changes apply from the next due date on
+        const from = occurrence?.scheduled_date ?? nextOccurrenceDate(loadedTemplate, today()) ?? today();
+        setFromDate(from);
+        setFormData(toFormData(loadedTemplate, from, occurrence));
+      } else {
+        setFormData(emptyForm());
+      }
+    } catch (error) {
+      console.error('Error fetching recurring template data:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar dados",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, template, occurrence, toast]);
+
+  useEffect(() => {
+    if (isOpen && user) {
+      loadData();
+    }
+  }, [isOpen, user, loadData]);
+
+  const editingSingle = occurrence !== null && scope === 'single';
+  // Debt and investment payments also update the linked balance, which only TransactionModal does
+  const availableCategories = categories.filter(c => c.type !== 'Debt' && c.type !== 'Investment');
+  const availableSubcategories = subcategories.filter(s => s.category_id === parseInt(formData.category_id));
+  const frequencyUnit = RECURRING_FREQUENCIES.find(f => f.value === formData.frequency)?.unit;
+
+  const validate = (): string | null => {
+    if (!formData.description.trim()) return 'Informe a descrição';
+    if (!(parseFloat(formData.amount) > 0)) return 'O valor deve ser maior que zero';
+    if (!formData.account_id) return 'Selecione a conta';
+    if (editingSingle) return null;
+
+    if (!(parseInt(formData.frequency_interval) >= 1)) return 'O intervalo deve ser de pelo menos 1';
+    const day = parseInt(formData.day_of_month);
+    if (formData.frequency === 'monthly' && !(day >= 1 && day <= 31)) return 'O dia do mês deve estar entre 1 e 31';
+    if (!formData.start_date) return 'Informe a data de início';
+    if (formData.end_mode === 'date' && (!formData.end_date || formData.end_date < formData.start_date)) {
+      return 'A data final deve ser posterior à data de início';
+    }
+    if (formData.end_mode === 'count' && !(parseInt(formData.occurrence_count) >= 1)) {
+      return 'Informe o número de ocorrências';
+    }
+    return null;
+  };
+
+  const buildTemplateInput = (): RecurringTemplateInput => ({
+    description: formData.description.trim(),
+    amount: parseFloat(formData.amount),
+    type: formData.type,
+    account_id: parseInt(formData.account_id),
+    category_id: formData.category_id ? parseInt(formData.category_id) : null,
+    subcategory_id: formData.subcategory_id ? parseInt(formData.subcategory_id) : null,
+    frequency: formData.frequency,
+    frequency_interval: parseInt(formData.frequency_interval),
+    day_of_month: formData.frequency === 'monthly' ? parseInt(formData.day_of_month) : null,
+    start_date: formData.start_date,
+    end_date: formData.end_mode === 'date' ? formData.end_date : null,
+    occurrence_count: formData.end_mode === 'count' ? parseInt(formData.occurrence_count) : null,
+    is_active: editedTemplate?.is_active ?? true
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validate();
+    if (validationError) {
+      toast({ title: "Erro", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingSingle && occurrence) {
+        await updateRecurringOccurrence(occurrence.id, {
+          description: formData.description.trim(),
+          amount: parseFloat(formData.amount),
+          account_id: parseInt(formData.account_id),
+          category_id: formData.category_id ? parseInt(formData.category_id) : null,
+          subcategory_id: formData.subcategory_id ? parseInt(formData.subcategory_id) : null,
+          transaction_date: formData.transaction_date,
+          reference_month: formData.reference_month
+        });
+      } else if (editedTemplate) {
+        await updateRecurringTemplate(editedTemplate.id, buildTemplateInput(), fromDate);
+      } else {
+        await createRecurringTemplate(user!.id, buildTemplateInput());
+      }
+
+      toast({
+        title: "Sucesso",
+        description: editingSingle
+          ? "Ocorrência atualizada com sucesso"
+          : editedTemplate ? "Lançamento recorrente atualizado com sucesso" : "Lançamento recorrente criado com sucesso"
+      });
+      onClose();
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving recurring template:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao salvar lançamento recorrente",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {template || occurrence ? 'Editar Lançamento Recorrente' : 'Novo Lançamento Recorrente'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">Carregando...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {occurrence && (
+              <RadioGroup
+                value={scope}
+                onValueChange={(value) => setScope(value as EditScope)}
+                className="rounded-lg border p-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="single" id="scope-single" />
+                  <Label htmlFor="scope-single">Somente esta ocorrência</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="future" id="scope-future" />
+                  <Label htmlFor="scope-future">Esta e as futuras</Label>
+                </div>
+              </RadioGroup>
+            )}
+
+            <div>
+              <Label htmlFor="recurring-description">Descrição *</Label>
+              <Input
+                id="recurring-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Ex: Aluguel"
+                maxLength={200}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Tipo *</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData({ ...formData, type: value as TransactionType })}
+                  disabled={editingSingle}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    <SelectItem value="Expense">Despesa</SelectItem>
+                    <SelectItem value="Income">Receita</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="recurring-amount">Valor *</Label>
+                <Input
+                  id="recurring-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  placeholder="0,00"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Conta *</Label>
+              <Select
+                value={formData.account_id}
+                onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a conta" />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Categoria</Label>
+                <Select
+                  value={formData.category_id}
+                  onValueChange={(value) => setFormData({ ...formData, category_id: value, subcategory_id: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a categoria" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {availableCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {availableSubcategories.length > 0 && (
+                <div>
+                  <Label>Subcategoria</Label>
+                  <Select
+                    value={formData.subcategory_id}
+                    onValueChange={(value) => setFormData({ ...formData, subcategory_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a subcategoria" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background">
+                      {availableSubcategories.map(subcategory => (
+                        <SelectItem key={subcategory.id} value={subcategory.id.toString()}>{subcategory.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {editingSingle ? (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="occurrence-date">Data *</Label>
+                  <Input
+                    id="occurrence-date"
+                    type="date"
+                    value={formData.transaction_date}
+                    onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label>Mês de Referência *</Label>
+                  <MonthYearPicker
+                    value={formData.reference_month}
+                    onValueChange={(value) => setFormData({ ...formData, reference_month: value })}
+                    placeholder="Selecione o mês de referência"
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3 rounded-lg border p-4">
+                <p className="text-sm font-medium">Repetição</p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Frequência</Label>
+                    <Select
+                      value={formData.frequency}
+                      onValueChange={(value) => setFormData({ ...formData, frequency: value as RecurringFrequency })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-background">
+                        {RECURRING_FREQUENCIES.map(f => (
+                          <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="recurring-interval">A cada ({frequencyUnit})</Label>
+                    <Input
+                      id="recurring-interval"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={formData.frequency_interval}
+                      onChange={(e) => setFormData({ ...formData, frequency_interval: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="recurring-start">{editedTemplate ? 'A partir de *' : 'Início *'}</Label>
+                    <Input
+                      id="recurring-start"
+                      type="date"
+                      value={formData.start_date}
+                      onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                      required
+                    />
+                  </div>
+                  {formData.frequency === 'monthly' && (
+                    <div>
+                      <Label htmlFor="recurring-day">Dia do mês</Label>
+                      <Input
+                        id="recurring-day"
+                        type="number"
+                        min="1"
+                        max="31"
+                        value={formData.day_of_month}
+                        onChange={(e) => setFormData({ ...formData, day_of_month: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formData.frequency === 'monthly'
+                    ? 'Em meses mais curtos, dias como 31 caem no último dia do mês.'
+                    : formData.frequency === 'weekly'
+                      ? 'Repete no mesmo dia da semana da data de início.'
+                      : 'Repete no mesmo dia e mês da data de início.'}
+                </p>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Término</Label>
+                    <Select
+                      value={formData.end_mode}
+                      onValueChange={(value) => setFormData({ ...formData, end_mode: value as EndMode })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-background">
+                        <SelectItem value="never">Sem término</SelectItem>
+                        <SelectItem value="date">Até uma data</SelectItem>
+                        <SelectItem value="count">Após N ocorrências</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.end_mode === 'date' && (
+                    <div>
+                      <Label htmlFor="recurring-end">Data final</Label>
+                      <Input
+                        id="recurring-end"
+                        type="date"
+                        value={formData.end_date}
+                        onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  {formData.end_mode === 'count' && (
+                    <div>
+                      <Label htmlFor="recurring-count">
+                        {editedTemplate ? 'Ocorrências restantes' : 'Ocorrências'}
+                      </Label>
+                      <Input
+                        id="recurring-count"
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={formData.occurrence_count}
+                        onChange={(e) => setFormData({ ...formData, occurrence_count: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {editedTemplate && (
+                  <p className="text-xs text-muted-foreground">
+                    Ocorrências anteriores e já confirmadas não são alteradas.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editedTemplate || occurrence ? 'Atualizar' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
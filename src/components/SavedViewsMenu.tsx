@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, Pin, PinOff, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_SAVED_VIEW_NAME_LENGTH,
+  SavedView,
+  TransactionFilters,
+  createSavedView,
+  deleteSavedView,
+  setSavedViewPinned,
+} from '@/lib/transactionFilters';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  filters: TransactionFilters; // Current filters, stored by "Salvar visão atual"
+  onViewsChange: (views: SavedView[]) => void;
+  onApply: (view: SavedView) => void;
+}
+
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+  views,
+  filters,
+  onViewsChange,
+  onApply
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim()) return;
+
+    try {
+      setSaving(true);
+      const view = await createSavedView(user.id, name, filters);
+      onViewsChange([...views, view].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR')));
+      setIsSaveOpen(false);
+      setName('');
+      toast({
+        title: "Sucesso",
+        description: "Visão salva com sucesso"
+      });
+    } catch (error) {
+      console.error('Error saving view:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao salvar visão",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePin = async (view: SavedView) => {
+    try {
+      await setSavedViewPinned(view.id, !view.is_pinned);
+      onViewsChange(views.map(v => v.id === view.id ? { ...v, is_pinned: !view.is_pinned } : v));
+    } catch (error) {
+      console.error('Error pinning view:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao fixar visão",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    try {
+      await deleteSavedView(view.id);
+      onViewsChange(views.filter(v => v.id !== view.id));
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir visão",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="h-4 w-4 mr-2" />
+            Visões
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          {views.length > 0 && (
+            <>
+              <DropdownMenuLabel>Visões salvas</DropdownMenuLabel>
+              {views.map(view => (
+                <DropdownMenuItem key={view.id} onClick={() => onApply(view)} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">{view.name}</span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleTogglePin(view);
+                    }}
+                    className="text-muted-foreground hover:text-foreground"
+                    title={view.is_pinned ? 'Desafixar do cabeçalho' : 'Fixar no cabeçalho'}
+                  >
+                    {view.is_pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(view);
+                    }}
+                    className="text-muted-foreground hover:text-destructive"
+                    title="Excluir visão"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onClick={() => setIsSaveOpen(true)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Salvar visão atual
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Salvar Visão</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label htmlFor="view_name">Nome *</Label>
+              <Input
+                id="view_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Alimentação no cartão este ano"
+                maxLength={MAX_SAVED_VIEW_NAME_LENGTH}
+                required
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Guarda os filtros e a ordenação atuais.
+              </p>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                Salvar
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
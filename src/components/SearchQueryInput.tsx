@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import { SEARCH_FIELDS, SEARCH_TYPE_VALUES, SearchQueryError, normalizeSearchText } from '@/lib/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  error: SearchQueryError | null;
+  // Known names offered after "categoria:", "conta:" and so on
+  values: { categoria: string[]; subcategoria: string[]; conta: string[]; tag: string[] };
+}
+
+interface Suggestion {
+  label: string;
+  detail?: string;
+  insert: string; // Replaces the term being typed
+  keepOpen: boolean; // A field name is followed by its value
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Search box for the transactions search language, with autocomplete for field
+ * names and for the names that follow them, and the parse error shown inline.
+ */
+export const SearchQueryInput: React.FC<SearchQueryInputProps> = ({
+  value,
+  onChange,
+  error,
+  values
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [focused, setFocused] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // The term under the caret: from the previous space up to the caret
+  const termStart = value.slice(0, caret).search(/\S*$/);
+  const term = value.slice(termStart, caret);
+  const negation = term.startsWith('-') ? '-' : '';
+  const fieldMatch = /^([a-zA-ZÀ-ÿ]+):"?([^"]*)$/.exec(term.slice(negation.length));
+
+  const suggestions: Suggestion[] = (() => {
+    if (fieldMatch) {
+      const field = normalizeSearchText(fieldMatch[1]);
+      const typed = normalizeSearchText(fieldMatch[2]);
+      const options = field === 'tipo' ? SEARCH_TYPE_VALUES : values[field as keyof typeof values] ?? [];
+      return options
+        .filter(option => normalizeSearchText(option).includes(typed))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(option => ({ label: option, insert: `${negation}${field}:${quoteIfNeeded(option)} `, keepOpen: false }));
+    }
+
+    const typed = normalizeSearchText(term.slice(negation.length));
+    if (/[:<>=]/.test(typed)) return [];
+    return SEARCH_FIELDS
+      .filter(field => field.name.startsWith(typed))
+      .map(field => ({ label: field.name, detail: field.example, insert: `${negation}${field.insert}`, keepOpen: true }));
+  })();
+
+  const updateCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const next = value.slice(0, termStart) + suggestion.insert + value.slice(caret).replace(/^\S*/, '');
+    const nextCaret = termStart + suggestion.insert.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setHighlighted(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+    if (!suggestion.keepOpen) setFocused(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!focused || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && term) {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-2 top-[1.125rem] -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setHighlighted(0);
+          setFocused(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCaret}
+        onClick={updateCaret}
+        onFocus={() => {
+          setFocused(true);
+          updateCaret();
+        }}
+        onBlur={() => setFocused(false)}
+        placeholder='Ex: mercado valor>200 categoria:Mercado data:2026-01..2026-03 -tag:reembolsável'
+        className={`h-9 text-sm pl-8 font-mono ${error ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+        aria-invalid={error !== null}
+        spellCheck={false}
+      />
+
+      {error && (
+        <p className="mt-1 text-xs text-destructive">
+          {error.message}
+          {error.end > error.start && (
+            <> (em <span className="font-mono">{value.slice(error.start, error.end)}</span>)</>
+          )}
+        </p>
+      )}
+
+      {focused && suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full max-w-md rounded-md border bg-background shadow-md">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.label}
+              type="button"
+              // mousedown fires before the input's blur, so the click isn't lost
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(suggestion);
+              }}
+              className={`flex w-full items-center justify-between gap-4 px-3 py-1.5 text-left text-sm ${index === highlighted ? 'bg-muted' : 'hover:bg-muted'}`}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.detail && <span className="text-xs text-muted-foreground">{suggestion.detail}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
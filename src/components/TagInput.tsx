@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+import { MAX_TAG_LENGTH, normalizeTagName } from '@/lib/tags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Names of the user's existing tags
+  id?: string;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Tag chips with autocomplete. Enter, comma or Tab adds the typed tag (or the
+ * highlighted suggestion); Backspace on an empty input removes the last chip.
+ */
+export const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  suggestions,
+  id,
+  placeholder = 'Adicionar tag'
+}) => {
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = normalizeTagName(input);
+  const matches = query
+    ? suggestions.filter(s => s.includes(query) && !value.includes(s)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name).slice(0, MAX_TAG_LENGTH);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && query)) {
+      if (!query) return;
+      e.preventDefault();
+      addTag(matches[highlighted] ?? query);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Escape') {
+      setInput('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 min-h-10 w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-muted-foreground hover:text-foreground"
+              title={`Remover "${tag}"`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          id={id}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          // Adding on blur keeps a typed tag that was never confirmed with Enter
+          onBlur={() => {
+            setFocused(false);
+            if (query) addTag(query);
+          }}
+          placeholder={value.length === 0 ? placeholder : ''}
+          maxLength={MAX_TAG_LENGTH}
+          className="flex-1 min-w-[100px] bg-transparent outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+
+      {focused && matches.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-background shadow-md">
+          {matches.map((match, index) => (
+            <button
+              key={match}
+              type="button"
+              // mousedown fires before the input's blur, so the click isn't lost
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(match);
+              }}
+              className={`block w-full px-3 py-1.5 text-left text-sm ${index === highlighted ? 'bg-muted' : 'hover:bg-muted'}`}
+            >
+              {match}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
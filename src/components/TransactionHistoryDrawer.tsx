@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatReferenceMonth } from '@/lib/referenceMonth';
+import {
+  HISTORY_FIELDS,
+  HistoryChange,
+  TransactionHistoryEntry,
+  diffHistoryEntry,
+  fetchTransactionHistory,
+  getEntryVersion,
+  getTrashMove,
+  restoreTransactionVersion
+} from '@/lib/transactionHistory';
+
+interface NamedItem {
+  id: number;
+  name: string;
+}
+
+interface TransactionHistoryDrawerProps {
+  transactionId: number | null;
+  title?: string;
+  isTransfer: boolean;
+  accounts: NamedItem[];
+  categories: NamedItem[];
+  subcategories: NamedItem[];
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  INSERT: 'Criada',
+  UPDATE: 'Alterada',
+  DELETE: 'Excluída'
+};
+
+const TRASH_MOVE_LABELS = {
+  trashed: 'Movida para a lixeira',
+  restored: 'Restaurada da lixeira'
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatDate = (date: string) => new Date(date + 'T12:00:00').toLocaleDateString('pt-BR');
+
+export const TransactionHistoryDrawer: React.FC<TransactionHistoryDrawerProps> = ({
+  transactionId,
+  title,
+  isTransfer,
+  accounts,
+  categories,
+  subcategories,
+  onClose,
+  onRestored
+}) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<TransactionHistoryEntry[]>([]);
+  const [debtNames, setDebtNames] = useState<Map<number, string>>(new Map());
+  const [investmentNames, setInvestmentNames] = useState<Map<number, string>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadHistory = useCallback(async (id: number) => {
+    try {
+      setLoading(true);
+      const history = await fetchTransactionHistory(id);
+      setEntries(history);
+
+      // Debts and investments aren't among the page's lookups: load the ones the history mentions
+      const idsOf = (field: 'debt_id' | 'investment_id') => Array.from(new Set(
+        history.flatMap(entry => diffHistoryEntry(entry).filter(c => c.field === field).flatMap(c => [c.before, c.after]))
+          .filter((value): value is number => typeof value === 'number')
+      ));
+      const [debtsRes, investmentsRes] = await Promise.all([
+        supabase.from('debts').select('id, description').in('id', idsOf('debt_id')),
+        supabase.from('investments').select('id, name').in('id', idsOf('investment_id'))
+      ]);
+      setDebtNames(new Map((debtsRes.data || []).map(d => [d.id, d.description])));
+      setInvestmentNames(new Map((investmentsRes.data || []).map(i => [i.id, i.name])));
+    } catch (error) {
+      console.error('Error fetching transaction history:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar histórico",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (transactionId !== null) {
+      loadHistory(transactionId);
+    } else {
+      setEntries([]);
+    }
+  }, [transactionId, loadHistory]);
+
+  const handleRestore = async (entry: TransactionHistoryEntry) => {
+    try {
+      setRestoringId(entry.id);
+      await restoreTransactionVersion(entry.id);
+
+      toast({
+        title: "Sucesso",
+        description: "Versão restaurada com sucesso"
+      });
+      onRestored();
+      await loadHistory(entry.transaction_id);
+    } catch (error) {
+      console.error('Error restoring transaction version:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao restaurar versão",
+        variant: "destructive"
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const nameOf = (items: NamedItem[] | Map<number, string>, id: number) => {
+    const name = items instanceof Map ? items.get(id) : items.find(item => item.id === id)?.name;
+    return name ?? `#${id} (não existe mais)`;
+  };
+
+  const formatValue = (change: HistoryChange, value: HistoryChange['before']) => {
+    if (value === null || value === '') return '—';
+    switch (change.field) {
+      case 'amount':
+        return formatCurrency(Number(value));
+      case 'type':
+        return value === 'Income' ? 'Receita' : 'Despesa';
+      case 'transaction_date':
+        return formatDate(String(value));
+      case 'reference_month':
+        return formatReferenceMonth(String(value));
+      case 'account_id':
+        return nameOf(accounts, Number(value));
+      case 'category_id':
+        return nameOf(categories, Number(value));
+      case 'subcategory_id':
+        return nameOf(subcategories, Number(value));
+      case 'debt_id':
+        return nameOf(debtNames, Number(value));
+      case 'investment_id':
+        return nameOf(investmentNames, Number(value));
+      default:
+        return String(value);
+    }
+  };
+
+  return (
+    <Sheet open={transactionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Histórico</SheetTitle>
+          {title && <SheetDescription>{title}</SheetDescription>}
+        </SheetHeader>
+
+        <div className="mt-4 space-y-3">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Carregando...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nenhuma alteração registrada. O histórico começa a partir da primeira alteração feita após a sua ativação.
+            </p>
+          ) : (
+            entries.map((entry, index) => {
+              const changes = diffHistoryEntry(entry);
+              const trashMove = getTrashMove(entry);
+              // The newest entry of an existing transaction is its current version
+              const isCurrent = index === 0 && entry.operation !== 'DELETE';
+
+              return (
+                <div key={entry.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <div>
+                      <span className="text-sm font-medium">{trashMove ? TRASH_MOVE_LABELS[trashMove] : OPERATION_LABELS[entry.operation] ?? entry.operation}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {new Date(entry.changed_at).toLocaleString('pt-BR')}
+                      </span>
+                    </div>
+                    {isCurrent ? (
+                      <span className="text-xs text-muted-foreground">Versão atual</span>
+                    ) : !isTransfer && !trashMove && getEntryVersion(entry) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(entry)}
+                        disabled={restoringId !== null}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {restoringId === entry.id ? 'Restaurando...' : 'Restaurar esta versão'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {changes.length === 0 ? (
+                    !trashMove && <p className="text-xs text-muted-foreground">Sem mudanças nos campos exibidos.</p>
+                  ) : (
+                    <dl className="space-y-1 text-sm">
+                      {changes.map(change => (
+                        <div key={change.field} className="grid grid-cols-[120px_1fr] gap-2">
+                          <dt className="text-muted-foreground">
+                            {HISTORY_FIELDS.find(f => f.field === change.field)?.label}
+                          </dt>
+                          <dd className="break-words">
+                            {entry.operation === 'UPDATE' && (
+                              <>
+                                <span className="text-red-600 line-through">{formatValue(change, change.before)}</span>
+                                {' → '}
+                              </>
+                            )}
+                            <span className={entry.operation === 'DELETE' ? 'text-red-600 line-through' : 'text-green-600'}>
+                              {formatValue(change, entry.operation === 'DELETE' ? change.before : change.after)}
+                            </span>
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {isTransfer && entries.length > 0 && (
+          <p className="mt-4 text-xs text-muted-foreground">
+            Transferências não podem ser restauradas por aqui; edite a transferência.
+          </p>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -7,9 +7,27 @@ import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { Database } from '@/integrations/supabase/types';
 import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { Wand2 } from 'lucide-react';
+import { CategorizationRule, fetchCategorizationRules, findMatchingRule } from '@/lib/categorizationRules';
+import { TransactionSplitEditor } from '@/components/TransactionSplitEditor';
+import { TagInput } from '@/components/TagInput';
+import { fetchTags, fetchTransactionTags, saveTransactionTags } from '@/lib/tags';
+import { MAX_PAYEE_LENGTH, Payee, ensurePayee, fetchPayees } from '@/lib/payees';
+import { AttachmentUploadArea } from '@/components/AttachmentUploadArea';
+import { TransactionAttachment, deleteAttachment, fetchAttachments, uploadAttachment } from '@/lib/attachments';
+import {
+  SplitLineDraft,
+  emptySplitLine,
+  fetchTransactionSplits,
+  saveTransactionSplits,
+  toSplitLineDrafts,
+  toSplitLines,
+  validateSplitLines
+} from '@/lib/transactionSplits';
 
 interface Transaction {
   id: number;
@@ -23,6 +41,8 @@ interface Transaction {
   subcategory_id: number | null;
   investment_id: number | null;
   debt_id: number | null;
+  payee_id?: number | null;
+  payee_name?: string | null;
   created_at: string;
 }
 
@@ -73,9 +93,25 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [allSubcategories, setAllSubcategories] = useState<Subcategory[]>([]);
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [debts, setDebts] = useState<Debt[]>([]);
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRule[]>([]);
   const [loading, setLoading] = useState(true);
+  // Split lines replace the single category; `hadSplits` tracks whether saving must remove a stored split
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLineDraft[]>([]);
+  const [hadSplits, setHadSplits] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [hadTags, setHadTags] = useState(false);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [payees, setPayees] = useState<Payee[]>([]);
+  // Attachment changes are applied on save: new files are uploaded, removed ones deleted
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [removedAttachments, setRemovedAttachments] = useState<TransactionAttachment[]>([]);
+  // Dependent fields to restore after a category change triggered by a rule suggestion
+  const pendingDependentsRef = useRef<{ subcategory_id: string; investment_id: string; debt_id: string } | null>(null);
   
   const [formData, setFormData] = useState<{
     description: string;
@@ -88,6 +124,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
     subcategory_id: string;
     investment_id: string;
     debt_id: string;
+    payee_name: string;
   }>({
     description: '',
     amount: '',
@@ -98,7 +135,8 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
     category_id: '',
     subcategory_id: '',
     investment_id: '',
-    debt_id: ''
+    debt_id: '',
+    payee_name: ''
   });
 
   // Fetch initial data when modal opens
@@ -121,8 +159,12 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
         category_id: transaction.category_id?.toString() || '',
         subcategory_id: transaction.subcategory_id?.toString() || '',
         investment_id: transaction.investment_id?.toString() || '',
-        debt_id: transaction.debt_id?.toString() || ''
+        debt_id: transaction.debt_id?.toString() || '',
+        payee_name: transaction.payee_name || ''
       });
+      loadSplits(transaction.id);
+      loadTags(transaction.id);
+      loadAttachments(transaction.id);
     } else {
       resetForm();
     }
@@ -135,29 +177,40 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
     } else {
       setSubcategories([]);
     }
-    // Reset dependent fields
-    setFormData(prev => ({ ...prev, subcategory_id: '', investment_id: '', debt_id: '' }));
+    // Reset dependent fields (or fill them from an accepted rule suggestion)
+    const dependents = pendingDependentsRef.current ?? { subcategory_id: '', investment_id: '', debt_id: '' };
+    pendingDependentsRef.current = null;
+    setFormData(prev => ({ ...prev, ...dependents }));
   }, [formData.category_id]);
 
   const fetchInitialData = async () => {
     try {
       setLoading(true);
-      const [accountsRes, categoriesRes, investmentsRes, debtsRes] = await Promise.all([
+      const [accountsRes, categoriesRes, subcategoriesRes, investmentsRes, debtsRes, rulesData, tagsData, payeesData] = await Promise.all([
         supabase.from('accounts').select('*').eq('user_id', user?.id),
         supabase.from('categories').select('*').eq('user_id', user?.id),
+        supabase.from('subcategories').select('*').eq('user_id', user?.id),
         supabase.from('investments').select('id, name').eq('user_id', user?.id).order('name', { ascending: true }),
-        supabase.from('debts').select('id, description').eq('user_id', user?.id).gt('current_balance', 0).order('description', { ascending: true })
+        supabase.from('debts').select('id, description').eq('user_id', user?.id).gt('current_balance', 0).order('description', { ascending: true }),
+        fetchCategorizationRules(user!.id),
+        fetchTags(user!.id),
+        fetchPayees(user!.id)
       ]);
 
       if (accountsRes.error) throw accountsRes.error;
       if (categoriesRes.error) throw categoriesRes.error;
+      if (subcategoriesRes.error) throw subcategoriesRes.error;
       if (investmentsRes.error) throw investmentsRes.error;
       if (debtsRes.error) throw debtsRes.error;
 
       setAccounts(accountsRes.data || []);
       setCategories(categoriesRes.data || []);
+      setAllSubcategories(subcategoriesRes.data || []);
       setInvestments(investmentsRes.data || []);
       setDebts(debtsRes.data || []);
+      setCategorizationRules(rulesData);
+      setTagSuggestions(tagsData.map(tag => tag.name));
+      setPayees(payeesData);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -170,6 +223,69 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
     }
   };
 
+  const loadSplits = async (transactionId: number) => {
+    setIsSplit(false);
+    setSplitLines([]);
+    setHadSplits(false);
+    try {
+      const lines = await fetchTransactionSplits(transactionId);
+      if (lines.length > 0) {
+        setIsSplit(true);
+        setSplitLines(toSplitLineDrafts(lines));
+        setHadSplits(true);
+      }
+    } catch (error) {
+      console.error('Error fetching transaction splits:', error);
+    }
+  };
+
+  const loadTags = async (transactionId: number) => {
+    setTags([]);
+    setHadTags(false);
+    try {
+      const names = await fetchTransactionTags(transactionId);
+      setTags(names);
+      setHadTags(names.length > 0);
+    } catch (error) {
+      console.error('Error fetching transaction tags:', error);
+    }
+  };
+
+  const loadAttachments = async (transactionId: number) => {
+    setAttachments([]);
+    setPendingFiles([]);
+    setRemovedAttachments([]);
+    try {
+      setAttachments(await fetchAttachments(transactionId));
+    } catch (error) {
+      console.error('Error fetching transaction attachments:', error);
+    }
+  };
+
+  const saveAttachmentChanges = async (transactionId: number) => {
+    for (const attachment of removedAttachments) {
+      await deleteAttachment(attachment);
+    }
+    for (const file of pendingFiles) {
+      await uploadAttachment(user!.id, transactionId, file);
+    }
+  };
+
+  const handleSplitToggle = (checked: boolean) => {
+    setIsSplit(checked);
+    if (checked && splitLines.length === 0) {
+      // Start from the current category with the whole amount, plus an empty line to split it into
+      setSplitLines([
+        {
+          amount: formData.amount,
+          category_id: selectedCategory?.type === 'Debt' || selectedCategory?.type === 'Investment' ? '' : formData.category_id,
+          subcategory_id: formData.subcategory_id
+        },
+        emptySplitLine()
+      ]);
+    }
+  };
+
   const fetchSubcategories = async (categoryId: number) => {
     try {
       const { data, error } = await supabase
@@ -315,7 +431,19 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
       return;
     }
 
-    const selectedCategory = categories.find(c => c.id === parseInt(formData.category_id));
+    if (isSplit) {
+      const splitError = validateSplitLines(parseFloat(formData.amount), splitLines);
+      if (splitError) {
+        toast({
+          title: "Erro",
+          description: splitError,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    const selectedCategory = isSplit ? undefined : categories.find(c => c.id === parseInt(formData.category_id));
     
     // Validate heritage fields based on category type
     if (selectedCategory?.type === 'Debt' && !formData.debt_id) {
@@ -337,6 +465,9 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
     }
 
     try {
+      // An empty payee on a new transaction is filled in from the description by the database
+      const payeeId = formData.payee_name.trim() ? await ensurePayee(user!.id, formData.payee_name, payees) : null;
+
       const transactionData = {
         description: formData.description,
         amount: parseFloat(formData.amount),
@@ -344,10 +475,12 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
         transaction_date: formData.transaction_date,
         reference_month: formData.reference_month,
         account_id: parseInt(formData.account_id),
-        category_id: formData.category_id ? parseInt(formData.category_id) : null,
-        subcategory_id: formData.subcategory_id ? parseInt(formData.subcategory_id) : null,
-        investment_id: formData.investment_id ? parseInt(formData.investment_id) : null,
-        debt_id: formData.debt_id ? parseInt(formData.debt_id) : null,
+        // A split transaction is categorized by its lines only
+        category_id: formData.category_id && !isSplit ? parseInt(formData.category_id) : null,
+        subcategory_id: formData.subcategory_id && !isSplit ? parseInt(formData.subcategory_id) : null,
+        investment_id: formData.investment_id && !isSplit ? parseInt(formData.investment_id) : null,
+        debt_id: formData.debt_id && !isSplit ? parseInt(formData.debt_id) : null,
+        payee_id: payeeId,
         user_id: user?.id
       };
 
@@ -359,6 +492,16 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
 
         if (error) throw error;
 
+        if (isSplit || hadSplits) {
+          await saveTransactionSplits(transaction.id, isSplit ? toSplitLines(splitLines) : []);
+        }
+
+        if (tags.length > 0 || hadTags) {
+          await saveTransactionTags(transaction.id, tags);
+        }
+
+        await saveAttachmentChanges(transaction.id);
+
         // Update investment/debt balances for editing (revert old, apply new)
         await updatePatrimonyBalances(transactionData, true, transaction);
 
@@ -367,12 +510,24 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
           description: "Transação atualizada com sucesso"
         });
       } else {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from('transactions')
-          .insert([transactionData]);
+          .insert([transactionData])
+          .select('id')
+          .single();
 
         if (error) throw error;
 
+        if (isSplit) {
+          await saveTransactionSplits(inserted.id, toSplitLines(splitLines));
+        }
+
+        if (tags.length > 0) {
+          await saveTransactionTags(inserted.id, tags);
+        }
+
+        await saveAttachmentChanges(inserted.id);
+
         // Update investment/debt balances for new transaction
         await updatePatrimonyBalances(transactionData);
 
@@ -389,7 +544,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
       console.error('Error saving transaction:', error);
       toast({
         title: "Erro",
-        description: "Erro ao salvar transação",
+        description: error instanceof Error && error.message ? error.message : "Erro ao salvar transação",
         variant: "destructive"
       });
     }
@@ -406,8 +561,37 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
       category_id: '',
       subcategory_id: '',
       investment_id: '',
-      debt_id: ''
+      debt_id: '',
+      payee_name: ''
     });
+    setIsSplit(false);
+    setSplitLines([]);
+    setHadSplits(false);
+    setTags([]);
+    setHadTags(false);
+    setAttachments([]);
+    setPendingFiles([]);
+    setRemovedAttachments([]);
+  };
+
+  // Only suggest for new transactions that have no category yet
+  const suggestedRule = !transaction && !isSplit && !formData.category_id && formData.description.trim()
+    ? findMatchingRule(categorizationRules, {
+        description: formData.description,
+        amount: parseFloat(formData.amount) || 0,
+        type: formData.type,
+        account_id: formData.account_id ? parseInt(formData.account_id) : null
+      })
+    : null;
+
+  const applySuggestedRule = () => {
+    if (!suggestedRule) return;
+    pendingDependentsRef.current = {
+      subcategory_id: suggestedRule.subcategory_id?.toString() ?? '',
+      investment_id: suggestedRule.investment_id?.toString() ?? '',
+      debt_id: suggestedRule.debt_id?.toString() ?? ''
+    };
+    setFormData({ ...formData, category_id: suggestedRule.category_id.toString() });
   };
 
   const selectedCategory = categories.find(c => c.id === parseInt(formData.category_id));
@@ -465,6 +649,23 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                   required
                 />
               </div>
+
+              <div>
+                <Label htmlFor="payee_name">Favorecido</Label>
+                <Input
+                  id="payee_name"
+                  list="payee-suggestions"
+                  value={formData.payee_name}
+                  onChange={(e) => setFormData({ ...formData, payee_name: e.target.value })}
+                  placeholder={transaction ? 'Sem favorecido' : 'Identificado pela descrição'}
+                  maxLength={MAX_PAYEE_LENGTH}
+                />
+                <datalist id="payee-suggestions">
+                  {payees.map(payee => (
+                    <option key={payee.id} value={payee.name} />
+                  ))}
+                </datalist>
+              </div>
               
               <div>
                 <Label htmlFor="amount">Valor *</Label>
@@ -509,88 +710,120 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                 </Select>
               </div>
 
-              <div>
-                <Label htmlFor="category_id">Categoria</Label>
-                <Select 
-                  value={formData.category_id} 
-                  onValueChange={(value) => setFormData({ ...formData, category_id: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione a categoria" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-background">
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.id.toString()}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="is_split">Dividir entre categorias</Label>
+                <Switch id="is_split" checked={isSplit} onCheckedChange={handleSplitToggle} />
               </div>
 
-              {subcategories.length > 0 && (
-                <div>
-                  <Label htmlFor="subcategory_id">Subcategoria</Label>
-                  <Select 
-                    value={formData.subcategory_id} 
-                    onValueChange={(value) => setFormData({ ...formData, subcategory_id: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione a subcategoria" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-background">
-                      {subcategories.map((subcategory) => (
-                        <SelectItem key={subcategory.id} value={subcategory.id.toString()}>
-                          {subcategory.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-
-              {showDebtField && (
-                <div>
-                  <Label htmlFor="debt_id">Vincular a Dívida *</Label>
-                  <Select 
-                    value={formData.debt_id} 
-                    onValueChange={(value) => setFormData({ ...formData, debt_id: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione a dívida" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-background">
-                      {debts.map((debt) => (
-                        <SelectItem key={debt.id} value={debt.id.toString()}>
-                          {debt.description}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-
-              {showInvestmentField && (
-                <div>
-                  <Label htmlFor="investment_id">
-                    {formData.type === 'Expense' ? 'Vincular a Ativo (Aporte) *' : 'Vincular a Ativo (Resgate) *'}
-                  </Label>
-                  <Select 
-                    value={formData.investment_id} 
-                    onValueChange={(value) => setFormData({ ...formData, investment_id: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione o ativo" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-background">
-                      {investments.map((investment) => (
-                        <SelectItem key={investment.id} value={investment.id.toString()}>
-                          {investment.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+              {isSplit ? (
+                <TransactionSplitEditor
+                  total={parseFloat(formData.amount) || 0}
+                  lines={splitLines}
+                  onChange={setSplitLines}
+                  categories={categories}
+                  subcategories={allSubcategories}
+                />
+              ) : (
+                <>
+                  <div>
+                    <Label htmlFor="category_id">Categoria</Label>
+                    <Select 
+                      value={formData.category_id} 
+                      onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione a categoria" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-background">
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id.toString()}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {suggestedRule && (
+                      <div className="mt-2 flex items-center justify-between gap-2 rounded-md border border-dashed bg-background px-3 py-2 text-sm">
+                        <span className="flex items-center gap-2 min-w-0">
+                          <Wand2 className="h-4 w-4 flex-shrink-0 text-primary" />
+                          <span className="truncate">
+                            Sugestão: {categories.find(c => c.id === suggestedRule.category_id)?.name}
+                            <span className="text-muted-foreground"> (regra "{suggestedRule.name}")</span>
+                          </span>
+                        </span>
+                        <Button type="button" variant="outline" size="sm" onClick={applySuggestedRule}>
+                          Aplicar
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {subcategories.length > 0 && (
+                    <div>
+                      <Label htmlFor="subcategory_id">Subcategoria</Label>
+                      <Select 
+                        value={formData.subcategory_id} 
+                        onValueChange={(value) => setFormData({ ...formData, subcategory_id: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a subcategoria" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-background">
+                          {subcategories.map((subcategory) => (
+                            <SelectItem key={subcategory.id} value={subcategory.id.toString()}>
+                              {subcategory.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {showDebtField && (
+                    <div>
+                      <Label htmlFor="debt_id">Vincular a Dívida *</Label>
+                      <Select 
+                        value={formData.debt_id} 
+                        onValueChange={(value) => setFormData({ ...formData, debt_id: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione a dívida" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-background">
+                          {debts.map((debt) => (
+                            <SelectItem key={debt.id} value={debt.id.toString()}>
+                              {debt.description}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {showInvestmentField && (
+                    <div>
+                      <Label htmlFor="investment_id">
+                        {formData.type === 'Expense' ? 'Vincular a Ativo (Aporte) *' : 'Vincular a Ativo (Resgate) *'}
+                      </Label>
+                      <Select 
+                        value={formData.investment_id} 
+                        onValueChange={(value) => setFormData({ ...formData, investment_id: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o ativo" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-background">
+                          {investments.map((investment) => (
+                            <SelectItem key={investment.id} value={investment.id.toString()}>
+                              {investment.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                </>
               )}
 
               <div>
@@ -601,6 +834,31 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                   placeholder="Selecione o mês de referência"
                 />
               </div>
+
+              <div>
+                <Label htmlFor="tags">Tags</Label>
+                <TagInput
+                  id="tags"
+                  value={tags}
+                  onChange={setTags}
+                  suggestions={tagSuggestions}
+                  placeholder="Ex: viagem-2026, reembolsável"
+                />
+              </div>
+
+              <div>
+                <Label>Anexos</Label>
+                <AttachmentUploadArea
+                  attachments={attachments}
+                  pendingFiles={pendingFiles}
+                  onAddFiles={(files) => setPendingFiles(prev => [...prev, ...files])}
+                  onRemoveAttachment={(attachment) => {
+                    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+                    setRemovedAttachments(prev => [...prev, attachment]);
+                  }}
+                  onRemovePendingFile={(index) => setPendingFiles(prev => prev.filter((_, i) => i !== index))}
+                />
+              </div>
             </div>
 
             <div className="flex justify-end space-x-2 pt-4">
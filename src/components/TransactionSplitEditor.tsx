@@ -0,0 +1,132 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { Database } from '@/integrations/supabase/types';
+import { MIN_SPLIT_LINES, SplitLineDraft, emptySplitLine, isSplittableCategory, splitRemainder } from '@/lib/transactionSplits';
+
+interface Category {
+  id: number;
+  name: string;
+  type: Database['public']['Enums']['category_type'];
+}
+
+interface Subcategory {
+  id: number;
+  name: string;
+  category_id: number;
+}
+
+interface TransactionSplitEditorProps {
+  total: number;
+  lines: SplitLineDraft[];
+  onChange: (lines: SplitLineDraft[]) => void;
+  categories: Category[];
+  subcategories: Subcategory[];
+  onCategorySelected?: (categoryId: string) => void; // Lets the parent load the category's subcategories
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const TransactionSplitEditor: React.FC<TransactionSplitEditorProps> = ({
+  total,
+  lines,
+  onChange,
+  categories,
+  subcategories,
+  onCategorySelected
+}) => {
+  const remainder = splitRemainder(total, lines);
+  const splittableCategories = categories.filter(c => isSplittableCategory(c.type));
+
+  const updateLine = (index: number, changes: Partial<SplitLineDraft>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleCategoryChange = (index: number, categoryId: string) => {
+    updateLine(index, { category_id: categoryId, subcategory_id: '' });
+    onCategorySelected?.(categoryId);
+  };
+
+  // The new line starts with whatever is left, which is usually what the user wants
+  const addLine = () => {
+    onChange([...lines, { ...emptySplitLine(), amount: remainder > 0 ? remainder.toFixed(2) : '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {lines.map((line, index) => {
+        const lineSubcategories = subcategories.filter(s => s.category_id === parseInt(line.category_id));
+
+        return (
+          <div key={index} className="grid grid-cols-[7rem_1fr_auto] gap-2 items-start">
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: e.target.value })}
+              placeholder="0,00"
+              aria-label={`Valor da linha ${index + 1}`}
+            />
+            <div className="space-y-2">
+              <Select value={line.category_id} onValueChange={(value) => handleCategoryChange(index, value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Categoria" />
+                </SelectTrigger>
+                <SelectContent className="bg-background">
+                  {splittableCategories.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {lineSubcategories.length > 0 && (
+                <Select value={line.subcategory_id} onValueChange={(value) => updateLine(index, { subcategory_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Subcategoria" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background">
+                    {lineSubcategories.map((subcategory) => (
+                      <SelectItem key={subcategory.id} value={subcategory.id.toString()}>
+                        {subcategory.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(lines.filter((_, i) => i !== index))}
+              disabled={lines.length <= MIN_SPLIT_LINES}
+              title="Remover linha"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="h-4 w-4 mr-1" />
+          Adicionar linha
+        </Button>
+        <Label className={remainder === 0 ? 'text-muted-foreground' : 'text-destructive'}>
+          {remainder === 0
+            ? `Total dividido: ${formatCurrency(total)}`
+            : remainder > 0
+              ? `Faltam ${formatCurrency(remainder)}`
+              : `Excede em ${formatCurrency(-remainder)}`}
+        </Label>
+      </div>
+    </div>
+  );
+};
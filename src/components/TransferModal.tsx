@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { ArrowRight } from 'lucide-react';
+import { fetchTransfer, saveTransfer } from '@/lib/transfers';
+
+interface Account {
+  id: number;
+  name: string;
+}
+
+interface TransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transferId?: number | null; // Transfer being edited; a new one is created when empty
+  onTransferSaved?: () => void;
+}
+
+const emptyForm = () => ({
+  from_account_id: '',
+  to_account_id: '',
+  amount: '',
+  transfer_date: new Date().toISOString().split('T')[0],
+  reference_month: new Date().toISOString().slice(0, 7) + '-01',
+  description: ''
+});
+
+export const TransferModal: React.FC<TransferModalProps> = ({
+  isOpen,
+  onClose,
+  transferId = null,
+  onTransferSaved
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [accountsRes, transfer] = await Promise.all([
+        supabase.from('accounts').select('id, name').eq('user_id', user?.id).order('name'),
+        transferId ? fetchTransfer(transferId) : Promise.resolve(null)
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+      setAccounts(accountsRes.data || []);
+      setFormData(transfer
+        ? {
+            from_account_id: transfer.from_account_id.toString(),
+            to_account_id: transfer.to_account_id.toString(),
+            amount: transfer.amount.toString(),
+            transfer_date: transfer.transfer_date,
+            reference_month: transfer.reference_month,
+            description: transfer.description
+          }
+        : emptyForm());
+    } catch (error) {
+      console.error('Error fetching transfer data:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar dados",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, transferId, toast]);
+
+  useEffect(() => {
+    if (isOpen && user) {
+      loadData();
+    }
+  }, [isOpen, user, loadData]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.from_account_id || !formData.to_account_id || !formData.amount) {
+      toast({
+        title: "Erro",
+        description: "Todos os campos obrigatórios devem ser preenchidos",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.from_account_id === formData.to_account_id) {
+      toast({
+        title: "Erro",
+        description: "As contas de origem e de destino devem ser diferentes",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTransfer(
+        {
+          from_account_id: parseInt(formData.from_account_id),
+          to_account_id: parseInt(formData.to_account_id),
+          amount: parseFloat(formData.amount),
+          transfer_date: formData.transfer_date,
+          reference_month: formData.reference_month,
+          description: formData.description.trim()
+        },
+        transferId ?? undefined
+      );
+
+      toast({
+        title: "Sucesso",
+        description: transferId ? "Transferência atualizada com sucesso" : "Transferência criada com sucesso"
+      });
+      onClose();
+      onTransferSaved?.();
+    } catch (error) {
+      console.error('Error saving transfer:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao salvar transferência",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {transferId ? 'Editar Transferência' : 'Nova Transferência'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">Carregando...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-4 p-4 rounded-lg border-2 border-blue-200 bg-blue-50">
+              <div className="grid grid-cols-[1fr_auto_1fr] gap-2 items-end">
+                <div>
+                  <Label htmlFor="from_account_id">De *</Label>
+                  <Select
+                    value={formData.from_account_id}
+                    onValueChange={(value) => setFormData({ ...formData, from_account_id: value })}
+                  >
+                    <SelectTrigger id="from_account_id">
+                      <SelectValue placeholder="Origem" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background">
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+                <div>
+                  <Label htmlFor="to_account_id">Para *</Label>
+                  <Select
+                    value={formData.to_account_id}
+                    onValueChange={(value) => setFormData({ ...formData, to_account_id: value })}
+                  >
+                    <SelectTrigger id="to_account_id">
+                      <SelectValue placeholder="Destino" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background">
+                      {accounts
+                        .filter(account => account.id.toString() !== formData.from_account_id)
+                        .map((account) => (
+                          <SelectItem key={account.id} value={account.id.toString()}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="transfer_amount">Valor *</Label>
+                <Input
+                  id="transfer_amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  placeholder="0,00"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="transfer_description">Descrição</Label>
+                <Input
+                  id="transfer_description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Transferência"
+                  maxLength={200}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="transfer_date">Data *</Label>
+                <Input
+                  id="transfer_date"
+                  type="date"
+                  value={formData.transfer_date}
+                  onChange={(e) => setFormData({ ...formData, transfer_date: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="transfer_reference_month">Mês de Referência *</Label>
+                <MonthYearPicker
+                  value={formData.reference_month}
+                  onValueChange={(value) => setFormData({ ...formData, reference_month: value })}
+                  placeholder="Selecione o mês de referência"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {transferId ? 'Atualizar Transferência' : 'Salvar Transferência'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
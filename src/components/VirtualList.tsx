@@ -0,0 +1,85 @@
+import React, { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { List, RowComponentProps } from 'react-window';
+
+interface VirtualListProps {
+  rowCount: number;
+  renderRow: (index: number) => React.ReactNode;
+  estimatedRowHeight: number; // Used until a row has been rendered and measured
+  maxHeight: number; // Short lists shrink to their content
+  className?: string;
+  onRowsRendered?: (startIndex: number, stopIndex: number) => void; // Visible range, e.g. to load more rows near the end
+}
+
+interface MeasuredRowProps {
+  renderRow: (index: number) => React.ReactNode;
+  onMeasure: (index: number, height: number) => void;
+}
+
+// Rows have variable heights (banners, extra selects), so each rendered row reports its real height
+const MeasuredRow = ({ index, style, renderRow, onMeasure }: RowComponentProps<MeasuredRowProps>) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    onMeasure(index, element.offsetHeight);
+    const observer = new ResizeObserver(() => onMeasure(index, element.offsetHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [index, onMeasure]);
+
+  return (
+    <div style={style}>
+      {/* flow-root keeps the row's margins inside the measured height */}
+      <div ref={ref} style={{ display: 'flow-root' }}>{renderRow(index)}</div>
+    </div>
+  );
+};
+
+/**
+ * Virtualized list for long lists of variable-height rows: only the rows in view
+ * are mounted. `renderRow` may change on every render; row content is not remounted.
+ */
+export const VirtualList: React.FC<VirtualListProps> = ({
+  rowCount,
+  renderRow,
+  estimatedRowHeight,
+  maxHeight,
+  className,
+  onRowsRendered
+}) => {
+  // Keyed by index: when rows shift, the ResizeObserver re-measures the ones in view
+  const [heights, setHeights] = useState(() => new Map<number, number>());
+
+  const onMeasure = useCallback((index: number, rowHeight: number) => {
+    if (rowHeight === 0) return;
+    setHeights(prev => (prev.get(index) === rowHeight ? prev : new Map(prev).set(index, rowHeight)));
+  }, []);
+
+  // A new function after each measurement makes the list recompute its row offsets
+  const rowHeight = useCallback(
+    (index: number) => heights.get(index) ?? estimatedRowHeight,
+    [heights, estimatedRowHeight]
+  );
+
+  const rowProps = useMemo(() => ({ renderRow, onMeasure }), [renderRow, onMeasure]);
+
+  const height = useMemo(() => {
+    let total = 0;
+    for (let i = 0; i < rowCount && total < maxHeight; i++) total += rowHeight(i);
+    return Math.min(total, maxHeight);
+  }, [rowCount, rowHeight, maxHeight]);
+
+  return (
+    <List
+      className={className}
+      style={{ height }}
+      rowCount={rowCount}
+      rowHeight={rowHeight}
+      rowComponent={MeasuredRow}
+      rowProps={rowProps}
+      overscanCount={4}
+      onRowsRendered={onRowsRendered && (({ startIndex, stopIndex }) => onRowsRendered(startIndex, stopIndex))}
+    />
+  );
+};
@@ -43,22 +43,31 @@ export type Database = {
       }
       accounts: {
         Row: {
+          closing_day: number | null
           created_at: string
+          deleted_at: string | null
           id: number
+          month_start_day: number
           name: string
           type: Database["public"]["Enums"]["account_type"]
           user_id: string
         }
         Insert: {
+          closing_day?: number | null
           created_at?: string
+          deleted_at?: string | null
           id?: number
+          month_start_day?: number
           name: string
           type: Database["public"]["Enums"]["account_type"]
           user_id: string
         }
         Update: {
+          closing_day?: number | null
           created_at?: string
+          deleted_at?: string | null
           id?: number
+          month_start_day?: number
           name?: string
           type?: Database["public"]["Enums"]["account_type"]
           user_id?: string
@@ -128,9 +137,110 @@ export type Database = {
           },
         ]
       }
+      categorization_rules: {
+        Row: {
+          account_id: number | null
+          amount_max: number | null
+          amount_min: number | null
+          category_id: number
+          created_at: string
+          debt_id: number | null
+          id: number
+          investment_id: number | null
+          is_active: boolean
+          match_type: string
+          name: string
+          pattern: string
+          priority: number
+          subcategory_id: number | null
+          transaction_type: Database["public"]["Enums"]["transaction_type"] | null
+          user_id: string
+        }
+        Insert: {
+          account_id?: number | null
+          amount_max?: number | null
+          amount_min?: number | null
+          category_id: number
+          created_at?: string
+          debt_id?: number | null
+          id?: never
+          investment_id?: number | null
+          is_active?: boolean
+          match_type?: string
+          name: string
+          pattern: string
+          priority?: number
+          subcategory_id?: number | null
+          transaction_type?: Database["public"]["Enums"]["transaction_type"] | null
+          user_id: string
+        }
+        Update: {
+          account_id?: number | null
+          amount_max?: number | null
+          amount_min?: number | null
+          category_id?: number
+          created_at?: string
+          debt_id?: number | null
+          id?: never
+          investment_id?: number | null
+          is_active?: boolean
+          match_type?: string
+          name?: string
+          pattern?: string
+          priority?: number
+          subcategory_id?: number | null
+          transaction_type?: Database["public"]["Enums"]["transaction_type"] | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_debt_id_fkey"
+            columns: ["debt_id"]
+            isOneToOne: false
+            referencedRelation: "debts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_investment_id_fkey"
+            columns: ["investment_id"]
+            isOneToOne: false
+            referencedRelation: "investments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "subcategories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
+          deleted_at: string | null
           id: number
           name: string
           type: Database["public"]["Enums"]["category_type"]
@@ -138,6 +248,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           id?: number
           name: string
           type?: Database["public"]["Enums"]["category_type"]
@@ -145,6 +256,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           id?: number
           name?: string
           type?: Database["public"]["Enums"]["category_type"]
@@ -207,43 +319,44 @@ export type Database = {
           },
         ]
       }
-      investments: {
+      import_batches: {
         Row: {
+          account_id: number
           created_at: string
-          current_balance: number
+          file_name: string
           id: number
-          indicator: string | null
-          initial_amount: number
-          name: string
-          rentabilidade: number | null
-          type: Database["public"]["Enums"]["investment_type"]
+          reference_month: string
+          row_count: number
           user_id: string
         }
         Insert: {
+          account_id: number
           created_at?: string
-          current_balance: number
-          id?: number
-          indicator?: string | null
-          initial_amount: number
-          name: string
-          rentabilidade?: number | null
-          type: Database["public"]["Enums"]["investment_type"]
+          file_name: string
+          id?: never
+          reference_month: string
+          row_count?: number
           user_id: string
         }
         Update: {
+          account_id?: number
           created_at?: string
-          current_balance?: number
-          id?: number
-          indicator?: string | null
-          initial_amount?: number
-          name?: string
-          rentabilidade?: number | null
-          type?: Database["public"]["Enums"]["investment_type"]
+          file_name?: string
+          id?: never
+          reference_month?: string
+          row_count?: number
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "investments_user_id_fkey"
+            foreignKeyName: "import_batches_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batches_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -251,176 +364,128 @@ export type Database = {
           },
         ]
       }
-      profiles: {
-        Row: {
-          created_at: string
-          email: string
-          email_hash: string | null
-          id: string
-          name: string
-        }
-        Insert: {
-          created_at?: string
-          email: string
-          email_hash?: string | null
-          id: string
-          name: string
-        }
-        Update: {
-          created_at?: string
-          email?: string
-          email_hash?: string | null
-          id?: string
-          name?: string
-        }
-        Relationships: []
-      }
-      security_audit_log: {
-        Row: {
-          created_at: string | null
-          event_details: Json | null
-          event_type: string
-          id: string
-          ip_address: unknown
-          user_agent: string | null
-          user_id: string | null
-        }
-        Insert: {
-          created_at?: string | null
-          event_details?: Json | null
-          event_type: string
-          id?: string
-          ip_address?: unknown
-          user_agent?: string | null
-          user_id?: string | null
-        }
-        Update: {
-          created_at?: string | null
-          event_details?: Json | null
-          event_type?: string
-          id?: string
-          ip_address?: unknown
-          user_agent?: string | null
-          user_id?: string | null
-        }
-        Relationships: []
-      }
-      subcategories: {
+      import_presets: {
         Row: {
-          category_id: number
+          account_id: number
           created_at: string
           id: number
+          last_used_at: string | null
+          mapping: Json
           name: string
           user_id: string
         }
         Insert: {
-          category_id: number
+          account_id: number
           created_at?: string
           id?: never
+          last_used_at?: string | null
+          mapping: Json
           name: string
           user_id: string
         }
         Update: {
-          category_id?: number
+          account_id?: number
           created_at?: string
           id?: never
+          last_used_at?: string | null
+          mapping?: Json
           name?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "subcategories_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "import_presets_account_id_fkey"
+            columns: ["account_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_presets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      transactions: {
+      installment_purchases: {
         Row: {
           account_id: number
-          amount: number
+          batch_id: number | null
           category_id: number | null
           created_at: string
-          debt_id: number | null
           description: string
+          first_reference_month: string
           id: number
-          investment_id: number | null
-          reference_month: string
+          installment_amount: number
+          paid_off_from: number | null
           subcategory_id: number | null
-          transaction_date: string
-          type: Database["public"]["Enums"]["transaction_type"]
+          total_amount: number
+          total_installments: number
           user_id: string
         }
         Insert: {
           account_id: number
-          amount: number
+          batch_id?: number | null
           category_id?: number | null
           created_at?: string
-          debt_id?: number | null
           description: string
-          id?: number
-          investment_id?: number | null
-          reference_month: string
+          first_reference_month: string
+          id?: never
+          installment_amount: number
+          paid_off_from?: number | null
           subcategory_id?: number | null
-          transaction_date?: string
-          type: Database["public"]["Enums"]["transaction_type"]
+          total_amount: number
+          total_installments: number
           user_id: string
         }
         Update: {
           account_id?: number
-          amount?: number
+          batch_id?: number | null
           category_id?: number | null
           created_at?: string
-          debt_id?: number | null
           description?: string
-          id?: number
-          investment_id?: number | null
-          reference_month?: string
+          first_reference_month?: string
+          id?: never
+          installment_amount?: number
+          paid_off_from?: number | null
           subcategory_id?: number | null
-          transaction_date?: string
-          type?: Database["public"]["Enums"]["transaction_type"]
+          total_amount?: number
+          total_installments?: number
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "transactions_account_id_fkey"
+            foreignKeyName: "installment_purchases_account_id_fkey"
             columns: ["account_id"]
             isOneToOne: false
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "transactions_category_id_fkey"
-            columns: ["category_id"]
-            isOneToOne: false
-            referencedRelation: "categories"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "transactions_debt_id_fkey"
-            columns: ["debt_id"]
+            foreignKeyName: "installment_purchases_batch_id_fkey"
+            columns: ["batch_id"]
             isOneToOne: false
-            referencedRelation: "debts"
+            referencedRelation: "import_batches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "transactions_investment_id_fkey"
-            columns: ["investment_id"]
+            foreignKeyName: "installment_purchases_category_id_fkey"
+            columns: ["category_id"]
             isOneToOne: false
-            referencedRelation: "investments"
+            referencedRelation: "categories"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "transactions_subcategory_id_fkey"
+            foreignKeyName: "installment_purchases_subcategory_id_fkey"
             columns: ["subcategory_id"]
             isOneToOne: false
             referencedRelation: "subcategories"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "transactions_user_id_fkey"
+            foreignKeyName: "installment_purchases_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -428,46 +493,1187 @@ export type Database = {
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      get_category_insights: {
-        Args: { ref_month: string }
-        Returns: {
-          category_id: number
-          category_name: string
-          current_expense: number
-          deviation_pct: number
-          income_in_month: number
-          prev3_avg_expense: number
-          severity: string
-          share_over_income: number
-        }[]
-      }
-      get_public_profile_info: {
-        Args: { profile_id: string }
-        Returns: {
-          email_hash: string
-          id: string
-          name: string
-        }[]
-      }
-      get_secure_public_profiles: {
-        Args: never
-        Returns: {
+      investments: {
+        Row: {
           created_at: string
-          email_hash: string
-          id: string
+          current_balance: number
+          id: number
+          indicator: string | null
+          initial_amount: number
           name: string
-        }[]
+          rentabilidade: number | null
+          type: Database["public"]["Enums"]["investment_type"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_balance: number
+          id?: number
+          indicator?: string | null
+          initial_amount: number
+          name: string
+          rentabilidade?: number | null
+          type: Database["public"]["Enums"]["investment_type"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          current_balance?: number
+          id?: number
+          indicator?: string | null
+          initial_amount?: number
+          name?: string
+          rentabilidade?: number | null
+          type?: Database["public"]["Enums"]["investment_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payee_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          id: number
+          payee_id: number
+          user_id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          id?: never
+          payee_id: number
+          user_id: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          id?: never
+          payee_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payee_aliases_payee_id_fkey"
+            columns: ["payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payee_aliases_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payees: {
+        Row: {
+          created_at: string
+          id: number
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payees_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          email_hash: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          email_hash?: string | null
+          id: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          email_hash?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      recurring_occurrences: {
+        Row: {
+          account_id: number
+          account_trashed_at: string | null
+          amount: number
+          category_id: number | null
+          created_at: string
+          description: string
+          id: number
+          reference_month: string
+          scheduled_date: string
+          status: string
+          subcategory_id: number | null
+          template_id: number
+          transaction_date: string
+          transaction_id: number | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Insert: {
+          account_id: number
+          account_trashed_at?: string | null
+          amount: number
+          category_id?: number | null
+          created_at?: string
+          description: string
+          id?: never
+          reference_month: string
+          scheduled_date: string
+          status?: string
+          subcategory_id?: number | null
+          template_id: number
+          transaction_date: string
+          transaction_id?: number | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Update: {
+          account_id?: number
+          account_trashed_at?: string | null
+          amount?: number
+          category_id?: number | null
+          created_at?: string
+          description?: string
+          id?: never
+          reference_month?: string
+          scheduled_date?: string
+          status?: string
+          subcategory_id?: number | null
+          template_id?: number
+          transaction_date?: string
+          transaction_id?: number | null
+          type?: Database["public"]["Enums"]["transaction_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_occurrences_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "subcategories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_templates: {
+        Row: {
+          account_id: number
+          account_trashed_at: string | null
+          amount: number
+          category_id: number | null
+          created_at: string
+          day_of_month: number | null
+          description: string
+          end_date: string | null
+          frequency: string
+          frequency_interval: number
+          generated_until: string | null
+          id: number
+          is_active: boolean
+          occurrence_count: number | null
+          start_date: string
+          subcategory_id: number | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Insert: {
+          account_id: number
+          account_trashed_at?: string | null
+          amount: number
+          category_id?: number | null
+          created_at?: string
+          day_of_month?: number | null
+          description: string
+          end_date?: string | null
+          frequency: string
+          frequency_interval?: number
+          generated_until?: string | null
+          id?: never
+          is_active?: boolean
+          occurrence_count?: number | null
+          start_date: string
+          subcategory_id?: number | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Update: {
+          account_id?: number
+          account_trashed_at?: string | null
+          amount?: number
+          category_id?: number | null
+          created_at?: string
+          day_of_month?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          frequency_interval?: number
+          generated_until?: string | null
+          id?: never
+          is_active?: boolean
+          occurrence_count?: number | null
+          start_date?: string
+          subcategory_id?: number | null
+          type?: Database["public"]["Enums"]["transaction_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_templates_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_templates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_templates_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "subcategories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_templates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          id: number
+          is_pinned: boolean
+          name: string
+          query: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          is_pinned?: boolean
+          name: string
+          query?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          is_pinned?: boolean
+          name?: string
+          query?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      security_audit_log: {
+        Row: {
+          created_at: string | null
+          event_details: Json | null
+          event_type: string
+          id: string
+          ip_address: unknown
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          event_details?: Json | null
+          event_type: string
+          id?: string
+          ip_address?: unknown
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          event_details?: Json | null
+          event_type?: string
+          id?: string
+          ip_address?: unknown
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      subcategories: {
+        Row: {
+          category_id: number
+          created_at: string
+          id: number
+          name: string
+          user_id: string
+        }
+        Insert: {
+          category_id: number
+          created_at?: string
+          id?: never
+          name: string
+          user_id: string
+        }
+        Update: {
+          category_id?: number
+          created_at?: string
+          id?: never
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subcategories_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: number
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: number
+          size_bytes: number
+          storage_path: string
+          transaction_id: number
+          user_id: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: never
+          size_bytes: number
+          storage_path: string
+          transaction_id: number
+          user_id: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: never
+          size_bytes?: number
+          storage_path?: string
+          transaction_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_attachments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_attachments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_attachments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          transaction_id: number
+          user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: never
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          transaction_id: number
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: never
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          transaction_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_history_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category_id: number | null
+          created_at: string
+          id: number
+          subcategory_id: number | null
+          transaction_id: number
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: number | null
+          created_at?: string
+          id?: never
+          subcategory_id?: number | null
+          transaction_id: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: number | null
+          created_at?: string
+          id?: never
+          subcategory_id?: number | null
+          transaction_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "subcategories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_tags: {
+        Row: {
+          created_at: string
+          id: number
+          tag_id: number
+          transaction_id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          tag_id: number
+          transaction_id: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          tag_id?: number
+          transaction_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          account_id: number
+          amount: number
+          batch_id: number | null
+          category_id: number | null
+          created_at: string
+          debt_id: number | null
+          deleted_at: string | null
+          description: string
+          fitid: string | null
+          id: number
+          installment_number: number | null
+          installment_purchase_id: number | null
+          investment_id: number | null
+          payee_id: number | null
+          payee_key: string | null
+          reference_month: string
+          subcategory_id: number | null
+          transaction_date: string
+          transfer_id: number | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Insert: {
+          account_id: number
+          amount: number
+          batch_id?: number | null
+          category_id?: number | null
+          created_at?: string
+          debt_id?: number | null
+          deleted_at?: string | null
+          description: string
+          fitid?: string | null
+          id?: number
+          installment_number?: number | null
+          installment_purchase_id?: number | null
+          investment_id?: number | null
+          payee_id?: number | null
+          payee_key?: never
+          reference_month: string
+          subcategory_id?: number | null
+          transaction_date?: string
+          transfer_id?: number | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Update: {
+          account_id?: number
+          amount?: number
+          batch_id?: number | null
+          category_id?: number | null
+          created_at?: string
+          debt_id?: number | null
+          deleted_at?: string | null
+          description?: string
+          fitid?: string | null
+          id?: number
+          installment_number?: number | null
+          installment_purchase_id?: number | null
+          investment_id?: number | null
+          payee_id?: number | null
+          payee_key?: never
+          reference_month?: string
+          subcategory_id?: number | null
+          transaction_date?: string
+          transfer_id?: number | null
+          type?: Database["public"]["Enums"]["transaction_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_debt_id_fkey"
+            columns: ["debt_id"]
+            isOneToOne: false
+            referencedRelation: "debts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_installment_purchase_id_fkey"
+            columns: ["installment_purchase_id"]
+            isOneToOne: false
+            referencedRelation: "installment_purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_investment_id_fkey"
+            columns: ["investment_id"]
+            isOneToOne: false
+            referencedRelation: "investments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_payee_id_fkey"
+            columns: ["payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "subcategories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfers: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          from_account_id: number
+          id: number
+          reference_month: string
+          to_account_id: number
+          transfer_date: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description: string
+          from_account_id: number
+          id?: never
+          reference_month: string
+          to_account_id: number
+          transfer_date: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          from_account_id?: number
+          id?: never
+          reference_month?: string
+          to_account_id?: number
+          transfer_date?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfers_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      transaction_list: {
+        Row: {
+          account_id: number | null
+          account_name: string | null
+          amount: number | null
+          batch_id: number | null
+          category_id: number | null
+          category_name: string | null
+          created_at: string | null
+          debt_id: number | null
+          deleted_at: string | null
+          description: string | null
+          fitid: string | null
+          id: number | null
+          installment_number: number | null
+          installment_purchase_id: number | null
+          investment_id: number | null
+          is_transfer_in: boolean | null
+          payee_id: number | null
+          payee_name: string | null
+          reference_month: string | null
+          subcategory_id: number | null
+          subcategory_name: string | null
+          tag_names: string[] | null
+          transaction_date: string | null
+          transfer_id: number | null
+          type: Database["public"]["Enums"]["transaction_type"] | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_debt_id_fkey"
+            columns: ["debt_id"]
+            isOneToOne: false
+            referencedRelation: "debts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_installment_purchase_id_fkey"
+            columns: ["installment_purchase_id"]
+            isOneToOne: false
+            referencedRelation: "installment_purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_investment_id_fkey"
+            columns: ["investment_id"]
+            isOneToOne: false
+            referencedRelation: "investments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_payee_id_fkey"
+            columns: ["payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "subcategories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      bulk_update_transactions: {
+        Args: { changes_input: Json; transaction_ids_input: number[] }
+        Returns: number
+      }
+      confirm_recurring_occurrences: {
+        Args: { occurrence_ids_input: number[] }
+        Returns: number
+      }
+      create_installment_purchase: {
+        Args: {
+          account_id_input: number
+          category_id_input?: number
+          description_input: string
+          first_reference_month_input: string
+          first_transaction_date_input: string
+          installment_amount_input?: number
+          subcategory_id_input?: number
+          total_amount_input?: number
+          total_installments_input: number
+        }
+        Returns: number
+      }
+      delete_from_trash: {
+        Args: { item_id_input: number; item_type_input: string }
+        Returns: string[]
+      }
+      ensure_tags: { Args: { tag_names_input: string[] }; Returns: number[] }
+      find_payee_id: {
+        Args: { description_input: string; user_id_input: string }
+        Returns: number
+      }
+      get_category_insights: {
+        Args: { ref_month: string }
+        Returns: {
+          category_id: number
+          category_name: string
+          current_expense: number
+          deviation_pct: number
+          income_in_month: number
+          prev3_avg_expense: number
+          severity: string
+          share_over_income: number
+        }[]
+      }
+      get_payee_summary: {
+        Args: { end_month_input: string; start_month_input: string }
+        Returns: {
+          expense_total: number
+          income_total: number
+          payee_id: number
+          payee_name: string
+          transaction_count: number
+        }[]
+      }
+      get_public_profile_info: {
+        Args: { profile_id: string }
+        Returns: {
+          email_hash: string
+          id: string
+          name: string
+        }[]
+      }
+      get_secure_public_profiles: {
+        Args: never
+        Returns: {
+          created_at: string
+          email_hash: string
+          id: string
+          name: string
+        }[]
+      }
+      get_tag_summary: {
+        Args: { end_month_input: string; start_month_input: string }
+        Returns: {
+          expense_total: number
+          income_total: number
+          tag_id: number
+          tag_name: string
+          transaction_count: number
+        }[]
+      }
+      get_transaction_list_totals: {
+        Args: {
+          account_id_input?: number
+          category_id_input?: number
+          conditions_input?: Json
+          reference_month_input?: string
+          subcategory_id_input?: number
+          tag_id_input?: number
+          type_input?: string
+        }
+        Returns: {
+          expense_total: number
+          income_total: number
+        }[]
+      }
+      get_trash: {
+        Args: never
+        Returns: {
+          amount: number
+          deleted_at: string
+          detail: string
+          is_transfer: boolean
+          item_id: number
+          item_type: string
+          name: string
+          purge_at: string
+          related_count: number
+          transaction_type: string
+        }[]
       }
       hash_email: { Args: { email_input: string }; Returns: string }
+      import_transactions_batch: {
+        Args: {
+          account_id_input: number
+          file_name_input?: string
+          purchases_input?: Json
+          reference_month_input?: string
+          rows_input: Json
+        }
+        Returns: Json
+      }
+      is_transaction_in_trash: {
+        Args: { transaction_id_input: number }
+        Returns: boolean
+      }
       log_security_event: {
         Args: { event_details_input?: Json; event_type_input: string }
         Returns: undefined
       }
+      pay_off_installment_purchase: {
+        Args: {
+          amount_input: number
+          from_installment_input: number
+          purchase_id_input: number
+          reference_month_input: string
+          transaction_date_input: string
+        }
+        Returns: {
+          attachment_paths: string[]
+          transaction_id: number
+        }[]
+      }
+      payee_alias_key: { Args: { description_input: string }; Returns: string }
+      purge_expired_trash: { Args: never; Returns: string[] }
+      restore_from_trash: {
+        Args: { item_id_input: number; item_type_input: string }
+        Returns: undefined
+      }
+      restore_transaction_version: {
+        Args: { history_id_input: number }
+        Returns: number
+      }
+      save_transfer: {
+        Args: {
+          amount_input: number
+          description_input?: string
+          from_account_id_input: number
+          reference_month_input: string
+          to_account_id_input: number
+          transfer_date_input: string
+          transfer_id_input?: number
+        }
+        Returns: number
+      }
+      set_transaction_splits: {
+        Args: { splits_input: Json; transaction_id_input: number }
+        Returns: undefined
+      }
+      set_transaction_tags: {
+        Args: { tag_names_input: string[]; transaction_id_input: number }
+        Returns: undefined
+      }
+      transaction_splits_error: {
+        Args: { splits_input: Json; total_amount: number }
+        Returns: string
+      }
+      trash_account: { Args: { account_id_input: number }; Returns: number }
+      trash_category: { Args: { category_id_input: number }; Returns: undefined }
+      trash_transactions: {
+        Args: { transaction_ids_input: number[] }
+        Returns: number
+      }
+      undo_import_batch: {
+        Args: { batch_id_input: number }
+        Returns: {
+          attachment_paths: string[]
+          deleted_count: number
+        }[]
+      }
+      update_recurring_template: {
+        Args: {
+          from_date_input: string
+          template_id_input: number
+          template_input: Json
+        }
+        Returns: number
+      }
       validate_csv_input: {
         Args: { input_text: string; max_length?: number }
         Returns: string
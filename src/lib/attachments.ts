@@ -0,0 +1,204 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+/**
+ * Receipts, boletos and invoices attached to transactions. The files live in a
+ * private bucket under "<user_id>/<transaction_id>/", which is what the storage
+ * policies check; a transaction_attachments row describes each file.
+ *
+ * Set VITE_ATTACHMENT_STORAGE=local to keep the files in the browser (IndexedDB)
+ * instead, for development without a storage bucket. The rows still go to the database.
+ */
+
+export type TransactionAttachment = Database['public']['Tables']['transaction_attachments']['Row'];
+
+export const ATTACHMENTS_BUCKET = 'transaction-attachments';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Same list as the bucket's allowed_mime_types
+export const ACCEPTED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+// Signed URLs only need to outlive the preview
+const SIGNED_URL_SECONDS = 60 * 10;
+
+/**
+ * Where attachment files are stored. Paths are relative to the bucket.
+ */
+export interface AttachmentStorage {
+  upload(path: string, file: File): Promise<void>;
+  remove(paths: string[]): Promise<void>;
+  createUrl(path: string): Promise<string>;
+}
+
+const supabaseStorage: AttachmentStorage = {
+  async upload(path, file) {
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+
+    if (error) throw new Error(error.message);
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+    if (error) throw new Error(error.message);
+  },
+
+  async createUrl(path) {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+    if (error) throw new Error(error.message);
+    return data.signedUrl;
+  }
+};
+
+const LOCAL_DB_NAME = 'fin-flow-attachments';
+const LOCAL_STORE = 'files';
+
+const openLocalDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(LOCAL_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(LOCAL_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withLocalStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openLocalDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(LOCAL_STORE, mode).objectStore(LOCAL_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Development stand-in for the bucket; files never leave the browser
+const localStorageStandIn: AttachmentStorage = {
+  async upload(path, file) {
+    await withLocalStore('readwrite', store => store.put(file, path));
+  },
+
+  async remove(paths) {
+    for (const path of paths) {
+      await withLocalStore('readwrite', store => store.delete(path));
+    }
+  },
+
+  async createUrl(path) {
+    const file = await withLocalStore<Blob | undefined>('readonly', store => store.get(path));
+    if (!file) throw new Error('Arquivo não encontrado no armazenamento local');
+    return URL.createObjectURL(file);
+  }
+};
+
+export const attachmentStorage: AttachmentStorage =
+  import.meta.env.VITE_ATTACHMENT_STORAGE === 'local' ? localStorageStandIn : supabaseStorage;
+
+/**
+ * Why a file can't be attached, or null when it can.
+ */
+export function validateAttachmentFile(file: File): string | null {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `"${file.name}": apenas imagens (JPG, PNG, WEBP, HEIC) e PDF são aceitos`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `"${file.name}": o arquivo deve ter no máximo 10 MB`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+}
+
+export const isImageAttachment = (attachment: Pick<TransactionAttachment, 'content_type'>) =>
+  attachment.content_type.startsWith('image/');
+
+// The timestamp keeps two uploads of "recibo.jpg" apart
+const attachmentPath = (userId: string, transactionId: number, fileName: string) => {
+  const safeName = fileName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w.-]+/g, '_')
+    .slice(-100);
+  return `${userId}/${transactionId}/${Date.now()}-${safeName}`;
+};
+
+export async function fetchAttachments(transactionId: number): Promise<TransactionAttachment[]> {
+  const { data, error } = await supabase
+    .from('transaction_attachments')
+    .select('*')
+    .eq('transaction_id', transactionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Store the file and record it. If the row can't be saved the file is removed again.
+ */
+export async function uploadAttachment(userId: string, transactionId: number, file: File): Promise<TransactionAttachment> {
+  const validationError = validateAttachmentFile(file);
+  if (validationError) throw new Error(validationError);
+
+  const path = attachmentPath(userId, transactionId, file.name);
+  await attachmentStorage.upload(path, file);
+
+  const { data, error } = await supabase
+    .from('transaction_attachments')
+    .insert([{
+      user_id: userId,
+      transaction_id: transactionId,
+      storage_path: path,
+      file_name: file.name.slice(0, 255),
+      content_type: file.type,
+      size_bytes: file.size
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    await attachmentStorage.remove([path]).catch(removeError =>
+      console.error('Error removing orphan attachment file:', removeError)
+    );
+    throw error;
+  }
+  return data;
+}
+
+export async function deleteAttachment(attachment: TransactionAttachment): Promise<void> {
+  const { error } = await supabase
+    .from('transaction_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) throw error;
+  await attachmentStorage.remove([attachment.storage_path]);
+}
+
+/**
+ * Remove files whose transactions were deleted. A failure only leaves orphan
+ * files behind, so it is logged rather than surfaced.
+ */
+export async function removeAttachmentFiles(paths: string[]): Promise<void> {
+  try {
+    await attachmentStorage.remove(paths);
+  } catch (error) {
+    console.error('Error removing attachment files:', error);
+  }
+}
+
+export async function getAttachmentUrl(attachment: TransactionAttachment): Promise<string> {
+  return attachmentStorage.createUrl(attachment.storage_path);
+}
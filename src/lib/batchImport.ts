@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { SplitLine } from '@/lib/transactionSplits';
+
+/**
+ * One row sent to the import_transactions_batch RPC. `row_index` is echoed
+ * back in validation errors so they can be shown next to the right row.
+ */
+export interface BatchImportRow {
+  row_index: number;
+  description: string;
+  amount: number;
+  type: Database['public']['Enums']['transaction_type'];
+  transaction_date: string;
+  reference_month: string;
+  category_id: number | null;
+  subcategory_id: number | null;
+  investment_id: number | null;
+  debt_id: number | null;
+  fitid: string | null;
+  installment_purchase_id?: number | null; // Existing purchase this installment belongs to
+  installment_group?: string | null; // Or the `group` of a purchase created in the same batch
+  installment_number?: number | null;
+  splits?: SplitLine[]; // Lines of a split transaction; category_id and subcategory_id are then ignored
+  tags?: string[]; // Tag names; missing tags are created
+}
+
+/**
+ * An installment purchase detected in the file, created together with the batch.
+ */
+export interface BatchInstallmentPurchase {
+  group: string;
+  description: string;
+  total_amount: number;
+  installment_amount: number;
+  total_installments: number;
+  first_reference_month: string;
+  category_id: number | null;
+  subcategory_id: number | null;
+}
+
+export interface BatchImportError {
+  row_index: number;
+  message: string;
+}
+
+export interface BatchImportResult {
+  success: boolean;
+  inserted_count: number;
+  batch_id: number | null; // import_batches row created for this import
+  errors: BatchImportError[];
+}
+
+/**
+ * Import a whole statement atomically: the database validates every row first and
+ * only then inserts the transactions and adjusts debt/investment balances, all in a
+ * single Postgres transaction. On validation failure nothing is written and the
+ * per-row errors are returned; unexpected failures are thrown after a full rollback.
+ * The import is recorded as an import batch so it can be listed and undone later.
+ */
+export async function importTransactionsBatch(
+  accountId: number,
+  rows: BatchImportRow[],
+  fileName: string,
+  referenceMonth: string,
+  purchases: BatchInstallmentPurchase[] = []
+): Promise<BatchImportResult> {
+  const { data, error } = await supabase.rpc('import_transactions_batch', {
+    account_id_input: accountId,
+    rows_input: rows as unknown as Json,
+    file_name_input: fileName,
+    reference_month_input: referenceMonth,
+    purchases_input: purchases as unknown as Json,
+  });
+
+  // Surface the database message (e.g. "Conta de destino não encontrada") as a real Error
+  if (error) throw new Error(error.message);
+  return data as unknown as BatchImportResult;
+}
@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Bulk actions on selected transactions. Each action is a single database call,
+ * so either every selected transaction changes or none does; debt and investment
+ * balances are reverted and reapplied as when editing one transaction.
+ * Transfers are not accepted: they change through their own form.
+ */
+
+export type BulkAction = 'category' | 'subcategory' | 'account' | 'reference_month' | 'add_tags' | 'remove_tags' | 'delete';
+
+export interface BulkTransactionChanges {
+  category_id?: number | null; // Also clears subcategory, debt and investment
+  subcategory_id?: number | null;
+  account_id?: number;
+  reference_month?: string;
+  add_tags?: string[]; // Tag names, created when missing
+  remove_tags?: number[]; // Tag ids
+}
+
+/**
+ * Apply the changes and return how many transactions changed. Split transactions
+ * are skipped when changing the category or subcategory, and so are transactions
+ * of another category when only the subcategory changes.
+ */
+export async function bulkUpdateTransactions(transactionIds: number[], changes: BulkTransactionChanges): Promise<number> {
+  const { data, error } = await supabase.rpc('bulk_update_transactions', {
+    transaction_ids_input: transactionIds,
+    changes_input: { ...changes }
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
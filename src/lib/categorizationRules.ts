@@ -0,0 +1,161 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { normalizeDescription } from '@/lib/descriptionMatching';
+
+export type RuleMatchType = 'contains' | 'starts_with' | 'regex';
+
+export type CategorizationRule = Database['public']['Tables']['categorization_rules']['Row'];
+export type CategorizationRuleInput = Omit<CategorizationRule, 'id' | 'created_at' | 'user_id' | 'priority'>;
+
+export const RULE_MATCH_TYPES: { value: RuleMatchType; label: string }[] = [
+  { value: 'contains', label: 'Contém' },
+  { value: 'starts_with', label: 'Começa com' },
+  { value: 'regex', label: 'Expressão regular' },
+];
+
+/**
+ * The fields of a transaction that rules can match on.
+ */
+export interface RuleSubject {
+  description: string;
+  amount: number;
+  type: Database['public']['Enums']['transaction_type'];
+  account_id: number | null;
+}
+
+/**
+ * Returns an error message when the pattern is not a valid regular expression.
+ */
+export function validateRulePattern(matchType: RuleMatchType, pattern: string): string | null {
+  if (!pattern.trim()) return 'Informe o texto ou padrão da regra';
+  if (matchType !== 'regex') return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return `Expressão regular inválida: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+const matchesDescription = (rule: CategorizationRule, description: string): boolean => {
+  if (rule.match_type === 'regex') {
+    try {
+      return new RegExp(rule.pattern, 'i').test(description);
+    } catch {
+      return false;
+    }
+  }
+
+  // Text matches ignore case, accents and punctuation
+  const normalizedDescription = normalizeDescription(description);
+  const normalizedPattern = normalizeDescription(rule.pattern);
+  if (!normalizedPattern) return false;
+
+  return rule.match_type === 'starts_with'
+    ? normalizedDescription.startsWith(normalizedPattern)
+    : normalizedDescription.includes(normalizedPattern);
+};
+
+export function ruleMatches(rule: CategorizationRule, subject: RuleSubject): boolean {
+  if (!rule.is_active) return false;
+  if (rule.account_id !== null && rule.account_id !== subject.account_id) return false;
+  if (rule.transaction_type !== null && rule.transaction_type !== subject.type) return false;
+  if (rule.amount_min !== null && subject.amount < Number(rule.amount_min)) return false;
+  if (rule.amount_max !== null && subject.amount > Number(rule.amount_max)) return false;
+  return matchesDescription(rule, subject.description);
+}
+
+/**
+ * First matching rule by priority (lower number runs first).
+ */
+export function findMatchingRule(rules: CategorizationRule[], subject: RuleSubject): CategorizationRule | null {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority || a.id - b.id);
+  return ordered.find(rule => ruleMatches(rule, subject)) ?? null;
+}
+
+export async function fetchCategorizationRules(userId: string): Promise<CategorizationRule[]> {
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('priority', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Create a rule at the end of the priority list, or update an existing one in place.
+ */
+export async function saveCategorizationRule(
+  userId: string,
+  rule: CategorizationRuleInput,
+  ruleId?: number
+): Promise<CategorizationRule> {
+  if (ruleId) {
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .update(rule)
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  const { data: last, error: lastError } = await supabase
+    .from('categorization_rules')
+    .select('priority')
+    .eq('user_id', userId)
+    .order('priority', { ascending: false })
+    .limit(1);
+
+  if (lastError) throw lastError;
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .insert([{ ...rule, user_id: userId, priority: (last?.[0]?.priority ?? 0) + 1 }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setCategorizationRuleActive(ruleId: number, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('categorization_rules')
+    .update({ is_active: isActive })
+    .eq('id', ruleId);
+
+  if (error) throw error;
+}
+
+export async function deleteCategorizationRule(ruleId: number): Promise<void> {
+  const { error } = await supabase
+    .from('categorization_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) throw error;
+}
+
+/**
+ * Persist a new ordering: priorities become 1..n following the array order.
+ */
+export async function reorderCategorizationRules(rules: CategorizationRule[]): Promise<void> {
+  const results = await Promise.all(
+    rules.map((rule, index) =>
+      supabase
+        .from('categorization_rules')
+        .update({ priority: index + 1 })
+        .eq('id', rule.id)
+    )
+  );
+
+  const failed = results.find(r => r.error);
+  if (failed?.error) throw failed.error;
+}
@@ -0,0 +1,173 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { descriptionSimilarity, normalizeDescription } from '@/lib/descriptionMatching';
+
+type TransactionType = Database['public']['Enums']['transaction_type'];
+
+export const HISTORY_LOOKBACK_LIMIT = 3000;
+export const MIN_SUGGESTION_CONFIDENCE = 0.5;
+const MIN_KEY_SIMILARITY = 0.8;
+
+export interface CategorySuggestion {
+  category_id: number;
+  subcategory_id: number | null;
+  confidence: number; // 0..1
+  sampleSize: number; // Past transactions that back the suggestion
+}
+
+interface HistoryEntry {
+  key: string;
+  type: TransactionType;
+  votes: Map<string, number>; // "categoryId:subcategoryId" -> count
+  total: number;
+}
+
+/**
+ * Past categorizations grouped by description key and transaction type.
+ */
+export type CategoryHistory = Map<string, HistoryEntry>;
+
+/**
+ * Reduce a statement description to the part that identifies the merchant:
+ * drops installment markers ("PARC 03/10", "PARCELA 3 DE 10"), dates, card
+ * suffixes ("FINAL 1234", "*1234") and any remaining standalone numbers.
+ * Example: descriptionKey('NETFLIX.COM PARC 03/10 15/03') => 'NETFLIX COM'
+ */
+export function descriptionKey(description: string): string {
+  const stripped = description
+    .replace(/\bPARC(?:ELA)?\.?\s*\d{1,3}\s*(?:\/|DE)\s*\d{1,3}\b/gi, ' ')
+    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, ' ')
+    .replace(/\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g, ' ')
+    .replace(/\b(?:FINAL|CART[A\u00c3]O|CARD)\s*\*?\s*\d{4}\b/gi, ' ')
+    .replace(/\*+\s*\d{4}\b/g, ' ');
+
+  return normalizeDescription(stripped)
+    .split(' ')
+    .filter(token => token && !/^\d+$/.test(token))
+    .join(' ');
+}
+
+const entryId = (key: string, type: TransactionType) => `${type}|${key}`;
+const voteId = (categoryId: number, subcategoryId: number | null) => `${categoryId}:${subcategoryId ?? ''}`;
+
+// Mutates `history`; callers that keep it in React state go through recordCategoryChoice
+const addChoice = (
+  history: CategoryHistory,
+  description: string,
+  type: TransactionType,
+  categoryId: number,
+  subcategoryId: number | null
+) => {
+  const key = descriptionKey(description);
+  if (!key) return;
+
+  const id = entryId(key, type);
+  const current = history.get(id);
+  const votes = new Map(current?.votes);
+  const vote = voteId(categoryId, subcategoryId);
+  votes.set(vote, (votes.get(vote) || 0) + 1);
+  history.set(id, { key, type, votes, total: (current?.total || 0) + 1 });
+};
+
+/**
+ * Add one categorized transaction to the history. Returns a new map so it can live in React state.
+ */
+export function recordCategoryChoice(
+  history: CategoryHistory,
+  description: string,
+  type: TransactionType,
+  categoryId: number,
+  subcategoryId: number | null
+): CategoryHistory {
+  const next = new Map(history);
+  addChoice(next, description, type, categoryId, subcategoryId);
+  return next;
+}
+
+/**
+ * Load the user's most recent categorized transactions as suggestion history.
+ * Imports and manual edits end up here, so accepted or corrected suggestions
+ * weigh in on the next ones.
+ */
+export async function fetchCategoryHistory(userId: string): Promise<CategoryHistory> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('description, type, category_id, subcategory_id')
+    .eq('user_id', userId)
+    .not('category_id', 'is', null)
+    .order('transaction_date', { ascending: false })
+    .limit(HISTORY_LOOKBACK_LIMIT);
+
+  if (error) throw error;
+
+  const history: CategoryHistory = new Map();
+  for (const t of data || []) {
+    addChoice(history, t.description, t.type, t.category_id!, t.subcategory_id);
+  }
+  return history;
+}
+
+/**
+ * Suggest a category from past transactions with the same (or a very similar)
+ * description key. Confidence combines how consistently that description was
+ * categorized, how many times it was seen and how close the match is.
+ */
+export function suggestCategory(
+  history: CategoryHistory,
+  description: string,
+  type: TransactionType
+): CategorySuggestion | null {
+  const key = descriptionKey(description);
+  if (!key) return null;
+
+  let entry = history.get(entryId(key, type));
+  let similarity = entry ? 1 : 0;
+
+  if (!entry) {
+    history.forEach(candidate => {
+      if (candidate.type !== type) return;
+      const score = descriptionSimilarity(key, candidate.key);
+      if (score >= MIN_KEY_SIMILARITY && score > similarity) {
+        entry = candidate;
+        similarity = score;
+      }
+    });
+  }
+  if (!entry) return null;
+
+  // Pick the most frequent category, then its most frequent subcategory
+  const categoryCounts = new Map<string, number>();
+  entry.votes.forEach((count, vote) => {
+    const categoryId = vote.split(':')[0];
+    categoryCounts.set(categoryId, (categoryCounts.get(categoryId) || 0) + count);
+  });
+
+  let categoryId = '';
+  let categoryCount = 0;
+  categoryCounts.forEach((count, id) => {
+    if (count > categoryCount) {
+      categoryId = id;
+      categoryCount = count;
+    }
+  });
+
+  let subcategoryId = '';
+  let subcategoryCount = 0;
+  entry.votes.forEach((count, vote) => {
+    const [voteCategory, voteSubcategory] = vote.split(':');
+    if (voteCategory === categoryId && count > subcategoryCount) {
+      subcategoryId = voteSubcategory;
+      subcategoryCount = count;
+    }
+  });
+
+  const agreement = categoryCount / entry.total;
+  const support = entry.total / (entry.total + 1); // 1 sample: 50%, 4 samples: 80%
+
+  return {
+    category_id: parseInt(categoryId),
+    subcategory_id: subcategoryId ? parseInt(subcategoryId) : null,
+    confidence: agreement * support * similarity,
+    sampleSize: entry.total,
+  };
+}
@@ -0,0 +1,477 @@
+import { ParsedTransaction } from '@/lib/statementImport';
+
+/**
+ * CSV statement parsing driven by a column mapping.
+ * The raw file is first split into rows/cells (readCSVRows), then a
+ * CSVMapping tells which columns hold the date, description and amount.
+ * Spreadsheets go through the same mapping with typed cells.
+ */
+
+/**
+ * A cell of the file: always text for CSV; spreadsheets keep real numbers and
+ * dates (UTC midnight) so no date format or decimal style has to be guessed.
+ */
+export type CSVCell = string | number | Date;
+
+export type CSVDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD/MM/YY';
+export type CSVDecimalStyle = 'auto' | 'comma' | 'dot';
+export type CSVAmountMode = 'single' | 'split';
+
+export interface CSVMapping {
+  delimiter: string;
+  skipRows: number; // Header rows to skip before the data starts
+  dateColumn: number;
+  descriptionColumn: number;
+  amountMode: CSVAmountMode;
+  amountColumn: number; // Used when amountMode = 'single'
+  debitColumn: number; // Used when amountMode = 'split'
+  creditColumn: number; // Used when amountMode = 'split'
+  dateFormat: CSVDateFormat;
+  decimalStyle: CSVDecimalStyle;
+  invertSign: boolean; // Card statements list purchases as positive values
+  ignoreInvalidRows: boolean; // Skip footer/summary lines instead of failing
+}
+
+export interface CSVBankPreset {
+  id: string;
+  name: string;
+  mapping: CSVMapping;
+}
+
+export const CSV_DATE_FORMATS: { value: CSVDateFormat; label: string }[] = [
+  { value: 'DD/MM/YYYY', label: 'DD/MM/AAAA' },
+  { value: 'DD/MM/YY', label: 'DD/MM/AA' },
+  { value: 'YYYY-MM-DD', label: 'AAAA-MM-DD (ISO)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/AAAA' },
+];
+
+export const CSV_DECIMAL_STYLES: { value: CSVDecimalStyle; label: string }[] = [
+  { value: 'auto', label: 'Detectar automaticamente' },
+  { value: 'comma', label: 'Vírgula (1.234,56)' },
+  { value: 'dot', label: 'Ponto (1,234.56)' },
+];
+
+// Legacy 3-column layout: Data;Descrição;Valor
+export const DEFAULT_CSV_MAPPING: CSVMapping = {
+  delimiter: ';',
+  skipRows: 0,
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountMode: 'single',
+  amountColumn: 2,
+  debitColumn: -1,
+  creditColumn: -1,
+  dateFormat: 'DD/MM/YYYY',
+  decimalStyle: 'auto',
+  invertSign: false,
+  ignoreInvalidRows: false,
+};
+
+export const CSV_BANK_PRESETS: CSVBankPreset[] = [
+  {
+    id: 'nubank-conta',
+    name: 'Nubank (conta)',
+    // Data,Valor,Identificador,Descrição
+    mapping: {
+      ...DEFAULT_CSV_MAPPING,
+      delimiter: ',',
+      skipRows: 1,
+      dateColumn: 0,
+      descriptionColumn: 3,
+      amountColumn: 1,
+      decimalStyle: 'dot',
+    },
+  },
+  {
+    id: 'nubank-cartao',
+    name: 'Nubank (cartão)',
+    // date,title,amount — purchases are positive
+    mapping: {
+      ...DEFAULT_CSV_MAPPING,
+      delimiter: ',',
+      skipRows: 1,
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountColumn: 2,
+      dateFormat: 'YYYY-MM-DD',
+      decimalStyle: 'dot',
+      invertSign: true,
+    },
+  },
+  {
+    id: 'inter',
+    name: 'Banco Inter',
+    // 4 info lines + header: Data Lançamento;Histórico;Descrição;Valor;Saldo
+    mapping: {
+      ...DEFAULT_CSV_MAPPING,
+      skipRows: 5,
+      dateColumn: 0,
+      descriptionColumn: 2,
+      amountColumn: 3,
+      decimalStyle: 'comma',
+      ignoreInvalidRows: true,
+    },
+  },
+  {
+    id: 'itau',
+    name: 'Itaú',
+    // data;lançamento;valor (no header)
+    mapping: {
+      ...DEFAULT_CSV_MAPPING,
+      decimalStyle: 'comma',
+      ignoreInvalidRows: true,
+    },
+  },
+  {
+    id: 'c6-conta',
+    name: 'C6 Bank (conta)',
+    // Data Lançamento,Data Contábil,Título,Descrição,Entrada(R$),Saída(R$),Saldo do Dia(R$)
+    mapping: {
+      ...DEFAULT_CSV_MAPPING,
+      delimiter: ',',
+      skipRows: 1,
+      dateColumn: 0,
+      descriptionColumn: 2,
+      amountMode: 'split',
+      creditColumn: 4,
+      debitColumn: 5,
+      decimalStyle: 'dot',
+      ignoreInvalidRows: true,
+    },
+  },
+  {
+    id: 'c6-cartao',
+    name: 'C6 Bank (cartão)',
+    // Data de Compra;Nome no Cartão;Final do Cartão;Categoria;Descrição;Parcela;Valor (em US$);Cotação (em R$);Valor (em R$)
+    mapping: {
+      ...DEFAULT_CSV_MAPPING,
+      skipRows: 1,
+      dateColumn: 0,
+      descriptionColumn: 4,
+      amountColumn: 8,
+      decimalStyle: 'dot',
+      invertSign: true,
+    },
+  },
+];
+
+/**
+ * Auto-detect the delimiter by analyzing the first few lines.
+ * The delimiter that splits lines into the most consistent column count wins.
+ */
+export function detectDelimiter(lines: string[]): string {
+  const delimiters = [';', ',', '\t'];
+  const sample = lines.slice(0, Math.min(10, lines.length));
+  let best = ';'; // Default to semicolon for Brazilian CSVs
+  let bestScore = 0;
+
+  for (const delimiter of delimiters) {
+    const counts = sample.map(line => splitCSVLine(line, delimiter).length);
+    const multiColumn = counts.filter(c => c > 1);
+    if (multiColumn.length === 0) continue;
+
+    // Reward lines that agree with the most common column count
+    const frequency = new Map<number, number>();
+    multiColumn.forEach(c => frequency.set(c, (frequency.get(c) || 0) + 1));
+    const [modeCount, modeFrequency] = [...frequency.entries()].sort((a, b) => b[1] - a[1])[0];
+    const score = modeFrequency * 10 + modeCount;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split a CSV line considering quoted fields and doubled quotes.
+ */
+export function splitCSVLine(line: string, delimiter: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let quoteChar = '';
+
+  for (let j = 0; j < line.length; j++) {
+    const char = line[j];
+
+    if (!inQuotes && current.trim() === '' && (char === '"' || char === "'")) {
+      inQuotes = true;
+      quoteChar = char;
+    } else if (inQuotes && char === quoteChar) {
+      // Check if it's an escaped quote (doubled)
+      if (line[j + 1] === quoteChar) {
+        current += char;
+        j++; // Skip next quote
+      } else {
+        inQuotes = false;
+        quoteChar = '';
+      }
+    } else if (!inQuotes && char === delimiter) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  result.push(current.trim());
+  return result;
+}
+
+/**
+ * Split the file into non-empty rows of cells.
+ */
+export function readCSVRows(csvText: string, delimiter?: string): { delimiter: string; rows: string[][] } {
+  const lines = csvText.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  const resolvedDelimiter = delimiter || detectDelimiter(lines);
+  return {
+    delimiter: resolvedDelimiter,
+    rows: lines.map(line => splitCSVLine(line, resolvedDelimiter)),
+  };
+}
+
+/**
+ * Parse a date cell into yyyy-MM-dd. Any time portion after the date is ignored.
+ */
+export function parseCSVDate(value: string, format: CSVDateFormat): string | null {
+  const datePart = value.trim().split(/[\sT]/)[0];
+  const parts = datePart.split(/[/\-.]/);
+  if (parts.length !== 3) return null;
+
+  let day: number, month: number, year: number;
+  if (format === 'YYYY-MM-DD') {
+    [year, month, day] = parts.map(p => parseInt(p, 10));
+  } else if (format === 'MM/DD/YYYY') {
+    [month, day, year] = parts.map(p => parseInt(p, 10));
+  } else {
+    [day, month, year] = parts.map(p => parseInt(p, 10));
+  }
+
+  if (format === 'DD/MM/YY' && year < 100) {
+    year += 2000;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse an amount cell. Returns NaN for empty or unparseable values.
+ */
+export function parseCSVAmount(value: string, decimalStyle: CSVDecimalStyle): number {
+  // Remove currency symbols and extra spaces
+  let normalized = value.trim().replace(/[R$\s]+/g, '');
+
+  // Accounting-style negatives: (1.234,56)
+  if (/^\(.*\)$/.test(normalized)) {
+    normalized = '-' + normalized.slice(1, -1);
+  }
+  // Trailing minus: 1.234,56-
+  if (/-$/.test(normalized)) {
+    normalized = '-' + normalized.slice(0, -1);
+  }
+
+  if (decimalStyle === 'comma') {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else if (decimalStyle === 'dot') {
+    normalized = normalized.replace(/,/g, '');
+  } else {
+    normalized = normalizeAmbiguousAmount(normalized);
+  }
+
+  if (!/^[-+]?\d*\.?\d+$/.test(normalized)) return NaN;
+  return parseFloat(normalized);
+}
+
+/**
+ * Handle various Brazilian number formats when the decimal style is unknown.
+ * Examples: "1.234,56", "1234,56", "1.234.567,89", "-1.234,56", "1234.56"
+ */
+const normalizeAmbiguousAmount = (amount: string): string => {
+  const dotCount = (amount.match(/\./g) || []).length;
+  const commaCount = (amount.match(/,/g) || []).length;
+
+  if (commaCount === 1 && dotCount >= 1) {
+    // Dots are thousands, comma is decimal — unless the comma comes first ("1,234.56")
+    if (amount.lastIndexOf(',') < amount.lastIndexOf('.')) {
+      return amount.replace(/,/g, '');
+    }
+    return amount.replace(/\./g, '').replace(',', '.');
+  }
+  if (commaCount === 1 && dotCount === 0) {
+    // "1234,56" - comma is decimal separator
+    return amount.replace(',', '.');
+  }
+  if (commaCount === 0 && dotCount > 1) {
+    // "1.234.567" - dots are thousands separators, no decimals
+    return amount.replace(/\./g, '');
+  }
+  if (commaCount > 1) {
+    // Ambiguous: remove all dots and treat the last comma as decimal
+    const parts = amount.split(',');
+    return parts.slice(0, -1).join('').replace(/\./g, '') + '.' + parts[parts.length - 1];
+  }
+  return amount;
+};
+
+/**
+ * Display text of a cell, in pt-BR for numbers and dates.
+ */
+export function formatCSVCell(value: CSVCell | undefined): string {
+  if (value === undefined) return '';
+  if (value instanceof Date) return value.toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+  if (typeof value === 'number') return value.toLocaleString('pt-BR', { maximumFractionDigits: 10 });
+  return value;
+}
+
+const cell = (row: CSVCell[], column: number): CSVCell =>
+  column >= 0 && column < row.length ? (typeof row[column] === 'string' ? (row[column] as string).trim() : row[column]) : '';
+
+const parseDateCell = (value: CSVCell, format: CSVDateFormat): string | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0];
+  return typeof value === 'string' ? parseCSVDate(value, format) : null;
+};
+
+const parseAmountCell = (value: CSVCell, decimalStyle: CSVDecimalStyle): number => {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' ? parseCSVAmount(value, decimalStyle) : NaN;
+};
+
+const PROGRESS_INTERVAL = 1000;
+
+/**
+ * Apply a mapping to the raw rows. Throws with the line number on the first
+ * invalid row unless `ignoreInvalidRows` is set. `onProgress` is called every
+ * thousand rows for large files.
+ */
+export function applyCSVMapping(
+  rows: CSVCell[][],
+  mapping: CSVMapping,
+  onProgress?: (processed: number, total: number) => void
+): ParsedTransaction[] {
+  const transactions: ParsedTransaction[] = [];
+  const timestamp = Date.now();
+
+  for (let i = mapping.skipRows; i < rows.length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i, rows.length);
+    const row = rows[i];
+    const lineNumber = i + 1;
+
+    const dateCell = cell(row, mapping.dateColumn);
+    const dateStr = formatCSVCell(dateCell);
+    const description = formatCSVCell(cell(row, mapping.descriptionColumn));
+    const amountCells = mapping.amountMode === 'split'
+      ? [cell(row, mapping.debitColumn), cell(row, mapping.creditColumn)]
+      : [cell(row, mapping.amountColumn)];
+
+    // Completely blank mapped cells: spacer line
+    if (!dateStr && !description && amountCells.every(c => c === '')) continue;
+
+    const fail = (message: string) => {
+      if (mapping.ignoreInvalidRows) return;
+      throw new Error(`Erro na linha ${lineNumber}: ${message}
+Linha atual: ${JSON.stringify(row.map(formatCSVCell))}
+Verifique o mapeamento de colunas.`);
+    };
+
+    const date = parseDateCell(dateCell, mapping.dateFormat);
+    if (!date) {
+      fail(`data inválida "${dateStr}" (formato esperado ${mapping.dateFormat})`);
+      continue;
+    }
+
+    let signedAmount: number;
+    if (mapping.amountMode === 'split') {
+      const [debitCell, creditCell] = amountCells;
+      const debit = debitCell !== '' ? parseAmountCell(debitCell, mapping.decimalStyle) : 0;
+      const credit = creditCell !== '' ? parseAmountCell(creditCell, mapping.decimalStyle) : 0;
+      if (isNaN(debit) || isNaN(credit)) {
+        fail(`valor inválido (débito "${formatCSVCell(debitCell)}", crédito "${formatCSVCell(creditCell)}")`);
+        continue;
+      }
+      signedAmount = Math.abs(credit) - Math.abs(debit);
+    } else {
+      signedAmount = parseAmountCell(amountCells[0], mapping.decimalStyle);
+      if (isNaN(signedAmount)) {
+        fail(`valor inválido "${formatCSVCell(amountCells[0])}". Formatos suportados: 1.234,56 ou 1234,56 ou 1234.56`);
+        continue;
+      }
+      if (mapping.invertSign) signedAmount = -signedAmount;
+    }
+
+    // Zero-value rows can't be stored (amount > 0 constraint)
+    if (signedAmount === 0) continue;
+
+    transactions.push({
+      date,
+      description,
+      amount: Math.abs(signedAmount),
+      type: signedAmount < 0 ? 'Expense' : 'Income',
+      id: `temp-${timestamp}-${i}`,
+    });
+  }
+
+  return transactions;
+}
+
+const HEADER_KEYWORDS = {
+  date: /^(data|date|dt)\b/i,
+  description: /(descri|hist[oó]rico|title|t[ií]tulo|lan[cç]amento|estabelecimento)/i,
+  amount: /^(valor|amount|value|quantia)/i,
+  credit: /(entrada|cr[eé]dito)/i,
+  debit: /(sa[ií]da|d[eé]bito)/i,
+};
+
+/**
+ * Best-effort mapping guess from a header row found in the first lines of the file.
+ * Falls back to the legacy 3-column layout.
+ */
+export function guessCSVMapping(rows: CSVCell[][], delimiter: string): CSVMapping {
+  const mapping: CSVMapping = { ...DEFAULT_CSV_MAPPING, delimiter };
+
+  for (let i = 0; i < Math.min(10, rows.length); i++) {
+    const header = rows[i];
+    const find = (pattern: RegExp) => header.findIndex(h => typeof h === 'string' && pattern.test(h.trim()));
+
+    const dateColumn = find(HEADER_KEYWORDS.date);
+    if (dateColumn === -1) continue;
+
+    const descriptionColumn = find(HEADER_KEYWORDS.description);
+    const amountColumn = find(HEADER_KEYWORDS.amount);
+    const creditColumn = find(HEADER_KEYWORDS.credit);
+    const debitColumn = find(HEADER_KEYWORDS.debit);
+
+    mapping.skipRows = i + 1;
+    mapping.dateColumn = dateColumn;
+    if (descriptionColumn !== -1) mapping.descriptionColumn = descriptionColumn;
+
+    if (amountColumn === -1 && creditColumn !== -1 && debitColumn !== -1) {
+      mapping.amountMode = 'split';
+      mapping.creditColumn = creditColumn;
+      mapping.debitColumn = debitColumn;
+    } else if (amountColumn !== -1) {
+      mapping.amountColumn = amountColumn;
+    }
+
+    // ISO dates in the first data row
+    const firstDate = rows[i + 1]?.[dateColumn] ?? '';
+    if (typeof firstDate === 'string' && /^\d{4}-\d{2}-\d{2}/.test(firstDate)) {
+      mapping.dateFormat = 'YYYY-MM-DD';
+    }
+    return mapping;
+  }
+
+  return mapping;
+}
@@ -0,0 +1,56 @@
+/**
+ * Helpers to compare bank statement descriptions, which vary in case,
+ * accents and punctuation between exports of the same transaction.
+ */
+
+/**
+ * Uppercase, strip accents and punctuation, and collapse whitespace.
+ * Example: normalizeDescription('Pão de Açúcar - 123') => 'PAO DE ACUCAR 123'
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+const bigrams = (value: string): Map<string, number> => {
+  const result = new Map<string, number>();
+  const compact = value.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    result.set(pair, (result.get(pair) || 0) + 1);
+  }
+  return result;
+};
+
+/**
+ * Similarity between two descriptions in [0, 1], using the Dice coefficient
+ * over character bigrams of the normalized text. One description fully
+ * containing the other (e.g. a truncated export) counts as a full match.
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeDescription(a);
+  const normalizedB = normalizeDescription(b);
+
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+  if (normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA)) return 1;
+
+  const bigramsA = bigrams(normalizedA);
+  const bigramsB = bigrams(normalizedB);
+  let totalA = 0;
+  let totalB = 0;
+  let overlap = 0;
+
+  bigramsA.forEach(count => { totalA += count; });
+  bigramsB.forEach((count, pair) => {
+    totalB += count;
+    overlap += Math.min(count, bigramsA.get(pair) || 0);
+  });
+
+  if (totalA + totalB === 0) return 0;
+  return (2 * overlap) / (totalA + totalB);
+}
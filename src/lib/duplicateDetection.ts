@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { DuplicateMatch, ParsedTransaction } from '@/lib/statementImport';
+import { descriptionSimilarity } from '@/lib/descriptionMatching';
+
+export const DEFAULT_DUPLICATE_TOLERANCE_DAYS = 3;
+export const DUPLICATE_MIN_SIMILARITY = 0.5;
+
+export interface ExistingTransaction {
+  id: number;
+  transaction_date: string;
+  description: string;
+  amount: number;
+  type: Database['public']['Enums']['transaction_type'];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// PostgREST caps each response, so long periods are loaded page by page
+const PAGE_SIZE = 1000;
+
+const dayNumber = (date: string): number => {
+  const [year, month, day] = date.split('-').map(p => parseInt(p, 10));
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const shiftDate = (date: string, days: number): string =>
+  new Date((dayNumber(date) + days) * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * Load the account's transactions in the statement period, widened by the tolerance.
+ */
+export async function fetchTransactionsForDuplicateCheck(
+  userId: string,
+  accountId: number,
+  transactions: ParsedTransaction[],
+  toleranceDays: number
+): Promise<ExistingTransaction[]> {
+  if (transactions.length === 0) return [];
+
+  const dates = transactions.map(t => t.date).sort();
+  const result: ExistingTransaction[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, transaction_date, description, amount, type')
+      .eq('user_id', userId)
+      .eq('account_id', accountId)
+      .gte('transaction_date', shiftDate(dates[0], -toleranceDays))
+      .lte('transaction_date', shiftDate(dates[dates.length - 1], toleranceDays))
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    result.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return result;
+}
+
+const amountKey = (type: string, amount: number) => `${type}|${Math.round(amount * 100)}`;
+
+/**
+ * Match each imported row against stored transactions: same type, exact amount,
+ * date within ±toleranceDays and a similar description. Each stored transaction
+ * is used at most once, so two genuine identical purchases in the file are not
+ * both flagged against a single stored one. Best matches are assigned first.
+ */
+export function findDuplicates(
+  transactions: ParsedTransaction[],
+  existing: ExistingTransaction[],
+  toleranceDays: number = DEFAULT_DUPLICATE_TOLERANCE_DAYS
+): (DuplicateMatch | null)[] {
+  const candidates: { row: number; existingIndex: number; score: number; similarity: number }[] = [];
+
+  // Only stored transactions of the same type and amount can match, so large files skip the rest
+  const byAmount = new Map<string, number[]>();
+  existing.forEach((stored, existingIndex) => {
+    const key = amountKey(stored.type, Number(stored.amount));
+    byAmount.set(key, [...(byAmount.get(key) || []), existingIndex]);
+  });
+
+  transactions.forEach((transaction, row) => {
+    const rowDay = dayNumber(transaction.date);
+    byAmount.get(amountKey(transaction.type, transaction.amount))?.forEach(existingIndex => {
+      const stored = existing[existingIndex];
+      const dayDistance = Math.abs(dayNumber(stored.transaction_date) - rowDay);
+      if (dayDistance > toleranceDays) return;
+
+      const similarity = descriptionSimilarity(transaction.description, stored.description);
+      if (similarity < DUPLICATE_MIN_SIMILARITY) return;
+
+      // Closer dates break ties between equally similar descriptions
+      const score = similarity - dayDistance / (toleranceDays + 1) / 10;
+      candidates.push({ row, existingIndex, score, similarity });
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const result: (DuplicateMatch | null)[] = transactions.map(() => null);
+  const usedExisting = new Set<number>();
+
+  for (const candidate of candidates) {
+    if (result[candidate.row] || usedExisting.has(candidate.existingIndex)) continue;
+
+    const stored = existing[candidate.existingIndex];
+    usedExisting.add(candidate.existingIndex);
+    result[candidate.row] = {
+      transactionId: stored.id,
+      date: stored.transaction_date,
+      description: stored.description,
+      amount: Number(stored.amount),
+      similarity: candidate.similarity,
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+import { removeAttachmentFiles } from '@/lib/attachments';
+import { Database } from '@/integrations/supabase/types';
+
+export type ImportBatch = Database['public']['Tables']['import_batches']['Row'] & {
+  accounts: { name: string } | null;
+};
+
+export async function fetchImportBatches(userId: string): Promise<ImportBatch[]> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*, accounts(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Delete every transaction of a batch and revert its debt/investment impact,
+ * atomically on the server, then remove their attachment files from storage.
+ * Returns how many transactions were removed.
+ */
+export async function undoImportBatch(batchId: number): Promise<number> {
+  const { data, error } = await supabase.rpc('undo_import_batch', { batch_id_input: batchId });
+
+  if (error) throw new Error(error.message);
+
+  const result = data?.[0];
+  await removeAttachmentFiles(result?.attachment_paths || []);
+  return result?.deleted_count ?? 0;
+}
@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { CSVMapping, DEFAULT_CSV_MAPPING } from '@/lib/csvImport';
+
+export interface ImportPreset {
+  id: number;
+  account_id: number;
+  name: string;
+  mapping: CSVMapping;
+  last_used_at: string | null;
+}
+
+/**
+ * Saved column mappings for an account, most recently used first.
+ * Stored mappings are merged over the defaults so presets saved before a
+ * field existed still produce a complete mapping.
+ */
+export async function fetchImportPresets(userId: string, accountId: number): Promise<ImportPreset[]> {
+  const { data, error } = await supabase
+    .from('import_presets')
+    .select('id, account_id, name, mapping, last_used_at')
+    .eq('user_id', userId)
+    .eq('account_id', accountId)
+    .order('last_used_at', { ascending: false, nullsFirst: false });
+
+  if (error) throw error;
+
+  return (data || []).map(preset => ({
+    ...preset,
+    mapping: { ...DEFAULT_CSV_MAPPING, ...(preset.mapping as unknown as Partial<CSVMapping>) },
+  }));
+}
+
+/**
+ * Create or overwrite (by name) a preset for the account.
+ */
+export async function saveImportPreset(
+  userId: string,
+  accountId: number,
+  name: string,
+  mapping: CSVMapping
+): Promise<void> {
+  const { error } = await supabase
+    .from('import_presets')
+    .upsert(
+      {
+        user_id: userId,
+        account_id: accountId,
+        name,
+        mapping: mapping as unknown as Json,
+        last_used_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,account_id,name' }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Bump last_used_at so the preset is reapplied on the next upload for the account.
+ */
+export async function markImportPresetUsed(presetId: number): Promise<void> {
+  const { error } = await supabase
+    .from('import_presets')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', presetId);
+
+  if (error) throw error;
+}
+
+export async function deleteImportPreset(presetId: number): Promise<void> {
+  const { error } = await supabase
+    .from('import_presets')
+    .delete()
+    .eq('id', presetId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,300 @@
+import { supabase } from '@/integrations/supabase/client';
+import { removeAttachmentFiles } from '@/lib/attachments';
+import { Database } from '@/integrations/supabase/types';
+import { ParsedTransaction } from '@/lib/statementImport';
+import { descriptionKey } from '@/lib/categorySuggestions';
+import { descriptionSimilarity } from '@/lib/descriptionMatching';
+
+export type InstallmentPurchase = Database['public']['Tables']['installment_purchases']['Row'];
+
+export interface InstallmentMarker {
+  current: number; // 3 in "PARC 03/10"
+  total: number; // 10 in "PARC 03/10"
+  baseDescription: string; // Description without the marker, shared by every installment
+}
+
+const MAX_INSTALLMENTS = 120;
+
+// Tried in order; the first valid match wins
+const MARKER_PATTERNS: RegExp[] = [
+  /\bPARC(?:ELA)?S?\.?\s*(\d{1,3})\s*(?:\/|DE)\s*(\d{1,3})\b/i, // PARC 03/10, PARCELA 3 DE 10, Parc.3/10
+  /\(\s*(\d{1,3})\s*\/\s*(\d{1,3})\s*\)/, // (3/10)
+  /\b(\d{1,3})\s+DE\s+(\d{1,3})\b/i, // 3 DE 10
+];
+
+// "LOJA X 03/10" is ambiguous with a date, so it is only accepted on credit card statements
+const BARE_FRACTION_PATTERN = /\b(\d{1,2})\/(\d{1,2})\s*$/;
+
+/**
+ * Detect an installment marker such as "PARC 03/10" in a statement description.
+ * Set allowBareFraction for credit card statements, where a trailing "03/10"
+ * means an installment rather than a date.
+ */
+export function parseInstallmentMarker(description: string, allowBareFraction = false): InstallmentMarker | null {
+  const patterns = allowBareFraction ? [...MARKER_PATTERNS, BARE_FRACTION_PATTERN] : MARKER_PATTERNS;
+
+  for (const pattern of patterns) {
+    const match = description.match(pattern);
+    if (!match) continue;
+
+    const current = parseInt(match[1], 10);
+    const total = parseInt(match[2], 10);
+    if (current < 1 || total < 2 || current > total || total > MAX_INSTALLMENTS) continue;
+
+    const baseDescription = description
+      .replace(match[0], ' ')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s\-/]+|[\s\-/]+$/g, '');
+
+    return { current, total, baseDescription: baseDescription || description };
+  }
+
+  return null;
+}
+
+/**
+ * Rows of one statement that belong to the same installment purchase.
+ */
+export interface InstallmentGroup {
+  key: string;
+  description: string;
+  total: number;
+  installmentAmount: number;
+  rowIndexes: number[];
+  firstCurrent: number; // Lowest installment number present in the file
+  lastCurrent: number; // Highest installment number present in the file
+}
+
+/**
+ * Group expense rows with installment markers by purchase: same merchant,
+ * same number of installments and same installment value.
+ */
+export function groupInstallments(transactions: ParsedTransaction[]): InstallmentGroup[] {
+  const groups = new Map<string, InstallmentGroup>();
+
+  transactions.forEach((transaction, index) => {
+    const marker = transaction.installment;
+    if (!marker || transaction.excluded || transaction.type !== 'Expense') return;
+
+    const key = `${descriptionKey(marker.baseDescription)}|${marker.total}|${Math.round(transaction.amount * 100)}`;
+    const group = groups.get(key);
+    if (group) {
+      group.rowIndexes.push(index);
+      group.firstCurrent = Math.min(group.firstCurrent, marker.current);
+      group.lastCurrent = Math.max(group.lastCurrent, marker.current);
+    } else {
+      groups.set(key, {
+        key,
+        description: marker.baseDescription,
+        total: marker.total,
+        installmentAmount: transaction.amount,
+        rowIndexes: [index],
+        firstCurrent: marker.current,
+        lastCurrent: marker.current,
+      });
+    }
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * An already registered purchase this group most likely continues.
+ */
+export function findMatchingPurchase(group: InstallmentGroup, purchases: InstallmentPurchase[]): InstallmentPurchase | null {
+  let best: InstallmentPurchase | null = null;
+  let bestSimilarity = 0;
+
+  for (const purchase of purchases) {
+    if (purchase.total_installments !== group.total) continue;
+    const amountTolerance = Math.max(0.05, Number(purchase.installment_amount) * 0.01);
+    if (Math.abs(Number(purchase.installment_amount) - group.installmentAmount) > amountTolerance) continue;
+
+    const similarity = descriptionSimilarity(purchase.description, group.description);
+    if (similarity >= 0.8 && similarity > bestSimilarity) {
+      best = purchase;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Shift a yyyy-MM-dd reference month by n months, returning the first day of the month.
+ */
+export function addMonths(month: string, n: number): string {
+  const [year, monthIndex] = month.split('-').map(p => parseInt(p, 10));
+  const date = new Date(Date.UTC(year, monthIndex - 1 + n, 1));
+  return date.toISOString().slice(0, 10);
+}
+
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(p => parseInt(p, 10));
+  const [toYear, toMonth] = to.split('-').map(p => parseInt(p, 10));
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+export async function fetchInstallmentPurchases(userId: string, accountId?: number): Promise<InstallmentPurchase[]> {
+  let query = supabase
+    .from('installment_purchases')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (accountId) query = query.eq('account_id', accountId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchInstallmentPurchase(purchaseId: number): Promise<InstallmentPurchase> {
+  const { data, error } = await supabase
+    .from('installment_purchases')
+    .select('*')
+    .eq('id', purchaseId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export interface UpcomingInstallment {
+  purchase: InstallmentPurchase;
+  installmentNumber: number;
+  amount: number;
+}
+
+/**
+ * Installments due in the given reference month that have no transaction yet.
+ * Only current and future months are projected: a missing installment in the
+ * past is more likely a statement that was never imported. Installments replaced
+ * by an early payoff are not projected.
+ */
+export async function fetchUpcomingInstallments(userId: string, referenceMonth: string): Promise<UpcomingInstallment[]> {
+  const currentMonth = new Date().toISOString().slice(0, 7) + '-01';
+  if (monthsBetween(currentMonth, referenceMonth) < 0) return [];
+
+  const purchases = (await fetchInstallmentPurchases(userId)).filter(purchase => {
+    const number = monthsBetween(purchase.first_reference_month, referenceMonth) + 1;
+    const lastNumber = purchase.paid_off_from !== null ? purchase.paid_off_from - 1 : purchase.total_installments;
+    return number >= 1 && number <= lastNumber;
+  });
+  if (purchases.length === 0) return [];
+
+  const { data: realized, error } = await supabase
+    .from('transactions')
+    .select('installment_purchase_id, installment_number')
+    .eq('user_id', userId)
+    .in('installment_purchase_id', purchases.map(p => p.id));
+
+  if (error) throw error;
+
+  const realizedKeys = new Set((realized || []).map(t => `${t.installment_purchase_id}:${t.installment_number}`));
+
+  return purchases
+    .map(purchase => ({
+      purchase,
+      installmentNumber: monthsBetween(purchase.first_reference_month, referenceMonth) + 1,
+      amount: Number(purchase.installment_amount),
+    }))
+    .filter(item => !realizedKeys.has(`${item.purchase.id}:${item.installmentNumber}`));
+}
+
+/**
+ * Split a total into installment values the way create_installment_purchase does:
+ * every installment gets the total divided and rounded down to the cent, and the
+ * first one absorbs the leftover cents.
+ */
+export function splitInstallmentAmounts(totalAmount: number, totalInstallments: number): number[] {
+  const totalCents = Math.round(totalAmount * 100);
+  const installmentCents = Math.floor(totalCents / totalInstallments);
+  const firstCents = totalCents - installmentCents * (totalInstallments - 1);
+
+  return Array.from({ length: totalInstallments }, (_, index) =>
+    (index === 0 ? firstCents : installmentCents) / 100
+  );
+}
+
+export interface InstallmentPurchaseInput {
+  accountId: number;
+  description: string;
+  totalInstallments: number;
+  firstReferenceMonth: string;
+  firstTransactionDate: string;
+  totalAmount?: number; // Either the total or the installment value
+  installmentAmount?: number;
+  categoryId?: number | null;
+  subcategoryId?: number | null;
+}
+
+/**
+ * Register a purchase and one expense transaction per installment, one month apart.
+ * Returns the purchase id.
+ */
+export async function createInstallmentPurchase(input: InstallmentPurchaseInput): Promise<number> {
+  const { data, error } = await supabase.rpc('create_installment_purchase', {
+    account_id_input: input.accountId,
+    description_input: input.description,
+    total_installments_input: input.totalInstallments,
+    first_reference_month_input: input.firstReferenceMonth,
+    first_transaction_date_input: input.firstTransactionDate,
+    total_amount_input: input.totalAmount,
+    installment_amount_input: input.installmentAmount,
+    category_id_input: input.categoryId ?? undefined,
+    subcategory_id_input: input.subcategoryId ?? undefined
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export interface InstallmentTransaction {
+  id: number;
+  installment_number: number | null;
+  amount: number;
+  transaction_date: string;
+  reference_month: string;
+}
+
+/**
+ * The transactions of a purchase, in installment order.
+ */
+export async function fetchInstallmentTransactions(purchaseId: number): Promise<InstallmentTransaction[]> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, installment_number, amount, transaction_date, reference_month')
+    .eq('installment_purchase_id', purchaseId)
+    .order('installment_number', { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Pay off the installments from `fromInstallment` on in a single transaction of
+ * `amount` (which may carry a discount), then removes the attachment files of the
+ * replaced installments. Returns the id of that transaction.
+ */
+export async function payOffInstallmentPurchase(
+  purchaseId: number,
+  fromInstallment: number,
+  amount: number,
+  transactionDate: string,
+  referenceMonth: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('pay_off_installment_purchase', {
+    purchase_id_input: purchaseId,
+    from_installment_input: fromInstallment,
+    amount_input: amount,
+    transaction_date_input: transactionDate,
+    reference_month_input: referenceMonth
+  });
+
+  if (error) throw new Error(error.message);
+
+  const result = data?.[0];
+  await removeAttachmentFiles(result?.attachment_paths || []);
+  return result?.transaction_id;
+}
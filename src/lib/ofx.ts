@@ -0,0 +1,158 @@
+import { ParsedTransaction } from '@/lib/statementImport';
+
+/**
+ * OFX statement parsing.
+ * Supports both OFX 1.x (SGML, leaf elements without closing tags) and
+ * OFX 2.x (XML). Only the fields needed for import are read from each
+ * <STMTTRN>: TRNAMT, DTPOSTED, FITID, NAME and MEMO.
+ */
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Decode the raw file bytes using the charset declared in the OFX header.
+ * Brazilian banks usually export SGML files as CHARSET:1252, which would be
+ * garbled if read as UTF-8.
+ */
+export function decodeOFX(buffer: ArrayBuffer): string {
+  const header = new TextDecoder('windows-1252').decode(buffer.slice(0, 1024));
+
+  const declaresUtf8 = /ENCODING:\s*UTF-?8/i.test(header) || /encoding=["']utf-?8["']/i.test(header);
+  const declaresLatin = /CHARSET:\s*(1252|ISO-?8859-?1|8859-?1)/i.test(header)
+    || /encoding=["'](iso-8859-1|windows-1252)["']/i.test(header);
+
+  if (declaresLatin && !declaresUtf8) {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    // Header didn't say, and the content isn't valid UTF-8: assume Windows-1252
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(amp|lt|gt|quot|apos|nbsp);/gi, (entity) => XML_ENTITIES[entity.toLowerCase()] ?? entity);
+
+/**
+ * Read a leaf element value. Works for SGML (`<TAG>value`) and XML (`<TAG>value</TAG>`).
+ */
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return undefined;
+  const value = decodeEntities(match[1]).replace(/\s+/g, ' ').trim();
+  return value || undefined;
+};
+
+/**
+ * Parse an OFX date (yyyyMMdd[HHmmss[.XXX]][[gmt offset:tz name]]) into yyyy-MM-dd.
+ * The time and timezone are ignored: the posted day is what the statement shows.
+ */
+export function parseOFXDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10)));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCMonth() !== parseInt(month, 10) - 1 ||
+    date.getUTCDate() !== parseInt(day, 10)
+  ) {
+    return null;
+  }
+
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a TRNAMT value. The spec allows either "." or "," as the decimal
+ * separator, and some banks also emit thousands separators.
+ */
+export function parseOFXAmount(value: string): number {
+  let normalized = value.replace(/\s+/g, '').replace(/^\+/, '');
+
+  const lastComma = normalized.lastIndexOf(',');
+  const lastDot = normalized.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // "1.234,56" or "1234,56"
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else if (lastComma !== -1) {
+    // "1,234.56"
+    normalized = normalized.replace(/,/g, '');
+  }
+
+  return parseFloat(normalized);
+}
+
+/**
+ * Split the statement into the contents of each <STMTTRN> aggregate.
+ * Closing tags are honoured when present, but we also stop at the next
+ * transaction or the end of the list for files that omit them.
+ */
+const extractTransactionBlocks = (body: string): string[] => {
+  const parts = body.split(/<STMTTRN>/i).slice(1);
+  return parts.map(part => part.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+};
+
+const buildDescription = (name?: string, memo?: string, trnType?: string): string => {
+  if (name && memo) {
+    if (memo.toUpperCase().includes(name.toUpperCase())) return memo;
+    if (name.toUpperCase().includes(memo.toUpperCase())) return name;
+    return `${name} - ${memo}`;
+  }
+  return name || memo || trnType || 'Sem descrição';
+};
+
+export function parseOFX(ofxText: string): ParsedTransaction[] {
+  const start = ofxText.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('Arquivo OFX inválido: não foi encontrada a tag <OFX>.');
+  }
+
+  const blocks = extractTransactionBlocks(ofxText.slice(start));
+  const transactions: ParsedTransaction[] = [];
+  const timestamp = Date.now();
+
+  blocks.forEach((block, i) => {
+    const rawAmount = readTag(block, 'TRNAMT');
+    const rawDate = readTag(block, 'DTPOSTED');
+
+    if (!rawAmount || !rawDate) {
+      throw new Error(`Erro na transação ${i + 1} do OFX: campos obrigatórios TRNAMT/DTPOSTED ausentes.`);
+    }
+
+    const date = parseOFXDate(rawDate);
+    if (!date) {
+      throw new Error(`Erro na transação ${i + 1} do OFX: data inválida "${rawDate}".`);
+    }
+
+    const amount = parseOFXAmount(rawAmount);
+    if (isNaN(amount)) {
+      throw new Error(`Erro na transação ${i + 1} do OFX: valor inválido "${rawAmount}".`);
+    }
+
+    // Zero-value entries (balance markers, cancelled holds) can't be stored
+    if (amount === 0) return;
+
+    transactions.push({
+      date,
+      description: buildDescription(readTag(block, 'NAME'), readTag(block, 'MEMO'), readTag(block, 'TRNTYPE')),
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'Expense' : 'Income',
+      id: `temp-${timestamp}-${i}`,
+      fitid: readTag(block, 'FITID'),
+    });
+  });
+
+  return transactions;
+}
@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+/**
+ * Payees: the merchant or person behind a transaction. Bank descriptions are mapped
+ * to payees in the database through learned aliases: a new transaction without a
+ * payee gets the one its description matches, and choosing a different payee for a
+ * transaction teaches its description as an alias of that payee.
+ */
+
+export type Payee = Database['public']['Tables']['payees']['Row'];
+export type PayeeAlias = Database['public']['Tables']['payee_aliases']['Row'];
+export type PayeeSummary = Database['public']['Functions']['get_payee_summary']['Returns'][number];
+
+export const MAX_PAYEE_LENGTH = 100;
+
+/**
+ * Trim and collapse whitespace; the case is kept, as typed by the user.
+ */
+export function normalizePayeeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+export async function fetchPayees(userId: string): Promise<Payee[]> {
+  const { data, error } = await supabase
+    .from('payees')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * The id of the payee with this name, ignoring case, creating it when missing.
+ */
+export async function ensurePayee(userId: string, name: string, payees: Payee[]): Promise<number> {
+  const normalized = normalizePayeeName(name);
+  const existing = payees.find(p => p.name.toLocaleLowerCase('pt-BR') === normalized.toLocaleLowerCase('pt-BR'));
+  if (existing) return existing.id;
+
+  const { data, error } = await supabase
+    .from('payees')
+    .insert({ user_id: userId, name: normalized.slice(0, MAX_PAYEE_LENGTH) })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+export async function renamePayee(payeeId: number, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('payees')
+    .update({ name: normalizePayeeName(name) })
+    .eq('id', payeeId);
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a payee with its aliases; its transactions are kept without a payee.
+ */
+export async function deletePayee(payeeId: number): Promise<void> {
+  const { error } = await supabase
+    .from('payees')
+    .delete()
+    .eq('id', payeeId);
+
+  if (error) throw error;
+}
+
+export async function fetchPayeeAliases(userId: string): Promise<PayeeAlias[]> {
+  const { data, error } = await supabase
+    .from('payee_aliases')
+    .select('*')
+    .eq('user_id', userId)
+    .order('alias');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Forget an alias. Transactions already mapped through it keep their payee.
+ */
+export async function deletePayeeAlias(aliasId: number): Promise<void> {
+  const { error } = await supabase
+    .from('payee_aliases')
+    .delete()
+    .eq('id', aliasId);
+
+  if (error) throw error;
+}
+
+/**
+ * Income and expense totals per payee over a range of reference months (inclusive),
+ * largest expense first. Transfers are left out.
+ */
+export async function fetchPayeeSummary(startMonth: string, endMonth: string): Promise<PayeeSummary[]> {
+  const { data, error } = await supabase.rpc('get_payee_summary', {
+    start_month_input: startMonth,
+    end_month_input: endMonth
+  });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
@@ -0,0 +1,364 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { deriveReferenceMonth, parseReferenceMonth } from '@/lib/referenceMonth';
+
+/**
+ * Recurring transactions (rent, salary, subscriptions). A template holds the
+ * transaction values and a schedule; its due dates are materialized as pending
+ * occurrences, which only become transactions once the user confirms them.
+ * Dates are "yyyy-MM-dd" strings, handled in UTC to avoid timezone shifts.
+ */
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export type RecurringTemplate = Database['public']['Tables']['recurring_templates']['Row'];
+export type RecurringTemplateInput = Omit<
+  RecurringTemplate,
+  'id' | 'user_id' | 'created_at' | 'generated_until' | 'account_trashed_at'
+>;
+export type RecurringOccurrence = Database['public']['Tables']['recurring_occurrences']['Row'];
+
+/**
+ * The fields of a single occurrence that can be changed without touching its template.
+ */
+export type RecurringOccurrenceChanges = Pick<
+  RecurringOccurrence,
+  'description' | 'amount' | 'account_id' | 'category_id' | 'subcategory_id' | 'transaction_date' | 'reference_month'
+>;
+
+export type RecurringSchedule = Pick<
+  RecurringTemplate,
+  'frequency' | 'frequency_interval' | 'day_of_month' | 'start_date' | 'end_date' | 'occurrence_count'
+>;
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string; unit: string }[] = [
+  { value: 'monthly', label: 'Mensal', unit: 'mês(es)' },
+  { value: 'weekly', label: 'Semanal', unit: 'semana(s)' },
+  { value: 'yearly', label: 'Anual', unit: 'ano(s)' },
+];
+
+// Safety net for malformed schedules; no real template gets near it
+const MAX_ITERATIONS = 5000;
+
+const WEEKDAYS = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+const toUtc = (date: string) => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const fromUtc = (date: Date) => date.toISOString().slice(0, 10);
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Day 31 falls on the last day of shorter months (and Feb 29th on Feb 28th)
+const clampedDate = (year: number, month: number, day: number) =>
+  fromUtc(new Date(Date.UTC(year, month, Math.min(day, lastDayOfMonth(year, month)))));
+
+const addDays = (date: string, days: number) => {
+  const result = toUtc(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return fromUtc(result);
+};
+
+/**
+ * Last day of a reference month, e.g. '2026-02-01' => '2026-02-28'.
+ */
+export function endOfReferenceMonth(referenceMonth: string): string {
+  const { year, month } = parseReferenceMonth(referenceMonth);
+  return clampedDate(year, month, 31);
+}
+
+// The k-th date of the schedule, before applying the start date, end date and count
+const nthDate = (schedule: RecurringSchedule, k: number): string => {
+  const start = toUtc(schedule.start_date);
+  const step = k * schedule.frequency_interval;
+
+  if (schedule.frequency === 'weekly') {
+    return addDays(schedule.start_date, step * 7);
+  }
+
+  if (schedule.frequency === 'yearly') {
+    return clampedDate(start.getUTCFullYear() + step, start.getUTCMonth(), start.getUTCDate());
+  }
+
+  const day = schedule.day_of_month ?? start.getUTCDate();
+  return clampedDate(start.getUTCFullYear(), start.getUTCMonth() + step, day);
+};
+
+/**
+ * Every due date of a schedule, in order. Infinite for open-ended schedules, so
+ * callers must stop at a bound. Monthly schedules fall on `day_of_month` and skip
+ * that day in the start month when it comes before the start date.
+ */
+export function* occurrenceDates(schedule: RecurringSchedule): Generator<string> {
+  let counted = 0;
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const date = nthDate(schedule, k);
+    if (date < schedule.start_date) continue;
+    if (schedule.end_date && date > schedule.end_date) return;
+    if (schedule.occurrence_count !== null && counted >= schedule.occurrence_count) return;
+
+    counted++;
+    yield date;
+  }
+}
+
+/**
+ * Due dates up to `until` (inclusive), optionally only those after `after`.
+ */
+export function scheduleDates(schedule: RecurringSchedule, until: string, after?: string | null): string[] {
+  const dates: string[] = [];
+  for (const date of occurrenceDates(schedule)) {
+    if (date > until) break;
+    if (!after || date > after) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * First due date on or after `date`, or null when the schedule has ended.
+ */
+export function nextOccurrenceDate(schedule: RecurringSchedule, date: string): string | null {
+  for (const occurrence of occurrenceDates(schedule)) {
+    if (occurrence >= date) return occurrence;
+  }
+  return null;
+}
+
+/**
+ * How many occurrences of a limited schedule are left from `date` on. Used when a
+ * template is split, so the new one keeps the original total.
+ */
+export function remainingOccurrenceCount(schedule: RecurringSchedule, date: string): number | null {
+  if (schedule.occurrence_count === null) return null;
+  const before = scheduleDates(schedule, addDays(date, -1)).length;
+  return Math.max(schedule.occurrence_count - before, 1);
+}
+
+const formatShortDate = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Human description of a schedule, e.g. "Mensal, todo dia 5 · 10 ocorrências".
+ */
+export function describeSchedule(schedule: RecurringSchedule): string {
+  const start = toUtc(schedule.start_date);
+  const interval = schedule.frequency_interval;
+  let description: string;
+
+  if (schedule.frequency === 'weekly') {
+    const weekday = WEEKDAYS[start.getUTCDay()];
+    const every = start.getUTCDay() === 0 || start.getUTCDay() === 6 ? 'todo' : 'toda';
+    description = interval === 1 ? `Semanal, ${every} ${weekday}` : `A cada ${interval} semanas, ${weekday}`;
+  } else if (schedule.frequency === 'yearly') {
+    const day = formatShortDate(schedule.start_date).slice(0, 5);
+    description = interval === 1 ? `Anual, em ${day}` : `A cada ${interval} anos, em ${day}`;
+  } else {
+    const day = schedule.day_of_month ?? start.getUTCDate();
+    description = interval === 1 ? `Mensal, todo dia ${day}` : `A cada ${interval} meses, dia ${day}`;
+  }
+
+  if (schedule.occurrence_count !== null) {
+    description += ` · ${schedule.occurrence_count} ocorrência${schedule.occurrence_count === 1 ? '' : 's'}`;
+  }
+  if (schedule.end_date) {
+    description += ` · até ${formatShortDate(schedule.end_date)}`;
+  }
+
+  return description;
+}
+
+export async function fetchRecurringTemplates(userId: string): Promise<RecurringTemplate[]> {
+  const { data, error } = await supabase
+    .from('recurring_templates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('description', { ascending: true })
+    .order('start_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchRecurringTemplate(templateId: number): Promise<RecurringTemplate> {
+  const { data, error } = await supabase
+    .from('recurring_templates')
+    .select('*')
+    .eq('id', templateId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createRecurringTemplate(userId: string, template: RecurringTemplateInput): Promise<RecurringTemplate> {
+  const { data, error } = await supabase
+    .from('recurring_templates')
+    .insert([{ ...template, user_id: userId }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Change a template from `fromDate` on ("this and future"). Pending occurrences from
+ * that date are regenerated; when the template already has earlier occurrences it
+ * is ended the day before and a new template takes over, whose id is returned.
+ * Confirmed and skipped occurrences from that date stay with the old template: the
+ * new one must start after them, and they count towards its occurrence limit.
+ */
+export async function updateRecurringTemplate(
+  templateId: number,
+  template: RecurringTemplateInput,
+  fromDate: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('update_recurring_template', {
+    template_id_input: templateId,
+    template_input: template as unknown as Json,
+    from_date_input: fromDate
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function setRecurringTemplateActive(templateId: number, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('recurring_templates')
+    .update({ is_active: isActive })
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a template and its pending occurrences. Transactions already confirmed are kept.
+ */
+export async function deleteRecurringTemplate(templateId: number): Promise<void> {
+  const { error } = await supabase
+    .from('recurring_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
+
+/**
+ * Materialize the occurrences of every active template due up to the end of the
+ * reference month, as pending. Each template remembers how far it was generated,
+ * and an occurrence already confirmed or skipped is never created again. Templates
+ * whose account is in the trash are left out. Returns the number of new occurrences.
+ */
+export async function generateRecurringOccurrences(userId: string, referenceMonth: string): Promise<number> {
+  const until = endOfReferenceMonth(referenceMonth);
+
+  const { data: templates, error } = await supabase
+    .from('recurring_templates')
+    .select('*, accounts!inner(month_start_day, closing_day)')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .or(`generated_until.is.null,generated_until.lt.${until}`);
+
+  if (error) throw error;
+
+  let created = 0;
+  for (const template of templates || []) {
+    const rule = {
+      monthStartDay: template.accounts?.month_start_day ?? 1,
+      closingDay: template.accounts?.closing_day ?? null
+    };
+
+    const rows = scheduleDates(template, until, template.generated_until).map(date => ({
+      user_id: userId,
+      template_id: template.id,
+      scheduled_date: date,
+      description: template.description,
+      amount: template.amount,
+      type: template.type,
+      account_id: template.account_id,
+      category_id: template.category_id,
+      subcategory_id: template.subcategory_id,
+      transaction_date: date,
+      reference_month: deriveReferenceMonth(date, rule)
+    }));
+
+    if (rows.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('recurring_occurrences')
+        .upsert(rows, { onConflict: 'template_id,scheduled_date', ignoreDuplicates: true })
+        .select('id');
+
+      if (insertError) throw insertError;
+      created += inserted?.length ?? 0;
+    }
+
+    const { error: updateError } = await supabase
+      .from('recurring_templates')
+      .update({ generated_until: until })
+      .eq('id', template.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return created;
+}
+
+export type PendingOccurrence = RecurringOccurrence & {
+  accounts: { name: string } | null;
+  categories: { name: string } | null;
+};
+
+/**
+ * Pending occurrences of the reference month, plus overdue ones from earlier months.
+ */
+export async function fetchPendingOccurrences(userId: string, referenceMonth: string): Promise<PendingOccurrence[]> {
+  const { data, error } = await supabase
+    .from('recurring_occurrences')
+    .select('*, accounts(name), categories(name)')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .lte('reference_month', referenceMonth)
+    .order('transaction_date', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Turn pending occurrences into transactions. Returns how many were confirmed.
+ */
+export async function confirmRecurringOccurrences(occurrenceIds: number[]): Promise<number> {
+  const { data, error } = await supabase.rpc('confirm_recurring_occurrences', {
+    occurrence_ids_input: occurrenceIds
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function skipRecurringOccurrence(occurrenceId: number): Promise<void> {
+  const { error } = await supabase
+    .from('recurring_occurrences')
+    .update({ status: 'skipped' })
+    .eq('id', occurrenceId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
+
+/**
+ * Change only this occurrence ("only this one"); the template is left as is.
+ */
+export async function updateRecurringOccurrence(occurrenceId: number, changes: RecurringOccurrenceChanges): Promise<void> {
+  const { error } = await supabase
+    .from('recurring_occurrences')
+    .update(changes)
+    .eq('id', occurrenceId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
@@ -73,3 +73,37 @@ export function formatReferenceMonth(referenceMonth: string): string {
   ];
   return `${months[month]} de ${year}`;
 }
+
+/**
+ * How an account assigns transaction dates to reference months.
+ */
+export interface ReferenceMonthRule {
+  monthStartDay: number; // 1 = calendar month; 25 = month runs from the 25th to the 24th
+  closingDay?: number | null; // Credit cards: purchases after the closing day go to the next invoice
+}
+
+/**
+ * Derive the reference month of a transaction from its "yyyy-MM-dd" date.
+ * A closing day takes precedence over the month start day and is clamped to
+ * the last day of shorter months (closing on the 31st closes on Feb 28th).
+ * With a month start day, dates from that day on belong to the following month.
+ * Example: deriveReferenceMonth('2026-03-26', { monthStartDay: 25 }) => '2026-04-01'
+ */
+export function deriveReferenceMonth(date: string, rule: ReferenceMonthRule): string {
+  const [yearStr, monthStr, dayStr] = date.split('-');
+  const year = parseInt(yearStr, 10);
+  const month = parseInt(monthStr, 10) - 1; // 0-indexed
+  const day = parseInt(dayStr, 10);
+  const referenceMonth = buildReferenceMonth(year, month);
+
+  if (rule.closingDay) {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return day > Math.min(rule.closingDay, lastDay) ? shiftReferenceMonth(referenceMonth, 1) : referenceMonth;
+  }
+
+  if (rule.monthStartDay > 1 && day >= rule.monthStartDay) {
+    return shiftReferenceMonth(referenceMonth, 1);
+  }
+
+  return referenceMonth;
+}
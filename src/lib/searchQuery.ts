@@ -0,0 +1,300 @@
+import { normalizeTagName } from '@/lib/tags';
+
+/**
+ * Search language of the transactions page. A query is a list of terms separated
+ * by spaces, all of which must match:
+ *
+ *   mercado                  description contains "mercado" ("posto shell" for a phrase)
+ *   valor>200                amount, with >, >=, <, <=, = or ":"; valor:100..500 for a range
+ *   categoria:Mercado        category by name; also subcategoria:, conta: and tag:
+ *   tipo:despesa             receita, despesa or transferencia
+ *   data:2026-01..2026-03    transaction date: a day, a month or a range with optional ends
+ *   mes:2026-02              reference month, also with ranges
+ *   -tag:reembolsavel        a leading "-" negates the term
+ *
+ * A negated name (-categoria:, -subcategoria:, -conta:) also keeps the transactions
+ * without one, such as uncategorized and split transactions.
+ * Names match case-insensitively and "*" matches any text. Terms compile to
+ * PostgREST filters on the transaction_list view; get_transaction_list_totals
+ * applies the same conditions to the totals.
+ */
+
+export interface SearchCondition {
+  column: string; // Column of the transaction_list view
+  operator: 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'ilike' | 'cs' | 'is';
+  value: string; // PostgREST filter value
+  negated: boolean;
+  includeNull?: boolean; // Rows where the column is null match as well
+}
+
+export interface SearchQueryError {
+  message: string;
+  start: number; // Offsets of the offending term in the query
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  conditions: SearchCondition[];
+  error: SearchQueryError | null;
+}
+
+export interface SearchField {
+  name: string;
+  insert: string; // Text inserted when the field is picked from the autocomplete
+  example: string;
+}
+
+export const SEARCH_FIELDS: SearchField[] = [
+  { name: 'valor', insert: 'valor>', example: 'valor>200, valor:100..500' },
+  { name: 'categoria', insert: 'categoria:', example: 'categoria:Mercado' },
+  { name: 'subcategoria', insert: 'subcategoria:', example: 'subcategoria:Feira' },
+  { name: 'conta', insert: 'conta:', example: 'conta:Nubank' },
+  { name: 'tag', insert: 'tag:', example: 'tag:viagem-2026' },
+  { name: 'tipo', insert: 'tipo:', example: 'tipo:despesa' },
+  { name: 'data', insert: 'data:', example: 'data:2026-01..2026-03' },
+  { name: 'mes', insert: 'mes:', example: 'mes:2026-02' },
+  { name: 'descricao', insert: 'descricao:', example: 'descricao:"posto shell"' }
+];
+
+export const SEARCH_TYPE_VALUES = ['receita', 'despesa', 'transferencia'];
+
+const NAME_COLUMNS: Record<string, string> = {
+  categoria: 'category_name',
+  subcategoria: 'subcategory_name',
+  conta: 'account_name'
+};
+
+const COMPARISON_OPERATORS: Record<string, SearchCondition['operator']> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte'
+};
+
+interface RawTerm {
+  negated: boolean;
+  field: string | null;
+  operator: string | null;
+  value: string;
+  start: number;
+  end: number;
+}
+
+class SearchSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+/**
+ * Lowercase without accents, so "Mês" and "mes" name the same field.
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Backslash-escape LIKE wildcards typed by the user; "*" becomes the wildcard
+const toLikePattern = (value: string) => value.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%');
+
+// Values inside a PostgREST "or" filter are quoted, since names may contain commas or parentheses
+const quoteFilterValue = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+/**
+ * PostgREST "or" filter for a condition with `includeNull`: the column is null or
+ * the condition holds.
+ */
+export const toIncludeNullFilter = ({ column, operator, value, negated }: SearchCondition): string =>
+  `${column}.is.null,${column}.${negated ? 'not.' : ''}${operator}.${quoteFilterValue(value)}`;
+
+function tokenize(input: string): RawTerm[] {
+  const terms: RawTerm[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    let field: string | null = null;
+    let operator: string | null = null;
+    const fieldMatch = /^([a-zA-ZÀ-ÿ]+)(>=|<=|>|<|=|:)/.exec(input.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1];
+      operator = fieldMatch[2];
+      i += fieldMatch[0].length;
+    }
+
+    let value: string;
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        throw new SearchSyntaxError('Aspas não fechadas', i, input.length);
+      }
+      value = input.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      const valueStart = i;
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      value = input.slice(valueStart, i);
+    }
+
+    terms.push({ negated, field, operator, value, start, end: i });
+  }
+
+  return terms;
+}
+
+function parseAmount(value: string, term: RawTerm): string {
+  // "1.234,56" and "99,90" as well as "99.90"
+  const normalized = value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value;
+  const amount = Number(normalized);
+  if (!normalized || !Number.isFinite(amount) || amount < 0) {
+    throw new SearchSyntaxError(`Valor inválido "${value}": use números como 200 ou 99,90`, term.start, term.end);
+  }
+  return amount.toString();
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * First and last day covered by a date: a day covers itself, a month all of its days.
+ * With `monthsOnly` (the reference month) only months are accepted and both bounds
+ * are the first day of the month, as reference months are stored.
+ */
+function parseDate(value: string, term: RawTerm, monthsOnly: boolean): { first: string; last: string } {
+  const match = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value);
+  const year = match ? parseInt(match[1]) : 0;
+  const month = match ? parseInt(match[2]) : 0;
+  const day = match?.[3] ? parseInt(match[3]) : null;
+  const daysInMonth = new Date(year, month, 0).getDate();
+
+  if (!match || month < 1 || month > 12 || (day !== null && (monthsOnly || day < 1 || day > daysInMonth))) {
+    throw new SearchSyntaxError(
+      monthsOnly
+        ? `Mês inválido "${value}": use o formato 2026-02`
+        : `Data inválida "${value}": use o formato 2026-02-15 ou 2026-02`,
+      term.start,
+      term.end
+    );
+  }
+
+  const monthStart = `${year}-${pad(month)}-01`;
+  if (monthsOnly) return { first: monthStart, last: monthStart };
+  if (day !== null) return { first: `${year}-${pad(month)}-${pad(day)}`, last: `${year}-${pad(month)}-${pad(day)}` };
+  return { first: monthStart, last: `${year}-${pad(month)}-${pad(daysInMonth)}` };
+}
+
+/**
+ * Conditions for "a..b" (either end may be missing) or a single value, for ordered fields.
+ */
+function compileOrdered(
+  term: RawTerm,
+  column: string,
+  bounds: (value: string) => { first: string; last: string }
+): SearchCondition[] {
+  const { negated, operator, value } = term;
+
+  if (operator && COMPARISON_OPERATORS[operator]) {
+    const { first, last } = bounds(value);
+    // "after a month" starts after its last day, "before a month" ends before its first
+    const bound = operator === '>' || operator === '<=' ? last : first;
+    return [{ column, operator: COMPARISON_OPERATORS[operator], value: bound, negated }];
+  }
+
+  if (value.includes('..')) {
+    const [from, to] = value.split('..', 2);
+    if (!from && !to) {
+      throw new SearchSyntaxError('Intervalo vazio: informe ao menos um dos limites', term.start, term.end);
+    }
+    if (negated) {
+      throw new SearchSyntaxError('Intervalos não podem ser negados', term.start, term.end);
+    }
+    const conditions: SearchCondition[] = [];
+    if (from) conditions.push({ column, operator: 'gte', value: bounds(from).first, negated: false });
+    if (to) conditions.push({ column, operator: 'lte', value: bounds(to).last, negated: false });
+    return conditions;
+  }
+
+  const { first, last } = bounds(value);
+  if (first === last) {
+    return [{ column, operator: 'eq', value: first, negated }];
+  }
+  if (negated) {
+    throw new SearchSyntaxError('Intervalos não podem ser negados: use uma data completa', term.start, term.end);
+  }
+  return [
+    { column, operator: 'gte', value: first, negated: false },
+    { column, operator: 'lte', value: last, negated: false }
+  ];
+}
+
+function compileTerm(term: RawTerm): SearchCondition[] {
+  const { negated, operator, value } = term;
+  const field = term.field === null ? null : normalizeSearchText(term.field);
+
+  if (field !== null && !SEARCH_FIELDS.some(f => f.name === field)) {
+    throw new SearchSyntaxError(
+      `Campo desconhecido "${term.field}". Campos: ${SEARCH_FIELDS.map(f => f.name).join(', ')}. Para buscar o texto, use aspas`,
+      term.start,
+      term.end
+    );
+  }
+
+  if (field !== null && !value) {
+    throw new SearchSyntaxError(`Informe um valor para "${term.field}"`, term.start, term.end);
+  }
+
+  const isOrdered = field === 'valor' || field === 'data' || field === 'mes';
+  if (field !== null && !isOrdered && operator !== ':' && operator !== '=') {
+    throw new SearchSyntaxError(`O campo "${term.field}" só aceita ":", como em ${term.field}:valor`, term.start, term.end);
+  }
+
+  switch (field) {
+    case null:
+    case 'descricao':
+      return value ? [{ column: 'description', operator: 'ilike', value: `%${toLikePattern(value)}%`, negated }] : [];
+    case 'valor':
+      return compileOrdered(term, 'amount', v => {
+        const amount = parseAmount(v, term);
+        return { first: amount, last: amount };
+      });
+    case 'data':
+      return compileOrdered(term, 'transaction_date', v => parseDate(v, term, false));
+    case 'mes':
+      return compileOrdered(term, 'reference_month', v => parseDate(v, term, true));
+    case 'tag':
+      // Array literal for "contains": quotes and backslashes in the name are escaped
+      return [{
+        column: 'tag_names',
+        operator: 'cs',
+        value: `{"${normalizeTagName(value).replace(/[\\"]/g, '\\$&')}"}`,
+        negated
+      }];
+    case 'tipo': {
+      const type = normalizeSearchText(value);
+      if (type === 'receita') return [{ column: 'type', operator: 'eq', value: 'Income', negated }];
+      if (type === 'despesa') return [{ column: 'type', operator: 'eq', value: 'Expense', negated }];
+      // Transfers are the rows with a transfer_id
+      if (type === 'transferencia') return [{ column: 'transfer_id', operator: 'is', value: 'null', negated: !negated }];
+      throw new SearchSyntaxError(`Tipo inválido "${value}": use ${SEARCH_TYPE_VALUES.join(', ')}`, term.start, term.end);
+    }
+    default:
+      return [{ column: NAME_COLUMNS[field], operator: 'ilike', value: toLikePattern(value), negated, includeNull: negated }];
+  }
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  try {
+    return { conditions: tokenize(input).flatMap(compileTerm), error: null };
+  } catch (error) {
+    if (error instanceof SearchSyntaxError) {
+      return { conditions: [], error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+}
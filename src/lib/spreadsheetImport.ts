@@ -0,0 +1,223 @@
+import { CSVCell } from '@/lib/csvImport';
+import { ZipArchive, openZip } from '@/lib/zip';
+
+/**
+ * XLSX and ODS statement reading, fully in the browser. Each sheet becomes rows
+ * of typed cells (text, numbers and real dates) that feed the same column
+ * mapping step as CSV files. Empty rows are dropped, as in readCSVRows.
+ */
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: CSVCell[][];
+}
+
+// Transitional and Strict OOXML use different namespaces, so XLSX elements match any
+const SPREADSHEET_NS = '*';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+
+// Built-in XLSX number formats that display dates
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+// ODS files may repeat a blank row or column up to the sheet limit
+const MAX_REPEAT = 1000;
+
+const parseXML = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Planilha corrompida ou em formato não suportado');
+  }
+  return doc;
+};
+
+const children = (parent: Element | Document, ns: string, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS(ns, localName));
+
+const isBlankRow = (row: CSVCell[]) => row.every(value => value === '');
+
+/**
+ * Read every sheet of an .xlsx or .ods file.
+ */
+export async function readSpreadsheet(data: ArrayBuffer): Promise<SpreadsheetSheet[]> {
+  const zip = openZip(new Uint8Array(data));
+
+  if (zip.has('xl/workbook.xml')) return readXLSX(zip);
+  if (zip.has('content.xml')) return readODS(zip);
+  throw new Error('Formato de planilha não suportado. Use arquivos .xlsx ou .ods');
+}
+
+// --- XLSX ---
+
+async function readXLSX(zip: ZipArchive): Promise<SpreadsheetSheet[]> {
+  const workbook = parseXML((await zip.readText('xl/workbook.xml'))!);
+  const relationships = parseXML((await zip.readText('xl/_rels/workbook.xml.rels')) || '<Relationships/>');
+  const sharedStrings = await readSharedStrings(zip);
+  const dateStyles = await readDateStyles(zip);
+  const date1904 = children(workbook, SPREADSHEET_NS, 'workbookPr')[0]?.getAttribute('date1904');
+  const epoch = date1904 === '1' || date1904 === 'true' ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+
+  const targets = new Map<string, string>();
+  Array.from(relationships.getElementsByTagName('Relationship')).forEach(rel => {
+    targets.set(rel.getAttribute('Id') || '', rel.getAttribute('Target') || '');
+  });
+
+  const sheets: SpreadsheetSheet[] = [];
+  for (const sheet of children(workbook, SPREADSHEET_NS, 'sheet')) {
+    const relationshipId = Array.from(sheet.attributes).find(attr => attr.localName === 'id' && attr.prefix)?.value;
+    const target = targets.get(relationshipId || '');
+    if (!target) continue;
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+    const text = await zip.readText(path);
+    if (!text) continue;
+
+    const rows: CSVCell[][] = [];
+    for (const rowElement of children(parseXML(text), SPREADSHEET_NS, 'row')) {
+      const row: CSVCell[] = [];
+      for (const cellElement of children(rowElement, SPREADSHEET_NS, 'c')) {
+        const column = columnIndex(cellElement.getAttribute('r')) ?? row.length;
+        while (row.length < column) row.push('');
+        row[column] = readXLSXCell(cellElement, sharedStrings, dateStyles, epoch);
+      }
+      if (!isBlankRow(row)) rows.push(row);
+    }
+    sheets.push({ name: sheet.getAttribute('name') || `Planilha ${sheets.length + 1}`, rows });
+  }
+
+  return sheets;
+}
+
+function readXLSXCell(cell: Element, sharedStrings: string[], dateStyles: Set<number>, epoch: number): CSVCell {
+  const type = cell.getAttribute('t');
+  const value = children(cell, SPREADSHEET_NS, 'v')[0]?.textContent ?? '';
+
+  if (type === 's') return sharedStrings[parseInt(value, 10)] ?? '';
+  if (type === 'inlineStr') return children(cell, SPREADSHEET_NS, 't').map(t => t.textContent || '').join('');
+  if (type === 'str' || type === 'e') return value;
+  if (type === 'b') return value === '1' ? 'VERDADEIRO' : 'FALSO';
+  if (type === 'd') {
+    const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  if (value === '') return '';
+
+  const number = parseFloat(value);
+  if (isNaN(number)) return value;
+  if (dateStyles.has(parseInt(cell.getAttribute('s') || '0', 10))) {
+    // Serial day count; the time of day is dropped so dates stay on UTC midnight
+    return new Date(epoch + Math.floor(number) * 86400000);
+  }
+  return number;
+}
+
+async function readSharedStrings(zip: ZipArchive): Promise<string[]> {
+  const text = await zip.readText('xl/sharedStrings.xml');
+  if (!text) return [];
+  // Rich text runs (<r><t>) are concatenated; phonetic hints (<rPh>) are skipped
+  return children(parseXML(text), SPREADSHEET_NS, 'si').map(si =>
+    children(si, SPREADSHEET_NS, 't')
+      .filter(t => (t.parentNode as Element | null)?.localName !== 'rPh')
+      .map(t => t.textContent || '')
+      .join('')
+  );
+}
+
+/**
+ * Indexes of the cell styles (cellXfs) whose number format displays a date.
+ */
+async function readDateStyles(zip: ZipArchive): Promise<Set<number>> {
+  const text = await zip.readText('xl/styles.xml');
+  const result = new Set<number>();
+  if (!text) return result;
+
+  const styles = parseXML(text);
+  const customDateFormats = new Set<number>();
+  children(styles, SPREADSHEET_NS, 'numFmt').forEach(numFmt => {
+    // Quoted literals, [colors]/[locales] and escaped characters don't count as date parts
+    const code = (numFmt.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+    if (/[dmy]/i.test(code)) customDateFormats.add(parseInt(numFmt.getAttribute('numFmtId') || '0', 10));
+  });
+
+  const cellXfs = children(styles, SPREADSHEET_NS, 'cellXfs')[0];
+  if (!cellXfs) return result;
+  children(cellXfs, SPREADSHEET_NS, 'xf').forEach((xf, index) => {
+    const numFmtId = parseInt(xf.getAttribute('numFmtId') || '0', 10);
+    if (BUILTIN_DATE_FORMATS.has(numFmtId) || customDateFormats.has(numFmtId)) result.add(index);
+  });
+  return result;
+}
+
+// "AB12" => 27
+function columnIndex(reference: string | null): number | null {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) return null;
+  return letters.toUpperCase().split('').reduce((acc, letter) => acc * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// --- ODS ---
+
+async function readODS(zip: ZipArchive): Promise<SpreadsheetSheet[]> {
+  const content = parseXML((await zip.readText('content.xml'))!);
+
+  return children(content, TABLE_NS, 'table').map((table, index) => {
+    const rows: CSVCell[][] = [];
+    for (const rowElement of children(table, TABLE_NS, 'table-row')) {
+      const row: CSVCell[] = [];
+      let pendingBlanks = 0;
+
+      Array.from(rowElement.children).forEach(cellElement => {
+        if (cellElement.namespaceURI !== TABLE_NS) return;
+        if (cellElement.localName !== 'table-cell' && cellElement.localName !== 'covered-table-cell') return;
+
+        const value = readODSCell(cellElement);
+        const repeat = Math.min(MAX_REPEAT, parseInt(cellElement.getAttributeNS(TABLE_NS, 'number-columns-repeated') || '1', 10));
+        if (value === '') {
+          // Only materialized when a filled cell follows, so trailing padding is ignored
+          pendingBlanks += repeat;
+          return;
+        }
+        for (; pendingBlanks > 0; pendingBlanks--) row.push('');
+        for (let i = 0; i < repeat; i++) row.push(value);
+      });
+
+      if (isBlankRow(row)) continue;
+      const repeat = Math.min(MAX_REPEAT, parseInt(rowElement.getAttributeNS(TABLE_NS, 'number-rows-repeated') || '1', 10));
+      for (let i = 0; i < repeat; i++) rows.push(row);
+    }
+    return { name: table.getAttributeNS(TABLE_NS, 'name') || `Planilha ${index + 1}`, rows };
+  });
+}
+
+function readODSCell(cell: Element): CSVCell {
+  const valueType = cell.getAttributeNS(OFFICE_NS, 'value-type');
+
+  if (valueType === 'float' || valueType === 'currency' || valueType === 'percentage') {
+    const number = parseFloat(cell.getAttributeNS(OFFICE_NS, 'value') || '');
+    if (!isNaN(number)) return number;
+  }
+  if (valueType === 'date') {
+    const dateValue = cell.getAttributeNS(OFFICE_NS, 'date-value') || '';
+    const date = new Date(`${dateValue.slice(0, 10)}T00:00:00Z`);
+    if (!isNaN(date.getTime())) return date;
+  }
+
+  // Text (and anything else): paragraphs joined, <text:s/> spaces expanded
+  return children(cell, TEXT_NS, 'p').map(p => readODSText(p)).join('\n').trim();
+}
+
+function readODSText(node: Node): string {
+  let text = '';
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += child.textContent || '';
+    } else if (child instanceof Element && child.namespaceURI === TEXT_NS && child.localName === 's') {
+      text += ' '.repeat(parseInt(child.getAttributeNS(TEXT_NS, 'c') || '1', 10));
+    } else if (child instanceof Element && child.namespaceURI === TEXT_NS && child.localName === 'tab') {
+      text += '\t';
+    } else {
+      text += readODSText(child);
+    }
+  });
+  return text;
+}
@@ -0,0 +1,50 @@
+import { Database } from '@/integrations/supabase/types';
+import type { InstallmentMarker } from '@/lib/installments';
+
+/**
+ * A statement row produced by any of the import parsers (CSV, spreadsheets, OFX).
+ * Amounts are always positive; the sign is carried by `type`.
+ */
+export interface ParsedTransaction {
+  date: string; // yyyy-MM-dd
+  description: string;
+  amount: number;
+  type: Database['public']['Enums']['transaction_type'];
+  id?: string; // Temporary ID for tracking
+  fitid?: string; // Bank-assigned transaction ID (OFX FITID), used to block re-imports
+  duplicateOf?: DuplicateMatch; // Existing transaction this row most likely repeats
+  excluded?: boolean; // Left out of the final import (duplicates start excluded)
+  installment?: InstallmentMarker; // "PARC 03/10"-style marker found in the description
+}
+
+/**
+ * An already stored transaction that matches an imported row.
+ */
+export interface DuplicateMatch {
+  transactionId: number;
+  date: string;
+  description: string;
+  amount: number;
+  similarity: number; // 0..1 description similarity
+}
+
+export type StatementFormat = 'csv' | 'ofx' | 'spreadsheet';
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.ods'];
+
+/**
+ * Detect the statement format from the file name, falling back to sniffing the content.
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.ofx') || lowerName.endsWith('.qfx')) return 'ofx';
+  if (SPREADSHEET_EXTENSIONS.some(ext => lowerName.endsWith(ext))) return 'spreadsheet';
+  if (lowerName.endsWith('.csv')) return 'csv';
+
+  // XLSX and ODS are ZIP files: "PK\x03\x04"
+  if (content.startsWith('PK\u0003\u0004')) return 'spreadsheet';
+
+  const head = content.slice(0, 1024).toUpperCase();
+  if (head.includes('OFXHEADER') || head.includes('<OFX>')) return 'ofx';
+  return 'csv';
+}
@@ -0,0 +1,89 @@
+import { CSVCell, CSVMapping } from '@/lib/csvImport';
+import { ParsedTransaction } from '@/lib/statementImport';
+
+/**
+ * Statement parsing off the main thread. Each call spins up a Web Worker that
+ * reads the file incrementally and reports progress, so multi-year exports are
+ * parsed whole (no truncation) without freezing the page. Spreadsheets are not
+ * handled here: workers have no DOMParser for their XML.
+ */
+
+export type ParseStage = 'reading' | 'parsing';
+
+export interface ParseProgress {
+  stage: ParseStage;
+  processed: number; // Bytes while reading, rows while parsing
+  total: number;
+}
+
+export interface CSVFileContent {
+  text: string;
+  delimiter: string;
+  rows: string[][];
+}
+
+export type StatementParserRequest =
+  | { type: 'read-csv'; file: File }
+  | { type: 'read-ofx'; file: File }
+  | { type: 'apply-mapping'; rows: CSVCell[][]; mapping: CSVMapping };
+
+export type StatementParserResponse =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'csv'; content: CSVFileContent }
+  | { type: 'transactions'; transactions: ParsedTransaction[] }
+  | { type: 'error'; message: string };
+
+function runParser(request: StatementParserRequest, onProgress?: (progress: ParseProgress) => void) {
+  return new Promise<StatementParserResponse>((resolve, reject) => {
+    const worker = new Worker(new URL('./statementParser.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<StatementParserResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response);
+        return;
+      }
+
+      worker.terminate();
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+      } else {
+        resolve(response);
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Erro ao processar arquivo'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Read a CSV file and split it into rows, detecting the delimiter from the first lines.
+ */
+export async function readCSVFile(file: File, onProgress?: (progress: ParseProgress) => void): Promise<CSVFileContent> {
+  const response = await runParser({ type: 'read-csv', file }, onProgress);
+  if (response.type !== 'csv') throw new Error('Resposta inesperada ao ler o arquivo');
+  return response.content;
+}
+
+export async function readOFXFile(file: File, onProgress?: (progress: ParseProgress) => void): Promise<ParsedTransaction[]> {
+  const response = await runParser({ type: 'read-ofx', file }, onProgress);
+  if (response.type !== 'transactions') throw new Error('Resposta inesperada ao ler o arquivo');
+  return response.transactions;
+}
+
+/**
+ * applyCSVMapping for the whole file, with the same errors as the preview.
+ */
+export async function applyCSVMappingInWorker(
+  rows: CSVCell[][],
+  mapping: CSVMapping,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedTransaction[]> {
+  const response = await runParser({ type: 'apply-mapping', rows, mapping }, onProgress);
+  if (response.type !== 'transactions') throw new Error('Resposta inesperada ao ler o arquivo');
+  return response.transactions;
+}
@@ -0,0 +1,103 @@
+import { applyCSVMapping, detectDelimiter, splitCSVLine } from '@/lib/csvImport';
+import { decodeOFX, parseOFX } from '@/lib/ofx';
+import type { CSVFileContent, ParseStage, StatementParserRequest, StatementParserResponse } from '@/lib/statementParser';
+
+// Lines sampled to detect the delimiter before rows are split
+const DELIMITER_SAMPLE_LINES = 10;
+
+const post = (response: StatementParserResponse) => self.postMessage(response);
+
+const progress = (stage: ParseStage, processed: number, total: number) =>
+  post({ type: 'progress', stage, processed, total });
+
+/**
+ * Read the file chunk by chunk, reporting the bytes read so far.
+ */
+async function readChunks(file: File, onChunk: (chunk: Uint8Array) => void) {
+  const reader = file.stream().getReader();
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    onChunk(value);
+    progress('reading', loaded, file.size);
+  }
+}
+
+/**
+ * Split lines as the text arrives. Only the last, possibly incomplete, line is
+ * held back between chunks; the delimiter is detected once enough lines exist.
+ */
+async function readCSV(file: File): Promise<CSVFileContent> {
+  const decoder = new TextDecoder('utf-8');
+  const textParts: string[] = [];
+  const sampleLines: string[] = [];
+  const rows: string[][] = [];
+  let delimiter = '';
+  let pending = '';
+
+  const addLine = (line: string) => {
+    if (!line.trim()) return;
+    if (delimiter) {
+      rows.push(splitCSVLine(line, delimiter));
+      return;
+    }
+    sampleLines.push(line);
+    if (sampleLines.length === DELIMITER_SAMPLE_LINES) flushSample();
+  };
+
+  const flushSample = () => {
+    delimiter = detectDelimiter(sampleLines);
+    sampleLines.forEach(line => rows.push(splitCSVLine(line, delimiter)));
+    sampleLines.length = 0;
+  };
+
+  const addText = (text: string) => {
+    textParts.push(text);
+    const lines = (pending + text).split(/\r?\n/);
+    pending = lines.pop() ?? '';
+    lines.forEach(addLine);
+  };
+
+  await readChunks(file, chunk => addText(decoder.decode(chunk, { stream: true })));
+  addText(decoder.decode());
+  addLine(pending);
+  if (!delimiter) flushSample();
+
+  // TextDecoder already drops a leading BOM
+  return { text: textParts.join(''), delimiter, rows };
+}
+
+async function readOFX(file: File) {
+  const chunks: Uint8Array[] = [];
+  await readChunks(file, chunk => chunks.push(chunk));
+
+  const buffer = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+
+  return parseOFX(decodeOFX(buffer.buffer));
+}
+
+self.onmessage = async (event: MessageEvent<StatementParserRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'read-csv') {
+      post({ type: 'csv', content: await readCSV(request.file) });
+    } else if (request.type === 'read-ofx') {
+      post({ type: 'transactions', transactions: await readOFX(request.file) });
+    } else {
+      const transactions = applyCSVMapping(request.rows, request.mapping, (processed, total) =>
+        progress('parsing', processed, total)
+      );
+      post({ type: 'transactions', transactions });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Erro ao processar arquivo' });
+  }
+};
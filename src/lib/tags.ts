@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+/**
+ * Tags: free labels that cut across categories, such as "viagem-2026" or
+ * "reembolsável". A transaction can have any number of tags. Tags are handled by
+ * name; the database creates the ones that don't exist yet.
+ */
+
+export type Tag = Database['public']['Tables']['tags']['Row'];
+export type TagSummary = Database['public']['Functions']['get_tag_summary']['Returns'][number];
+
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Normalize a tag name the way ensure_tags does: trimmed, single spaces, lowercase.
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export async function fetchTags(userId: string): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchTransactionTags(transactionId: number): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('transaction_tags')
+    .select('tags(name)')
+    .eq('transaction_id', transactionId);
+
+  if (error) throw error;
+  return (data || [])
+    .map(row => row.tags?.name)
+    .filter((name): name is string => !!name)
+    .sort((a, b) => a.localeCompare(b, 'pt-BR'));
+}
+
+/**
+ * Replace the tags of a transaction; an empty list removes them all.
+ */
+export async function saveTransactionTags(transactionId: number, tagNames: string[]): Promise<void> {
+  const { error } = await supabase.rpc('set_transaction_tags', {
+    transaction_id_input: transactionId,
+    tag_names_input: tagNames
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+export async function renameTag(tagId: number, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('tags')
+    .update({ name: normalizeTagName(name) })
+    .eq('id', tagId);
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a tag; the transactions are kept, only the label is removed from them.
+ */
+export async function deleteTag(tagId: number): Promise<void> {
+  const { error } = await supabase
+    .from('tags')
+    .delete()
+    .eq('id', tagId);
+
+  if (error) throw error;
+}
+
+/**
+ * Income and expense totals per tag over a range of reference months (inclusive).
+ * A transaction with several tags counts in full under each of them.
+ */
+export async function fetchTagSummary(startMonth: string, endMonth: string): Promise<TagSummary[]> {
+  const { data, error } = await supabase.rpc('get_tag_summary', {
+    start_month_input: startMonth,
+    end_month_input: endMonth
+  });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
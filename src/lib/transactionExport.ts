@@ -0,0 +1,373 @@
+import { Database } from '@/integrations/supabase/types';
+import { writeZip } from '@/lib/zip';
+
+/**
+ * Transaction export as CSV, XLSX or OFX, built in the browser from the rows of
+ * the transaction_list view. Both transactions of a transfer are exported, so
+ * each account's movements are complete.
+ *
+ * Text that a spreadsheet would read as a formula (=, +, -, @, tab or carriage
+ * return at the start) is guarded: CSV cells get a leading apostrophe, XLSX cells
+ * the "quote prefix" style, which keeps them as text without showing it.
+ */
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ofx';
+export type ExportNumberFormat = 'pt-BR' | 'international';
+
+/**
+ * Which transactions to export: the ones the list shows, or those filters with
+ * a date range or a reference month range in place of the month filter.
+ */
+export type ExportPeriod =
+  | { kind: 'filters' }
+  | { kind: 'dates'; from: string; to: string } // yyyy-MM-dd
+  | { kind: 'months'; from: string; to: string }; // yyyy-MM-01
+
+// Columns read from transaction_list; tag_filter lets the list's tag filter apply
+export const EXPORT_SELECT = `
+  id, description, amount, type, transaction_date, reference_month, fitid, transfer_id,
+  account_id, account_name, category_name, subcategory_name, tag_names,
+  accounts(type),
+  debts(description),
+  investments(name),
+  transaction_splits(categories(name)),
+  tag_filter:transaction_tags(tag_id)
+`;
+
+export interface ExportTransaction {
+  id: number;
+  description: string;
+  amount: number;
+  type: Database['public']['Enums']['transaction_type'];
+  transaction_date: string;
+  reference_month: string;
+  fitid: string | null;
+  transfer_id: number | null;
+  account_id: number;
+  account_name: string | null;
+  category_name: string | null;
+  subcategory_name: string | null;
+  tag_names: string[] | null;
+  accounts: { type: Database['public']['Enums']['account_type'] } | null;
+  debts: { description: string } | null;
+  investments: { name: string } | null;
+  transaction_splits: { categories: { name: string } | null }[];
+}
+
+export interface ExportFile {
+  blob: Blob;
+  fileName: string;
+}
+
+const HEADERS = [
+  'Data',
+  'Mês de Referência',
+  'Descrição',
+  'Tipo',
+  'Valor',
+  'Conta',
+  'Categoria',
+  'Subcategoria',
+  'Dívida',
+  'Investimento',
+  'Tags'
+];
+
+type Cell = { kind: 'text'; value: string } | { kind: 'number'; value: number } | { kind: 'date'; value: string };
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Prefix text that a spreadsheet would evaluate as a formula with an apostrophe.
+ */
+export function guardSpreadsheetText(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+const typeLabel = (t: ExportTransaction) => {
+  if (t.transfer_id !== null) return t.type === 'Income' ? 'Transferência (entrada)' : 'Transferência (saída)';
+  return t.type === 'Income' ? 'Receita' : 'Despesa';
+};
+
+// Split transactions have no category of their own: list the categories of the parts
+const categoryName = (t: ExportTransaction) =>
+  t.transaction_splits.length > 0
+    ? Array.from(new Set(t.transaction_splits.map(s => s.categories?.name ?? 'Sem categoria'))).join(', ')
+    : t.category_name ?? '';
+
+const toCells = (t: ExportTransaction): Cell[] => [
+  { kind: 'date', value: t.transaction_date },
+  { kind: 'date', value: t.reference_month },
+  { kind: 'text', value: t.description },
+  { kind: 'text', value: typeLabel(t) },
+  { kind: 'number', value: Number(t.amount) },
+  { kind: 'text', value: t.account_name ?? '' },
+  { kind: 'text', value: categoryName(t) },
+  { kind: 'text', value: t.subcategory_name ?? '' },
+  { kind: 'text', value: t.debts?.description ?? '' },
+  { kind: 'text', value: t.investments?.name ?? '' },
+  { kind: 'text', value: (t.tag_names ?? []).join(', ') }
+];
+
+// --- CSV ---
+
+/**
+ * pt-BR uses ";" between fields, "," for decimals and dd/MM/yyyy dates, as Excel
+ * expects in a Brazilian locale; international uses ",", "." and ISO dates.
+ * A BOM marks the file as UTF-8 so accents open correctly in Excel.
+ */
+export function buildCSV(transactions: ExportTransaction[], numberFormat: ExportNumberFormat): string {
+  const ptBR = numberFormat === 'pt-BR';
+  const delimiter = ptBR ? ';' : ',';
+
+  const quote = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const formatCell = (cell: Cell, column: number) => {
+    switch (cell.kind) {
+      case 'number':
+        return ptBR ? cell.value.toFixed(2).replace('.', ',') : cell.value.toFixed(2);
+      case 'date': {
+        const [year, month, day] = cell.value.split('-');
+        // The reference month shows only month and year
+        if (column === 1) return ptBR ? `${month}/${year}` : `${year}-${month}`;
+        return ptBR ? `${day}/${month}/${year}` : cell.value;
+      }
+      default:
+        return quote(guardSpreadsheetText(cell.value));
+    }
+  };
+
+  const lines = [
+    HEADERS.join(delimiter),
+    ...transactions.map(t => toCells(t).map(formatCell).join(delimiter))
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+// --- XLSX ---
+
+// XML 1.0 can't hold most control characters, not even escaped
+const escapeXML = (value: string) =>
+  value
+    .replace(/[^\t\n\r\u0020-\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Days since 1899-12-30, the date serial of the 1900 date system
+const toDateSerial = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+// Cell styles, indexes into cellXfs below
+const STYLE_DATE = 1;
+const STYLE_MONTH = 2;
+const STYLE_AMOUNT = 3;
+const STYLE_HEADER = 4;
+const STYLE_GUARDED_TEXT = 5;
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="mm/yyyy"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" quotePrefix="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const XLSX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const XLSX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const XLSX_WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Transações" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+const XLSX_WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const COLUMN_WIDTHS = [12, 12, 40, 22, 14, 20, 24, 20, 20, 20, 24];
+
+export async function buildXLSX(transactions: ExportTransaction[]): Promise<Blob> {
+  const textCell = (ref: string, value: string, style: number) => {
+    const guarded = FORMULA_PREFIX.test(value) ? STYLE_GUARDED_TEXT : style;
+    return `<c r="${ref}" t="inlineStr"${guarded ? ` s="${guarded}"` : ''}><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+  };
+
+  const row = (index: number, cells: string[]) => `<row r="${index + 1}">${cells.join('')}</row>`;
+
+  const rows = [
+    row(0, HEADERS.map((header, column) => textCell(`${columnName(column)}1`, header, STYLE_HEADER))),
+    ...transactions.map((t, i) =>
+      row(i + 1, toCells(t).map((cell, column) => {
+        const ref = `${columnName(column)}${i + 2}`;
+        switch (cell.kind) {
+          case 'number':
+            return `<c r="${ref}" s="${STYLE_AMOUNT}"><v>${cell.value}</v></c>`;
+          case 'date':
+            return `<c r="${ref}" s="${column === 1 ? STYLE_MONTH : STYLE_DATE}"><v>${toDateSerial(cell.value)}</v></c>`;
+          default:
+            return textCell(ref, cell.value, 0);
+        }
+      }))
+    )
+  ];
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${COLUMN_WIDTHS.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>
+<sheetData>${rows.join('')}</sheetData>
+</worksheet>`;
+
+  const zip = await writeZip([
+    { name: '[Content_Types].xml', content: XLSX_CONTENT_TYPES },
+    { name: '_rels/.rels', content: XLSX_ROOT_RELS },
+    { name: 'xl/workbook.xml', content: XLSX_WORKBOOK },
+    { name: 'xl/_rels/workbook.xml.rels', content: XLSX_WORKBOOK_RELS },
+    { name: 'xl/styles.xml', content: XLSX_STYLES },
+    { name: 'xl/worksheets/sheet1.xml', content: sheet }
+  ]);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+// --- OFX ---
+
+// OFX limits NAME to 32 characters; the full description goes in MEMO
+const OFX_NAME_LENGTH = 32;
+
+const toOFXDate = (date: string) => date.replace(/-/g, '');
+
+/**
+ * OFX 2 (XML) with one statement per account: credit card accounts as credit
+ * card statements, the others as checking accounts. ACCTID is the account id,
+ * as OFX has no field for a name. FITID keeps the bank's id of imported
+ * transactions, so importing the file again is recognized as a duplicate.
+ */
+export function buildOFX(transactions: ExportTransaction[]): string {
+  const byAccount = new Map<number, ExportTransaction[]>();
+  transactions.forEach(t => {
+    if (!byAccount.has(t.account_id)) byAccount.set(t.account_id, []);
+    byAccount.get(t.account_id)!.push(t);
+  });
+
+  const now = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  const status = '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>';
+
+  const statement = (accountId: number, accountTransactions: ExportTransaction[], index: number) => {
+    const dates = accountTransactions.map(t => t.transaction_date).sort();
+    const isCreditCard = accountTransactions[0].accounts?.type === 'Credit Card';
+    const account = isCreditCard
+      ? `<CCACCTFROM><ACCTID>${accountId}</ACCTID></CCACCTFROM>`
+      : `<BANKACCTFROM><BANKID>0000</BANKID><ACCTID>${accountId}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>`;
+
+    const entries = accountTransactions.map(t => {
+      const amount = t.type === 'Expense' ? -Number(t.amount) : Number(t.amount);
+      const name = t.description.slice(0, OFX_NAME_LENGTH);
+      return [
+        '<STMTTRN>',
+        `<TRNTYPE>${amount < 0 ? 'DEBIT' : 'CREDIT'}</TRNTYPE>`,
+        `<DTPOSTED>${toOFXDate(t.transaction_date)}</DTPOSTED>`,
+        `<TRNAMT>${amount.toFixed(2)}</TRNAMT>`,
+        `<FITID>${escapeXML(t.fitid || `ff-${t.id}`)}</FITID>`,
+        `<NAME>${escapeXML(name)}</NAME>`,
+        name !== t.description ? `<MEMO>${escapeXML(t.description)}</MEMO>` : '',
+        '</STMTTRN>'
+      ].join('');
+    });
+
+    const body = [
+      '<CURDEF>BRL</CURDEF>',
+      account,
+      `<BANKTRANLIST><DTSTART>${toOFXDate(dates[0])}</DTSTART><DTEND>${toOFXDate(dates[dates.length - 1])}</DTEND>`,
+      ...entries,
+      '</BANKTRANLIST>'
+    ].join('\n');
+
+    return isCreditCard
+      ? `<CCSTMTTRNRS><TRNUID>${index + 1}</TRNUID>${status}<CCSTMTRS>\n${body}\n</CCSTMTRS></CCSTMTTRNRS>`
+      : `<STMTTRNRS><TRNUID>${index + 1}</TRNUID>${status}<STMTRS>\n${body}\n</STMTRS></STMTTRNRS>`;
+  };
+
+  const statements = Array.from(byAccount.entries()).map(([accountId, list], i) => ({
+    creditCard: list[0].accounts?.type === 'Credit Card',
+    xml: statement(accountId, list, i)
+  }));
+  const bank = statements.filter(s => !s.creditCard).map(s => s.xml);
+  const creditCard = statements.filter(s => s.creditCard).map(s => s.xml);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    `<SIGNONMSGSRSV1><SONRS>${status}<DTSERVER>${now}</DTSERVER><LANGUAGE>POR</LANGUAGE></SONRS></SIGNONMSGSRSV1>`,
+    bank.length > 0 ? `<BANKMSGSRSV1>\n${bank.join('\n')}\n</BANKMSGSRSV1>` : '',
+    creditCard.length > 0 ? `<CREDITCARDMSGSRSV1>\n${creditCard.join('\n')}\n</CREDITCARDMSGSRSV1>` : '',
+    '</OFX>',
+    ''
+  ].filter(line => line !== '').join('\n') + '\n';
+}
+
+// --- Download ---
+
+export async function buildExportFile(
+  transactions: ExportTransaction[],
+  format: ExportFormat,
+  numberFormat: ExportNumberFormat
+): Promise<ExportFile> {
+  const fileName = `transacoes-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  switch (format) {
+    case 'csv':
+      return { blob: new Blob([buildCSV(transactions, numberFormat)], { type: 'text/csv;charset=utf-8' }), fileName };
+    case 'xlsx':
+      return { blob: await buildXLSX(transactions), fileName };
+    case 'ofx':
+      return { blob: new Blob([buildOFX(transactions)], { type: 'application/x-ofx' }), fileName };
+  }
+}
+
+export function downloadFile({ blob, fileName }: ExportFile): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+/**
+ * Filters and sort order of the transactions page, kept in the query string so a
+ * filtered list survives a reload and can be bookmarked or shared. Saved views
+ * store that same query string under a name.
+ */
+
+export interface TransactionFilters {
+  month: string; // YYYY-MM-01, or '' for every month
+  type: string; // 'all', a transaction_type or 'Transfer'
+  accountId: string; // 'all' or an id
+  categoryId: string;
+  subcategoryId: string;
+  tagId: string;
+  search: string; // Query in the search language of lib/searchQuery
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+}
+
+export type SavedView = Database['public']['Tables']['saved_views']['Row'];
+
+export const DEFAULT_TRANSACTION_FILTERS: TransactionFilters = {
+  month: '',
+  type: 'all',
+  accountId: 'all',
+  categoryId: 'all',
+  subcategoryId: 'all',
+  tagId: 'all',
+  search: '',
+  sortBy: 'transaction_date',
+  sortOrder: 'desc'
+};
+
+export const MAX_SAVED_VIEW_NAME_LENGTH = 80;
+
+// Query string keys, in the order they are written
+const PARAM_KEYS: Record<keyof TransactionFilters, string> = {
+  month: 'mes',
+  type: 'tipo',
+  accountId: 'conta',
+  categoryId: 'categoria',
+  subcategoryId: 'subcategoria',
+  tagId: 'tag',
+  search: 'busca',
+  sortBy: 'ordenar',
+  sortOrder: 'ordem'
+};
+
+const SORT_COLUMNS = ['reference_month', 'transaction_date', 'description', 'category_id', 'subcategory_id', 'account_id', 'type', 'amount'];
+const TYPES = ['Income', 'Expense', 'Transfer'];
+
+const isId = (value: string) => /^\d+$/.test(value);
+
+/**
+ * Read the filters from a query string. Unknown or malformed values fall back to
+ * the defaults, so a hand-edited or outdated link still opens the page.
+ */
+export function parseTransactionFilters(params: URLSearchParams): TransactionFilters {
+  const get = (key: keyof TransactionFilters) => params.get(PARAM_KEYS[key]) ?? '';
+  const id = (key: 'accountId' | 'categoryId' | 'subcategoryId' | 'tagId') =>
+    isId(get(key)) ? get(key) : 'all';
+
+  return {
+    month: /^\d{4}-\d{2}$/.test(get('month')) ? `${get('month')}-01` : '',
+    type: TYPES.includes(get('type')) ? get('type') : 'all',
+    accountId: id('accountId'),
+    categoryId: id('categoryId'),
+    subcategoryId: id('subcategoryId'),
+    tagId: id('tagId'),
+    search: get('search'),
+    sortBy: SORT_COLUMNS.includes(get('sortBy')) ? get('sortBy') : DEFAULT_TRANSACTION_FILTERS.sortBy,
+    sortOrder: get('sortOrder') === 'asc' || get('sortOrder') === 'desc'
+      ? get('sortOrder') as 'asc' | 'desc'
+      : DEFAULT_TRANSACTION_FILTERS.sortOrder
+  };
+}
+
+/**
+ * Write the filters as a query string, leaving out the ones at their default.
+ */
+export function serializeTransactionFilters(filters: TransactionFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_KEYS) as (keyof TransactionFilters)[]).forEach(key => {
+    const value = key === 'month' ? filters.month.slice(0, 7) : filters[key];
+    if (value && value !== DEFAULT_TRANSACTION_FILTERS[key]) {
+      params.set(PARAM_KEYS[key], value);
+    }
+  });
+  return params;
+}
+
+export function hasActiveTransactionFilters(filters: TransactionFilters): boolean {
+  return !!filters.month || filters.type !== 'all' || filters.accountId !== 'all' || filters.categoryId !== 'all'
+    || filters.subcategoryId !== 'all' || filters.tagId !== 'all' || !!filters.search.trim();
+}
+
+export async function createSavedView(userId: string, name: string, filters: TransactionFilters): Promise<SavedView> {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert([{ user_id: userId, name: name.trim(), query: serializeTransactionFilters(filters).toString() }])
+    .select()
+    .single();
+
+  if (error) {
+    // unique_violation on (user_id, name)
+    if (error.code === '23505') throw new Error(`Já existe uma visão chamada "${name.trim()}"`);
+    throw error;
+  }
+  return data;
+}
+
+export async function setSavedViewPinned(id: number, isPinned: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('saved_views')
+    .update({ is_pinned: isPinned })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteSavedView(id: number): Promise<void> {
+  const { error } = await supabase
+    .from('saved_views')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,107 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+/**
+ * Change history of transactions. A trigger on transactions records every insert,
+ * update and delete with the row before and after it; entries are read-only.
+ */
+
+export type TransactionHistoryEntry = Database['public']['Tables']['transaction_history']['Row'];
+export type TransactionVersion = Database['public']['Tables']['transactions']['Row'];
+
+export type HistoryField = keyof Pick<
+  TransactionVersion,
+  | 'description'
+  | 'amount'
+  | 'type'
+  | 'transaction_date'
+  | 'reference_month'
+  | 'account_id'
+  | 'category_id'
+  | 'subcategory_id'
+  | 'debt_id'
+  | 'investment_id'
+>;
+
+export interface HistoryChange {
+  field: HistoryField;
+  before: TransactionVersion[HistoryField] | null;
+  after: TransactionVersion[HistoryField] | null;
+}
+
+// The fields shown in the history and brought back by restore_transaction_version, in display order
+export const HISTORY_FIELDS: { field: HistoryField; label: string }[] = [
+  { field: 'description', label: 'Descrição' },
+  { field: 'amount', label: 'Valor' },
+  { field: 'type', label: 'Tipo' },
+  { field: 'transaction_date', label: 'Data' },
+  { field: 'reference_month', label: 'Mês de Referência' },
+  { field: 'account_id', label: 'Conta' },
+  { field: 'category_id', label: 'Categoria' },
+  { field: 'subcategory_id', label: 'Subcategoria' },
+  { field: 'debt_id', label: 'Dívida' },
+  { field: 'investment_id', label: 'Investimento' }
+];
+
+const asVersion = (data: TransactionHistoryEntry['old_data']) => data as unknown as TransactionVersion | null;
+
+/**
+ * The transaction as this entry left it; for a deletion, as it was before.
+ */
+export function getEntryVersion(entry: TransactionHistoryEntry): TransactionVersion | null {
+  return asVersion(entry.operation === 'DELETE' ? entry.old_data : entry.new_data);
+}
+
+/**
+ * Fields changed by an entry. An insert lists the fields it filled in, a deletion
+ * the fields it cleared.
+ */
+export function diffHistoryEntry(entry: TransactionHistoryEntry): HistoryChange[] {
+  const before = asVersion(entry.old_data);
+  const after = asVersion(entry.new_data);
+
+  return HISTORY_FIELDS
+    .map(({ field }) => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }))
+    // jsonb keeps numerics as numbers, so amounts compare as values
+    .filter(change => change.before !== change.after);
+}
+
+/**
+ * Whether the entry moved the transaction to the trash ('trashed') or back out of
+ * it ('restored'). These updates change no other field.
+ */
+export function getTrashMove(entry: TransactionHistoryEntry): 'trashed' | 'restored' | null {
+  if (entry.operation !== 'UPDATE') return null;
+  const before = asVersion(entry.old_data)?.deleted_at ?? null;
+  const after = asVersion(entry.new_data)?.deleted_at ?? null;
+  if (before === after) return null;
+  return after ? 'trashed' : 'restored';
+}
+
+/**
+ * Newest first.
+ */
+export async function fetchTransactionHistory(transactionId: number): Promise<TransactionHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('transaction_history')
+    .select('*')
+    .eq('transaction_id', transactionId)
+    .order('changed_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Bring the transaction back to the version of an entry, recreating it if it was
+ * deleted. The restore is itself recorded as a new entry.
+ */
+export async function restoreTransactionVersion(historyId: number): Promise<number> {
+  const { data, error } = await supabase.rpc('restore_transaction_version', {
+    history_id_input: historyId
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
@@ -0,0 +1,113 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+
+/**
+ * Split transactions: one transaction (e.g. a supermarket receipt) divided into
+ * lines, each with its own amount, category and subcategory. The lines always
+ * add up to the transaction amount, and a split transaction has no category of
+ * its own, so reports aggregate by line instead of by transaction.
+ */
+
+type CategoryType = Database['public']['Enums']['category_type'];
+
+export const MIN_SPLIT_LINES = 2;
+
+export interface SplitLine {
+  amount: number;
+  category_id: number;
+  subcategory_id: number | null;
+}
+
+/**
+ * A split line as edited in a form: string values straight from the inputs.
+ */
+export interface SplitLineDraft {
+  amount: string;
+  category_id: string;
+  subcategory_id: string;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export const emptySplitLine = (): SplitLineDraft => ({ amount: '', category_id: '', subcategory_id: '' });
+
+/**
+ * Debt and investment lines would need a linked debt/investment balance, so they can't be split lines.
+ */
+export const isSplittableCategory = (type: CategoryType | undefined) => type !== 'Debt' && type !== 'Investment';
+
+/**
+ * Amount of the transaction not yet assigned to a line; negative when the lines exceed it.
+ */
+export function splitRemainder(total: number, lines: SplitLineDraft[]): number {
+  const assigned = lines.reduce((sum, line) => sum + toCents(parseFloat(line.amount) || 0), 0);
+  return (toCents(total) - assigned) / 100;
+}
+
+/**
+ * Check the lines against the transaction total, as transaction_splits_error does
+ * in the database. Returns the error message, or null when the split can be saved.
+ */
+export function validateSplitLines(total: number, lines: SplitLineDraft[]): string | null {
+  if (lines.length < MIN_SPLIT_LINES) return 'A divisão precisa de pelo menos duas linhas';
+  if (lines.some(line => !(parseFloat(line.amount) > 0))) return 'Cada linha da divisão deve ter valor maior que zero';
+  if (lines.some(line => !line.category_id)) return 'Cada linha da divisão precisa de uma categoria';
+  if (splitRemainder(total, lines) !== 0) return 'A soma das linhas da divisão deve ser igual ao valor da transação';
+  return null;
+}
+
+export function toSplitLines(lines: SplitLineDraft[]): SplitLine[] {
+  return lines.map(line => ({
+    amount: toCents(parseFloat(line.amount)) / 100,
+    category_id: parseInt(line.category_id),
+    subcategory_id: line.subcategory_id ? parseInt(line.subcategory_id) : null
+  }));
+}
+
+export function toSplitLineDrafts(lines: SplitLine[]): SplitLineDraft[] {
+  return lines.map(line => ({
+    amount: line.amount.toString(),
+    category_id: line.category_id.toString(),
+    subcategory_id: line.subcategory_id?.toString() ?? ''
+  }));
+}
+
+export async function fetchTransactionSplits(transactionId: number): Promise<SplitLine[]> {
+  const { data, error } = await supabase
+    .from('transaction_splits')
+    .select('amount, category_id, subcategory_id')
+    .eq('transaction_id', transactionId)
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return (data || [])
+    .filter(line => line.category_id !== null)
+    .map(line => ({ amount: Number(line.amount), category_id: line.category_id!, subcategory_id: line.subcategory_id }));
+}
+
+/**
+ * Replace the lines of a transaction; an empty list removes the split. The
+ * database validates the lines against the stored amount and clears the
+ * transaction's own category.
+ */
+export async function saveTransactionSplits(transactionId: number, lines: SplitLine[]): Promise<void> {
+  const { error } = await supabase.rpc('set_transaction_splits', {
+    transaction_id_input: transactionId,
+    splits_input: lines as unknown as Json
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Replace each split transaction by its lines, for aggregation. A line keeps the
+ * transaction's other fields and brings its own amount, category and subcategory
+ * (plus the embedded `categories`/`subcategories`, when selected).
+ */
+export function expandSplitLines<T extends { transaction_splits?: Partial<T>[] | null }>(transactions: T[]): T[] {
+  return transactions.flatMap(transaction =>
+    transaction.transaction_splits && transaction.transaction_splits.length > 0
+      ? transaction.transaction_splits.map(line => ({ ...transaction, ...line, transaction_splits: [] }))
+      : [transaction]
+  );
+}
@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Transfers between the user's accounts. A transfer is stored once and owns a
+ * linked pair of transactions: an expense on the source account and an income
+ * on the destination account. The pair is only created and changed through the
+ * transfer, and goes to the trash together, so both sides never drift apart.
+ */
+
+export interface Transfer {
+  id: number;
+  from_account_id: number;
+  to_account_id: number;
+  amount: number;
+  transfer_date: string;
+  reference_month: string;
+  description: string;
+}
+
+export type TransferInput = Omit<Transfer, 'id'>;
+
+export async function fetchTransfer(transferId: number): Promise<Transfer> {
+  const { data, error } = await supabase
+    .from('transfers')
+    .select('id, from_account_id, to_account_id, amount, transfer_date, reference_month, description')
+    .eq('id', transferId)
+    .single();
+
+  if (error) throw error;
+  return { ...data, amount: Number(data.amount) };
+}
+
+/**
+ * Create a transfer (when `transferId` is omitted) or update one, together with its
+ * pair of transactions in a single database transaction. Returns the transfer id.
+ */
+export async function saveTransfer(input: TransferInput, transferId?: number): Promise<number> {
+  const { data, error } = await supabase.rpc('save_transfer', {
+    from_account_id_input: input.from_account_id,
+    to_account_id_input: input.to_account_id,
+    amount_input: input.amount,
+    transfer_date_input: input.transfer_date,
+    reference_month_input: input.reference_month,
+    description_input: input.description,
+    transfer_id_input: transferId
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
@@ -0,0 +1,101 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { removeAttachmentFiles } from '@/lib/attachments';
+
+/**
+ * Trash bin for transactions, accounts and categories. Deleting moves the item to
+ * the trash, where it stays hidden from every query for 30 days and can be
+ * restored; after that a daily server job (the purge-trash edge function) deletes
+ * it for good. Debt and investment balances are reverted when a transaction goes
+ * to the trash and reapplied when it comes back.
+ */
+
+export type TrashItemType = 'transaction' | 'account' | 'category';
+
+export interface TrashItem {
+  item_type: TrashItemType;
+  item_id: number;
+  name: string;
+  detail: string | null; // A transaction's account
+  amount: number | null; // Transactions only
+  transaction_type: Database['public']['Enums']['transaction_type'] | null;
+  is_transfer: boolean;
+  related_count: number; // Transactions moved with an account, or still using a category
+  deleted_at: string;
+  purge_at: string;
+}
+
+/**
+ * Move transactions to the trash. Transfers go whole: passing either side moves
+ * both. Returns how many transactions were moved.
+ */
+export async function trashTransactions(transactionIds: number[]): Promise<number> {
+  const { data, error } = await supabase.rpc('trash_transactions', {
+    transaction_ids_input: transactionIds
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Move an account to the trash with its transactions, including the other side
+ * of its transfers. Returns how many transactions were moved.
+ */
+export async function trashAccount(accountId: number): Promise<number> {
+  const { data, error } = await supabase.rpc('trash_account', { account_id_input: accountId });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Move a category and its subcategories to the trash. Its transactions keep it
+ * and get it back if it is restored.
+ */
+export async function trashCategory(categoryId: number): Promise<void> {
+  const { error } = await supabase.rpc('trash_category', { category_id_input: categoryId });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Most recently deleted first. Transactions that went to the trash with their
+ * account are part of the account's item, not items of their own.
+ */
+export async function fetchTrash(): Promise<TrashItem[]> {
+  const { data, error } = await supabase.rpc('get_trash');
+
+  if (error) throw new Error(error.message);
+  return (data || []).map(item => ({
+    ...item,
+    item_type: item.item_type as TrashItemType,
+    amount: item.amount === null ? null : Number(item.amount),
+    transaction_type: item.transaction_type as TrashItem['transaction_type']
+  }));
+}
+
+/**
+ * Bring an item back, with whatever went to the trash along with it.
+ */
+export async function restoreFromTrash(itemType: TrashItemType, itemId: number): Promise<void> {
+  const { error } = await supabase.rpc('restore_from_trash', {
+    item_type_input: itemType,
+    item_id_input: itemId
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Delete an item for good, then remove the attachment files of its transactions.
+ */
+export async function deleteFromTrash(itemType: TrashItemType, itemId: number): Promise<void> {
+  const { data, error } = await supabase.rpc('delete_from_trash', {
+    item_type_input: itemType,
+    item_id_input: itemId
+  });
+
+  if (error) throw new Error(error.message);
+  await removeAttachmentFiles(data || []);
+}
@@ -0,0 +1,189 @@
+/**
+ * Minimal ZIP reader for the spreadsheet importers (XLSX and ODS are ZIP
+ * containers), and writer for the XLSX export. Only what those files use is
+ * supported: stored and deflated entries, no encryption, no ZIP64. Deflate runs
+ * on the browser's native DecompressionStream and CompressionStream, so nothing
+ * leaves the browser.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+// Version 2.0 (deflate) and the UTF-8 file name flag
+const VERSION_NEEDED = 20;
+const UTF8_FLAG = 0x0800;
+
+// Guards against zip bombs: spreadsheets of a bank statement are far smaller
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  has: (name: string) => boolean;
+  readText: (name: string) => Promise<string | null>;
+}
+
+/**
+ * Index the entries of a ZIP file. Entries are only inflated when read.
+ */
+export function openZip(data: Uint8Array): ZipArchive {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries = readCentralDirectory(data, view);
+
+  const read = async (name: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+
+    const offset = entry.localHeaderOffset;
+    if (view.getUint32(offset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('Arquivo compactado corrompido');
+    }
+    // Name and extra field lengths in the local header may differ from the central directory
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    const compressed = data.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === 0) return compressed;
+    if (entry.method !== 8) throw new Error('Método de compressão não suportado');
+
+    const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    const inflated = new Uint8Array(await new Response(stream).arrayBuffer());
+    if (inflated.length > MAX_ENTRY_SIZE) throw new Error('Arquivo grande demais para importar');
+    return inflated;
+  };
+
+  return {
+    has: (name) => entries.has(name),
+    readText: async (name) => {
+      const bytes = await read(name);
+      return bytes ? new TextDecoder('utf-8').decode(bytes) : null;
+    },
+  };
+}
+
+function readCentralDirectory(data: Uint8Array, view: DataView): Map<string, ZipEntry> {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('O arquivo não é uma planilha válida');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder('utf-8');
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Arquivo compactado corrompido');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const entry: ZipEntry = {
+      name: decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    };
+    if (entry.uncompressedSize > MAX_ENTRY_SIZE) throw new Error('Arquivo grande demais para importar');
+    entries.set(entry.name, entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+
+export interface ZipFile {
+  name: string;
+  content: string; // Written as UTF-8
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Build a ZIP file with every entry deflated. Timestamps are left at the DOS
+ * epoch: spreadsheet applications don't read them.
+ */
+export async function writeZip(files: ZipFile[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const content = encoder.encode(file.content);
+    const stream = new Blob([content]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+    const crc = crc32(content);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, VERSION_NEEDED, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, 8, true);
+    localView.setUint16(12, 0x21, true); // 1980-01-01
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, compressed.length, true);
+    localView.setUint32(22, content.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    centralView.setUint16(4, VERSION_NEEDED, true);
+    centralView.setUint16(6, VERSION_NEEDED, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, 8, true);
+    centralView.setUint16(14, 0x21, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, compressed.length, true);
+    centralView.setUint32(24, content.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, compressed);
+    centralDirectory.push(central);
+    offset += local.length + compressed.length;
+  }
+
+  const directorySize = centralDirectory.reduce((sum, entry) => sum + entry.length, 0);
+  const eocd = new Uint8Array(22);
+  const eocdView = new DataView(eocd.buffer);
+  eocdView.setUint32(0, EOCD_SIGNATURE, true);
+  eocdView.setUint16(8, files.length, true);
+  eocdView.setUint16(10, files.length, true);
+  eocdView.setUint32(12, directorySize, true);
+  eocdView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, eocd], { type: 'application/zip' });
+}
@@ -8,10 +8,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Edit, Trash2, Plus } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Edit, Trash2, Plus, Wand2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Header } from '@/components/Header';
 import { FloatingTransactionButton } from '@/components/FloatingTransactionButton';
+import { trashCategory } from '@/lib/trash';
 
 import { Database } from '@/integrations/supabase/types';
 
@@ -237,31 +239,19 @@ export default function Categorias() {
 
   const handleCategoryDelete = async (category: Category) => {
     try {
-      // Update transactions to set category_id to NULL
-      await supabase
-        .from('transactions')
-        .update({ category_id: null })
-        .eq('category_id', category.id)
-        .eq('user_id', user?.id);
-
-      const { error } = await supabase
-        .from('categories')
-        .delete()
-        .eq('id', category.id)
-        .eq('user_id', user?.id);
-
-      if (error) throw error;
+      await trashCategory(category.id);
       
       toast({
         title: "Sucesso",
-        description: "Categoria excluída com sucesso"
+        description: "Categoria movida para a lixeira"
       });
       
       fetchCategoriesWithSubcategories();
     } catch (error) {
+      console.error('Error deleting category:', error);
       toast({
         title: "Erro",
-        description: "Erro ao excluir categoria",
+        description: error instanceof Error && error.message ? error.message : "Erro ao excluir categoria",
         variant: "destructive"
       });
     }
@@ -338,6 +328,12 @@ export default function Categorias() {
           <h1 className="text-3xl font-bold">Minhas Categorias</h1>
           <div className="flex gap-2">
             <FloatingTransactionButton />
+            <Button variant="outline" asChild>
+              <Link to="/regras">
+                <Wand2 className="h-4 w-4 mr-2" />
+                Regras
+              </Link>
+            </Button>
             <Dialog open={isCategoryModalOpen} onOpenChange={(open) => {
               setIsCategoryModalOpen(open);
               if (!open) resetCategoryForm();
@@ -476,7 +472,8 @@ export default function Categorias() {
                             <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
                             <AlertDialogDescription>
                               Tem certeza que deseja excluir a categoria "{category.name}"? 
-                              As transações já associadas a ela não serão excluídas, mas ficarão sem categoria.
+                              Ela ficará na lixeira por 30 dias com as suas subcategorias, e as transações associadas
+                              voltam a tê-la se for restaurada. Depois disso, as transações ficarão sem categoria.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
@@ -12,6 +12,7 @@ import { Edit, Trash2, Plus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Header } from '@/components/Header';
 import { FloatingTransactionButton } from '@/components/FloatingTransactionButton';
+import { trashAccount } from '@/lib/trash';
 
 import { Database } from '@/integrations/supabase/types';
 
@@ -19,6 +20,8 @@ interface Account {
   id: number;
   name: string;
   type: Database['public']['Enums']['account_type'];
+  month_start_day: number;
+  closing_day: number | null;
   created_at: string;
 }
 
@@ -41,9 +44,13 @@ export default function Contas() {
   const [formData, setFormData] = useState<{
     name: string;
     type: Database['public']['Enums']['account_type'] | '';
+    month_start_day: string;
+    closing_day: string;
   }>({
     name: '',
-    type: ''
+    type: '',
+    month_start_day: '1',
+    closing_day: ''
   });
 
   useEffect(() => {
@@ -85,13 +92,27 @@ export default function Contas() {
       return;
     }
 
+    const monthStartDay = parseInt(formData.month_start_day) || 1;
+    const closingDay = formData.type === 'Credit Card' && formData.closing_day ? parseInt(formData.closing_day) : null;
+
+    if (monthStartDay < 1 || monthStartDay > 28 || (closingDay !== null && (closingDay < 1 || closingDay > 31))) {
+      toast({
+        title: "Erro",
+        description: "Informe um dia de início entre 1 e 28 e um dia de fechamento entre 1 e 31",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       if (editingAccount) {
         const { error } = await supabase
           .from('accounts')
           .update({
             name: formData.name,
-            type: formData.type as Database['public']['Enums']['account_type']
+            type: formData.type as Database['public']['Enums']['account_type'],
+            month_start_day: monthStartDay,
+            closing_day: closingDay
           })
           .eq('id', editingAccount.id)
           .eq('user_id', user?.id);
@@ -108,6 +129,8 @@ export default function Contas() {
           .insert([{
             name: formData.name,
             type: formData.type as Database['public']['Enums']['account_type'],
+            month_start_day: monthStartDay,
+            closing_day: closingDay,
             user_id: user?.id
           }]);
 
@@ -121,7 +144,7 @@ export default function Contas() {
 
       setIsModalOpen(false);
       setEditingAccount(null);
-      setFormData({ name: '', type: '' });
+      setFormData({ name: '', type: '', month_start_day: '1', closing_day: '' });
       fetchAccounts();
     } catch (error) {
       toast({
@@ -136,38 +159,35 @@ export default function Contas() {
     setEditingAccount(account);
     setFormData({
       name: account.name,
-      type: account.type
+      type: account.type,
+      month_start_day: account.month_start_day.toString(),
+      closing_day: account.closing_day?.toString() || ''
     });
     setIsModalOpen(true);
   };
 
   const handleDelete = async (account: Account) => {
     try {
-      const { error } = await supabase
-        .from('accounts')
-        .delete()
-        .eq('id', account.id)
-        .eq('user_id', user?.id);
-
-      if (error) throw error;
+      await trashAccount(account.id);
       
       toast({
         title: "Sucesso",
-        description: "Conta excluída com sucesso"
+        description: "Conta movida para a lixeira"
       });
       
       fetchAccounts();
     } catch (error) {
+      console.error('Error deleting account:', error);
       toast({
         title: "Erro",
-        description: "Erro ao excluir conta",
+        description: error instanceof Error && error.message ? error.message : "Erro ao excluir conta",
         variant: "destructive"
       });
     }
   };
 
   const resetForm = () => {
-    setFormData({ name: '', type: '' });
+    setFormData({ name: '', type: '', month_start_day: '1', closing_day: '' });
     setEditingAccount(null);
   };
 
@@ -241,6 +261,38 @@ export default function Contas() {
                       </SelectContent>
                     </Select>
                   </div>
+                  {formData.type === 'Credit Card' ? (
+                    <div>
+                      <Label htmlFor="closing_day">Dia de fechamento da fatura</Label>
+                      <Input
+                        id="closing_day"
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={formData.closing_day}
+                        onChange={(e) => setFormData({ ...formData, closing_day: e.target.value })}
+                        placeholder="Ex: 5"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Na importação, compras feitas depois do fechamento entram no mês seguinte.
+                      </p>
+                    </div>
+                  ) : (
+                    <div>
+                      <Label htmlFor="month_start_day">Dia de início do mês</Label>
+                      <Input
+                        id="month_start_day"
+                        type="number"
+                        min={1}
+                        max={28}
+                        value={formData.month_start_day}
+                        onChange={(e) => setFormData({ ...formData, month_start_day: e.target.value })}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Use 1 para o mês civil. Com início no dia 25, transações a partir do dia 25 contam para o mês seguinte.
+                      </p>
+                    </div>
+                  )}
                   <div className="flex justify-end space-x-2">
                     <Button type="button" variant="outline" onClick={() => setIsModalOpen(false)}>
                       Cancelar
@@ -298,7 +350,7 @@ export default function Contas() {
                               <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
                               <AlertDialogDescription>
                                 Você tem certeza que deseja excluir a conta "{account.name}"? 
-                                Todas as transações associadas a ela também serão removidas.
+                                A conta e as transações associadas a ela ficarão na lixeira por 30 dias, onde podem ser restauradas.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
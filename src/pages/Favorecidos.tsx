@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Check, Edit, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/Header';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import {
+  MAX_PAYEE_LENGTH,
+  PayeeAlias,
+  PayeeSummary,
+  deletePayee,
+  deletePayeeAlias,
+  fetchPayeeAliases,
+  fetchPayeeSummary,
+  normalizePayeeName,
+  renamePayee
+} from '@/lib/payees';
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const currentMonth = () => new Date().toISOString().slice(0, 7) + '-01';
+
+export default function Favorecidos() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [summary, setSummary] = useState<PayeeSummary[]>([]);
+  const [aliases, setAliases] = useState<PayeeAlias[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The current year so far by default
+  const [startMonth, setStartMonth] = useState(() => currentMonth().slice(0, 4) + '-01-01');
+  const [endMonth, setEndMonth] = useState(currentMonth);
+  const [editingPayeeId, setEditingPayeeId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [summaryData, aliasesData] = await Promise.all([
+        fetchPayeeSummary(startMonth, endMonth),
+        fetchPayeeAliases(user!.id)
+      ]);
+      setSummary(summaryData);
+      setAliases(aliasesData);
+    } catch (error) {
+      console.error('Error fetching payee summary:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar favorecidos",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, startMonth, endMonth, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, fetchData]);
+
+  const handleStartRename = (payee: PayeeSummary) => {
+    setEditingPayeeId(payee.payee_id);
+    setEditingName(payee.payee_name);
+  };
+
+  const handleRename = async (payee: PayeeSummary) => {
+    const name = normalizePayeeName(editingName);
+    if (!name || name === payee.payee_name) {
+      setEditingPayeeId(null);
+      return;
+    }
+
+    if (summary.some(p => p.payee_id !== payee.payee_id && p.payee_name.toLocaleLowerCase('pt-BR') === name.toLocaleLowerCase('pt-BR'))) {
+      toast({
+        title: "Erro",
+        description: `Já existe um favorecido "${name}"`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await renamePayee(payee.payee_id, name);
+      setSummary(prev => prev.map(p => p.payee_id === payee.payee_id ? { ...p, payee_name: name } : p));
+      setEditingPayeeId(null);
+    } catch (error) {
+      console.error('Error renaming payee:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao renomear favorecido",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (payee: PayeeSummary) => {
+    try {
+      await deletePayee(payee.payee_id);
+      setSummary(prev => prev.filter(p => p.payee_id !== payee.payee_id));
+      setAliases(prev => prev.filter(a => a.payee_id !== payee.payee_id));
+      toast({
+        title: "Sucesso",
+        description: "Favorecido excluído com sucesso"
+      });
+    } catch (error) {
+      console.error('Error deleting payee:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir favorecido",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteAlias = async (alias: PayeeAlias) => {
+    try {
+      await deletePayeeAlias(alias.id);
+      setAliases(prev => prev.filter(a => a.id !== alias.id));
+    } catch (error) {
+      console.error('Error deleting payee alias:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao remover descrição",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const totalExpense = summary.reduce((sum, p) => sum + Number(p.expense_total), 0);
+  const totalIncome = summary.reduce((sum, p) => sum + Number(p.income_total), 0);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">Carregando...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/transacoes">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold">Favorecidos</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Estabelecimentos e pessoas das suas transações. Ao escolher o favorecido de uma transação, a descrição dela
+            (sem números e sem prefixos como "PAG*") passa a identificar esse favorecido, e as transações com descrições
+            parecidas, novas ou importadas, recebem-no automaticamente.
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
+          <label className="text-sm font-medium">De:</label>
+          <MonthYearPicker value={startMonth} onValueChange={setStartMonth} placeholder="Mês inicial" className="w-full sm:w-auto" />
+          <label className="text-sm font-medium">Até:</label>
+          <MonthYearPicker value={endMonth} onValueChange={setEndMonth} placeholder="Mês final" className="w-full sm:w-auto" />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Gastos por Favorecido</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {summary.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Nenhum favorecido cadastrado ainda. Informe o favorecido ao criar ou editar uma transação.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Favorecido</TableHead>
+                    <TableHead>Descrições</TableHead>
+                    <TableHead className="text-right">Transações</TableHead>
+                    <TableHead className="text-right">Despesas</TableHead>
+                    <TableHead className="text-right">Receitas</TableHead>
+                    <TableHead>Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.map(payee => (
+                    <TableRow key={payee.payee_id}>
+                      <TableCell className="font-medium">
+                        {editingPayeeId === payee.payee_id ? (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={editingName}
+                              onChange={(e) => setEditingName(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRename(payee);
+                                if (e.key === 'Escape') setEditingPayeeId(null);
+                              }}
+                              maxLength={MAX_PAYEE_LENGTH}
+                              className="h-8"
+                              autoFocus
+                            />
+                            <Button variant="ghost" size="sm" onClick={() => handleRename(payee)} title="Salvar">
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setEditingPayeeId(null)} title="Cancelar">
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          payee.payee_name
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {aliases.filter(a => a.payee_id === payee.payee_id).map(alias => (
+                            <Badge key={alias.id} variant="outline" className="text-xs font-normal gap-1">
+                              {alias.alias}
+                              <button
+                                type="button"
+                                onClick={() => handleDeleteAlias(alias)}
+                                className="hover:text-destructive"
+                                title="Deixar de identificar por esta descrição"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{payee.transaction_count}</TableCell>
+                      <TableCell className="text-right text-red-600">{formatCurrency(Number(payee.expense_total))}</TableCell>
+                      <TableCell className="text-right text-green-600">{formatCurrency(Number(payee.income_total))}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => handleStartRename(payee)} title="Renomear">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Tem certeza que deseja excluir o favorecido "{payee.payee_name}"? As suas transações
+                                  ficarão sem favorecido e as descrições associadas deixarão de identificá-lo.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(payee)}>
+                                  Excluir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/30">
+                    <TableCell className="font-medium" colSpan={3}>Total</TableCell>
+                    <TableCell className="text-right font-medium text-red-600">{formatCurrency(totalExpense)}</TableCell>
+                    <TableCell className="text-right font-medium text-green-600">{formatCurrency(totalIncome)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Undo2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/Header';
+import { ImportBatch, fetchImportBatches, undoImportBatch } from '@/lib/importBatches';
+
+export default function Importacoes() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [undoingId, setUndoingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchBatches();
+    }
+  }, [user]);
+
+  const fetchBatches = async () => {
+    try {
+      setBatches(await fetchImportBatches(user!.id));
+    } catch (error) {
+      console.error('Error fetching import batches:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar importações",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUndo = async (batch: ImportBatch) => {
+    try {
+      setUndoingId(batch.id);
+      const deletedCount = await undoImportBatch(batch.id);
+      toast({
+        title: "Sucesso",
+        description: `Importação desfeita: ${deletedCount} transações foram excluídas e os saldos de dívidas e investimentos revertidos.`
+      });
+      fetchBatches();
+    } catch (error) {
+      console.error('Error undoing import batch:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao desfazer importação",
+        variant: "destructive"
+      });
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">Carregando...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold">Importações</h1>
+          <Link to="/importar">
+            <Button variant="outline">
+              <Upload className="h-4 w-4 mr-2" />
+              Importar Extrato
+            </Button>
+          </Link>
+        </div>
+
+        {batches.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground mb-4">
+              Nenhuma importação realizada ainda.
+            </p>
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Arquivo</TableHead>
+                    <TableHead>Conta</TableHead>
+                    <TableHead>Mês de Referência</TableHead>
+                    <TableHead className="text-right">Transações</TableHead>
+                    <TableHead>Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.map((batch) => (
+                    <TableRow key={batch.id}>
+                      <TableCell>
+                        {new Date(batch.created_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                      </TableCell>
+                      <TableCell className="max-w-[260px] truncate" title={batch.file_name}>
+                        {batch.file_name}
+                      </TableCell>
+                      <TableCell>{batch.accounts?.name || '-'}</TableCell>
+                      <TableCell>
+                        {new Date(batch.reference_month + 'T12:00:00').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}
+                      </TableCell>
+                      <TableCell className="text-right">{batch.row_count}</TableCell>
+                      <TableCell>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={undoingId !== null}>
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              {undoingId === batch.id ? 'Desfazendo...' : 'Desfazer'}
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Desfazer importação</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Todas as transações importadas de "{batch.file_name}" serão excluídas e os
+                                pagamentos de dívidas e aportes/resgates de investimentos vinculados a elas serão
+                                revertidos. Esta ação não pode ser desfeita.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleUndo(batch)}>
+                                Desfazer importação
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
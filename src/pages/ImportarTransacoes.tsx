@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -8,17 +9,41 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Upload, AlertCircle, CheckCircle, ArrowRight, Trash2, Shield } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Upload, AlertCircle, CheckCircle, ArrowRight, Trash2, Shield, Copy, Wand2, Sparkles, Check, History, RotateCcw, Split } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Header } from '@/components/Header';
 import { Database } from '@/integrations/supabase/types';
 import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { deriveReferenceMonth, formatReferenceMonth } from '@/lib/referenceMonth';
 import { useSecurityValidation } from '@/hooks/useSecurityValidation';
+import { ParsedTransaction, SPREADSHEET_EXTENSIONS, StatementFormat, detectStatementFormat } from '@/lib/statementImport';
+import { CSVCell, CSVMapping, CSV_BANK_PRESETS, DEFAULT_CSV_MAPPING, guessCSVMapping, readCSVRows } from '@/lib/csvImport';
+import { SpreadsheetSheet, readSpreadsheet } from '@/lib/spreadsheetImport';
+import { CSVFileContent, ParseProgress, applyCSVMappingInWorker, readCSVFile, readOFXFile } from '@/lib/statementParser';
+import { VirtualList } from '@/components/VirtualList';
+import { Progress } from '@/components/ui/progress';
+import { ImportPreset, deleteImportPreset, fetchImportPresets, markImportPresetUsed, saveImportPreset } from '@/lib/importPresets';
+import { ImportColumnMapping } from '@/components/ImportColumnMapping';
+import { DEFAULT_DUPLICATE_TOLERANCE_DAYS, fetchTransactionsForDuplicateCheck, findDuplicates } from '@/lib/duplicateDetection';
+import { CategorizationRule, CategorizationRuleInput, fetchCategorizationRules, findMatchingRule } from '@/lib/categorizationRules';
+import { CategorizationRuleModal } from '@/components/CategorizationRuleModal';
+import { BatchImportRow, BatchInstallmentPurchase, importTransactionsBatch } from '@/lib/batchImport';
+import { SplitLineDraft, emptySplitLine, isSplittableCategory, toSplitLines, validateSplitLines } from '@/lib/transactionSplits';
+import { TransactionSplitEditor } from '@/components/TransactionSplitEditor';
+import { TagInput } from '@/components/TagInput';
+import { fetchTags } from '@/lib/tags';
+import { InstallmentGroup, InstallmentPurchase, addMonths, fetchInstallmentPurchases, findMatchingPurchase, groupInstallments, parseInstallmentMarker } from '@/lib/installments';
+import { ImportInstallmentGroups, InstallmentChoice } from '@/components/ImportInstallmentGroups';
+import { CategoryHistory, MIN_SUGGESTION_CONFIDENCE, fetchCategoryHistory, recordCategoryChoice, suggestCategory } from '@/lib/categorySuggestions';
 
 interface Account {
   id: number;
   name: string;
   type: Database['public']['Enums']['account_type'];
+  month_start_day: number;
+  closing_day: number | null;
 }
 
 interface Category {
@@ -52,15 +77,19 @@ interface CSVRow {
   subcategory_id: string;
   investment_id: string;
   debt_id: string;
+  rule_id?: number; // Rule that filled in the category, cleared on manual changes
+  suggestion_confidence?: number; // Set while the category is an unconfirmed suggestion from history
+  suggestion_samples?: number;
+  reference_month?: string; // Manual override of the row's reference month
+  splits?: SplitLineDraft[]; // Set while the row is split across categories; its own category stays empty
+  tags?: string[];
 }
 
-interface ParsedTransaction {
-  date: string;
-  description: string;
-  amount: number;
-  type: Database['public']['Enums']['transaction_type'];
-  id?: string; // Temporary ID for tracking
-}
+// Starting guess for the virtualized categorize list until rows are measured
+const ESTIMATED_ROW_HEIGHT = 320;
+
+// FITIDs per "already imported" query, keeping the request URL short
+const FITID_CHUNK_SIZE = 200;
 
 export default function ImportarTransacoes() {
   const { user } = useAuth();
@@ -74,17 +103,40 @@ export default function ImportarTransacoes() {
   const [debts, setDebts] = useState<Debt[]>([]);
   const [loading, setLoading] = useState(true);
   const [importing, setImporting] = useState(false);
-  const [step, setStep] = useState<'upload' | 'categorize'>('upload');
+  const [processing, setProcessing] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const [step, setStep] = useState<'upload' | 'mapping' | 'categorize'>('upload');
   
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileFormat, setFileFormat] = useState<StatementFormat>('csv');
+  const [csvContent, setCsvContent] = useState<CSVFileContent | null>(null);
+  const [spreadsheetSheets, setSpreadsheetSheets] = useState<SpreadsheetSheet[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState(0);
+  const [csvMapping, setCsvMapping] = useState<CSVMapping>(DEFAULT_CSV_MAPPING);
+  const [importPresets, setImportPresets] = useState<ImportPreset[]>([]);
+  const [selectedPresetKey, setSelectedPresetKey] = useState('');
+  const [duplicateToleranceDays, setDuplicateToleranceDays] = useState(DEFAULT_DUPLICATE_TOLERANCE_DAYS);
   const [parsedTransactions, setParsedTransactions] = useState<ParsedTransaction[]>([]);
   const [transactionCategories, setTransactionCategories] = useState<CSVRow[]>([]);
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRule[]>([]);
+  const [ruleDefaults, setRuleDefaults] = useState<Partial<CategorizationRuleInput> | null>(null);
+  const [categoryHistory, setCategoryHistory] = useState<CategoryHistory>(new Map());
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+  const [installmentPurchases, setInstallmentPurchases] = useState<InstallmentPurchase[]>([]);
+  const [installmentChoices, setInstallmentChoices] = useState<Record<string, InstallmentChoice>>({});
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
   const [formData, setFormData] = useState<{
     account_id: string;
     reference_month: string;
+    reference_month_mode: 'single' | 'by_date'; // One month for the whole file, or derived from each row's date
+    month_start_day: string;
+    closing_day: string;
   }>({
     account_id: '',
-    reference_month: new Date().toISOString().slice(0, 7) + '-01'
+    reference_month: new Date().toISOString().slice(0, 7) + '-01',
+    reference_month_mode: 'single',
+    month_start_day: '1',
+    closing_day: ''
   });
 
   useEffect(() => {
@@ -93,13 +145,24 @@ export default function ImportarTransacoes() {
     }
   }, [user]);
 
+  // Re-split the raw file when another delimiter is picked in the mapping step; spreadsheets are already split
+  const csvRows = useMemo<CSVCell[][]>(() => {
+    if (fileFormat === 'spreadsheet') return spreadsheetSheets[selectedSheet]?.rows || [];
+    if (!csvContent) return [];
+    return csvContent.delimiter === csvMapping.delimiter
+      ? csvContent.rows
+      : readCSVRows(csvContent.text, csvMapping.delimiter).rows;
+  }, [fileFormat, spreadsheetSheets, selectedSheet, csvContent, csvMapping.delimiter]);
+
   const fetchData = async () => {
     try {
-      const [accountsRes, categoriesRes, investmentsRes, debtsRes] = await Promise.all([
+      const [accountsRes, categoriesRes, investmentsRes, debtsRes, rulesData, tagsData] = await Promise.all([
         supabase.from('accounts').select('*').eq('user_id', user?.id),
         supabase.from('categories').select('*').eq('user_id', user?.id),
         supabase.from('investments').select('id, name').eq('user_id', user?.id).order('name', { ascending: true }),
-        supabase.from('debts').select('id, description').eq('user_id', user?.id).gt('current_balance', 0).order('description', { ascending: true })
+        supabase.from('debts').select('id, description').eq('user_id', user?.id).gt('current_balance', 0).order('description', { ascending: true }),
+        fetchCategorizationRules(user!.id),
+        fetchTags(user!.id)
       ]);
 
       if (accountsRes.error) throw accountsRes.error;
@@ -111,6 +174,8 @@ export default function ImportarTransacoes() {
       setCategories(categoriesRes.data || []);
       setInvestments(investmentsRes.data || []);
       setDebts(debtsRes.data || []);
+      setCategorizationRules(rulesData);
+      setTagSuggestions(tagsData.map(tag => tag.name));
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -139,234 +204,96 @@ export default function ImportarTransacoes() {
     }
   };
 
-  const parseCSV = (csvText: string): ParsedTransaction[] => {
-    // Sanitize CSV content
-    const sanitizedCSV = sanitizeInput(csvText, 100000); // 100KB max
-    
-    const lines = sanitizedCSV.split('\n').filter(line => line.trim());
-    const transactions: ParsedTransaction[] = [];
+  // Make sure the subcategory selects have options for categories filled in automatically
+  const loadSubcategoriesFor = async (categoryIds: string[]) => {
+    const ids = [...new Set(categoryIds.filter(Boolean).map(id => parseInt(id)))];
+    if (ids.length === 0) return;
 
-    // Auto-detect delimiter by analyzing the first few lines
-    const detectDelimiter = (sampleLines: string[]): string => {
-      const delimiters = [';', ',', '\t'];
-      const scores: Record<string, number> = { ';': 0, ',': 0, '\t': 0 };
-      
-      for (const line of sampleLines.slice(0, Math.min(3, sampleLines.length))) {
-        for (const delimiter of delimiters) {
-          const parts = line.split(delimiter);
-          if (parts.length === 3) {
-            scores[delimiter] += 10; // Strong preference for 3 columns
-          } else if (parts.length > 1) {
-            scores[delimiter] += parts.length;
-          }
-        }
-      }
-      
-      // Return delimiter with highest score, defaulting to semicolon for Brazilian CSVs
-      const bestDelimiter = Object.keys(scores).reduce((a, b) => scores[a] > scores[b] ? a : b);
-      return bestDelimiter;
-    };
-
-    const delimiter = detectDelimiter(lines);
-    console.log(`Detected CSV delimiter: "${delimiter}"`);
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      // Parse CSV considering quoted fields
-      const parseCSVLine = (line: string, delimiter: string): string[] => {
-        const result: string[] = [];
-        let current = '';
-        let inQuotes = false;
-        let quoteChar = '';
-        
-        for (let j = 0; j < line.length; j++) {
-          const char = line[j];
-          
-          if (!inQuotes && (char === '"' || char === "'")) {
-            inQuotes = true;
-            quoteChar = char;
-          } else if (inQuotes && char === quoteChar) {
-            // Check if it's an escaped quote (doubled)
-            if (line[j + 1] === quoteChar) {
-              current += char;
-              j++; // Skip next quote
-            } else {
-              inQuotes = false;
-              quoteChar = '';
-            }
-          } else if (!inQuotes && char === delimiter) {
-            result.push(current.trim());
-            current = '';
-          } else {
-            current += char;
-          }
-        }
-        
-        result.push(current.trim());
-        return result;
-      };
-
-      const columns = parseCSVLine(line, delimiter);
-      
-      if (columns.length !== 3) {
-        throw new Error(`Erro na linha ${i + 1}: esperadas 3 colunas (Data${delimiter}Descrição${delimiter}Valor), encontradas ${columns.length}. 
-Linha atual: "${line}"
-Colunas encontradas: ${JSON.stringify(columns)}
-Verifique o formato do arquivo.`);
-      }
-
-      const [dateStr, description, amountStr] = columns;
-
-      // Parse date (DD/MM/YYYY format)
-      const dateParts = dateStr.split('/');
-      if (dateParts.length !== 3) {
-        throw new Error(`Erro na linha ${i + 1}: formato de data inválido. Use DD/MM/YYYY`);
-      }
-
-      const [day, month, year] = dateParts;
-      const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-      
-      if (isNaN(date.getTime())) {
-        throw new Error(`Erro na linha ${i + 1}: data inválida`);
-      }
-
-      // Parse amount - handle Brazilian decimal format more robustly
-      let normalizedAmount = amountStr.trim();
-      
-      // Remove currency symbols and extra spaces
-      normalizedAmount = normalizedAmount.replace(/[R$\s]+/g, '');
-      
-      // Handle various Brazilian number formats
-      // Examples: "1.234,56", "1234,56", "1.234.567,89", "-1.234,56"
-      
-      // Count dots and commas to determine format
-      const dotCount = (normalizedAmount.match(/\./g) || []).length;
-      const commaCount = (normalizedAmount.match(/,/g) || []).length;
-      
-      if (commaCount === 1 && dotCount >= 1) {
-        // Format like "1.234,56" or "12.345.678,90" - dots are thousands, comma is decimal
-        const lastCommaIndex = normalizedAmount.lastIndexOf(',');
-        const beforeComma = normalizedAmount.substring(0, lastCommaIndex);
-        const afterComma = normalizedAmount.substring(lastCommaIndex + 1);
-        
-        // Remove dots (thousands separators) and replace comma with dot
-        normalizedAmount = beforeComma.replace(/\./g, '') + '.' + afterComma;
-      } else if (commaCount === 1 && dotCount === 0) {
-        // Format like "1234,56" - comma is decimal separator
-        normalizedAmount = normalizedAmount.replace(',', '.');
-      } else if (commaCount === 0 && dotCount === 1) {
-        // Format like "1234.56" - already in correct format
-        // Do nothing
-      } else if (commaCount === 0 && dotCount > 1) {
-        // Format like "1.234.567" - dots are thousands separators, no decimals
-        normalizedAmount = normalizedAmount.replace(/\./g, '');
-      } else if (commaCount === 0 && dotCount === 0) {
-        // Format like "1234" - integer value
-        // Do nothing
-      } else {
-        // Ambiguous format - try to handle gracefully
-        // Remove all dots and replace last comma with dot
-        if (commaCount > 0) {
-          const parts = normalizedAmount.split(',');
-          const beforeLastComma = parts.slice(0, -1).join('').replace(/\./g, '');
-          const afterLastComma = parts[parts.length - 1];
-          normalizedAmount = beforeLastComma + '.' + afterLastComma;
-        } else {
-          normalizedAmount = normalizedAmount.replace(/\./g, '');
-        }
-      }
-      
-      const amount = parseFloat(normalizedAmount);
-      if (isNaN(amount)) {
-        throw new Error(`Erro na linha ${i + 1}: valor inválido "${amountStr}". Formatos suportados: 1.234,56 ou 1234,56 ou 1234.56`);
-      }
+    const loaded = await Promise.all(ids.map(id => fetchSubcategoriesForCategory(id)));
+    setSubcategories(prevSubs => [
+      ...prevSubs.filter(sub => !ids.includes(sub.category_id)),
+      ...loaded.flat()
+    ]);
+  };
 
-      transactions.push({
-        date: date.toISOString().split('T')[0],
-        description: sanitizeInput(description.trim(), 200), // Sanitize and limit description
-        amount: Math.abs(amount),
-        type: amount < 0 ? 'Expense' : 'Income',
-        id: `temp-${Date.now()}-${i}` // Temporary ID for tracking
+  // Fill in uncategorized rows from the first matching rule; rules win over history suggestions
+  const applyRules = (
+    transactions: ParsedTransaction[],
+    rows: CSVRow[],
+    rules: CategorizationRule[]
+  ): CSVRow[] => {
+    return rows.map((row, i) => {
+      if (row.splits || (row.category_id && row.suggestion_confidence === undefined)) return row;
+
+      const transaction = transactions[i];
+      const rule = findMatchingRule(rules, {
+        description: transaction.description,
+        amount: transaction.amount,
+        type: transaction.type,
+        account_id: parseInt(formData.account_id)
       });
-    }
-
-    return transactions;
+      if (!rule) return row;
+
+      return {
+        ...row,
+        category_id: rule.category_id.toString(),
+        subcategory_id: rule.subcategory_id?.toString() ?? '',
+        debt_id: rule.debt_id?.toString() ?? '',
+        investment_id: rule.investment_id?.toString() ?? '',
+        rule_id: rule.id,
+        suggestion_confidence: undefined,
+        suggestion_samples: undefined
+      };
+    });
   };
 
-  const updatePatrimonyBalances = async (transactionData: any) => {
-    try {
-      if (transactionData.debt_id) {
-        const { data: debtData } = await supabase
-          .from('debts')
-          .select('current_balance, remaining_installments')
-          .eq('id', transactionData.debt_id)
-          .single();
-
-        if (debtData) {
-          const newBalance = debtData.current_balance - transactionData.amount;
-          const newRemainingInstallments = debtData.remaining_installments 
-            ? Math.max(0, debtData.remaining_installments - 1) 
-            : null;
-
-          await supabase
-            .from('debts')
-            .update({ 
-              current_balance: Math.max(0, newBalance),
-              remaining_installments: newRemainingInstallments
-            })
-            .eq('id', transactionData.debt_id);
-        }
-      }
-
-      if (transactionData.investment_id) {
-        const { data: investmentData } = await supabase
-          .from('investments')
-          .select('current_balance, initial_amount')
-          .eq('id', transactionData.investment_id)
-          .single();
+  // Fill in rows still without a category (or with a stale suggestion) from past transactions
+  const applySuggestions = (
+    transactions: ParsedTransaction[],
+    rows: CSVRow[],
+    history: CategoryHistory
+  ): CSVRow[] => {
+    // Statements repeat the same merchants; each distinct description is looked up once
+    const cache = new Map<string, ReturnType<typeof suggestCategory>>();
+    const suggest = (transaction: ParsedTransaction) => {
+      const cacheKey = `${transaction.type}|${transaction.description}`;
+      if (!cache.has(cacheKey)) cache.set(cacheKey, suggestCategory(history, transaction.description, transaction.type));
+      return cache.get(cacheKey)!;
+    };
 
-        if (investmentData) {
-          let newBalance;
-          const isFirstDeposit = investmentData.current_balance === 0 && transactionData.type === 'Expense';
-          
-          if (transactionData.type === 'Expense') {
-            newBalance = investmentData.current_balance + transactionData.amount;
-          } else {
-            newBalance = Math.max(0, investmentData.current_balance - transactionData.amount);
-          }
+    return rows.map((row, i) => {
+      if (row.splits || (row.category_id && row.suggestion_confidence === undefined)) return row;
 
-          // Se é o primeiro aporte, atualizar também o initial_amount
-          if (isFirstDeposit) {
-            await supabase
-              .from('investments')
-              .update({ 
-                current_balance: newBalance,
-                initial_amount: transactionData.amount
-              })
-              .eq('id', transactionData.investment_id);
-          } else {
-            await supabase
-              .from('investments')
-              .update({ current_balance: newBalance })
-              .eq('id', transactionData.investment_id);
-          }
-        }
+      const suggestion = suggest(transactions[i]);
+      if (!suggestion || suggestion.confidence < MIN_SUGGESTION_CONFIDENCE) {
+        return row.suggestion_confidence === undefined
+          ? row
+          : { ...row, category_id: '', subcategory_id: '', suggestion_confidence: undefined, suggestion_samples: undefined };
       }
-    } catch (error) {
-      console.error('Error updating patrimony balances:', error);
-    }
+
+      return {
+        ...row,
+        category_id: suggestion.category_id.toString(),
+        subcategory_id: suggestion.subcategory_id?.toString() ?? '',
+        investment_id: '',
+        debt_id: '',
+        suggestion_confidence: suggestion.confidence,
+        suggestion_samples: suggestion.sampleSize
+      };
+    });
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       // Enhanced file validation
-      if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
+      const lowerName = file.name.toLowerCase();
+      const isSupported = file.type === 'text/csv'
+        || ['.csv', '.ofx', '.qfx', ...SPREADSHEET_EXTENSIONS].some(ext => lowerName.endsWith(ext));
+      if (!isSupported) {
         toast({
           title: "Erro",
-          description: "Por favor, selecione um arquivo CSV válido",
+          description: "Por favor, selecione um arquivo CSV, OFX, XLSX ou ODS válido",
           variant: "destructive"
         });
         return;
@@ -394,97 +321,361 @@ Verifique o formato do arquivo.`);
     }
   };
 
+  // The account's month rule is the starting point; it can be adjusted for this import only
+  const handleAccountChange = (value: string) => {
+    const account = accounts.find(a => a.id === parseInt(value));
+    setFormData({
+      ...formData,
+      account_id: value,
+      month_start_day: (account?.month_start_day ?? 1).toString(),
+      closing_day: account?.closing_day?.toString() || ''
+    });
+  };
+
+  // Drop OFX rows whose FITID was already imported into this account (or repeats within the file)
+  const filterAlreadyImported = async (transactions: ParsedTransaction[]): Promise<ParsedTransaction[]> => {
+    const fitids = transactions.map(t => t.fitid).filter((fitid): fitid is string => !!fitid);
+    if (fitids.length === 0) return transactions;
+
+    const seen = new Set<string | null>();
+    for (let i = 0; i < fitids.length; i += FITID_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('fitid')
+        .eq('user_id', user?.id)
+        .eq('account_id', parseInt(formData.account_id))
+        .in('fitid', fitids.slice(i, i + FITID_CHUNK_SIZE));
+
+      if (error) throw error;
+      (data || []).forEach(t => seen.add(t.fitid));
+    }
+
+    return transactions.filter(t => {
+      if (!t.fitid) return true;
+      if (seen.has(t.fitid)) return false;
+      seen.add(t.fitid);
+      return true;
+    });
+  };
+
+  // Shared tail of the upload flow: de-duplicate, log and move on to categorization
+  const startCategorization = async (transactions: ParsedTransaction[], format: StatementFormat) => {
+    if (transactions.length === 0) {
+      toast({
+        title: "Erro",
+        description: "O arquivo está vazio ou não contém dados válidos",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Installment markers: a trailing "03/10" only counts as one on credit card statements
+    const allowBareFraction = accounts.find(a => a.id === parseInt(formData.account_id))?.type === 'Credit Card';
+    const withInstallments = transactions.map(t => {
+      const installment = parseInstallmentMarker(t.description, allowBareFraction);
+      return installment ? { ...t, installment } : t;
+    });
+
+    const parsed = await filterAlreadyImported(withInstallments);
+    const skippedCount = transactions.length - parsed.length;
+
+    if (parsed.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Todas as transações deste arquivo já foram importadas para esta conta",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (skippedCount > 0) {
+      toast({
+        title: "Atenção",
+        description: `${skippedCount} transações já importadas anteriormente foram ignoradas`
+      });
+    }
+
+    // Flag likely duplicates of transactions already stored for the account; they start excluded
+    const existing = await fetchTransactionsForDuplicateCheck(
+      user!.id,
+      parseInt(formData.account_id),
+      parsed,
+      duplicateToleranceDays
+    );
+    const duplicates = findDuplicates(parsed, existing, duplicateToleranceDays);
+    const flagged = parsed.map((t, i) => duplicates[i] ? { ...t, duplicateOf: duplicates[i]!, excluded: true } : t);
+    const duplicateCount = duplicates.filter(Boolean).length;
+
+    if (duplicateCount > 0) {
+      toast({
+        title: "Possíveis duplicatas",
+        description: `${duplicateCount} transações parecem já existir nesta conta e foram desmarcadas. Revise antes de importar.`
+      });
+    }
+
+    // Log successful file parsing
+    await logSecurityEvent('csv_parsed_success', {
+      filename: sanitizeInput(selectedFile?.name || ''),
+      format,
+      transactions_count: parsed.length,
+      skipped_already_imported: skippedCount,
+      flagged_duplicates: duplicateCount,
+      account_id: formData.account_id
+    });
+
+    setParsedTransactions(flagged);
+    setInstallmentPurchases(await fetchInstallmentPurchases(user!.id, parseInt(formData.account_id)));
+    setInstallmentChoices({});
+    // Initialize categories for each transaction, pre-filled by the user's rules
+    const blankCategories = flagged.map(() => ({
+      date: '',
+      description: '',
+      amount: 0,
+      type: 'Expense' as Database['public']['Enums']['transaction_type'],
+      category_id: '',
+      subcategory_id: '',
+      investment_id: '',
+      debt_id: ''
+    }));
+    const history = await fetchCategoryHistory(user!.id);
+    const initCategories = applySuggestions(flagged, applyRules(flagged, blankCategories, categorizationRules), history);
+    setCategoryHistory(history);
+    setTransactionCategories(initCategories);
+    setRowErrors({});
+    await loadSubcategoriesFor(initCategories.map(c => c.category_id));
+    setStep('categorize');
+  };
+
+  const handleProcessError = async (error: unknown) => {
+    console.error('Error processing file:', error);
+    const message = error instanceof Error ? error.message : '';
+
+    // Log parsing error
+    await logSecurityEvent('csv_parsing_error', {
+      filename: sanitizeInput(selectedFile?.name || ''),
+      error: message
+    });
+
+    toast({
+      title: "Erro",
+      description: message || "Erro ao processar arquivo",
+      variant: "destructive"
+    });
+  };
+
   const handleProcessFile = async () => {
     if (!selectedFile || !formData.account_id) {
       toast({
         title: "Erro",
-        description: "Selecione um arquivo CSV e uma conta de destino",
+        description: "Selecione um arquivo CSV, OFX ou planilha e uma conta de destino",
         variant: "destructive"
       });
       return;
     }
 
     try {
-      const csvText = await selectedFile.text();
-      const parsed = parseCSV(csvText);
-
-      if (parsed.length === 0) {
-        toast({
-          title: "Erro",
-          description: "O arquivo CSV está vazio ou não contém dados válidos",
-          variant: "destructive"
-        });
+      setProcessing(true);
+      // Only the start of the file is needed to sniff the format; the parsers read it in full
+      const format = detectStatementFormat(selectedFile.name, await selectedFile.slice(0, 1024).text());
+      setFileFormat(format);
+
+      if (format === 'ofx') {
+        const parsed = (await readOFXFile(selectedFile, setParseProgress)).map(t => ({
+          ...t,
+          description: sanitizeInput(t.description, 200)
+        }));
+        setParseProgress(null);
+        await startCategorization(parsed, format);
         return;
       }
 
-      // Log successful CSV parsing
-      await logSecurityEvent('csv_parsed_success', {
-        filename: sanitizeInput(selectedFile.name),
-        transactions_count: parsed.length,
-        account_id: formData.account_id
-      });
+      let rows: CSVCell[][];
+      let delimiter = csvMapping.delimiter;
+      if (format === 'spreadsheet') {
+        // Cells keep their native types; the first sheet with data is preselected
+        const sheets = await readSpreadsheet(await selectedFile.arrayBuffer());
+        const firstSheet = sheets.findIndex(sheet => sheet.rows.length > 0);
+        if (firstSheet === -1) throw new Error('A planilha não contém dados');
+
+        setSpreadsheetSheets(sheets);
+        setSelectedSheet(firstSheet);
+        setCsvContent(null);
+        rows = sheets[firstSheet].rows;
+      } else {
+        // The whole file is kept; descriptions are sanitized row by row after mapping
+        const content = await readCSVFile(selectedFile, setParseProgress);
+        ({ delimiter, rows } = content);
+        setCsvContent(content);
+        setSpreadsheetSheets([]);
+      }
 
-      setParsedTransactions(parsed);
-      // Initialize categories for each transaction
-      const initCategories = parsed.map(() => ({
-        date: '',
-        description: '',
-        amount: 0,
-        type: 'Expense' as Database['public']['Enums']['transaction_type'],
-        category_id: '',
-        subcategory_id: '',
-        investment_id: '',
-        debt_id: ''
-      }));
-      setTransactionCategories(initCategories);
-      setStep('categorize');
-    } catch (error: any) {
-      console.error('Error processing file:', error);
-      
-      // Log CSV parsing error
-      await logSecurityEvent('csv_parsing_error', {
-        filename: sanitizeInput(selectedFile.name),
-        error: error.message
+      // Pick the mapping (last preset used on this account, else a guess from the header)
+      const presets = await fetchImportPresets(user!.id, parseInt(formData.account_id));
+      const lastUsed = presets.find(p => p.last_used_at) || presets[0];
+
+      setImportPresets(presets);
+      if (lastUsed) {
+        setCsvMapping(lastUsed.mapping);
+        setSelectedPresetKey(`saved:${lastUsed.id}`);
+      } else {
+        setCsvMapping(guessCSVMapping(rows, delimiter));
+        setSelectedPresetKey('');
+      }
+      setStep('mapping');
+    } catch (error) {
+      await handleProcessError(error);
+    } finally {
+      setProcessing(false);
+      setParseProgress(null);
+    }
+  };
+
+  const handlePresetSelect = (key: string) => {
+    setSelectedPresetKey(key);
+    const [source, id] = key.split(':');
+    const preset = source === 'saved'
+      ? importPresets.find(p => p.id === parseInt(id))?.mapping
+      : CSV_BANK_PRESETS.find(p => p.id === id)?.mapping;
+    if (preset) setCsvMapping(preset);
+  };
+
+  const handleSheetChange = (index: number) => {
+    setSelectedSheet(index);
+    // Sheets usually have different layouts; a chosen preset is kept as is
+    if (!selectedPresetKey) {
+      setCsvMapping(guessCSVMapping(spreadsheetSheets[index]?.rows || [], csvMapping.delimiter));
+    }
+  };
+
+  const handleMappingChange = (mapping: CSVMapping) => {
+    setCsvMapping(mapping);
+    // Manual edits detach the mapping from the selected preset
+    setSelectedPresetKey('');
+  };
+
+  const handleSavePreset = async (name: string) => {
+    try {
+      await saveImportPreset(user!.id, parseInt(formData.account_id), sanitizeInput(name, 60), csvMapping);
+      const presets = await fetchImportPresets(user!.id, parseInt(formData.account_id));
+      setImportPresets(presets);
+      const saved = presets.find(p => p.name === sanitizeInput(name, 60));
+      if (saved) setSelectedPresetKey(`saved:${saved.id}`);
+      toast({
+        title: "Sucesso",
+        description: "Modelo de importação salvo para esta conta"
       });
-      
+    } catch (error) {
+      console.error('Error saving import preset:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao salvar modelo de importação",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeletePreset = async (presetId: number) => {
+    try {
+      await deleteImportPreset(presetId);
+      setImportPresets(prev => prev.filter(p => p.id !== presetId));
+      setSelectedPresetKey('');
+    } catch (error) {
+      console.error('Error deleting import preset:', error);
       toast({
         title: "Erro",
-        description: error.message || "Erro ao processar arquivo CSV",
+        description: "Erro ao excluir modelo de importação",
         variant: "destructive"
       });
     }
   };
 
+  const handleMappingContinue = async () => {
+    try {
+      setProcessing(true);
+      const parsed = (await applyCSVMappingInWorker(csvRows, csvMapping, setParseProgress)).map(t => ({
+        ...t,
+        description: sanitizeInput(t.description, 200) // Sanitize and limit description
+      }));
+
+      if (selectedPresetKey.startsWith('saved:')) {
+        await markImportPresetUsed(parseInt(selectedPresetKey.split(':')[1]));
+      }
+
+      setParseProgress(null);
+      await startCategorization(parsed, fileFormat);
+    } catch (error) {
+      await handleProcessError(error);
+    } finally {
+      setProcessing(false);
+      setParseProgress(null);
+    }
+  };
+
   const handleCategoryChange = async (index: number, categoryId: string) => {
-    const newCategories = [...transactionCategories];
+    let newCategories = [...transactionCategories];
     newCategories[index] = {
       ...newCategories[index],
       category_id: categoryId,
       subcategory_id: '',
       investment_id: '',
-      debt_id: ''
+      debt_id: '',
+      rule_id: undefined,
+      suggestion_confidence: undefined,
+      suggestion_samples: undefined
     };
-    setTransactionCategories(newCategories);
 
-    // Fetch subcategories for this category
+    // A manual choice (or correction) teaches the suggestions for the remaining rows
     if (categoryId) {
-      const subcats = await fetchSubcategoriesForCategory(parseInt(categoryId));
-      setSubcategories(prevSubs => {
-        const newSubs = [...prevSubs];
-        // Clear existing subcategories for this category and add new ones
-        const filtered = newSubs.filter(sub => sub.category_id !== parseInt(categoryId));
-        return [...filtered, ...subcats];
-      });
+      const transaction = parsedTransactions[index];
+      const history = recordCategoryChoice(categoryHistory, transaction.description, transaction.type, parseInt(categoryId), null);
+      setCategoryHistory(history);
+      newCategories = applySuggestions(parsedTransactions, newCategories, history);
     }
+    setTransactionCategories(newCategories);
+    clearRowError(index);
+
+    // Fetch subcategories for this category and any newly suggested ones
+    await loadSubcategoriesFor(newCategories.map(c => c.category_id));
   };
 
   const handleSubcategoryChange = (index: number, subcategoryId: string) => {
     const newCategories = [...transactionCategories];
     newCategories[index] = {
       ...newCategories[index],
-      subcategory_id: subcategoryId
+      subcategory_id: subcategoryId,
+      // Adjusting a suggested row counts as confirming its category
+      suggestion_confidence: undefined,
+      suggestion_samples: undefined
     };
     setTransactionCategories(newCategories);
+    clearRowError(index);
+  };
+
+  const handleAcceptSuggestion = async (index: number) => {
+    const transaction = parsedTransactions[index];
+    const row = transactionCategories[index];
+    const history = recordCategoryChoice(
+      categoryHistory,
+      transaction.description,
+      transaction.type,
+      parseInt(row.category_id),
+      row.subcategory_id ? parseInt(row.subcategory_id) : null
+    );
+    setCategoryHistory(history);
+
+    const newCategories = [...transactionCategories];
+    newCategories[index] = { ...row, suggestion_confidence: undefined, suggestion_samples: undefined };
+    const updated = applySuggestions(parsedTransactions, newCategories, history);
+    setTransactionCategories(updated);
+    await loadSubcategoriesFor(updated.map(c => c.category_id));
+  };
+
+  const handleTagsChange = (index: number, tags: string[]) => {
+    const newCategories = [...transactionCategories];
+    newCategories[index] = { ...newCategories[index], tags };
+    setTransactionCategories(newCategories);
+    // Tags typed here are offered on the other rows too
+    setTagSuggestions(prev => [...new Set([...prev, ...tags])].sort((a, b) => a.localeCompare(b, 'pt-BR')));
   };
 
   const handlePatrimonyChange = (index: number, field: 'investment_id' | 'debt_id', value: string) => {
@@ -494,6 +685,89 @@ Verifique o formato do arquivo.`);
       [field]: value
     };
     setTransactionCategories(newCategories);
+    clearRowError(index);
+  };
+
+  // Splitting starts from the row's category with the whole amount; unsplitting leaves the row uncategorized
+  const handleToggleSplit = (index: number) => {
+    const row = transactionCategories[index];
+    const newCategories = [...transactionCategories];
+
+    if (row.splits) {
+      newCategories[index] = { ...row, splits: undefined };
+    } else {
+      const keepCategory = row.category_id && isSplittableCategory(getCategoryType(row.category_id));
+      newCategories[index] = {
+        ...row,
+        category_id: '',
+        subcategory_id: '',
+        investment_id: '',
+        debt_id: '',
+        rule_id: undefined,
+        suggestion_confidence: undefined,
+        suggestion_samples: undefined,
+        splits: [
+          {
+            amount: parsedTransactions[index].amount.toFixed(2),
+            category_id: keepCategory ? row.category_id : '',
+            subcategory_id: keepCategory ? row.subcategory_id : ''
+          },
+          emptySplitLine()
+        ]
+      };
+    }
+    setTransactionCategories(newCategories);
+    clearRowError(index);
+  };
+
+  const handleSplitLinesChange = (index: number, lines: SplitLineDraft[]) => {
+    const newCategories = [...transactionCategories];
+    newCategories[index] = { ...newCategories[index], splits: lines };
+    setTransactionCategories(newCategories);
+    clearRowError(index);
+  };
+
+  const handleCreateRule = (index: number) => {
+    const transaction = parsedTransactions[index];
+    const categoryData = transactionCategories[index];
+    setRuleDefaults({
+      name: transaction.description.slice(0, 80),
+      match_type: 'contains',
+      pattern: transaction.description,
+      account_id: parseInt(formData.account_id),
+      transaction_type: transaction.type,
+      category_id: categoryData?.category_id ? parseInt(categoryData.category_id) : undefined,
+      subcategory_id: categoryData?.subcategory_id ? parseInt(categoryData.subcategory_id) : null,
+      debt_id: categoryData?.debt_id ? parseInt(categoryData.debt_id) : null,
+      investment_id: categoryData?.investment_id ? parseInt(categoryData.investment_id) : null
+    });
+  };
+
+  const handleRuleSaved = async (rule: CategorizationRule) => {
+    const rules = [...categorizationRules.filter(r => r.id !== rule.id), rule];
+    setCategorizationRules(rules);
+
+    const updated = applyRules(parsedTransactions, transactionCategories, rules);
+    const newlyCategorized = updated.filter((row, i) => row.rule_id && row !== transactionCategories[i]).length;
+    setTransactionCategories(updated);
+    await loadSubcategoriesFor(updated.map(c => c.category_id));
+
+    if (newlyCategorized > 0) {
+      toast({
+        title: "Regra aplicada",
+        description: `${newlyCategorized} transações sem categoria foram categorizadas pela nova regra`
+      });
+    }
+  };
+
+  // Editing a row that the server rejected clears its error message
+  const clearRowError = (index: number) => {
+    if (!rowErrors[index]) return;
+    setRowErrors(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
   };
 
   const handleDeleteTransaction = (index: number) => {
@@ -501,6 +775,21 @@ Verifique o formato do arquivo.`);
     const newCategories = transactionCategories.filter((_, i) => i !== index);
     setParsedTransactions(newTransactions);
     setTransactionCategories(newCategories);
+    // Row positions shift, so stale server errors would point at the wrong rows
+    setRowErrors({});
+  };
+
+  const handleToggleExcluded = (index: number, excluded: boolean) => {
+    const newTransactions = [...parsedTransactions];
+    newTransactions[index] = { ...newTransactions[index], excluded };
+    setParsedTransactions(newTransactions);
+  };
+
+  const handleReferenceMonthChange = (index: number, referenceMonth: string | undefined) => {
+    const updated = [...transactionCategories];
+    updated[index] = { ...updated[index], reference_month: referenceMonth };
+    setTransactionCategories(updated);
+    clearRowError(index);
   };
 
   const handleEditTransaction = (index: number, field: keyof ParsedTransaction, value: string | number) => {
@@ -508,12 +797,19 @@ Verifique o formato do arquivo.`);
     if (field === 'amount') {
       newTransactions[index] = { ...newTransactions[index], [field]: parseFloat(value as string) };
     } else if (field === 'description') {
-      // Sanitize edited description
-      newTransactions[index] = { ...newTransactions[index], [field]: sanitizeInput(value as string, 200) };
+      // Sanitize edited description and re-detect its installment marker
+      const description = sanitizeInput(value as string, 200);
+      const allowBareFraction = accounts.find(a => a.id === parseInt(formData.account_id))?.type === 'Credit Card';
+      newTransactions[index] = {
+        ...newTransactions[index],
+        description,
+        installment: parseInstallmentMarker(description, allowBareFraction) ?? undefined
+      };
     } else {
       newTransactions[index] = { ...newTransactions[index], [field]: value };
     }
     setParsedTransactions(newTransactions);
+    clearRowError(index);
   };
 
   const handleFinalImport = async () => {
@@ -521,71 +817,140 @@ Verifique o formato do arquivo.`);
 
     try {
       const selectedAccount = accounts.find(a => a.id === parseInt(formData.account_id));
-      let successCount = 0;
 
-      for (let i = 0; i < parsedTransactions.length; i++) {
-        const transaction = parsedTransactions[i];
-        const categoryData = transactionCategories[i];
+      if (parsedTransactions.every(t => t.excluded)) {
+        toast({
+          title: "Erro",
+          description: "Nenhuma transação selecionada para importação",
+          variant: "destructive"
+        });
+        return;
+      }
 
-        // Validate category dependencies
-        const selectedCategory = categories.find(c => c.id === parseInt(categoryData.category_id));
-        
-        if (selectedCategory?.type === 'Debt' && !categoryData.debt_id) {
-          toast({
-            title: "Erro",
-            description: `Transação ${i + 1}: Para categorias de dívidas, é obrigatório vincular a uma dívida`,
-            variant: "destructive"
-          });
-          setImporting(false);
-          return;
-        }
+      // Split lines are checked here so their errors show up before anything is sent
+      const splitErrors: Record<number, string> = {};
+      parsedTransactions.forEach((transaction, i) => {
+        const splits = transactionCategories[i].splits;
+        if (transaction.excluded || !splits) return;
+        const splitError = validateSplitLines(transaction.amount, splits);
+        if (splitError) splitErrors[i] = splitError;
+      });
+      const splitErrorRows = Object.keys(splitErrors).map(Number);
+      if (splitErrorRows.length > 0) {
+        setRowErrors(splitErrors);
+        toast({
+          title: "Erro",
+          description: `${splitErrorRows.length} transações divididas com problemas. Transação ${splitErrorRows[0] + 1}: ${splitErrors[splitErrorRows[0]]}`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Installment purchases to create with the batch, and the group each row belongs to
+      const purchases: BatchInstallmentPurchase[] = [];
+      const groupByRow = new Map<number, InstallmentGroup>();
+      for (const group of installmentGroups) {
+        const choice = effectiveInstallmentChoices[group.key];
+        if (choice.target === 'none') continue;
+        group.rowIndexes.forEach(i => groupByRow.set(i, group));
+
+        if (choice.target === 'create') {
+          const totalAmount = parseFloat(choice.totalAmount);
+          if (!totalAmount || totalAmount <= 0) {
+            toast({
+              title: "Erro",
+              description: `Informe o valor total da compra parcelada "${group.description}"`,
+              variant: "destructive"
+            });
+            return;
+          }
 
-        if (selectedCategory?.type === 'Investment' && !categoryData.investment_id) {
-          toast({
-            title: "Erro",
-            description: `Transação ${i + 1}: Para categorias de investimentos, é obrigatório vincular a um investimento`,
-            variant: "destructive"
+          const firstRow = group.rowIndexes[0];
+          const firstCategory = transactionCategories[firstRow];
+          purchases.push({
+            group: group.key,
+            description: group.description,
+            total_amount: totalAmount,
+            installment_amount: group.installmentAmount,
+            total_installments: group.total,
+            // Installment N of the file lands in this reference month, so installment 1 was N-1 months earlier
+            first_reference_month: addMonths(rowReferenceMonths[firstRow], -(parsedTransactions[firstRow].installment!.current - 1)),
+            category_id: firstCategory?.category_id ? parseInt(firstCategory.category_id) : null,
+            subcategory_id: firstCategory?.subcategory_id ? parseInt(firstCategory.subcategory_id) : null
           });
-          setImporting(false);
-          return;
         }
+      }
 
-        const transactionData = {
+      // Rows left out by the user (e.g. flagged duplicates) are not sent
+      const rows: BatchImportRow[] = [];
+      parsedTransactions.forEach((transaction, i) => {
+        if (transaction.excluded) return;
+        const categoryData = transactionCategories[i];
+        const group = groupByRow.get(i);
+        const installmentTarget = group ? effectiveInstallmentChoices[group.key].target : 'none';
+        rows.push({
+          row_index: i,
           description: transaction.description,
           amount: transaction.amount,
           type: transaction.type,
           transaction_date: transaction.date,
-          reference_month: formData.reference_month,
-          account_id: parseInt(formData.account_id),
+          reference_month: rowReferenceMonths[i],
           category_id: categoryData.category_id ? parseInt(categoryData.category_id) : null,
           subcategory_id: categoryData.subcategory_id ? parseInt(categoryData.subcategory_id) : null,
           investment_id: categoryData.investment_id ? parseInt(categoryData.investment_id) : null,
           debt_id: categoryData.debt_id ? parseInt(categoryData.debt_id) : null,
-          user_id: user?.id
-        };
-
-        const { error } = await supabase
-          .from('transactions')
-          .insert([transactionData]);
-
-        if (error) throw error;
+          fitid: transaction.fitid ?? null,
+          installment_purchase_id: installmentTarget.startsWith('purchase:') ? parseInt(installmentTarget.split(':')[1]) : null,
+          installment_group: installmentTarget === 'create' ? group!.key : null,
+          installment_number: group ? transaction.installment!.current : null,
+          splits: categoryData.splits ? toSplitLines(categoryData.splits) : undefined,
+          tags: categoryData.tags?.length ? categoryData.tags : undefined
+        });
+      });
 
-        await updatePatrimonyBalances(transactionData);
-        successCount++;
+      // The batch is listed under the month most of its rows fall in
+      const monthCounts = new Map<string, number>();
+      rows.forEach(row => monthCounts.set(row.reference_month, (monthCounts.get(row.reference_month) || 0) + 1));
+      const batchReferenceMonth = [...monthCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+      // Validation, inserts and balance updates run in a single database transaction
+      const result = await importTransactionsBatch(
+        parseInt(formData.account_id),
+        rows,
+        sanitizeInput(selectedFile?.name || '', 200),
+        batchReferenceMonth,
+        purchases
+      );
+
+      if (!result.success) {
+        setRowErrors(Object.fromEntries(result.errors.map(e => [e.row_index, e.message])));
+        const first = result.errors[0];
+        toast({
+          title: "Nada foi importado",
+          description: `${result.errors.length} transações com problemas. Transação ${first.row_index + 1}: ${first.message}`,
+          variant: "destructive"
+        });
+        return;
       }
 
       toast({
         title: "Sucesso",
-        description: `Importação concluída! ${successCount} transações foram adicionadas à conta ${selectedAccount?.name}.`
+        description: `Importação concluída! ${result.inserted_count} transações foram adicionadas à conta ${selectedAccount?.name}.`
       });
 
       // Reset everything
       setSelectedFile(null);
+      setCsvContent(null);
+      setSpreadsheetSheets([]);
       setParsedTransactions([]);
       setTransactionCategories([]);
+      setRowErrors({});
       setFormData({
         account_id: '',
-        reference_month: new Date().toISOString().slice(0, 7) + '-01'
+        reference_month: new Date().toISOString().slice(0, 7) + '-01',
+        reference_month_mode: 'single',
+        month_start_day: '1',
+        closing_day: ''
       });
       setStep('upload');
       
@@ -593,11 +958,11 @@ Verifique o formato do arquivo.`);
       const fileInput = document.getElementById('csv-file') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error importing transactions:', error);
       toast({
         title: "Erro",
-        description: error.message || "Erro ao importar transações",
+        description: `${error instanceof Error ? error.message : 'Erro ao importar transações'}. Nenhuma transação foi gravada.`,
         variant: "destructive"
       });
     } finally {
@@ -605,6 +970,7 @@ Verifique o formato do arquivo.`);
     }
   };
 
+
   // Month/Year picker - now dynamic, no need for fixed options
 
   const getSubcategoriesForCategory = (categoryId: string) => {
@@ -615,6 +981,45 @@ Verifique o formato do arquivo.`);
     return categories.find(c => c.id === parseInt(categoryId))?.type;
   };
 
+  const excludedCount = parsedTransactions.filter(t => t.excluded).length;
+
+  const selectedAccountType = accounts.find(a => a.id === parseInt(formData.account_id))?.type;
+
+  // Reference month of each row: a manual override, else derived from its date, else the single month of the file
+  const rowReferenceMonths = useMemo(() => {
+    const rule = {
+      monthStartDay: parseInt(formData.month_start_day) || 1,
+      closingDay: selectedAccountType === 'Credit Card' ? parseInt(formData.closing_day) || null : null
+    };
+    return parsedTransactions.map((transaction, i) => {
+      const override = transactionCategories[i]?.reference_month;
+      if (override) return override;
+      if (formData.reference_month_mode === 'by_date' && /^\d{4}-\d{2}-\d{2}$/.test(transaction.date)) {
+        return deriveReferenceMonth(transaction.date, rule);
+      }
+      return formData.reference_month;
+    });
+  }, [parsedTransactions, transactionCategories, formData, selectedAccountType]);
+
+  const installmentGroups = useMemo(() => groupInstallments(parsedTransactions), [parsedTransactions]);
+
+  // Groups start linked to a matching registered purchase, otherwise set to create a new one
+  const effectiveInstallmentChoices = useMemo(() => {
+    const result: Record<string, InstallmentChoice> = {};
+    installmentGroups.forEach(group => {
+      const match = findMatchingPurchase(group, installmentPurchases);
+      result[group.key] = installmentChoices[group.key] ?? {
+        target: match ? `purchase:${match.id}` : 'create',
+        totalAmount: (group.installmentAmount * group.total).toFixed(2)
+      };
+    });
+    return result;
+  }, [installmentGroups, installmentPurchases, installmentChoices]);
+
+  const handleInstallmentChoiceChange = (key: string, choice: InstallmentChoice) => {
+    setInstallmentChoices(prev => ({ ...prev, [key]: choice }));
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -631,21 +1036,59 @@ Verifique o formato do arquivo.`);
       <Header />
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-4xl mx-auto">
-          <h1 className="text-3xl font-bold mb-6">Importar Extrato</h1>
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-3xl font-bold">Importar Extrato</h1>
+            <Link to="/importacoes">
+              <Button variant="outline">
+                <History className="h-4 w-4 mr-2" />
+                Histórico de Importações
+              </Button>
+            </Link>
+          </div>
           
           {/* Instructions */}
            <Alert className="mb-6">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
               <strong>Instruções para o arquivo CSV:</strong>
-              <br />• <strong>3 colunas obrigatórias:</strong> Data, Descrição, Valor
+              <br />• <strong>Colunas:</strong> após o envio você escolhe quais colunas contêm a data, a descrição e o valor (ou débito e crédito)
+              <br />• <strong>Modelos:</strong> Nubank, Inter, Itaú e C6 já vêm configurados; mapeamentos salvos são reaplicados automaticamente na conta
               <br />• <strong>Separadores aceitos:</strong> vírgula (,), ponto e vírgula (;) ou tab
-              <br />• <strong>Data:</strong> formato DD/MM/YYYY (ex: 15/03/2024)
-              <br />• <strong>Valor:</strong> formato brasileiro com vírgula decimal (ex: 1.234,56 ou -50,25)
-              <br />• <strong>Exemplo de linha:</strong> 15/03/2024,Compra supermercado,125,50
+              <br />• <strong>Exemplo de linha:</strong> 15/03/2024;Compra supermercado;-125,50
+              <br />
+              <strong>Planilhas (.xlsx ou .ods):</strong> escolha a aba com o extrato e mapeie as colunas como no CSV;
+              datas e valores são lidos diretamente das células, sem conversão manual.
+              <br />
+              <strong>Arquivos OFX:</strong> exportados diretamente pelo banco (.ofx). Transações já importadas
+              anteriormente para a mesma conta são ignoradas automaticamente.
+              <br />
+              <strong>Arquivos grandes:</strong> extratos de vários anos são lidos por completo em segundo plano,
+              com o progresso exibido abaixo, sem travar a página.
             </AlertDescription>
           </Alert>
 
+          {processing && (
+            <Card className="mb-6">
+              <CardContent className="pt-6 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>
+                    {parseProgress?.stage === 'reading'
+                      ? 'Lendo arquivo...'
+                      : parseProgress?.stage === 'parsing'
+                        ? `Interpretando linhas... ${parseProgress.processed.toLocaleString('pt-BR')} de ${parseProgress.total.toLocaleString('pt-BR')}`
+                        : 'Verificando duplicatas e sugerindo categorias...'}
+                  </span>
+                  {parseProgress && parseProgress.total > 0 && (
+                    <span className="text-muted-foreground">
+                      {Math.round((parseProgress.processed / parseProgress.total) * 100)}%
+                    </span>
+                  )}
+                </div>
+                <Progress value={parseProgress && parseProgress.total > 0 ? (parseProgress.processed / parseProgress.total) * 100 : 100} className="h-2" />
+              </CardContent>
+            </Card>
+          )}
+
           {step === 'upload' && (
             <Card>
               <CardHeader>
@@ -654,12 +1097,12 @@ Verifique o formato do arquivo.`);
               <CardContent className="space-y-4">
                 {/* File Upload */}
                 <div>
-                  <Label htmlFor="csv-file">Arquivo CSV *</Label>
+                  <Label htmlFor="csv-file">Arquivo CSV, OFX ou planilha (XLSX/ODS) *</Label>
                   <div className="mt-2">
                     <Input
                       id="csv-file"
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.ofx,.qfx,.xlsx,.ods"
                       onChange={handleFileChange}
                       className="cursor-pointer"
                     />
@@ -677,7 +1120,7 @@ Verifique o formato do arquivo.`);
                   <Label htmlFor="account_id">Para qual conta você deseja importar estas transações? *</Label>
                   <Select 
                     value={formData.account_id} 
-                    onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+                    onValueChange={handleAccountChange}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Selecione a conta de destino" />
@@ -694,11 +1137,75 @@ Verifique o formato do arquivo.`);
 
                 {/* Reference Month */}
                 <div>
-                  <Label htmlFor="reference_month">Mês de Referência *</Label>
-                  <MonthYearPicker
-                    value={formData.reference_month}
-                    onValueChange={(value) => setFormData({ ...formData, reference_month: value })}
-                    placeholder="Selecione o mês de referência"
+                  <Label htmlFor="reference_month_mode">Como definir o mês de referência? *</Label>
+                  <Select
+                    value={formData.reference_month_mode}
+                    onValueChange={(value: 'single' | 'by_date') => setFormData({ ...formData, reference_month_mode: value })}
+                  >
+                    <SelectTrigger id="reference_month_mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background">
+                      <SelectItem value="single">Um único mês para todo o arquivo</SelectItem>
+                      <SelectItem value="by_date">Pela data de cada transação</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.reference_month_mode === 'single' ? (
+                  <div>
+                    <Label htmlFor="reference_month">Mês de Referência *</Label>
+                    <MonthYearPicker
+                      value={formData.reference_month}
+                      onValueChange={(value) => setFormData({ ...formData, reference_month: value })}
+                      placeholder="Selecione o mês de referência"
+                    />
+                  </div>
+                ) : selectedAccountType === 'Credit Card' ? (
+                  <div>
+                    <Label htmlFor="closing_day">Dia de fechamento da fatura</Label>
+                    <Input
+                      id="closing_day"
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={formData.closing_day}
+                      onChange={(e) => setFormData({ ...formData, closing_day: e.target.value })}
+                      className="w-32"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Compras feitas depois do fechamento entram no mês seguinte. Sem dia de fechamento, vale o mês da compra.
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="month_start_day">Dia de início do mês</Label>
+                    <Input
+                      id="month_start_day"
+                      type="number"
+                      min={1}
+                      max={28}
+                      value={formData.month_start_day}
+                      onChange={(e) => setFormData({ ...formData, month_start_day: e.target.value })}
+                      className="w-32"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Use 1 para o mês civil. Com início no dia 25, transações a partir do dia 25 contam para o mês seguinte.
+                    </p>
+                  </div>
+                )}
+
+                {/* Duplicate detection tolerance */}
+                <div>
+                  <Label htmlFor="duplicate_tolerance">Tolerância de datas para detectar duplicatas (dias)</Label>
+                  <Input
+                    id="duplicate_tolerance"
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={duplicateToleranceDays}
+                    onChange={(e) => setDuplicateToleranceDays(Math.min(30, Math.max(0, parseInt(e.target.value) || 0)))}
+                    className="w-32"
                   />
                 </div>
 
@@ -706,7 +1213,7 @@ Verifique o formato do arquivo.`);
                 <div className="pt-4">
                   <Button 
                     onClick={handleProcessFile}
-                    disabled={!selectedFile || !formData.account_id}
+                    disabled={!selectedFile || !formData.account_id || processing}
                     className="w-full"
                     size="lg"
                   >
@@ -718,25 +1225,107 @@ Verifique o formato do arquivo.`);
             </Card>
           )}
 
+          {step === 'mapping' && (
+            <ImportColumnMapping
+              rows={csvRows}
+              sheetNames={fileFormat === 'spreadsheet' ? spreadsheetSheets.map(sheet => sheet.name) : undefined}
+              selectedSheet={selectedSheet}
+              onSheetChange={handleSheetChange}
+              mapping={csvMapping}
+              onMappingChange={handleMappingChange}
+              presets={importPresets}
+              selectedPresetKey={selectedPresetKey}
+              onPresetSelect={handlePresetSelect}
+              onSavePreset={handleSavePreset}
+              onDeletePreset={handleDeletePreset}
+              onBack={() => setStep('upload')}
+              onContinue={handleMappingContinue}
+              processing={processing}
+            />
+          )}
+
           {step === 'categorize' && (
             <div className="space-y-6">
+              <ImportInstallmentGroups
+                groups={installmentGroups}
+                purchases={installmentPurchases}
+                choices={effectiveInstallmentChoices}
+                onChoiceChange={handleInstallmentChoiceChange}
+              />
+
               <Card>
                 <CardHeader>
-                  <CardTitle>Passo 2: Categorizar Transações Individualmente</CardTitle>
+                  <CardTitle>Passo {fileFormat !== 'ofx' ? 3 : 2}: Categorizar Transações Individualmente</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <p className="text-sm text-muted-foreground mb-4">
                     Encontramos {parsedTransactions.length} transações no seu arquivo. 
                     Configure a categoria para cada uma individualmente:
                   </p>
+
+                  {formData.reference_month_mode === 'by_date' && rowReferenceMonths.length > 0 && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Meses de referência calculados pela data:{' '}
+                      {Object.entries(
+                        rowReferenceMonths.reduce<Record<string, number>>((acc, month) => ({ ...acc, [month]: (acc[month] || 0) + 1 }), {})
+                      )
+                        .sort(([a], [b]) => a.localeCompare(b))
+                        .map(([month, count]) => `${formatReferenceMonth(month)} (${count})`)
+                        .join(', ')}
+                    </p>
+                  )}
+
+                  {excludedCount > 0 && (
+                    <Alert className="mb-4">
+                      <Copy className="h-4 w-4" />
+                      <AlertDescription>
+                        {parsedTransactions.length - excludedCount} transações serão importadas.{' '}
+                        {excludedCount} ficarão de fora (possíveis duplicatas desmarcadas). Marque "Importar mesmo assim"
+                        nas linhas que não forem duplicadas.
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   
-                   <div className="space-y-4">
-                     {parsedTransactions.map((transaction, index) => {
+                   <VirtualList
+                     rowCount={parsedTransactions.length}
+                     estimatedRowHeight={ESTIMATED_ROW_HEIGHT}
+                     maxHeight={Math.round(window.innerHeight * 0.75)}
+                     renderRow={(index) => {
+                       const transaction = parsedTransactions[index];
                        const categoryType = getCategoryType(transactionCategories[index]?.category_id || '');
                        const availableSubcategories = getSubcategoriesForCategory(transactionCategories[index]?.category_id || '');
                        
                        return (
-                         <div key={index} className="border rounded-md p-4 space-y-4">
+                         <div className={`border rounded-md p-4 mb-4 space-y-4 ${transaction.excluded ? 'opacity-60 bg-muted/40' : ''} ${rowErrors[index] ? 'border-red-300' : ''}`}>
+                           {rowErrors[index] && (
+                             <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">
+                               <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                               <span>{rowErrors[index]}</span>
+                             </div>
+                           )}
+                           {transaction.duplicateOf && (
+                             <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                               <div className="flex items-center gap-2">
+                                 <Copy className="h-4 w-4 flex-shrink-0" />
+                                 <span>
+                                   Possível duplicata de "{transaction.duplicateOf.description}" em{' '}
+                                   {new Date(transaction.duplicateOf.date + 'T12:00:00').toLocaleDateString('pt-BR')}{' '}
+                                   (R$ {transaction.duplicateOf.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })},{' '}
+                                   {Math.round(transaction.duplicateOf.similarity * 100)}% similar)
+                                 </span>
+                               </div>
+                               <div className="flex items-center gap-2">
+                                 <Checkbox
+                                   id={`include-${index}`}
+                                   checked={!transaction.excluded}
+                                   onCheckedChange={(checked) => handleToggleExcluded(index, checked !== true)}
+                                 />
+                                 <Label htmlFor={`include-${index}`} className="text-sm font-medium cursor-pointer">
+                                   Importar mesmo assim
+                                 </Label>
+                               </div>
+                             </div>
+                           )}
                            {/* Seção 1: Detalhes da Transação */}
                            <div className="flex flex-col md:flex-row gap-4 items-start md:items-end">
                              <div className="flex-shrink-0">
@@ -753,9 +1342,16 @@ Verifique o formato do arquivo.`);
                              </div>
                              
                              <div className="flex-grow min-w-0">
-                               <Label htmlFor={`description-${index}`} className="text-sm font-medium">
-                                 Descrição
-                               </Label>
+                               <div className="flex items-center gap-2">
+                                 <Label htmlFor={`description-${index}`} className="text-sm font-medium">
+                                   Descrição
+                                 </Label>
+                                 {transaction.installment && (
+                                   <Badge variant="outline" className="text-xs font-normal">
+                                     Parcela {transaction.installment.current}/{transaction.installment.total}
+                                   </Badge>
+                                 )}
+                               </div>
                                <Input
                                  id={`description-${index}`}
                                  value={transaction.description}
@@ -796,11 +1392,50 @@ Verifique o formato do arquivo.`);
                                </Select>
                              </div>
                              
+                             <div className="flex-shrink-0">
+                               <div className="flex items-center gap-1">
+                                 <Label className="text-sm font-medium">
+                                   Mês de Referência
+                                 </Label>
+                                 {transactionCategories[index]?.reference_month && (
+                                   <button
+                                     type="button"
+                                     onClick={() => handleReferenceMonthChange(index, undefined)}
+                                     className="text-muted-foreground hover:text-foreground"
+                                     title={formData.reference_month_mode === 'by_date' ? 'Voltar ao mês calculado pela data' : 'Voltar ao mês do arquivo'}
+                                   >
+                                     <RotateCcw className="h-3 w-3" />
+                                   </button>
+                                 )}
+                               </div>
+                               <MonthYearPicker
+                                 value={rowReferenceMonths[index]}
+                                 onValueChange={(value) => handleReferenceMonthChange(index, value)}
+                                 className={`md:w-48 ${transactionCategories[index]?.reference_month ? 'border-primary' : ''}`}
+                               />
+                             </div>
+
                              <div className="flex-shrink-0">
                                <Label className="text-sm font-medium">
                                  Ações
                                </Label>
-                               <div>
+                               <div className="flex gap-2">
+                                 <Button
+                                   variant="outline"
+                                   size="sm"
+                                   onClick={() => handleCreateRule(index)}
+                                   title="Criar regra a partir desta transação"
+                                 >
+                                   <Wand2 className="h-4 w-4" />
+                                 </Button>
+                                 <Button
+                                   variant={transactionCategories[index]?.splits ? 'secondary' : 'outline'}
+                                   size="sm"
+                                   onClick={() => handleToggleSplit(index)}
+                                   title={transactionCategories[index]?.splits ? 'Desfazer divisão' : 'Dividir entre categorias'}
+                                 >
+                                   <Split className="h-4 w-4" />
+                                 </Button>
                                  <Button
                                    variant="outline"
                                    size="sm"
@@ -814,106 +1449,166 @@ Verifique o formato do arquivo.`);
                            </div>
                            
                            {/* Seção 2: Campos de Categorização */}
-                           <div className="flex flex-wrap gap-4">
-                             <div className="flex-1 min-w-[200px]">
-                               <Label htmlFor={`category-${index}`} className="text-sm font-medium">
-                                 Categoria
-                               </Label>
-                               <Select
-                                 value={transactionCategories[index]?.category_id || ''}
-                                 onValueChange={(value) => handleCategoryChange(index, value)}
-                               >
-                                 <SelectTrigger>
-                                   <SelectValue placeholder="Categoria" />
-                                 </SelectTrigger>
-                                 <SelectContent className="bg-background">
-                                   {categories.map((category) => (
-                                     <SelectItem key={category.id} value={category.id.toString()}>
-                                       {category.name}
-                                     </SelectItem>
-                                   ))}
-                                 </SelectContent>
-                               </Select>
+                           {transactionCategories[index]?.splits ? (
+                             <div>
+                               <Label className="text-sm font-medium">Divisão entre categorias</Label>
+                               <TransactionSplitEditor
+                                 total={transaction.amount || 0}
+                                 lines={transactionCategories[index].splits!}
+                                 onChange={(lines) => handleSplitLinesChange(index, lines)}
+                                 categories={categories}
+                                 subcategories={subcategories}
+                                 onCategorySelected={(categoryId) => loadSubcategoriesFor([categoryId])}
+                               />
                              </div>
-                             
-                             {availableSubcategories.length > 0 && (
+                           ) : (
+                             <div className="flex flex-wrap gap-4">
                                <div className="flex-1 min-w-[200px]">
-                                 <Label htmlFor={`subcategory-${index}`} className="text-sm font-medium">
-                                   Subcategoria
-                                 </Label>
+                                 <div className="flex items-center gap-2">
+                                   <Label htmlFor={`category-${index}`} className="text-sm font-medium">
+                                     Categoria
+                                   </Label>
+                                   {transactionCategories[index]?.rule_id && (
+                                     <Badge variant="secondary" className="text-xs font-normal">
+                                       Regra: {categorizationRules.find(r => r.id === transactionCategories[index].rule_id)?.name}
+                                     </Badge>
+                                   )}
+                                   {transactionCategories[index]?.suggestion_confidence !== undefined && (
+                                     <>
+                                       <Badge
+                                         variant="outline"
+                                         className="text-xs font-normal border-sky-300 bg-sky-50 text-sky-800"
+                                         title={`Baseado em ${transactionCategories[index].suggestion_samples} transações anteriores com descrição semelhante`}
+                                       >
+                                         <Sparkles className="h-3 w-3 mr-1" />
+                                         Sugestão {Math.round(transactionCategories[index].suggestion_confidence! * 100)}%
+                                       </Badge>
+                                       <Button
+                                         type="button"
+                                         variant="ghost"
+                                         size="sm"
+                                         className="h-5 px-1 text-sky-800"
+                                         onClick={() => handleAcceptSuggestion(index)}
+                                         title="Confirmar sugestão"
+                                       >
+                                         <Check className="h-3 w-3" />
+                                       </Button>
+                                     </>
+                                   )}
+                                 </div>
                                  <Select
-                                   value={transactionCategories[index]?.subcategory_id || ''}
-                                   onValueChange={(value) => handleSubcategoryChange(index, value)}
+                                   value={transactionCategories[index]?.category_id || ''}
+                                   onValueChange={(value) => handleCategoryChange(index, value)}
                                  >
-                                   <SelectTrigger>
-                                     <SelectValue placeholder="Subcategoria" />
+                                   <SelectTrigger
+                                     className={transactionCategories[index]?.suggestion_confidence !== undefined
+                                       ? 'border-dashed border-sky-400 bg-sky-50 italic'
+                                       : ''}
+                                   >
+                                     <SelectValue placeholder="Categoria" />
                                    </SelectTrigger>
                                    <SelectContent className="bg-background">
-                                     {availableSubcategories.map((subcategory) => (
-                                       <SelectItem key={subcategory.id} value={subcategory.id.toString()}>
-                                         {subcategory.name}
+                                     {categories.map((category) => (
+                                       <SelectItem key={category.id} value={category.id.toString()}>
+                                         {category.name}
                                        </SelectItem>
                                      ))}
                                    </SelectContent>
                                  </Select>
                                </div>
-                             )}
                              
-                             {categoryType === 'Debt' && (
-                               <div className="flex-1 min-w-[200px]">
-                                 <Label htmlFor={`debt-${index}`} className="text-sm font-medium">
-                                   Vincular a Dívida
-                                 </Label>
-                                 <Select
-                                   value={transactionCategories[index]?.debt_id || ''}
-                                   onValueChange={(value) => handlePatrimonyChange(index, 'debt_id', value)}
-                                 >
-                                   <SelectTrigger>
-                                     <SelectValue placeholder="Dívida" />
-                                   </SelectTrigger>
-                                   <SelectContent className="bg-background">
-                                     {debts.map((debt) => (
-                                       <SelectItem key={debt.id} value={debt.id.toString()}>
-                                         {debt.description}
-                                       </SelectItem>
-                                     ))}
-                                   </SelectContent>
-                                 </Select>
-                               </div>
-                             )}
+                               {availableSubcategories.length > 0 && (
+                                 <div className="flex-1 min-w-[200px]">
+                                   <Label htmlFor={`subcategory-${index}`} className="text-sm font-medium">
+                                     Subcategoria
+                                   </Label>
+                                   <Select
+                                     value={transactionCategories[index]?.subcategory_id || ''}
+                                     onValueChange={(value) => handleSubcategoryChange(index, value)}
+                                   >
+                                     <SelectTrigger>
+                                       <SelectValue placeholder="Subcategoria" />
+                                     </SelectTrigger>
+                                     <SelectContent className="bg-background">
+                                       {availableSubcategories.map((subcategory) => (
+                                         <SelectItem key={subcategory.id} value={subcategory.id.toString()}>
+                                           {subcategory.name}
+                                         </SelectItem>
+                                       ))}
+                                     </SelectContent>
+                                   </Select>
+                                 </div>
+                               )}
                              
-                             {categoryType === 'Investment' && (
-                               <div className="flex-1 min-w-[200px]">
-                                 <Label htmlFor={`investment-${index}`} className="text-sm font-medium">
-                                   Vincular a Investimento
-                                 </Label>
-                                 <Select
-                                   value={transactionCategories[index]?.investment_id || ''}
-                                   onValueChange={(value) => handlePatrimonyChange(index, 'investment_id', value)}
-                                 >
-                                   <SelectTrigger>
-                                     <SelectValue placeholder="Investimento" />
-                                   </SelectTrigger>
-                                   <SelectContent className="bg-background">
-                                     {investments.map((investment) => (
-                                       <SelectItem key={investment.id} value={investment.id.toString()}>
-                                         {investment.name}
-                                       </SelectItem>
-                                     ))}
-                                   </SelectContent>
-                                 </Select>
-                               </div>
-                             )}
+                               {categoryType === 'Debt' && (
+                                 <div className="flex-1 min-w-[200px]">
+                                   <Label htmlFor={`debt-${index}`} className="text-sm font-medium">
+                                     Vincular a Dívida
+                                   </Label>
+                                   <Select
+                                     value={transactionCategories[index]?.debt_id || ''}
+                                     onValueChange={(value) => handlePatrimonyChange(index, 'debt_id', value)}
+                                   >
+                                     <SelectTrigger>
+                                       <SelectValue placeholder="Dívida" />
+                                     </SelectTrigger>
+                                     <SelectContent className="bg-background">
+                                       {debts.map((debt) => (
+                                         <SelectItem key={debt.id} value={debt.id.toString()}>
+                                           {debt.description}
+                                         </SelectItem>
+                                       ))}
+                                     </SelectContent>
+                                   </Select>
+                                 </div>
+                               )}
+                             
+                               {categoryType === 'Investment' && (
+                                 <div className="flex-1 min-w-[200px]">
+                                   <Label htmlFor={`investment-${index}`} className="text-sm font-medium">
+                                     Vincular a Investimento
+                                   </Label>
+                                   <Select
+                                     value={transactionCategories[index]?.investment_id || ''}
+                                     onValueChange={(value) => handlePatrimonyChange(index, 'investment_id', value)}
+                                   >
+                                     <SelectTrigger>
+                                       <SelectValue placeholder="Investimento" />
+                                     </SelectTrigger>
+                                     <SelectContent className="bg-background">
+                                       {investments.map((investment) => (
+                                         <SelectItem key={investment.id} value={investment.id.toString()}>
+                                           {investment.name}
+                                         </SelectItem>
+                                       ))}
+                                     </SelectContent>
+                                   </Select>
+                                 </div>
+                               )}
+                             </div>
+                           )}
+
+                           {/* Seção 3: Tags */}
+                           <div>
+                             <Label htmlFor={`tags-${index}`} className="text-sm font-medium">
+                               Tags
+                             </Label>
+                             <TagInput
+                               id={`tags-${index}`}
+                               value={transactionCategories[index]?.tags || []}
+                               onChange={(tags) => handleTagsChange(index, tags)}
+                               suggestions={tagSuggestions}
+                             />
                            </div>
                          </div>
                        );
-                     })}
-                   </div>
+                     }}
+                   />
                 </CardContent>
               </Card>
 
               <div className="flex justify-between">
-                <Button variant="outline" onClick={() => setStep('upload')}>
+                <Button variant="outline" onClick={() => setStep(fileFormat !== 'ofx' ? 'mapping' : 'upload')}>
                   Voltar
                 </Button>
                 <Button 
@@ -937,6 +1632,13 @@ Verifique o formato do arquivo.`);
             </div>
           )}
         </div>
+
+        <CategorizationRuleModal
+          isOpen={ruleDefaults !== null}
+          onClose={() => setRuleDefaults(null)}
+          defaults={ruleDefaults ?? undefined}
+          onRuleSaved={handleRuleSaved}
+        />
       </div>
     </div>
   );
@@ -13,8 +13,11 @@ import { Upload, TrendingUp, Filter, ArrowUp, ArrowDown, Equal } from 'lucide-re
 import { Button } from '@/components/ui/button';
 import GraficoDespesasInterativo from '@/components/GraficoDespesasInterativo';
 import { InsightsCard } from '@/components/InsightsCard';
+import { RecurringOccurrencesCard } from '@/components/RecurringOccurrencesCard';
+import { PayeeSpendingCard } from '@/components/PayeeSpendingCard';
 import AccountSummaryTable from '@/components/AccountSummaryTable';
 import { getPreviousMonthBalances, getTotalPreviousBalance, PreviousBalanceByType } from '@/lib/previousMonthBalance';
+import { expandSplitLines } from '@/lib/transactionSplits';
 
 interface DashboardData {
   income: number;
@@ -83,7 +86,7 @@ const Index = () => {
 
       // Parallel queries for current month and historical data
       const [currentTransactionsResponse, historicalTransactionsResponse, investmentsResponse, debtsResponse, historicalInvestmentsResponse, historicalDebtsResponse, previousBalances] = await Promise.all([
-      // Current month transactions with detailed category/subcategory info
+      // Current month transactions with detailed category/subcategory info (transfers between accounts are neither income nor expense)
       supabase.from('transactions').select(`
             amount,
             type,
@@ -97,8 +100,22 @@ const Index = () => {
             subcategories!transactions_subcategory_id_fkey (
               id,
               name
+            ),
+            transaction_splits (
+              amount,
+              category_id,
+              subcategory_id,
+              categories (
+                id,
+                name,
+                type
+              ),
+              subcategories!transaction_splits_subcategory_id_fkey (
+                id,
+                name
+              )
             )
-          `).eq('user_id', user.id).eq('reference_month', referenceMonth),
+          `).eq('user_id', user.id).is('transfer_id', null).eq('reference_month', referenceMonth),
       // Historical transactions for averages
       supabase.from('transactions').select(`
             amount,
@@ -114,8 +131,22 @@ const Index = () => {
             subcategories!transactions_subcategory_id_fkey (
               id,
               name
+            ),
+            transaction_splits (
+              amount,
+              category_id,
+              subcategory_id,
+              categories (
+                id,
+                name,
+                type
+              ),
+              subcategories!transaction_splits_subcategory_id_fkey (
+                id,
+                name
+              )
             )
-          `).eq('user_id', user.id).in('reference_month', previousMonths),
+          `).eq('user_id', user.id).is('transfer_id', null).in('reference_month', previousMonths),
       // Investments for net worth
       supabase.from('investments').select('current_balance').eq('user_id', user.id),
       // Debts for net worth
@@ -138,8 +169,9 @@ const Index = () => {
       if (historicalTransactionsResponse.error) {
         console.error('Error fetching historical transactions:', historicalTransactionsResponse.error);
       }
-      const currentTransactions = currentTransactionsResponse.data || [];
-      const historicalTransactions = historicalTransactionsResponse.data || [];
+      // Split transactions count once per line, each under its own category
+      const currentTransactions = expandSplitLines(currentTransactionsResponse.data || []);
+      const historicalTransactions = expandSplitLines(historicalTransactionsResponse.data || []);
 
       console.log('=== CÁLCULO DE MÉDIAS ===');
       console.log('Mês de referência:', referenceMonth);
@@ -422,6 +454,9 @@ const Index = () => {
           <MonthYearPicker value={referenceMonth} onValueChange={setReferenceMonth} placeholder="Selecione o mês" className="w-full sm:w-auto" />
         </div>
 
+        {/* Recorrentes pendentes do mês */}
+        <RecurringOccurrencesCard referenceMonth={referenceMonth} hideWhenEmpty onConfirmed={loadDashboardData} />
+
         {/* Insights Card */}
         <InsightsCard refMonth={referenceMonth} />
 
@@ -540,6 +575,9 @@ const Index = () => {
           <GraficoDespesasInterativo loading={loading} expenseData={currentExpenseData} previousMonthExpenseData={previousMonthExpenseData} />
         </div>
 
+        {/* Spending by Payee Section */}
+        <PayeeSpendingCard referenceMonth={referenceMonth} />
+
         {/* Account Summary Section */}
         {user && (
           <div className="w-full">
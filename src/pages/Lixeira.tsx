@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/Header';
+import { TrashItem, TrashItemType, deleteFromTrash, fetchTrash, restoreFromTrash } from '@/lib/trash';
+
+const ITEM_TYPE_LABELS: Record<TrashItemType, string> = {
+  transaction: 'Transação',
+  account: 'Conta',
+  category: 'Categoria'
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const daysUntil = (date: string) =>
+  Math.max(0, Math.ceil((new Date(date).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+const itemKey = (item: TrashItem) => `${item.item_type}-${item.item_id}`;
+
+export default function Lixeira() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setItems(await fetchTrash());
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar a lixeira",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, fetchData]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setBusyKey(itemKey(item));
+      await restoreFromTrash(item.item_type, item.item_id);
+      setItems(prev => prev.filter(i => itemKey(i) !== itemKey(item)));
+      toast({
+        title: "Sucesso",
+        description: `${ITEM_TYPE_LABELS[item.item_type]} "${item.name}" restaurada com sucesso`
+      });
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao restaurar item",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDelete = async (item: TrashItem) => {
+    try {
+      setBusyKey(itemKey(item));
+      await deleteFromTrash(item.item_type, item.item_id);
+      // Deleting an account also deletes its transactions that were in the trash
+      await fetchData();
+      toast({
+        title: "Sucesso",
+        description: `${ITEM_TYPE_LABELS[item.item_type]} "${item.name}" excluída definitivamente`
+      });
+    } catch (error) {
+      console.error('Error deleting from trash:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao excluir item",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const describeItem = (item: TrashItem) => {
+    switch (item.item_type) {
+      case 'transaction':
+        return item.is_transfer ? `Transferência de ${item.detail}` : item.detail;
+      case 'account':
+        return item.related_count > 0 ? `${item.related_count} transações excluídas junto` : 'Sem transações';
+      case 'category':
+        return item.related_count > 0 ? `Usada em ${item.related_count} transações` : 'Sem transações';
+    }
+  };
+
+  const deleteWarning = (item: TrashItem) => {
+    switch (item.item_type) {
+      case 'transaction':
+        return item.is_transfer
+          ? 'As transações das duas contas e os seus anexos serão excluídos.'
+          : 'A transação e os seus anexos serão excluídos.';
+      case 'account':
+        return 'A conta, as suas transações e as transferências que a envolvem serão excluídas, inclusive as que estão na lixeira.';
+      case 'category':
+        return 'As subcategorias serão excluídas e as transações associadas ficarão sem categoria.';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">Carregando...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Lixeira</h1>
+          <p className="text-muted-foreground">
+            Transações, contas e categorias excluídas ficam aqui por 30 dias e podem ser restauradas nesse período.
+            Restaurar devolve também os saldos de dívidas e investimentos. Depois de 30 dias, são excluídas definitivamente.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Itens Excluídos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {items.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                A lixeira está vazia.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Detalhes</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Excluído em</TableHead>
+                    <TableHead>Exclusão definitiva</TableHead>
+                    <TableHead>Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => {
+                    const days = daysUntil(item.purge_at);
+
+                    return (
+                      <TableRow key={itemKey(item)}>
+                        <TableCell>
+                          <Badge variant="outline">{ITEM_TYPE_LABELS[item.item_type]}</Badge>
+                        </TableCell>
+                        <TableCell className="font-medium">{item.name}</TableCell>
+                        <TableCell className="text-muted-foreground">{describeItem(item)}</TableCell>
+                        <TableCell className={`text-right ${item.transaction_type === 'Income' ? 'text-green-600' : 'text-red-600'}`}>
+                          {item.amount !== null && formatCurrency(item.amount)}
+                        </TableCell>
+                        <TableCell>{new Date(item.deleted_at).toLocaleDateString('pt-BR')}</TableCell>
+                        <TableCell className={days <= 3 ? 'text-destructive' : ''}>
+                          {days === 0 ? 'Hoje' : days === 1 ? 'Em 1 dia' : `Em ${days} dias`}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRestore(item)}
+                              disabled={busyKey !== null}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restaurar
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="outline" size="sm" disabled={busyKey !== null} title="Excluir definitivamente">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Excluir Definitivamente</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Tem certeza que deseja excluir definitivamente "{item.name}"? {deleteWarning(item)}
+                                    {' '}Esta ação não pode ser desfeita.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(item)}>
+                                    Excluir
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
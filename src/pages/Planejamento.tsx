@@ -15,6 +15,8 @@ import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Plus, Trash2, Save, X, Loader2, Copy } from 'lucide-react';
 import { ImprovedAddBudgetModal } from '@/components/ImprovedAddBudgetModal';
+import { fetchUpcomingInstallments, UpcomingInstallment } from '@/lib/installments';
+import { expandSplitLines } from '@/lib/transactionSplits';
 import {
   Dialog,
   DialogContent,
@@ -76,6 +78,8 @@ const Planejamento = () => {
   const [isCopying, setIsCopying] = useState(false);
   const [modalPlanType, setModalPlanType] = useState<'RECEITA' | 'DESPESA'>('RECEITA');
   const [previousBalanceByType, setPreviousBalanceByType] = useState<PreviousBalanceByType>({});
+  const [upcomingInstallments, setUpcomingInstallments] = useState<UpcomingInstallment[]>([]);
+  const [installmentsCommitted, setInstallmentsCommitted] = useState(0);
   // Detecta se há alterações não salvas
   const hasUnsavedChanges = useMemo(() => {
     if (budgets.length !== localBudgets.length) return true;
@@ -153,15 +157,30 @@ const Planejamento = () => {
       // Load transaction summaries for the reference month
       const { data: transactionsData, error: transactionsError } = await supabase
         .from('transactions')
-        .select('category_id, subcategory_id, amount, type, categories(type)')
+        .select('category_id, subcategory_id, amount, type, installment_purchase_id, categories(type), transaction_splits(category_id, subcategory_id, amount, categories(type))')
         .eq('user_id', user.id)
-        .eq('reference_month', referenceMonth);
+        .eq('reference_month', referenceMonth)
+        .is('transfer_id', null);
 
       if (transactionsError) throw transactionsError;
 
-      // Group transactions by category and subcategory
+      // Installments of registered purchases expected this month but not imported yet
+      const upcoming = await fetchUpcomingInstallments(user.id, referenceMonth);
+
+      // Projected installments count as committed expenses of the purchase's category
+      const projectedTransactions = upcoming.map(item => ({
+        category_id: item.purchase.category_id,
+        subcategory_id: item.purchase.subcategory_id,
+        amount: item.amount,
+        type: 'Expense' as const,
+        installment_purchase_id: item.purchase.id,
+        categories: null,
+        transaction_splits: []
+      }));
+
+      // Group transactions by category and subcategory (split transactions by line)
       const summaries: TransactionSummary[] = [];
-      transactionsData?.forEach(transaction => {
+      expandSplitLines([...(transactionsData || []), ...projectedTransactions]).forEach(transaction => {
         // Exclude Transfer category transactions from planning calculations
         if ((transaction as any).categories?.type === 'Transfer') return;
 
@@ -193,6 +212,12 @@ const Planejamento = () => {
       setBudgets(mappedBudgets);
       setLocalBudgets(mappedBudgets);
       setTransactionSummaries(summaries);
+      setUpcomingInstallments(upcoming);
+      setInstallmentsCommitted(
+        [...(transactionsData || []), ...projectedTransactions]
+          .filter(t => t.installment_purchase_id !== null && t.type === 'Expense')
+          .reduce((sum, t) => sum + Number(t.amount), 0)
+      );
 
       // Load previous month balances
       const prevBalances = await getPreviousMonthBalances(user.id, referenceMonth);
@@ -621,6 +646,12 @@ const Planejamento = () => {
                   <span className="text-sm text-muted-foreground">Gasto:</span>
                   <span className="font-medium">{formatCurrency(despesasRealizadas)}</span>
                 </div>
+                {installmentsCommitted > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Comprometido em parcelas:</span>
+                    <span className="text-sm">{formatCurrency(installmentsCommitted)}</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -741,6 +772,43 @@ const Planejamento = () => {
               </CardContent>
             </Card>
           </div>
+
+          {/* Parcelas futuras */}
+          {upcomingInstallments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Parcelas Futuras</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Compra</TableHead>
+                        <TableHead>Parcela</TableHead>
+                        <TableHead className="text-right">Valor</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {upcomingInstallments.map(item => (
+                        <TableRow key={item.purchase.id}>
+                          <TableCell className="font-medium">{item.purchase.description}</TableCell>
+                          <TableCell>{item.installmentNumber}/{item.purchase.total_installments}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(item.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-muted/30">
+                        <TableCell className="font-medium" colSpan={2}>Total</TableCell>
+                        <TableCell className="text-right font-medium text-red-600">
+                          {formatCurrency(upcomingInstallments.reduce((sum, item) => sum + item.amount, 0))}
+                        </TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReferenceMonth } from '@/contexts/ReferenceMonthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Edit, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/Header';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { RecurringTemplateModal } from '@/components/RecurringTemplateModal';
+import { RecurringOccurrencesCard } from '@/components/RecurringOccurrencesCard';
+import {
+  RecurringTemplate,
+  deleteRecurringTemplate,
+  describeSchedule,
+  fetchRecurringTemplates,
+  nextOccurrenceDate,
+  setRecurringTemplateActive,
+} from '@/lib/recurring';
+
+interface NamedItem {
+  id: number;
+  name: string;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+export default function Recorrentes() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { referenceMonth, setReferenceMonth } = useReferenceMonth();
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [accounts, setAccounts] = useState<NamedItem[]>([]);
+  const [categories, setCategories] = useState<NamedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTemplate | null>(null);
+  // Remounts the pending list after a template changes, so it generates again
+  const [occurrencesKey, setOccurrencesKey] = useState(0);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [templatesData, accountsRes, categoriesRes] = await Promise.all([
+        fetchRecurringTemplates(user!.id),
+        supabase.from('accounts').select('id, name').eq('user_id', user!.id),
+        supabase.from('categories').select('id, name').eq('user_id', user!.id),
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+
+      setTemplates(templatesData);
+      setAccounts(accountsRes.data || []);
+      setCategories(categoriesRes.data || []);
+    } catch (error) {
+      console.error('Error fetching recurring templates:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar lançamentos recorrentes",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, fetchData]);
+
+  const handleSaved = () => {
+    fetchData();
+    setOccurrencesKey(key => key + 1);
+  };
+
+  const handleToggleActive = async (template: RecurringTemplate, isActive: boolean) => {
+    try {
+      await setRecurringTemplateActive(template.id, isActive);
+      setTemplates(prev => prev.map(t => t.id === template.id ? { ...t, is_active: isActive } : t));
+      setOccurrencesKey(key => key + 1);
+    } catch (error) {
+      console.error('Error updating recurring template:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao atualizar lançamento recorrente",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (template: RecurringTemplate) => {
+    try {
+      await deleteRecurringTemplate(template.id);
+      toast({
+        title: "Sucesso",
+        description: "Lançamento recorrente excluído com sucesso"
+      });
+      handleSaved();
+    } catch (error) {
+      console.error('Error deleting recurring template:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir lançamento recorrente",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEdit = (template: RecurringTemplate) => {
+    setEditingTemplate(template);
+    setIsModalOpen(true);
+  };
+
+  const handleNew = () => {
+    setEditingTemplate(null);
+    setIsModalOpen(true);
+  };
+
+  const nameOf = (items: NamedItem[], id: number | null) =>
+    id !== null ? items.find(i => i.id === id)?.name : undefined;
+
+  const today = new Date().toISOString().split('T')[0];
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">Carregando...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/transacoes">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <h1 className="text-3xl font-bold">Lançamentos Recorrentes</h1>
+            </div>
+            <Button onClick={handleNew}>
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Recorrente
+            </Button>
+          </div>
+          <p className="text-muted-foreground">
+            Aluguel, salário, assinaturas e outras contas que se repetem. As ocorrências de cada mês são geradas
+            como pendentes ao abrir o mês e só viram transações quando você as confirma.
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
+          <label className="text-sm font-medium">Período de referência:</label>
+          <MonthYearPicker value={referenceMonth} onValueChange={setReferenceMonth} placeholder="Selecione o mês" className="w-full sm:w-auto" />
+        </div>
+
+        <RecurringOccurrencesCard key={occurrencesKey} referenceMonth={referenceMonth} />
+
+        {templates.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">
+              Nenhum lançamento recorrente cadastrado. Clique em "Novo Recorrente" para criar o primeiro.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {templates.map(template => {
+              const nextDate = template.is_active ? nextOccurrenceDate(template, today) : null;
+              const categoryName = nameOf(categories, template.category_id);
+              return (
+                <Card key={template.id} className={template.is_active ? '' : 'opacity-60'}>
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium truncate">{template.description}</span>
+                        {!template.is_active && <Badge variant="outline">Inativo</Badge>}
+                        {template.is_active && !nextDate && <Badge variant="outline">Encerrado</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {describeSchedule(template)}
+                        {nextDate && ` · próximo em ${formatDate(nextDate)}`}
+                      </p>
+                      <p className="text-sm mt-1">
+                        {nameOf(accounts, template.account_id)}
+                        {categoryName && ` · ${categoryName}`}
+                      </p>
+                    </div>
+
+                    <div className={`font-medium ${template.type === 'Income' ? 'text-green-600' : 'text-red-600'}`}>
+                      {template.type === 'Income' ? '+' : '-'}{formatCurrency(Number(template.amount))}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={template.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(template, checked)}
+                        title={template.is_active ? 'Desativar' : 'Ativar'}
+                      />
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(template)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Tem certeza que deseja excluir "{template.description}"?
+                              As ocorrências pendentes serão descartadas; transações já confirmadas não serão alteradas.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(template)}>
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <RecurringTemplateModal
+          isOpen={isModalOpen}
+          onClose={() => {
+            setIsModalOpen(false);
+            setEditingTemplate(null);
+          }}
+          template={editingTemplate}
+          onSaved={handleSaved}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowLeft, ArrowUp, Edit, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/Header';
+import { CategorizationRuleModal } from '@/components/CategorizationRuleModal';
+import {
+  CategorizationRule,
+  RULE_MATCH_TYPES,
+  deleteCategorizationRule,
+  fetchCategorizationRules,
+  reorderCategorizationRules,
+  setCategorizationRuleActive,
+} from '@/lib/categorizationRules';
+
+interface NamedItem {
+  id: number;
+  name: string;
+}
+
+export default function RegrasCategorizacao() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<NamedItem[]>([]);
+  const [subcategories, setSubcategories] = useState<NamedItem[]>([]);
+  const [accounts, setAccounts] = useState<NamedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const [rulesData, categoriesRes, subcategoriesRes, accountsRes] = await Promise.all([
+        fetchCategorizationRules(user!.id),
+        supabase.from('categories').select('id, name').eq('user_id', user!.id),
+        supabase.from('subcategories').select('id, name').eq('user_id', user!.id),
+        supabase.from('accounts').select('id, name').eq('user_id', user!.id),
+      ]);
+
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (subcategoriesRes.error) throw subcategoriesRes.error;
+      if (accountsRes.error) throw accountsRes.error;
+
+      setRules(rulesData);
+      setCategories(categoriesRes.data || []);
+      setSubcategories(subcategoriesRes.data || []);
+      setAccounts(accountsRes.data || []);
+    } catch (error) {
+      console.error('Error fetching categorization rules:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar regras",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const previous = rules;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRules(reordered.map((rule, i) => ({ ...rule, priority: i + 1 })));
+
+    try {
+      await reorderCategorizationRules(reordered);
+    } catch (error) {
+      console.error('Error reordering categorization rules:', error);
+      setRules(previous);
+      toast({
+        title: "Erro",
+        description: "Erro ao reordenar regras",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleToggleActive = async (rule: CategorizationRule, isActive: boolean) => {
+    try {
+      await setCategorizationRuleActive(rule.id, isActive);
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: isActive } : r));
+    } catch (error) {
+      console.error('Error updating categorization rule:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao atualizar regra",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    try {
+      await deleteCategorizationRule(rule.id);
+      toast({
+        title: "Sucesso",
+        description: "Regra excluída com sucesso"
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting categorization rule:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir regra",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setEditingRule(rule);
+    setIsModalOpen(true);
+  };
+
+  const handleNew = () => {
+    setEditingRule(null);
+    setIsModalOpen(true);
+  };
+
+  const nameOf = (items: NamedItem[], id: number | null) =>
+    id !== null ? items.find(i => i.id === id)?.name : undefined;
+
+  const describeConditions = (rule: CategorizationRule) => {
+    const matchLabel = RULE_MATCH_TYPES.find(t => t.value === rule.match_type)?.label || rule.match_type;
+    const parts = [`Descrição ${matchLabel.toLowerCase()} "${rule.pattern}"`];
+
+    if (rule.amount_min !== null && rule.amount_max !== null) {
+      parts.push(`valor entre R$ ${Number(rule.amount_min).toFixed(2)} e R$ ${Number(rule.amount_max).toFixed(2)}`);
+    } else if (rule.amount_min !== null) {
+      parts.push(`valor a partir de R$ ${Number(rule.amount_min).toFixed(2)}`);
+    } else if (rule.amount_max !== null) {
+      parts.push(`valor até R$ ${Number(rule.amount_max).toFixed(2)}`);
+    }
+
+    if (rule.transaction_type) {
+      parts.push(rule.transaction_type === 'Income' ? 'receitas' : 'despesas');
+    }
+
+    const accountName = nameOf(accounts, rule.account_id);
+    if (accountName) parts.push(`conta ${accountName}`);
+
+    return parts.join(' · ');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">Carregando...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-2">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/categorias">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold">Regras de Categorização</h1>
+          </div>
+          <Button onClick={handleNew}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Regra
+          </Button>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          As regras são avaliadas de cima para baixo: a primeira que corresponder à transação define a categoria.
+          Elas são aplicadas na importação de extratos e sugeridas ao lançar uma transação.
+        </p>
+
+        {rules.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground mb-4">
+              Nenhuma regra cadastrada. Clique em "Nova Regra" ou use "Criar regra" durante uma importação.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule, index) => {
+              const subcategoryName = nameOf(subcategories, rule.subcategory_id);
+              return (
+                <Card key={rule.id} className={rule.is_active ? '' : 'opacity-60'}>
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <div className="flex flex-col gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        title="Subir prioridade"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === rules.length - 1}
+                        title="Descer prioridade"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-sm text-muted-foreground">#{index + 1}</span>
+                        <span className="font-medium truncate">{rule.name}</span>
+                        {!rule.is_active && <Badge variant="outline">Inativa</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{describeConditions(rule)}</p>
+                      <p className="text-sm mt-1">
+                        → {nameOf(categories, rule.category_id) || 'Categoria removida'}
+                        {subcategoryName && ` / ${subcategoryName}`}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                        title={rule.is_active ? 'Desativar regra' : 'Ativar regra'}
+                      />
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(rule)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Tem certeza que deseja excluir a regra "{rule.name}"?
+                              Transações já categorizadas por ela não serão alteradas.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(rule)}>
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <CategorizationRuleModal
+          isOpen={isModalOpen}
+          onClose={() => {
+            setIsModalOpen(false);
+            setEditingRule(null);
+          }}
+          rule={editingRule}
+          onRuleSaved={() => fetchData()}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Check, Edit, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/Header';
+import { MonthYearPicker } from '@/components/ui/month-year-picker';
+import { MAX_TAG_LENGTH, TagSummary, deleteTag, fetchTagSummary, normalizeTagName, renameTag } from '@/lib/tags';
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const currentMonth = () => new Date().toISOString().slice(0, 7) + '-01';
+
+export default function Tags() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [summary, setSummary] = useState<TagSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The current year so far by default
+  const [startMonth, setStartMonth] = useState(() => currentMonth().slice(0, 4) + '-01-01');
+  const [endMonth, setEndMonth] = useState(currentMonth);
+  const [editingTagId, setEditingTagId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const fetchData = useCallback(async () => {
+    try {
+      setSummary(await fetchTagSummary(startMonth, endMonth));
+    } catch (error) {
+      console.error('Error fetching tag summary:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar tags",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [startMonth, endMonth, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, fetchData]);
+
+  const handleStartRename = (tag: TagSummary) => {
+    setEditingTagId(tag.tag_id);
+    setEditingName(tag.tag_name);
+  };
+
+  const handleRename = async (tag: TagSummary) => {
+    const name = normalizeTagName(editingName);
+    if (!name || name === tag.tag_name) {
+      setEditingTagId(null);
+      return;
+    }
+
+    if (summary.some(t => t.tag_id !== tag.tag_id && t.tag_name === name)) {
+      toast({
+        title: "Erro",
+        description: `Já existe uma tag "${name}"`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await renameTag(tag.tag_id, name);
+      setSummary(prev => prev.map(t => t.tag_id === tag.tag_id ? { ...t, tag_name: name } : t));
+      setEditingTagId(null);
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao renomear tag",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (tag: TagSummary) => {
+    try {
+      await deleteTag(tag.tag_id);
+      setSummary(prev => prev.filter(t => t.tag_id !== tag.tag_id));
+      toast({
+        title: "Sucesso",
+        description: "Tag excluída com sucesso"
+      });
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao excluir tag",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const totalExpense = summary.reduce((sum, t) => sum + Number(t.expense_total), 0);
+  const totalIncome = summary.reduce((sum, t) => sum + Number(t.income_total), 0);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">Carregando...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/transacoes">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold">Tags</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Rótulos que atravessam as categorias, como "viagem-2026" ou "reembolsável". Adicione tags ao criar ou
+            editar uma transação e ao importar extratos. Uma transação com várias tags conta inteira em cada uma.
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
+          <label className="text-sm font-medium">De:</label>
+          <MonthYearPicker value={startMonth} onValueChange={setStartMonth} placeholder="Mês inicial" className="w-full sm:w-auto" />
+          <label className="text-sm font-medium">Até:</label>
+          <MonthYearPicker value={endMonth} onValueChange={setEndMonth} placeholder="Mês final" className="w-full sm:w-auto" />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Gastos por Tag</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {summary.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Nenhuma tag cadastrada ainda.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tag</TableHead>
+                    <TableHead className="text-right">Transações</TableHead>
+                    <TableHead className="text-right">Despesas</TableHead>
+                    <TableHead className="text-right">Receitas</TableHead>
+                    <TableHead>Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.map(tag => (
+                    <TableRow key={tag.tag_id}>
+                      <TableCell className="font-medium">
+                        {editingTagId === tag.tag_id ? (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={editingName}
+                              onChange={(e) => setEditingName(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRename(tag);
+                                if (e.key === 'Escape') setEditingTagId(null);
+                              }}
+                              maxLength={MAX_TAG_LENGTH}
+                              className="h-8"
+                              autoFocus
+                            />
+                            <Button variant="ghost" size="sm" onClick={() => handleRename(tag)} title="Salvar">
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setEditingTagId(null)} title="Cancelar">
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          tag.tag_name
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{tag.transaction_count}</TableCell>
+                      <TableCell className="text-right text-red-600">{formatCurrency(Number(tag.expense_total))}</TableCell>
+                      <TableCell className="text-right text-green-600">{formatCurrency(Number(tag.income_total))}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => handleStartRename(tag)} title="Renomear">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Tem certeza que deseja excluir a tag "{tag.tag_name}"? Ela será removida de todas as
+                                  transações; as transações não serão alteradas.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(tag)}>
+                                  Excluir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/30">
+                    <TableCell className="font-medium" colSpan={2}>Total</TableCell>
+                    <TableCell className="text-right font-medium text-red-600">{formatCurrency(totalExpense)}</TableCell>
+                    <TableCell className="text-right font-medium text-green-600">{formatCurrency(totalIncome)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,41 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Edit, Trash2, Plus, Upload, ArrowUpDown, ArrowUp, ArrowDown, Search, X } from 'lucide-react';
+import { Edit, Trash2, Plus, Upload, ArrowUpDown, ArrowUp, ArrowDown, X, History, Download, ArrowLeftRight, Repeat, CreditCard, CheckCheck, Tag as TagIcon, Paperclip, Bookmark, Store } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Header } from '@/components/Header';
+import { VirtualList } from '@/components/VirtualList';
 import { TransactionModal } from '@/components/TransactionModal';
+import { TransferModal } from '@/components/TransferModal';
+import { InstallmentPurchaseModal } from '@/components/InstallmentPurchaseModal';
+import { InstallmentPayoffModal } from '@/components/InstallmentPayoffModal';
+import { AttachmentPreviewDialog } from '@/components/AttachmentPreviewDialog';
+import { BulkEditModal } from '@/components/BulkEditModal';
+import { ExportTransactionsModal } from '@/components/ExportTransactionsModal';
+import { TransactionHistoryDrawer } from '@/components/TransactionHistoryDrawer';
+import { trashTransactions } from '@/lib/trash';
+import { BulkAction } from '@/lib/bulkTransactions';
+import { EXPORT_SELECT, ExportPeriod, ExportTransaction } from '@/lib/transactionExport';
+import { SavedViewsMenu } from '@/components/SavedViewsMenu';
+import { SearchQueryInput } from '@/components/SearchQueryInput';
+import { parseSearchQuery, toIncludeNullFilter } from '@/lib/searchQuery';
+import {
+  DEFAULT_TRANSACTION_FILTERS,
+  SavedView,
+  TransactionFilters,
+  hasActiveTransactionFilters,
+  parseTransactionFilters,
+  serializeTransactionFilters
+} from '@/lib/transactionFilters';
 import { MonthYearPicker } from '@/components/ui/month-year-picker';
-import { Database } from '@/integrations/supabase/types';
-import { Link } from 'react-router-dom';
+import { Database, Json } from '@/integrations/supabase/types';
+import { Link, useSearchParams } from 'react-router-dom';
 
 interface Transaction {
   id: number;
@@ -27,12 +49,20 @@ interface Transaction {
   subcategory_id: number | null;
   investment_id: number | null;
   debt_id: number | null;
+  transfer_id: number | null;
+  installment_purchase_id: number | null;
+  installment_number: number | null;
+  payee_id: number | null;
   created_at: string;
-  accounts?: { name: string };
-  categories?: { name: string; type: Database['public']['Enums']['category_type'] };
-  subcategories?: { name: string };
-  investments?: { name: string };
-  debts?: { description: string };
+  account_name: string | null;
+  category_name: string | null;
+  subcategory_name: string | null;
+  payee_name: string | null;
+  transaction_splits?: { amount: number; categories: { name: string } | null }[];
+  transfers?: { from_account: { name: string } | null; to_account: { name: string } | null } | null;
+  installment_purchases?: { total_installments: number; paid_off_from: number | null } | null;
+  transaction_tags?: { tags: { id: number; name: string } | null }[];
+  transaction_attachments?: { id: number }[];
 }
 
 interface Account {
@@ -43,6 +73,12 @@ interface Account {
 interface Category {
   id: number;
   name: string;
+  type: Database['public']['Enums']['category_type'];
+}
+
+interface Tag {
+  id: number;
+  name: string;
 }
 
 interface Subcategory {
@@ -51,28 +87,104 @@ interface Subcategory {
   category_id: number;
 }
 
+interface ListTotals {
+  income: number;
+  expense: number;
+}
+
+const PAGE_SIZE = 100;
+// Rows left below the visible range when the next page starts loading
+const LOAD_MORE_THRESHOLD = 20;
+const ESTIMATED_ROW_HEIGHT = 64;
+// PostgREST returns at most 1000 rows per request
+const FULL_SET_PAGE_SIZE = 1000;
+
+// Sorting by a category, subcategory or account sorts by its name, exposed by the transaction_list view
+const SORT_COLUMNS: Record<string, string> = {
+  category_id: 'category_name',
+  subcategory_id: 'subcategory_name',
+  account_id: 'account_name'
+};
+
+const LIST_SELECT = `
+  *,
+  transaction_splits(amount, categories(name)),
+  transfers(from_account:accounts!transfers_from_account_id_fkey(name), to_account:accounts!transfers_to_account_id_fkey(name)),
+  installment_purchases(total_installments, paid_off_from),
+  transaction_tags(tags(id, name)),
+  tag_filter:transaction_tags(tag_id),
+  transaction_attachments(id)
+`;
+
+const LIST_COLUMNS = 'grid grid-cols-[24px_150px_100px_minmax(220px,1fr)_150px_130px_170px_120px_130px_190px] gap-3 items-center px-3';
+
+const SORTABLE_HEADERS: [string, string][] = [
+  ['reference_month', 'Mês de Referência'],
+  ['transaction_date', 'Data'],
+  ['description', 'Descrição'],
+  ['category_id', 'Categoria'],
+  ['subcategory_id', 'Subcategoria'],
+  ['account_id', 'Conta'],
+  ['type', 'Tipo'],
+  ['amount', 'Valor']
+];
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
 export default function Transacoes() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [totals, setTotals] = useState<ListTotals>({ income: 0, expense: 0 });
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Responses for filters that have since changed are dropped
+  const requestIdRef = useRef(0);
+  // Set synchronously, so rows rendered again before the next render don't load the same page twice
+  const loadingMoreRef = useRef(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
-  const [sortBy, setSortBy] = useState<string>('transaction_date');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [editingTransferId, setEditingTransferId] = useState<number | null>(null);
+  const [isInstallmentModalOpen, setIsInstallmentModalOpen] = useState(false);
+  const [payoffPurchaseId, setPayoffPurchaseId] = useState<number | null>(null);
+  const [previewTransaction, setPreviewTransaction] = useState<Transaction | null>(null);
+  const [historyTransaction, setHistoryTransaction] = useState<Transaction | null>(null);
+  // Selection for bulk actions; transfers can't be selected
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [bulkAction, setBulkAction] = useState<Exclude<BulkAction, 'delete'> | null>(null);
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
-  // Filter states
-  const [filterMonth, setFilterMonth] = useState<string>('');
-  const [filterType, setFilterType] = useState<string>('all');
-  const [filterAccountId, setFilterAccountId] = useState<string>('all');
-  const [filterCategoryId, setFilterCategoryId] = useState<string>('all');
-  const [filterSubcategoryId, setFilterSubcategoryId] = useState<string>('all');
-  const [filterDescription, setFilterDescription] = useState<string>('');
+  // Filters and sort order live in the query string, so they survive a reload and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseTransactionFilters(searchParams);
+  const {
+    month: filterMonth,
+    type: filterType,
+    accountId: filterAccountId,
+    categoryId: filterCategoryId,
+    subcategoryId: filterSubcategoryId,
+    search: searchQuery,
+    tagId: filterTagId,
+    sortBy,
+    sortOrder
+  } = filters;
+  const parsedSearch = parseSearchQuery(searchQuery);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+
+  const updateFilters = (changes: Partial<TransactionFilters>) => {
+    setSearchParams(serializeTransactionFilters({ ...filters, ...changes }), { replace: true });
+  };
 
   // Lookup data
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -84,36 +196,43 @@ export default function Transacoes() {
     if (user) {
       fetchTransactions();
     }
-  }, [user, sortBy, sortOrder, filterMonth, filterType, filterAccountId, filterCategoryId, filterSubcategoryId, filterDescription]);
+  }, [user, sortBy, sortOrder, filterMonth, filterType, filterAccountId, filterCategoryId, filterSubcategoryId, searchQuery, filterTagId]);
 
   const fetchLookupData = async () => {
-    const [accountsRes, categoriesRes, subcategoriesRes] = await Promise.all([
+    const [accountsRes, categoriesRes, subcategoriesRes, tagsRes, savedViewsRes] = await Promise.all([
       supabase.from('accounts').select('id, name').eq('user_id', user!.id).order('name'),
-      supabase.from('categories').select('id, name').eq('user_id', user!.id).order('name'),
+      supabase.from('categories').select('id, name, type').eq('user_id', user!.id).order('name'),
       supabase.from('subcategories').select('id, name, category_id').eq('user_id', user!.id).order('name'),
+      supabase.from('tags').select('id, name').eq('user_id', user!.id).order('name'),
+      supabase.from('saved_views').select('*').eq('user_id', user!.id).order('name'),
     ]);
     setAccounts(accountsRes.data || []);
     setCategories(categoriesRes.data || []);
     setSubcategories(subcategoriesRes.data || []);
+    setTags(tagsRes.data || []);
+    setSavedViews(savedViewsRes.data || []);
   };
 
-  const buildQuery = () => {
+  /**
+   * The list's query. Exports pass a period, which replaces the month filter, and
+   * keep both transactions of each transfer.
+   */
+  const buildQuery = (columns: string = LIST_SELECT, period: ExportPeriod | null = null) => {
     let query = supabase
-      .from('transactions')
-      .select(`
-        *,
-        accounts(name),
-        categories(name, type),
-        subcategories(name),
-        investments(name),
-        debts(description)
-      `)
+      .from('transaction_list')
+      .select(columns, { count: 'exact' })
       .eq('user_id', user!.id);
 
-    if (filterMonth) {
+    if (period?.kind === 'dates') {
+      query = query.gte('transaction_date', period.from).lte('transaction_date', period.to);
+    } else if (period?.kind === 'months') {
+      query = query.gte('reference_month', period.from).lte('reference_month', period.to);
+    } else if (filterMonth) {
       query = query.eq('reference_month', filterMonth);
     }
-    if (filterType && filterType !== 'all') {
+    if (filterType === 'Transfer') {
+      query = query.not('transfer_id', 'is', null);
+    } else if (filterType && filterType !== 'all') {
       query = query.eq('type', filterType as Database['public']['Enums']['transaction_type']);
     }
     if (filterAccountId && filterAccountId !== 'all') {
@@ -125,46 +244,73 @@ export default function Transacoes() {
     if (filterSubcategoryId && filterSubcategoryId !== 'all') {
       query = query.eq('subcategory_id', parseInt(filterSubcategoryId));
     }
-    if (filterDescription.trim()) {
-      query = query.ilike('description', `%${filterDescription.trim()}%`);
+    parsedSearch.conditions.forEach(condition => {
+      const { column, operator, value, negated } = condition;
+      if (condition.includeNull) {
+        query = query.or(toIncludeNullFilter(condition));
+      } else {
+        query = negated ? query.not(column, operator, value) : query.filter(column, operator, value);
+      }
+    });
+    // Filtering the aliased embed and requiring it to be non-empty keeps only tagged
+    // transactions, while transaction_tags above still lists all of their tags
+    if (filterTagId && filterTagId !== 'all') {
+      query = query.eq('tag_filter.tag_id', parseInt(filterTagId)).not('tag_filter', 'is', null);
+    }
+    // Both transactions of a transfer are listed as a single row. An account or
+    // income/expense filter, or a search on them, already matches only one of them.
+    const searchesOneSide = parsedSearch.conditions.some(c => c.column === 'account_name' || c.column === 'type');
+    if (!period && filterAccountId === 'all' && (filterType === 'all' || filterType === 'Transfer') && !searchesOneSide) {
+      query = query.eq('is_transfer_in', false);
     }
 
-    return query;
+    const ascending = sortOrder === 'asc';
+    return query
+      .order(SORT_COLUMNS[sortBy] ?? sortBy, { ascending, nullsFirst: ascending })
+      .order('id', { ascending });
   };
 
-  const fetchTransactions = async () => {
+  const fetchTotals = async () => {
+    const { data, error } = await supabase.rpc('get_transaction_list_totals', {
+      reference_month_input: filterMonth || undefined,
+      type_input: filterType !== 'all' ? filterType : undefined,
+      account_id_input: filterAccountId !== 'all' ? parseInt(filterAccountId) : undefined,
+      category_id_input: filterCategoryId !== 'all' ? parseInt(filterCategoryId) : undefined,
+      subcategory_id_input: filterSubcategoryId !== 'all' ? parseInt(filterSubcategoryId) : undefined,
+      tag_id_input: filterTagId !== 'all' ? parseInt(filterTagId) : undefined,
+      conditions_input: parsedSearch.conditions as unknown as Json
+    });
+
+    if (error) throw new Error(error.message);
+    return { income: Number(data?.[0]?.income_total ?? 0), expense: Number(data?.[0]?.expense_total ?? 0) };
+  };
+
+  /**
+   * Load the first page, or after an edit or delete as many rows as were already
+   * loaded, so the list doesn't jump back to the top.
+   */
+  const fetchTransactions = async (keepLoaded = false) => {
+    const requestId = ++requestIdRef.current;
+    const rowCount = keepLoaded ? Math.max(transactions.length, PAGE_SIZE) : PAGE_SIZE;
+    if (!keepLoaded) setSelectedIds(new Set());
+    // The search box shows the error; the list stays as it was until the query is fixed
+    if (parsedSearch.error) {
+      setLoading(false);
+      return;
+    }
+
     try {
-      if (sortBy === 'category_id' || sortBy === 'subcategory_id') {
-        const { data, error } = await buildQuery();
+      const [{ data, error, count }, listTotals] = await Promise.all([
+        buildQuery().range(0, rowCount - 1),
+        fetchTotals()
+      ]);
 
-        if (error) throw error;
-        
-        const sortedData = (data || []).sort((a, b) => {
-          let aValue, bValue;
-          
-          if (sortBy === 'category_id') {
-            aValue = a.categories?.name || '';
-            bValue = b.categories?.name || '';
-          } else {
-            aValue = a.subcategories?.name || '';
-            bValue = b.subcategories?.name || '';
-          }
-          
-          if (sortOrder === 'asc') {
-            return aValue.localeCompare(bValue, 'pt-BR');
-          } else {
-            return bValue.localeCompare(aValue, 'pt-BR');
-          }
-        });
-        
-        setTransactions(sortedData);
-      } else {
-        const { data, error } = await buildQuery()
-          .order(sortBy, { ascending: sortOrder === 'asc' });
+      if (error) throw error;
+      if (requestId !== requestIdRef.current) return;
 
-        if (error) throw error;
-        setTransactions(data || []);
-      }
+      setTransactions((data || []) as unknown as Transaction[]);
+      setTotalCount(count ?? 0);
+      setTotals(listTotals);
     } catch (error) {
       console.error('Error fetching transactions:', error);
       toast({
@@ -177,114 +323,172 @@ export default function Transacoes() {
     }
   };
 
-  const handleEdit = (transaction: Transaction) => {
-    setEditingTransaction(transaction);
-    setIsModalOpen(true);
-  };
+  const loadMore = async () => {
+    if (loadingMoreRef.current || transactions.length >= totalCount) return;
+    const requestId = requestIdRef.current;
 
-  const revertTransactionImpact = async (transaction: Transaction) => {
     try {
-      if (transaction.debt_id) {
-        const { data: debtData } = await supabase
-          .from('debts')
-          .select('current_balance, remaining_installments')
-          .eq('id', transaction.debt_id)
-          .single();
-
-        if (debtData) {
-          const revertedBalance = debtData.current_balance + transaction.amount;
-          const revertedInstallments = debtData.remaining_installments !== null 
-            ? debtData.remaining_installments + 1 
-            : null;
-
-          await supabase
-            .from('debts')
-            .update({ 
-              current_balance: revertedBalance,
-              remaining_installments: revertedInstallments
-            })
-            .eq('id', transaction.debt_id);
-        }
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+      const { data, error } = await buildQuery().range(transactions.length, transactions.length + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      if (requestId !== requestIdRef.current) return;
+
+      // Rows inserted meanwhile shift the ranges; skip the ones already listed
+      const rows = (data || []) as unknown as Transaction[];
+      setTransactions(prev => {
+        const loadedIds = new Set(prev.map(t => t.id));
+        return [...prev, ...rows.filter(t => !loadedIds.has(t.id))];
+      });
+    } catch (error) {
+      console.error('Error loading more transactions:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar transações",
+        variant: "destructive"
+      });
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
       }
+      return next;
+    });
+  };
+
+  const selectableLoaded = transactions.filter(t => !t.transfer_id);
+  const allLoadedSelected = selectableLoaded.length > 0 && selectableLoaded.every(t => selectedIds.has(t.id));
+
+  const toggleAllLoaded = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(selectableLoaded.map(t => t.id)) : new Set());
+  };
+
+  // Every transaction matching the filters, including the pages not loaded yet
+  const selectAllMatching = async () => {
+    try {
+      setSelectingAll(true);
+      const ids: number[] = [];
+      for (let from = 0; ; from += FULL_SET_PAGE_SIZE) {
+        const { data, error } = await buildQuery('id, transfer_id, tag_filter:transaction_tags(tag_id)')
+          .range(from, from + FULL_SET_PAGE_SIZE - 1);
 
-      if (transaction.investment_id) {
-        const { data: investmentData } = await supabase
-          .from('investments')
-          .select('current_balance')
-          .eq('id', transaction.investment_id)
-          .single();
-
-        if (investmentData) {
-          let revertedBalance;
-          if (transaction.type === 'Expense') {
-            revertedBalance = Math.max(0, investmentData.current_balance - transaction.amount);
-          } else {
-            revertedBalance = investmentData.current_balance + transaction.amount;
-          }
-
-          await supabase
-            .from('investments')
-            .update({ current_balance: revertedBalance })
-            .eq('id', transaction.investment_id);
-        }
+        if (error) throw error;
+        const rows = (data || []) as unknown as { id: number; transfer_id: number | null }[];
+        ids.push(...rows.filter(row => row.transfer_id === null).map(row => row.id));
+        if (rows.length < FULL_SET_PAGE_SIZE) break;
       }
+      setSelectedIds(new Set(ids));
     } catch (error) {
-      console.error('Error reverting transaction impact:', error);
+      console.error('Error selecting transactions:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao selecionar transações",
+        variant: "destructive"
+      });
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  const fetchExportTransactions = async (period: ExportPeriod) => {
+    const rows: ExportTransaction[] = [];
+    for (let from = 0; ; from += FULL_SET_PAGE_SIZE) {
+      const { data, error } = await buildQuery(EXPORT_SELECT, period).range(from, from + FULL_SET_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      const page = (data || []) as unknown as ExportTransaction[];
+      rows.push(...page);
+      if (page.length < FULL_SET_PAGE_SIZE) break;
     }
+    return rows;
   };
 
-  const handleDelete = async (id: number) => {
+  const handleBulkDone = () => {
+    setSelectedIds(new Set());
+    fetchTransactions(true);
+  };
+
+  const handleBulkDelete = async () => {
     try {
-      const { data: transactionToDelete, error: fetchError } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('id', id)
-        .single();
+      await trashTransactions([...selectedIds]);
 
-      if (fetchError) throw fetchError;
+      toast({
+        title: "Sucesso",
+        description: `${selectedIds.size} transações movidas para a lixeira`
+      });
 
-      if (transactionToDelete) {
-        await revertTransactionImpact(transactionToDelete);
-      }
+      handleBulkDone();
+    } catch (error) {
+      console.error('Error deleting transactions:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao excluir transações",
+        variant: "destructive"
+      });
+    }
+  };
 
-      const { error } = await supabase
-        .from('transactions')
-        .delete()
-        .eq('id', id);
+  const handleEdit = (transaction: Transaction) => {
+    if (transaction.transfer_id) {
+      setEditingTransferId(transaction.transfer_id);
+      setIsTransferModalOpen(true);
+      return;
+    }
+    setEditingTransaction(transaction);
+    setIsModalOpen(true);
+  };
 
-      if (error) throw error;
+  const handleDelete = async (transaction: Transaction) => {
+    try {
+      await trashTransactions([transaction.id]);
 
       toast({
         title: "Sucesso",
-        description: "Transação excluída com sucesso"
+        description: transaction.transfer_id
+          ? "Transferência movida para a lixeira"
+          : "Transação movida para a lixeira"
       });
-      
-      fetchTransactions();
+
+      fetchTransactions(true);
     } catch (error) {
       console.error('Error deleting transaction:', error);
       toast({
-        title: "Erro", 
-        description: "Erro ao excluir transação",
+        title: "Erro",
+        description: error instanceof Error && error.message ? error.message : "Erro ao excluir transação",
         variant: "destructive"
       });
     }
   };
 
+  const handleTransferModalClose = () => {
+    setIsTransferModalOpen(false);
+    setEditingTransferId(null);
+  };
+
   const handleModalClose = () => {
     setIsModalOpen(false);
     setEditingTransaction(null);
   };
 
   const handleTransactionSaved = () => {
-    fetchTransactions();
+    fetchTransactions(true);
   };
 
   const handleSort = (column: string) => {
     if (sortBy === column) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+      updateFilters({ sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortBy(column);
-      setSortOrder('asc');
+      updateFilters({ sortBy: column, sortOrder: 'asc' });
     }
   };
 
@@ -298,21 +502,190 @@ export default function Transacoes() {
   };
 
   const clearFilters = () => {
-    setFilterMonth('');
-    setFilterType('all');
-    setFilterAccountId('all');
-    setFilterCategoryId('all');
-    setFilterSubcategoryId('all');
-    setFilterDescription('');
+    updateFilters({ ...DEFAULT_TRANSACTION_FILTERS, sortBy, sortOrder });
+  };
+
+  const hasActiveFilters = hasActiveTransactionFilters(filters);
+
+  const applySavedView = (view: SavedView) => {
+    setSearchParams(new URLSearchParams(view.query));
   };
 
-  const hasActiveFilters = filterMonth || filterType !== 'all' || filterAccountId !== 'all' || filterCategoryId !== 'all' || filterSubcategoryId !== 'all' || filterDescription.trim();
+  const currentQuery = serializeTransactionFilters(filters).toString();
+  const pinnedViews = savedViews.filter(v => v.is_pinned);
 
   // Filter subcategories based on selected category
   const filteredSubcategories = filterCategoryId !== 'all'
     ? subcategories.filter(s => s.category_id === parseInt(filterCategoryId))
     : subcategories;
 
+  const renderRow = (index: number) => {
+    const transaction = transactions[index];
+    return (
+      <div className={`${LIST_COLUMNS} border-b py-3 text-sm hover:bg-muted/50 ${selectedIds.has(transaction.id) ? 'bg-muted/30' : ''}`}>
+        {transaction.transfer_id ? (
+          <div />
+        ) : (
+          <Checkbox
+            checked={selectedIds.has(transaction.id)}
+            onCheckedChange={() => toggleSelected(transaction.id)}
+            aria-label="Selecionar transação"
+          />
+        )}
+        <div>
+          {new Date(transaction.reference_month + 'T12:00:00').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}
+        </div>
+        <div>
+          {new Date(transaction.transaction_date + 'T12:00:00').toLocaleDateString('pt-BR')}
+        </div>
+        <div className="font-medium min-w-0">
+          <div className="flex items-center gap-2">
+            {transaction.payee_name || transaction.description}
+            {transaction.installment_number !== null && transaction.installment_purchases && (
+              <Badge variant="secondary" title="Parcela da compra parcelada">
+                {transaction.installment_number}/{transaction.installment_purchases.total_installments}
+              </Badge>
+            )}
+            {transaction.installment_purchase_id !== null && transaction.installment_number === null && (
+              <Badge variant="secondary">Quitação</Badge>
+            )}
+            {transaction.transaction_attachments && transaction.transaction_attachments.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setPreviewTransaction(transaction)}
+                className="inline-flex items-center gap-0.5 text-xs text-muted-foreground hover:text-foreground"
+                title="Ver anexos"
+              >
+                <Paperclip className="h-4 w-4" />
+                {transaction.transaction_attachments.length > 1 && transaction.transaction_attachments.length}
+              </button>
+            )}
+          </div>
+          {transaction.payee_name && (
+            <div className="text-xs text-muted-foreground font-normal truncate" title={transaction.description}>
+              {transaction.description}
+            </div>
+          )}
+          {transaction.transaction_tags && transaction.transaction_tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {transaction.transaction_tags.map(({ tags: tag }) => tag && (
+                <Badge
+                  key={tag.id}
+                  variant="outline"
+                  className="text-xs font-normal cursor-pointer"
+                  onClick={() => updateFilters({ tagId: tag.id.toString() })}
+                  title="Filtrar por esta tag"
+                >
+                  {tag.name}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        <div>
+          {transaction.transfer_id ? (
+            'Transferência'
+          ) : transaction.transaction_splits?.length ? (
+            <span
+              title={transaction.transaction_splits
+                .map(line => `${line.categories?.name || 'Sem categoria'}: R$ ${Number(line.amount).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`)
+                .join('\n')}
+            >
+              Dividida ({transaction.transaction_splits.length})
+            </span>
+          ) : (
+            transaction.category_name || 'Sem categoria'
+          )}
+        </div>
+        <div>{transaction.subcategory_name || '-'}</div>
+        <div>
+          {transaction.transfer_id
+            ? `${transaction.transfers?.from_account?.name} → ${transaction.transfers?.to_account?.name}`
+            : transaction.account_name}
+        </div>
+        <div>
+          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+            transaction.transfer_id
+              ? 'bg-blue-100 text-blue-800'
+              : transaction.type === 'Income' 
+                ? 'bg-green-100 text-green-800' 
+                : 'bg-red-100 text-red-800'
+          }`}>
+            {transaction.transfer_id ? 'Transferência' : transaction.type === 'Income' ? 'Receita' : 'Despesa'}
+          </span>
+        </div>
+        <div>
+          <span className={`font-medium ${
+            transaction.transfer_id
+              ? 'text-blue-600'
+              : transaction.type === 'Income' ? 'text-green-600' : 'text-red-600'
+          }`}>
+            R$ {transaction.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+          </span>
+        </div>
+        <div>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleEdit(transaction)}
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setHistoryTransaction(transaction)}
+              title="Histórico"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+            {transaction.installment_number !== null && transaction.installment_purchases?.paid_off_from === null && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPayoffPurchaseId(transaction.installment_purchase_id)}
+                title="Quitar parcelas restantes"
+              >
+                <CheckCheck className="h-4 w-4" />
+              </Button>
+            )}
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {transaction.transfer_id
+                      ? `Tem certeza que deseja excluir a transferência "${transaction.description}"? As transações das duas contas serão excluídas.`
+                      : `Tem certeza que deseja excluir a transação "${transaction.description}"?`}
+                    {' '}Ela ficará na lixeira por 30 dias, onde pode ser restaurada.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => handleDelete(transaction)}
+                  >
+                    Excluir
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const handleRowsRendered = (_startIndex: number, stopIndex: number) => {
+    if (stopIndex >= transactions.length - LOAD_MORE_THRESHOLD) loadMore();
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -334,9 +707,51 @@ export default function Transacoes() {
             <Link to="/importar">
               <Button variant="outline">
                 <Upload className="h-4 w-4 mr-2" />
-                Importar CSV
+                Importar Extrato
+              </Button>
+            </Link>
+            <Link to="/importacoes">
+              <Button variant="outline">
+                <History className="h-4 w-4 mr-2" />
+                Importações
+              </Button>
+            </Link>
+            <Link to="/recorrentes">
+              <Button variant="outline">
+                <Repeat className="h-4 w-4 mr-2" />
+                Recorrentes
               </Button>
             </Link>
+            <Link to="/tags">
+              <Button variant="outline">
+                <TagIcon className="h-4 w-4 mr-2" />
+                Tags
+              </Button>
+            </Link>
+            <Link to="/favorecidos">
+              <Button variant="outline">
+                <Store className="h-4 w-4 mr-2" />
+                Favorecidos
+              </Button>
+            </Link>
+            <Button variant="outline" onClick={() => setIsExportOpen(true)} disabled={parsedSearch.error !== null}>
+              <Download className="h-4 w-4 mr-2" />
+              Exportar
+            </Button>
+            <SavedViewsMenu
+              views={savedViews}
+              filters={filters}
+              onViewsChange={setSavedViews}
+              onApply={applySavedView}
+            />
+            <Button variant="outline" onClick={() => setIsInstallmentModalOpen(true)}>
+              <CreditCard className="h-4 w-4 mr-2" />
+              Compra Parcelada
+            </Button>
+            <Button variant="outline" onClick={() => setIsTransferModalOpen(true)}>
+              <ArrowLeftRight className="h-4 w-4 mr-2" />
+              Nova Transferência
+            </Button>
             <Button onClick={() => setIsModalOpen(true)}>
               <Plus className="h-4 w-4 mr-2" />
               Nova Transação
@@ -344,16 +759,48 @@ export default function Transacoes() {
           </div>
         </div>
 
+        {pinnedViews.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {pinnedViews.map(view => (
+              <Button
+                key={view.id}
+                variant={view.query === currentQuery ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => applySavedView(view)}
+              >
+                <Bookmark className="h-4 w-4 mr-2" />
+                {view.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
         {/* Barra de Filtros */}
         <Card className="mb-4">
           <CardContent className="pt-4 pb-4">
+            {/* Busca */}
+            <div className="space-y-1 mb-3">
+              <label className="text-xs font-medium text-muted-foreground">Busca</label>
+              <SearchQueryInput
+                value={searchQuery}
+                onChange={(val) => updateFilters({ search: val })}
+                error={parsedSearch.error}
+                values={{
+                  categoria: categories.map(c => c.name),
+                  subcategoria: Array.from(new Set(subcategories.map(s => s.name))),
+                  conta: accounts.map(a => a.name),
+                  tag: tags.map(t => t.name)
+                }}
+              />
+            </div>
+
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3 items-end">
               {/* Mês de Referência */}
               <div className="space-y-1">
                 <label className="text-xs font-medium text-muted-foreground">Mês de Referência</label>
                 <MonthYearPicker
                   value={filterMonth || undefined}
-                  onValueChange={(val) => setFilterMonth(val)}
+                  onValueChange={(val) => updateFilters({ month: val })}
                   placeholder="Todos os meses"
                   className="h-9 text-sm"
                 />
@@ -362,7 +809,7 @@ export default function Transacoes() {
               {/* Tipo */}
               <div className="space-y-1">
                 <label className="text-xs font-medium text-muted-foreground">Tipo</label>
-                <Select value={filterType} onValueChange={setFilterType}>
+                <Select value={filterType} onValueChange={(val) => updateFilters({ type: val })}>
                   <SelectTrigger className="h-9 text-sm">
                     <SelectValue placeholder="Todos" />
                   </SelectTrigger>
@@ -370,6 +817,7 @@ export default function Transacoes() {
                     <SelectItem value="all">Todos</SelectItem>
                     <SelectItem value="Income">Receita</SelectItem>
                     <SelectItem value="Expense">Despesa</SelectItem>
+                    <SelectItem value="Transfer">Transferência</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -377,7 +825,7 @@ export default function Transacoes() {
               {/* Conta */}
               <div className="space-y-1">
                 <label className="text-xs font-medium text-muted-foreground">Conta</label>
-                <Select value={filterAccountId} onValueChange={setFilterAccountId}>
+                <Select value={filterAccountId} onValueChange={(val) => updateFilters({ accountId: val })}>
                   <SelectTrigger className="h-9 text-sm">
                     <SelectValue placeholder="Todas" />
                   </SelectTrigger>
@@ -394,8 +842,7 @@ export default function Transacoes() {
               <div className="space-y-1">
                 <label className="text-xs font-medium text-muted-foreground">Categoria</label>
                 <Select value={filterCategoryId} onValueChange={(val) => {
-                  setFilterCategoryId(val);
-                  setFilterSubcategoryId('all');
+                  updateFilters({ categoryId: val, subcategoryId: 'all' });
                 }}>
                   <SelectTrigger className="h-9 text-sm">
                     <SelectValue placeholder="Todas" />
@@ -412,7 +859,7 @@ export default function Transacoes() {
               {/* Subcategoria */}
               <div className="space-y-1">
                 <label className="text-xs font-medium text-muted-foreground">Subcategoria</label>
-                <Select value={filterSubcategoryId} onValueChange={setFilterSubcategoryId}>
+                <Select value={filterSubcategoryId} onValueChange={(val) => updateFilters({ subcategoryId: val })}>
                   <SelectTrigger className="h-9 text-sm">
                     <SelectValue placeholder="Todas" />
                   </SelectTrigger>
@@ -425,18 +872,20 @@ export default function Transacoes() {
                 </Select>
               </div>
 
-              {/* Busca por descrição */}
+              {/* Tag */}
               <div className="space-y-1">
-                <label className="text-xs font-medium text-muted-foreground">Descrição</label>
-                <div className="relative">
-                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Buscar..."
-                    value={filterDescription}
-                    onChange={(e) => setFilterDescription(e.target.value)}
-                    className="h-9 text-sm pl-8"
-                  />
-                </div>
+                <label className="text-xs font-medium text-muted-foreground">Tag</label>
+                <Select value={filterTagId} onValueChange={(val) => updateFilters({ tagId: val })}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue placeholder="Todas" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {tags.map(t => (
+                      <SelectItem key={t.id} value={t.id.toString()}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
 
@@ -451,157 +900,90 @@ export default function Transacoes() {
           </CardContent>
         </Card>
 
+        {/* Ações em massa */}
+        {selectedIds.size > 0 && (
+          <Card className="mb-4 border-primary/50">
+            <CardContent className="py-3 flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium mr-2">
+                {selectedIds.size} {selectedIds.size === 1 ? 'selecionada' : 'selecionadas'}
+              </span>
+              {allLoadedSelected && transactions.length < totalCount && (
+                <Button variant="link" size="sm" onClick={selectAllMatching} disabled={selectingAll}>
+                  {selectingAll ? 'Selecionando...' : 'Selecionar todas do filtro'}
+                </Button>
+              )}
+              <div className="flex flex-wrap gap-2 ml-auto">
+                <Button variant="outline" size="sm" onClick={() => setBulkAction('category')}>Categoria</Button>
+                <Button variant="outline" size="sm" onClick={() => setBulkAction('subcategory')}>Subcategoria</Button>
+                <Button variant="outline" size="sm" onClick={() => setBulkAction('account')}>Conta</Button>
+                <Button variant="outline" size="sm" onClick={() => setBulkAction('reference_month')}>Mês de Referência</Button>
+                <Button variant="outline" size="sm" onClick={() => setBulkAction('add_tags')}>Adicionar Tags</Button>
+                <Button variant="outline" size="sm" onClick={() => setBulkAction('remove_tags')}>Remover Tags</Button>
+                <Button variant="outline" size="sm" onClick={() => setIsBulkDeleteOpen(true)}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Excluir
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                  Limpar seleção
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Lista de Transações */}
         <Card>
           <CardHeader>
-            <CardTitle>Lista de Transações ({transactions.length})</CardTitle>
+            <CardTitle>Lista de Transações ({totalCount})</CardTitle>
+            {totalCount > 0 && (
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                <span>Receitas: <span className="font-medium text-green-600">{formatCurrency(totals.income)}</span></span>
+                <span>Despesas: <span className="font-medium text-red-600">{formatCurrency(totals.expense)}</span></span>
+                <span>
+                  Saldo:{' '}
+                  <span className={`font-medium ${totals.income - totals.expense >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(totals.income - totals.expense)}
+                  </span>
+                </span>
+                {transactions.length < totalCount && (
+                  <span className="text-muted-foreground">
+                    {transactions.length} de {totalCount} carregadas{loadingMore && '...'}
+                  </span>
+                )}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             {transactions.length > 0 ? (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('reference_month')}
-                    >
-                      <div className="flex items-center">
-                        Mês de Referência
-                        {getSortIcon('reference_month')}
-                      </div>
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('transaction_date')}
-                    >
-                      <div className="flex items-center">
-                        Data
-                        {getSortIcon('transaction_date')}
-                      </div>
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('description')}
-                    >
-                      <div className="flex items-center">
-                        Descrição
-                        {getSortIcon('description')}
-                      </div>
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('category_id')}
-                    >
-                      <div className="flex items-center">
-                        Categoria
-                        {getSortIcon('category_id')}
-                      </div>
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('subcategory_id')}
-                    >
-                      <div className="flex items-center">
-                        Subcategoria
-                        {getSortIcon('subcategory_id')}
+              <div className="overflow-x-auto">
+                <div className="min-w-[1460px]">
+                  <div className={`${LIST_COLUMNS} border-b h-12 text-sm font-medium text-muted-foreground`}>
+                    <Checkbox
+                      checked={allLoadedSelected}
+                      onCheckedChange={(checked) => toggleAllLoaded(checked === true)}
+                      aria-label="Selecionar todas as transações carregadas"
+                    />
+                    {SORTABLE_HEADERS.map(([column, label]) => (
+                      <div
+                        key={column}
+                        className="flex items-center cursor-pointer hover:text-foreground"
+                        onClick={() => handleSort(column)}
+                      >
+                        {label}
+                        {getSortIcon(column)}
                       </div>
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('account_id')}
-                    >
-                      <div className="flex items-center">
-                        Conta
-                        {getSortIcon('account_id')}
-                      </div>
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('type')}
-                    >
-                      <div className="flex items-center">
-                        Tipo
-                        {getSortIcon('type')}
-                      </div>
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('amount')}
-                    >
-                      <div className="flex items-center">
-                        Valor
-                        {getSortIcon('amount')}
-                      </div>
-                    </TableHead>
-                    <TableHead>Ações</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {transactions.map((transaction) => (
-                    <TableRow key={transaction.id}>
-                      <TableCell>
-                        {new Date(transaction.reference_month + 'T12:00:00').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}
-                      </TableCell>
-                      <TableCell>
-                        {new Date(transaction.transaction_date + 'T12:00:00').toLocaleDateString('pt-BR')}
-                      </TableCell>
-                      <TableCell className="font-medium">{transaction.description}</TableCell>
-                      <TableCell>{transaction.categories?.name || 'Sem categoria'}</TableCell>
-                      <TableCell>{transaction.subcategories?.name || '-'}</TableCell>
-                      <TableCell>{transaction.accounts?.name}</TableCell>
-                      <TableCell>
-                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                          transaction.type === 'Income' 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-red-100 text-red-800'
-                        }`}>
-                          {transaction.type === 'Income' ? 'Receita' : 'Despesa'}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <span className={`font-medium ${
-                          transaction.type === 'Income' ? 'text-green-600' : 'text-red-600'
-                        }`}>
-                          R$ {transaction.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEdit(transaction)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="outline" size="sm">
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Tem certeza que deseja excluir a transação "{transaction.description}"?
-                                  Esta ação não pode ser desfeita.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => handleDelete(transaction.id)}>
-                                  Excluir
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                    ))}
+                    <div>Ações</div>
+                  </div>
+                  <VirtualList
+                    rowCount={transactions.length}
+                    renderRow={renderRow}
+                    estimatedRowHeight={ESTIMATED_ROW_HEIGHT}
+                    maxHeight={Math.round(window.innerHeight * 0.7)}
+                    onRowsRendered={handleRowsRendered}
+                  />
+                </div>
+              </div>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
                 {hasActiveFilters ? 'Nenhuma transação encontrada com os filtros selecionados.' : 'Nenhuma transação cadastrada ainda.'}
@@ -617,6 +999,80 @@ export default function Transacoes() {
         transaction={editingTransaction}
         onTransactionSaved={handleTransactionSaved}
       />
+
+      <TransferModal
+        isOpen={isTransferModalOpen}
+        onClose={handleTransferModalClose}
+        transferId={editingTransferId}
+        onTransferSaved={handleTransactionSaved}
+      />
+
+      <InstallmentPurchaseModal
+        isOpen={isInstallmentModalOpen}
+        onClose={() => setIsInstallmentModalOpen(false)}
+        onSaved={handleTransactionSaved}
+      />
+
+      <InstallmentPayoffModal
+        isOpen={payoffPurchaseId !== null}
+        onClose={() => setPayoffPurchaseId(null)}
+        purchaseId={payoffPurchaseId}
+        onPaidOff={handleTransactionSaved}
+      />
+
+      <BulkEditModal
+        action={bulkAction}
+        transactionIds={[...selectedIds]}
+        accounts={accounts}
+        categories={categories}
+        subcategories={subcategories}
+        tags={tags}
+        onClose={() => setBulkAction(null)}
+        onDone={handleBulkDone}
+      />
+
+      <TransactionHistoryDrawer
+        transactionId={historyTransaction?.id ?? null}
+        title={historyTransaction?.description}
+        isTransfer={historyTransaction?.transfer_id != null}
+        accounts={accounts}
+        categories={categories}
+        subcategories={subcategories}
+        onClose={() => setHistoryTransaction(null)}
+        onRestored={() => fetchTransactions(true)}
+      />
+
+      <ExportTransactionsModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        fetchTransactions={fetchExportTransactions}
+        filterMonth={filterMonth}
+      />
+
+      <AlertDialog open={isBulkDeleteOpen} onOpenChange={setIsBulkDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir {selectedIds.size} transações? Os saldos de dívidas e investimentos
+              vinculados serão estornados. Elas ficarão na lixeira por 30 dias, onde podem ser restauradas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleBulkDelete}>
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AttachmentPreviewDialog
+        isOpen={previewTransaction !== null}
+        onClose={() => setPreviewTransaction(null)}
+        transactionId={previewTransaction?.id ?? null}
+        title={previewTransaction?.description}
+      />
     </div>
   );
 }
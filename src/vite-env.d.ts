@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "local" keeps transaction attachments in the browser instead of Supabase Storage
+  readonly VITE_ATTACHMENT_STORAGE?: 'local' | 'supabase';
+}
@@ -0,0 +1,40 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Daily purge of the trash, called by the purge-expired-trash pg_cron job: deletes
+ * for good what has been in the trash for more than 30 days, for every user, then
+ * removes the attachment files of the deleted transactions from storage.
+ */
+
+const ATTACHMENT_BUCKET = 'transaction-attachments';
+// Storage removes at most 1000 files per request
+const REMOVE_BATCH_SIZE = 1000;
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  const { data, error } = await supabase.rpc('purge_expired_trash');
+  if (error) {
+    console.error('Error purging trash:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  // The rows are already gone, so a failure here only leaves orphan files behind
+  const paths: string[] = data ?? [];
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error: removeError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+
+    if (removeError) {
+      console.error('Error removing attachment files:', removeError);
+    }
+  }
+
+  return Response.json({ removed_attachments: paths.length });
+});
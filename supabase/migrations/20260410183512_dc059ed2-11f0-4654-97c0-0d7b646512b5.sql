@@ -0,0 +1,6 @@
+-- Identificador da transação no banco (FITID do OFX) para impedir que o mesmo extrato seja importado duas vezes
+ALTER TABLE public.transactions ADD COLUMN fitid TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_account_fitid
+  ON public.transactions (account_id, fitid)
+  WHERE fitid IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Presets de mapeamento de colunas para importação de CSV, salvos por conta
+CREATE TABLE public.import_presets (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  account_id bigint NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mapping jsonb NOT NULL,
+  last_used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, account_id, name)
+);
+
+ALTER TABLE public.import_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import_presets" ON public.import_presets
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own import_presets" ON public.import_presets
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own import_presets" ON public.import_presets
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own import_presets" ON public.import_presets
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to import_presets" ON public.import_presets
+  FOR ALL TO anon USING (false);
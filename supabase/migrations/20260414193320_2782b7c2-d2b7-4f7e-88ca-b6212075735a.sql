@@ -0,0 +1,38 @@
+-- Regras de categorização automática (importação e sugestão no lançamento manual)
+CREATE TABLE public.categorization_rules (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  -- Critérios
+  match_type text NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'starts_with', 'regex')),
+  pattern text NOT NULL,
+  amount_min numeric(12, 2),
+  amount_max numeric(12, 2),
+  account_id bigint REFERENCES public.accounts(id) ON DELETE CASCADE,
+  transaction_type public.transaction_type,
+  -- Ações
+  category_id bigint NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  subcategory_id bigint REFERENCES public.subcategories(id) ON DELETE SET NULL,
+  debt_id bigint REFERENCES public.debts(id) ON DELETE SET NULL,
+  investment_id bigint REFERENCES public.investments(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_priority
+  ON public.categorization_rules (user_id, priority);
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own categorization_rules" ON public.categorization_rules
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own categorization_rules" ON public.categorization_rules
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own categorization_rules" ON public.categorization_rules
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own categorization_rules" ON public.categorization_rules
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to categorization_rules" ON public.categorization_rules
+  FOR ALL TO anon USING (false);
@@ -0,0 +1,190 @@
+-- Importação de extrato em lote.
+-- Valida todas as linhas antes de gravar; se houver qualquer erro, retorna a lista
+-- de erros por linha sem gravar nada. Caso contrário insere as transações e ajusta
+-- os saldos de dívidas e investimentos dentro da mesma transação do banco, de forma
+-- que uma falha no meio do caminho desfaz tudo.
+CREATE OR REPLACE FUNCTION public.import_transactions_batch(account_id_input bigint, rows_input jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_row jsonb;
+  v_ordinality bigint;
+  v_row_index integer;
+  v_errors jsonb := '[]'::jsonb;
+  v_seen_fitids text[] := '{}';
+  v_description text;
+  v_amount numeric;
+  v_type public.transaction_type;
+  v_transaction_date date;
+  v_reference_month date;
+  v_category_id bigint;
+  v_category_type public.category_type;
+  v_subcategory_id bigint;
+  v_debt_id bigint;
+  v_investment_id bigint;
+  v_fitid text;
+  v_inserted integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = account_id_input AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Conta de destino não encontrada';
+  END IF;
+
+  IF rows_input IS NULL OR jsonb_typeof(rows_input) <> 'array' OR jsonb_array_length(rows_input) = 0 THEN
+    RAISE EXCEPTION 'Nenhuma transação para importar';
+  END IF;
+
+  -- 1. Validação de todas as linhas
+  FOR v_row, v_ordinality IN
+    SELECT value, ordinality FROM jsonb_array_elements(rows_input) WITH ORDINALITY
+  LOOP
+    v_row_index := COALESCE((v_row->>'row_index')::integer, v_ordinality::integer - 1);
+
+    BEGIN
+      v_description := NULLIF(btrim(v_row->>'description'), '');
+      v_amount := (v_row->>'amount')::numeric;
+      v_type := (v_row->>'type')::public.transaction_type;
+      v_transaction_date := (v_row->>'transaction_date')::date;
+      v_reference_month := (v_row->>'reference_month')::date;
+      v_category_id := (v_row->>'category_id')::bigint;
+      v_subcategory_id := (v_row->>'subcategory_id')::bigint;
+      v_debt_id := (v_row->>'debt_id')::bigint;
+      v_investment_id := (v_row->>'investment_id')::bigint;
+      v_fitid := NULLIF(v_row->>'fitid', '');
+    EXCEPTION WHEN invalid_text_representation OR invalid_datetime_format OR datetime_field_overflow OR numeric_value_out_of_range THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Dados inválidos: ' || SQLERRM);
+      CONTINUE;
+    END;
+
+    IF v_description IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Descrição é obrigatória');
+      CONTINUE;
+    END IF;
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Valor deve ser maior que zero');
+      CONTINUE;
+    END IF;
+
+    IF v_type IS NULL OR v_transaction_date IS NULL OR v_reference_month IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Tipo, data e mês de referência são obrigatórios');
+      CONTINUE;
+    END IF;
+
+    v_category_type := NULL;
+    IF v_category_id IS NOT NULL THEN
+      SELECT type INTO v_category_type FROM categories WHERE id = v_category_id AND user_id = v_user_id;
+      IF NOT FOUND THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Categoria não encontrada');
+        CONTINUE;
+      END IF;
+    END IF;
+
+    IF v_subcategory_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM subcategories
+      WHERE id = v_subcategory_id AND user_id = v_user_id AND category_id = v_category_id
+    ) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Subcategoria não pertence à categoria selecionada');
+      CONTINUE;
+    END IF;
+
+    IF v_category_type = 'Debt' AND v_debt_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Para categorias de dívidas, é obrigatório vincular a uma dívida');
+      CONTINUE;
+    END IF;
+
+    IF v_category_type = 'Investment' AND v_investment_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Para categorias de investimentos, é obrigatório vincular a um investimento');
+      CONTINUE;
+    END IF;
+
+    IF v_debt_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM debts WHERE id = v_debt_id AND user_id = v_user_id) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Dívida não encontrada');
+      CONTINUE;
+    END IF;
+
+    IF v_investment_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM investments WHERE id = v_investment_id AND user_id = v_user_id) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Investimento não encontrado');
+      CONTINUE;
+    END IF;
+
+    IF v_fitid IS NOT NULL THEN
+      IF v_fitid = ANY(v_seen_fitids) OR EXISTS (
+        SELECT 1 FROM transactions WHERE account_id = account_id_input AND fitid = v_fitid
+      ) THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Transação já importada anteriormente para esta conta');
+        CONTINUE;
+      END IF;
+      v_seen_fitids := array_append(v_seen_fitids, v_fitid);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'inserted_count', 0, 'errors', v_errors);
+  END IF;
+
+  -- 2. Gravação: transações e impacto patrimonial, na ordem do arquivo
+  FOR v_row IN
+    SELECT value FROM jsonb_array_elements(rows_input) WITH ORDINALITY ORDER BY ordinality
+  LOOP
+    v_amount := (v_row->>'amount')::numeric;
+    v_type := (v_row->>'type')::public.transaction_type;
+    v_debt_id := (v_row->>'debt_id')::bigint;
+    v_investment_id := (v_row->>'investment_id')::bigint;
+
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, type, transaction_date, reference_month,
+      category_id, subcategory_id, debt_id, investment_id, fitid
+    ) VALUES (
+      v_user_id,
+      account_id_input,
+      btrim(v_row->>'description'),
+      v_amount,
+      v_type,
+      (v_row->>'transaction_date')::date,
+      (v_row->>'reference_month')::date,
+      (v_row->>'category_id')::bigint,
+      (v_row->>'subcategory_id')::bigint,
+      v_debt_id,
+      v_investment_id,
+      NULLIF(v_row->>'fitid', '')
+    );
+
+    -- Pagamento de dívida: abate o saldo e uma parcela
+    IF v_debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = GREATEST(0, current_balance - v_amount),
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE GREATEST(0, remaining_installments - 1)
+          END
+      WHERE id = v_debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Aporte (despesa) soma ao investimento; resgate (receita) subtrai
+    IF v_investment_id IS NOT NULL THEN
+      IF v_type = 'Expense' THEN
+        UPDATE investments
+        SET initial_amount = CASE WHEN current_balance = 0 THEN v_amount ELSE initial_amount END,
+            current_balance = current_balance + v_amount
+        WHERE id = v_investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_amount)
+        WHERE id = v_investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    v_inserted := v_inserted + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'inserted_count', v_inserted, 'errors', '[]'::jsonb);
+END;
+$$;
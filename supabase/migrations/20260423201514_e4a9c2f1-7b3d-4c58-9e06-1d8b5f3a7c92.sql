@@ -0,0 +1,10 @@
+-- Regras para derivar o mês de referência de cada transação a partir da data.
+-- month_start_day: dia em que começa o mês financeiro da conta (1 = mês civil).
+--   Com início no dia 25, uma transação de 25/03 já pertence a abril.
+-- closing_day: dia de fechamento da fatura (apenas cartões de crédito).
+--   Compras feitas depois do fechamento entram na fatura do mês seguinte.
+ALTER TABLE public.accounts
+  ADD COLUMN month_start_day smallint NOT NULL DEFAULT 1
+    CHECK (month_start_day BETWEEN 1 AND 28),
+  ADD COLUMN closing_day smallint
+    CHECK (closing_day BETWEEN 1 AND 31);
@@ -0,0 +1,566 @@
+-- Divisão de transações: uma transação (ex.: cupom do supermercado) pode ser
+-- repartida em linhas com valor, categoria e subcategoria próprios
+CREATE TABLE public.transaction_splits (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  transaction_id bigint NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  category_id bigint REFERENCES public.categories(id) ON DELETE SET NULL,
+  subcategory_id bigint REFERENCES public.subcategories(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX transaction_splits_transaction_id_idx ON public.transaction_splits (transaction_id);
+CREATE INDEX transaction_splits_user_id_idx ON public.transaction_splits (user_id);
+
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction_splits" ON public.transaction_splits
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own transaction_splits" ON public.transaction_splits
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own transaction_splits" ON public.transaction_splits
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own transaction_splits" ON public.transaction_splits
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to transaction_splits" ON public.transaction_splits
+  FOR ALL TO anon USING (false);
+
+-- Valida as linhas de uma divisão; retorna a mensagem de erro ou NULL se estiverem corretas.
+-- Linhas não aceitam categorias de dívida ou investimento, que dependem de um vínculo patrimonial.
+CREATE OR REPLACE FUNCTION public.transaction_splits_error(splits_input jsonb, total_amount numeric)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_split jsonb;
+  v_amount numeric;
+  v_category_id bigint;
+  v_category_type public.category_type;
+  v_subcategory_id bigint;
+  v_sum numeric := 0;
+BEGIN
+  IF splits_input IS NULL OR jsonb_typeof(splits_input) <> 'array' THEN
+    RETURN 'Divisão inválida';
+  END IF;
+
+  IF jsonb_array_length(splits_input) < 2 THEN
+    RETURN 'A divisão precisa de pelo menos duas linhas';
+  END IF;
+
+  FOR v_split IN SELECT value FROM jsonb_array_elements(splits_input) LOOP
+    BEGIN
+      v_amount := (v_split->>'amount')::numeric;
+      v_category_id := (v_split->>'category_id')::bigint;
+      v_subcategory_id := (v_split->>'subcategory_id')::bigint;
+    EXCEPTION WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+      RETURN 'Dados inválidos na divisão: ' || SQLERRM;
+    END;
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN 'Cada linha da divisão deve ter valor maior que zero';
+    END IF;
+
+    IF v_category_id IS NULL THEN
+      RETURN 'Cada linha da divisão precisa de uma categoria';
+    END IF;
+
+    SELECT type INTO v_category_type FROM categories WHERE id = v_category_id AND user_id = v_user_id;
+    IF NOT FOUND THEN
+      RETURN 'Categoria da divisão não encontrada';
+    END IF;
+
+    IF v_category_type IN ('Debt', 'Investment') THEN
+      RETURN 'Linhas da divisão não aceitam categorias de dívidas ou investimentos';
+    END IF;
+
+    IF v_subcategory_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM subcategories
+      WHERE id = v_subcategory_id AND user_id = v_user_id AND category_id = v_category_id
+    ) THEN
+      RETURN 'Subcategoria da divisão não pertence à categoria selecionada';
+    END IF;
+
+    v_sum := v_sum + v_amount;
+  END LOOP;
+
+  IF v_sum <> total_amount THEN
+    RETURN 'A soma das linhas da divisão deve ser igual ao valor da transação';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Substitui as linhas da divisão de uma transação; um array vazio desfaz a divisão.
+-- A transação dividida fica sem categoria própria: quem vale são as linhas.
+CREATE OR REPLACE FUNCTION public.set_transaction_splits(transaction_id_input bigint, splits_input jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_transaction record;
+  v_error text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT id, amount, debt_id, investment_id INTO v_transaction
+  FROM transactions
+  WHERE id = transaction_id_input AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transação não encontrada';
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = transaction_id_input AND user_id = v_user_id;
+
+  IF splits_input IS NULL OR jsonb_array_length(splits_input) = 0 THEN
+    RETURN;
+  END IF;
+
+  IF v_transaction.debt_id IS NOT NULL OR v_transaction.investment_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Transações vinculadas a dívidas ou investimentos não podem ser divididas';
+  END IF;
+
+  v_error := transaction_splits_error(splits_input, v_transaction.amount);
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  INSERT INTO transaction_splits (user_id, transaction_id, amount, category_id, subcategory_id)
+  SELECT
+    v_user_id,
+    transaction_id_input,
+    (s->>'amount')::numeric,
+    (s->>'category_id')::bigint,
+    (s->>'subcategory_id')::bigint
+  FROM jsonb_array_elements(splits_input) WITH ORDINALITY AS e(s, ordinality)
+  ORDER BY ordinality;
+
+  UPDATE transactions
+  SET category_id = NULL, subcategory_id = NULL
+  WHERE id = transaction_id_input;
+END;
+$$;
+
+-- A importação em lote aceita transações divididas (campo splits de cada linha)
+CREATE OR REPLACE FUNCTION public.import_transactions_batch(
+  account_id_input bigint,
+  rows_input jsonb,
+  file_name_input text DEFAULT NULL,
+  reference_month_input date DEFAULT NULL,
+  purchases_input jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_row jsonb;
+  v_ordinality bigint;
+  v_row_index integer;
+  v_errors jsonb := '[]'::jsonb;
+  v_seen_fitids text[] := '{}';
+  v_description text;
+  v_amount numeric;
+  v_type public.transaction_type;
+  v_transaction_date date;
+  v_reference_month date;
+  v_category_id bigint;
+  v_category_type public.category_type;
+  v_subcategory_id bigint;
+  v_debt_id bigint;
+  v_investment_id bigint;
+  v_fitid text;
+  v_inserted integer := 0;
+  v_batch_id bigint;
+  v_installment_purchase_id bigint;
+  v_installment_number integer;
+  v_installment_group text;
+  v_total_installments integer;
+  v_purchase jsonb;
+  v_purchase_ids jsonb := '{}'::jsonb;
+  v_new_purchase_id bigint;
+  v_splits jsonb;
+  v_split_error text;
+  v_transaction_id bigint;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = account_id_input AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Conta de destino não encontrada';
+  END IF;
+
+  IF rows_input IS NULL OR jsonb_typeof(rows_input) <> 'array' OR jsonb_array_length(rows_input) = 0 THEN
+    RAISE EXCEPTION 'Nenhuma transação para importar';
+  END IF;
+
+  -- 1. Validação de todas as linhas
+  FOR v_row, v_ordinality IN
+    SELECT value, ordinality FROM jsonb_array_elements(rows_input) WITH ORDINALITY
+  LOOP
+    v_row_index := COALESCE((v_row->>'row_index')::integer, v_ordinality::integer - 1);
+
+    BEGIN
+      v_description := NULLIF(btrim(v_row->>'description'), '');
+      v_amount := (v_row->>'amount')::numeric;
+      v_type := (v_row->>'type')::public.transaction_type;
+      v_transaction_date := (v_row->>'transaction_date')::date;
+      v_reference_month := (v_row->>'reference_month')::date;
+      v_category_id := (v_row->>'category_id')::bigint;
+      v_subcategory_id := (v_row->>'subcategory_id')::bigint;
+      v_debt_id := (v_row->>'debt_id')::bigint;
+      v_investment_id := (v_row->>'investment_id')::bigint;
+      v_fitid := NULLIF(v_row->>'fitid', '');
+      v_installment_purchase_id := (v_row->>'installment_purchase_id')::bigint;
+      v_installment_number := (v_row->>'installment_number')::integer;
+      v_installment_group := NULLIF(v_row->>'installment_group', '');
+    EXCEPTION WHEN invalid_text_representation OR invalid_datetime_format OR datetime_field_overflow OR numeric_value_out_of_range THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Dados inválidos: ' || SQLERRM);
+      CONTINUE;
+    END;
+
+    IF v_description IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Descrição é obrigatória');
+      CONTINUE;
+    END IF;
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Valor deve ser maior que zero');
+      CONTINUE;
+    END IF;
+
+    IF v_type IS NULL OR v_transaction_date IS NULL OR v_reference_month IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Tipo, data e mês de referência são obrigatórios');
+      CONTINUE;
+    END IF;
+
+    v_category_type := NULL;
+    IF v_category_id IS NOT NULL THEN
+      SELECT type INTO v_category_type FROM categories WHERE id = v_category_id AND user_id = v_user_id;
+      IF NOT FOUND THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Categoria não encontrada');
+        CONTINUE;
+      END IF;
+    END IF;
+
+    IF v_subcategory_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM subcategories
+      WHERE id = v_subcategory_id AND user_id = v_user_id AND category_id = v_category_id
+    ) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Subcategoria não pertence à categoria selecionada');
+      CONTINUE;
+    END IF;
+
+    IF v_category_type = 'Debt' AND v_debt_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Para categorias de dívidas, é obrigatório vincular a uma dívida');
+      CONTINUE;
+    END IF;
+
+    IF v_category_type = 'Investment' AND v_investment_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Para categorias de investimentos, é obrigatório vincular a um investimento');
+      CONTINUE;
+    END IF;
+
+    IF v_debt_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM debts WHERE id = v_debt_id AND user_id = v_user_id) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Dívida não encontrada');
+      CONTINUE;
+    END IF;
+
+    IF v_investment_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM investments WHERE id = v_investment_id AND user_id = v_user_id) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Investimento não encontrado');
+      CONTINUE;
+    END IF;
+
+    -- Linhas da divisão, quando a transação é repartida entre categorias
+    v_splits := v_row->'splits';
+    IF jsonb_typeof(v_splits) = 'array' AND jsonb_array_length(v_splits) > 0 THEN
+      IF v_debt_id IS NOT NULL OR v_investment_id IS NOT NULL THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Transações vinculadas a dívidas ou investimentos não podem ser divididas');
+        CONTINUE;
+      END IF;
+
+      v_split_error := transaction_splits_error(v_splits, v_amount);
+      IF v_split_error IS NOT NULL THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', v_split_error);
+        CONTINUE;
+      END IF;
+    END IF;
+
+    -- Parcela vinculada a uma compra existente ou a uma compra criada neste lote
+    v_total_installments := NULL;
+    IF v_installment_purchase_id IS NOT NULL THEN
+      SELECT total_installments INTO v_total_installments
+      FROM installment_purchases
+      WHERE id = v_installment_purchase_id AND user_id = v_user_id;
+      IF NOT FOUND THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Compra parcelada não encontrada');
+        CONTINUE;
+      END IF;
+    ELSIF v_installment_group IS NOT NULL THEN
+      SELECT (p->>'total_installments')::integer INTO v_total_installments
+      FROM jsonb_array_elements(COALESCE(purchases_input, '[]'::jsonb)) p
+      WHERE p->>'group' = v_installment_group;
+      IF v_total_installments IS NULL THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Compra parcelada a criar não foi informada');
+        CONTINUE;
+      END IF;
+    END IF;
+
+    IF v_total_installments IS NOT NULL
+       AND (v_installment_number IS NULL OR v_installment_number < 1 OR v_installment_number > v_total_installments) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Número da parcela inválido para a compra parcelada');
+      CONTINUE;
+    END IF;
+
+    IF v_fitid IS NOT NULL THEN
+      IF v_fitid = ANY(v_seen_fitids) OR EXISTS (
+        SELECT 1 FROM transactions WHERE account_id = account_id_input AND fitid = v_fitid
+      ) THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Transação já importada anteriormente para esta conta');
+        CONTINUE;
+      END IF;
+      v_seen_fitids := array_append(v_seen_fitids, v_fitid);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'inserted_count', 0, 'batch_id', NULL, 'errors', v_errors);
+  END IF;
+
+  -- 2. Gravação: lote, transações e impacto patrimonial, na ordem do arquivo
+  INSERT INTO import_batches (user_id, account_id, file_name, reference_month, row_count)
+  VALUES (
+    v_user_id,
+    account_id_input,
+    COALESCE(NULLIF(btrim(file_name_input), ''), 'Importação sem nome'),
+    COALESCE(reference_month_input, date_trunc('month', now())::date),
+    jsonb_array_length(rows_input)
+  )
+  RETURNING id INTO v_batch_id;
+
+  -- Compras parceladas detectadas no arquivo que o usuário optou por criar
+  FOR v_purchase IN SELECT value FROM jsonb_array_elements(COALESCE(purchases_input, '[]'::jsonb)) LOOP
+    INSERT INTO installment_purchases (
+      user_id, account_id, description, total_amount, installment_amount, total_installments,
+      first_reference_month, category_id, subcategory_id, batch_id
+    ) VALUES (
+      v_user_id,
+      account_id_input,
+      btrim(v_purchase->>'description'),
+      (v_purchase->>'total_amount')::numeric,
+      (v_purchase->>'installment_amount')::numeric,
+      (v_purchase->>'total_installments')::integer,
+      (v_purchase->>'first_reference_month')::date,
+      (v_purchase->>'category_id')::bigint,
+      (v_purchase->>'subcategory_id')::bigint,
+      v_batch_id
+    )
+    RETURNING id INTO v_new_purchase_id;
+
+    v_purchase_ids := v_purchase_ids || jsonb_build_object(v_purchase->>'group', v_new_purchase_id);
+  END LOOP;
+
+  FOR v_row IN
+    SELECT value FROM jsonb_array_elements(rows_input) WITH ORDINALITY ORDER BY ordinality
+  LOOP
+    v_amount := (v_row->>'amount')::numeric;
+    v_type := (v_row->>'type')::public.transaction_type;
+    v_debt_id := (v_row->>'debt_id')::bigint;
+    v_investment_id := (v_row->>'investment_id')::bigint;
+    v_splits := CASE WHEN jsonb_typeof(v_row->'splits') = 'array' THEN v_row->'splits' ELSE '[]'::jsonb END;
+
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, type, transaction_date, reference_month,
+      category_id, subcategory_id, debt_id, investment_id, fitid, batch_id,
+      installment_purchase_id, installment_number
+    ) VALUES (
+      v_user_id,
+      account_id_input,
+      btrim(v_row->>'description'),
+      v_amount,
+      v_type,
+      (v_row->>'transaction_date')::date,
+      (v_row->>'reference_month')::date,
+      CASE WHEN jsonb_array_length(v_splits) = 0 THEN (v_row->>'category_id')::bigint END,
+      CASE WHEN jsonb_array_length(v_splits) = 0 THEN (v_row->>'subcategory_id')::bigint END,
+      v_debt_id,
+      v_investment_id,
+      NULLIF(v_row->>'fitid', ''),
+      v_batch_id,
+      COALESCE((v_row->>'installment_purchase_id')::bigint, (v_purchase_ids->>(v_row->>'installment_group'))::bigint),
+      (v_row->>'installment_number')::integer
+    )
+    RETURNING id INTO v_transaction_id;
+
+    -- Transação dividida: a categoria fica nas linhas
+    INSERT INTO transaction_splits (user_id, transaction_id, amount, category_id, subcategory_id)
+    SELECT
+      v_user_id,
+      v_transaction_id,
+      (s->>'amount')::numeric,
+      (s->>'category_id')::bigint,
+      (s->>'subcategory_id')::bigint
+    FROM jsonb_array_elements(v_splits) WITH ORDINALITY AS e(s, ordinality)
+    ORDER BY ordinality;
+
+    -- Pagamento de dívida: abate o saldo e uma parcela
+    IF v_debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = GREATEST(0, current_balance - v_amount),
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE GREATEST(0, remaining_installments - 1)
+          END
+      WHERE id = v_debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Aporte (despesa) soma ao investimento; resgate (receita) subtrai
+    IF v_investment_id IS NOT NULL THEN
+      IF v_type = 'Expense' THEN
+        UPDATE investments
+        SET initial_amount = CASE WHEN current_balance = 0 THEN v_amount ELSE initial_amount END,
+            current_balance = current_balance + v_amount
+        WHERE id = v_investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_amount)
+        WHERE id = v_investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    v_inserted := v_inserted + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'inserted_count', v_inserted, 'batch_id', v_batch_id, 'errors', '[]'::jsonb);
+END;
+$$;
+
+-- Insights passam a agregar por linha da divisão
+CREATE OR REPLACE FUNCTION public.get_category_insights(ref_month date)
+ RETURNS TABLE(category_id bigint, category_name text, current_expense numeric, income_in_month numeric, prev3_avg_expense numeric, deviation_pct numeric, share_over_income numeric, severity text)
+ LANGUAGE sql
+ STABLE
+ SET search_path TO 'public'
+AS $$
+WITH m AS (
+  SELECT date_trunc('month', ref_month)::date AS m0
+),
+months_prev3 AS (
+  SELECT (m.m0 - interval '1 month')::date AS month_start FROM m
+  UNION ALL SELECT (m.m0 - interval '2 month')::date FROM m
+  UNION ALL SELECT (m.m0 - interval '3 month')::date FROM m
+),
+
+-- Linhas de lançamento: transações divididas contam por linha, com a categoria de cada linha
+lines AS (
+  SELECT
+    t.type,
+    t.reference_month,
+    COALESCE(s.amount, t.amount) AS amount,
+    CASE WHEN s.id IS NULL THEN t.category_id ELSE s.category_id END AS category_id
+  FROM transactions t
+  LEFT JOIN transaction_splits s ON s.transaction_id = t.id
+  WHERE t.user_id = auth.uid()
+),
+
+-- Categorias do usuário (apenas Standard, excluindo Debt, Investment e Transfer)
+cats AS (
+  SELECT DISTINCT c.id AS category_id, c.name AS category_name
+  FROM categories c
+  WHERE c.user_id = auth.uid()
+    AND c.type = 'Standard'
+),
+
+-- Despesas do mês de referência por categoria (apenas categorias Standard)
+cur AS (
+  SELECT
+    t.category_id,
+    SUM(ABS(t.amount))::numeric AS current_expense
+  FROM lines t
+  CROSS JOIN m
+  INNER JOIN cats ON cats.category_id = t.category_id
+  WHERE t.reference_month = m.m0
+    AND (t.amount < 0 OR t.type = 'Expense')
+    AND t.category_id IS NOT NULL
+  GROUP BY t.category_id
+),
+
+-- Receita total do mês de referência (excluindo categorias Transfer)
+income AS (
+  SELECT
+    COALESCE(SUM(CASE WHEN (t.amount > 0 OR t.type = 'Income') THEN t.amount ELSE 0 END), 0)::numeric AS income_in_month
+  FROM lines t
+  CROSS JOIN m
+  LEFT JOIN categories c ON c.id = t.category_id AND c.user_id = auth.uid()
+  WHERE t.reference_month = m.m0
+    AND (c.type IS NULL OR c.type != 'Transfer')
+),
+
+-- Soma de cada um dos 3 meses anteriores por categoria (apenas Standard)
+prev3_by_cat AS (
+  SELECT
+    cats.category_id,
+    mp.month_start,
+    COALESCE(SUM(ABS(t.amount)) FILTER (
+      WHERE t.reference_month = mp.month_start
+        AND (t.amount < 0 OR t.type = 'Expense')
+    ), 0)::numeric AS month_expense
+  FROM cats
+  CROSS JOIN months_prev3 mp
+  LEFT JOIN lines t
+    ON t.category_id = cats.category_id
+  GROUP BY cats.category_id, mp.month_start
+),
+
+-- Média dos 3 meses anteriores
+prev3_avg AS (
+  SELECT
+    category_id,
+    (SUM(month_expense) / 3.0)::numeric AS prev3_avg_expense
+  FROM prev3_by_cat
+  GROUP BY category_id
+)
+
+SELECT DISTINCT ON (coalesce(cur.category_id, p.category_id))
+  COALESCE(cur.category_id, p.category_id) AS category_id,
+  cats.category_name,
+  COALESCE(cur.current_expense, 0)::numeric AS current_expense,
+  i.income_in_month::numeric AS income_in_month,
+  COALESCE(p.prev3_avg_expense, 0)::numeric AS prev3_avg_expense,
+  CASE WHEN COALESCE(p.prev3_avg_expense, 0) = 0 THEN NULL
+       ELSE (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense 
+  END AS deviation_pct,
+  CASE WHEN i.income_in_month = 0 THEN NULL
+       ELSE COALESCE(cur.current_expense, 0) / i.income_in_month 
+  END AS share_over_income,
+  CASE
+    WHEN i.income_in_month > 0
+         AND COALESCE(cur.current_expense, 0) / i.income_in_month > 0.20 THEN 'critico'
+    WHEN COALESCE(p.prev3_avg_expense, 0) > 0
+         AND (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense > 0.20 THEN 'alto'
+    WHEN COALESCE(p.prev3_avg_expense, 0) > 0
+         AND (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense BETWEEN 0.10 AND 0.20 THEN 'medio'
+    ELSE NULL
+  END AS severity
+FROM prev3_avg p
+FULL JOIN cur ON cur.category_id = p.category_id
+INNER JOIN cats ON cats.category_id = COALESCE(cur.category_id, p.category_id)
+CROSS JOIN income i
+WHERE COALESCE(cur.category_id, p.category_id) IS NOT NULL
+ORDER BY COALESCE(cur.category_id, p.category_id), current_expense DESC NULLS LAST;
+$$;
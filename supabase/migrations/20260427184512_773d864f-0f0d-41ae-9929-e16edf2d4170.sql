@@ -0,0 +1,302 @@
+-- Transferências entre contas: um registro único que gera o par de transações
+-- (despesa na conta de origem e receita na conta de destino)
+CREATE TABLE public.transfers (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  from_account_id bigint NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  to_account_id bigint NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  transfer_date date NOT NULL,
+  reference_month date NOT NULL,
+  description text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (from_account_id <> to_account_id)
+);
+
+CREATE INDEX transfers_user_id_idx ON public.transfers (user_id);
+
+ALTER TABLE public.transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transfers" ON public.transfers
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own transfers" ON public.transfers
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own transfers" ON public.transfers
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own transfers" ON public.transfers
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to transfers" ON public.transfers
+  FOR ALL TO anon USING (false);
+
+-- Cada transação do par aponta para a transferência; excluir a transferência exclui o par
+ALTER TABLE public.transactions
+  ADD COLUMN transfer_id bigint REFERENCES public.transfers(id) ON DELETE CASCADE;
+
+CREATE INDEX transactions_transfer_id_idx ON public.transactions (transfer_id)
+  WHERE transfer_id IS NOT NULL;
+
+-- Protege o par: valor, tipo, conta e datas de uma perna só mudam por save_transfer,
+-- e excluir uma perna exclui a transferência inteira (e, em cascata, a outra perna)
+CREATE OR REPLACE FUNCTION public.protect_transfer_transactions()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM transfers WHERE id = OLD.transfer_id;
+    RETURN OLD;
+  END IF;
+
+  IF current_setting('app.saving_transfer', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.transfer_id IS DISTINCT FROM OLD.transfer_id
+     OR NEW.amount <> OLD.amount
+     OR NEW.type <> OLD.type
+     OR NEW.account_id <> OLD.account_id
+     OR NEW.transaction_date <> OLD.transaction_date
+     OR NEW.reference_month <> OLD.reference_month THEN
+    RAISE EXCEPTION 'Transações de uma transferência só podem ser alteradas pela própria transferência';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_transfer_transactions_update
+  BEFORE UPDATE ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.transfer_id IS NOT NULL)
+  EXECUTE FUNCTION public.protect_transfer_transactions();
+
+CREATE TRIGGER protect_transfer_transactions_delete
+  AFTER DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.transfer_id IS NOT NULL)
+  EXECUTE FUNCTION public.protect_transfer_transactions();
+
+-- Cria ou atualiza uma transferência e as duas transações do par, atomicamente
+CREATE OR REPLACE FUNCTION public.save_transfer(
+  from_account_id_input bigint,
+  to_account_id_input bigint,
+  amount_input numeric,
+  transfer_date_input date,
+  reference_month_input date,
+  description_input text DEFAULT NULL,
+  transfer_id_input bigint DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_description text := COALESCE(NULLIF(btrim(description_input), ''), 'Transferência');
+  v_transfer_id bigint := transfer_id_input;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF from_account_id_input IS NULL OR to_account_id_input IS NULL THEN
+    RAISE EXCEPTION 'Informe as contas de origem e de destino';
+  END IF;
+
+  IF from_account_id_input = to_account_id_input THEN
+    RAISE EXCEPTION 'As contas de origem e de destino devem ser diferentes';
+  END IF;
+
+  IF (SELECT count(*) FROM accounts WHERE id IN (from_account_id_input, to_account_id_input) AND user_id = v_user_id) <> 2 THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  IF amount_input IS NULL OR amount_input <= 0 THEN
+    RAISE EXCEPTION 'Valor deve ser maior que zero';
+  END IF;
+
+  IF transfer_date_input IS NULL OR reference_month_input IS NULL THEN
+    RAISE EXCEPTION 'Data e mês de referência são obrigatórios';
+  END IF;
+
+  IF v_transfer_id IS NULL THEN
+    INSERT INTO transfers (user_id, from_account_id, to_account_id, amount, transfer_date, reference_month, description)
+    VALUES (v_user_id, from_account_id_input, to_account_id_input, amount_input, transfer_date_input, reference_month_input, v_description)
+    RETURNING id INTO v_transfer_id;
+
+    INSERT INTO transactions (user_id, account_id, description, amount, type, transaction_date, reference_month, transfer_id)
+    VALUES
+      (v_user_id, from_account_id_input, v_description, amount_input, 'Expense', transfer_date_input, reference_month_input, v_transfer_id),
+      (v_user_id, to_account_id_input, v_description, amount_input, 'Income', transfer_date_input, reference_month_input, v_transfer_id);
+
+    RETURN v_transfer_id;
+  END IF;
+
+  UPDATE transfers
+  SET from_account_id = from_account_id_input,
+      to_account_id = to_account_id_input,
+      amount = amount_input,
+      transfer_date = transfer_date_input,
+      reference_month = reference_month_input,
+      description = v_description
+  WHERE id = v_transfer_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transferência não encontrada';
+  END IF;
+
+  -- Libera a proteção do par apenas até o fim desta transação
+  PERFORM set_config('app.saving_transfer', 'on', true);
+
+  UPDATE transactions
+  SET account_id = CASE WHEN type = 'Expense' THEN from_account_id_input ELSE to_account_id_input END,
+      amount = amount_input,
+      transaction_date = transfer_date_input,
+      reference_month = reference_month_input,
+      description = v_description
+  WHERE transfer_id = v_transfer_id AND user_id = v_user_id;
+
+  PERFORM set_config('app.saving_transfer', 'off', true);
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+-- Exclui a transferência e, em cascata, as duas transações do par
+CREATE OR REPLACE FUNCTION public.delete_transfer(transfer_id_input bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  DELETE FROM transfers WHERE id = transfer_id_input AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transferência não encontrada';
+  END IF;
+END;
+$$;
+
+-- Insights ignoram as transações geradas por transferências
+CREATE OR REPLACE FUNCTION public.get_category_insights(ref_month date)
+ RETURNS TABLE(category_id bigint, category_name text, current_expense numeric, income_in_month numeric, prev3_avg_expense numeric, deviation_pct numeric, share_over_income numeric, severity text)
+ LANGUAGE sql
+ STABLE
+ SET search_path TO 'public'
+AS $$
+WITH m AS (
+  SELECT date_trunc('month', ref_month)::date AS m0
+),
+months_prev3 AS (
+  SELECT (m.m0 - interval '1 month')::date AS month_start FROM m
+  UNION ALL SELECT (m.m0 - interval '2 month')::date FROM m
+  UNION ALL SELECT (m.m0 - interval '3 month')::date FROM m
+),
+
+-- Linhas de lançamento: transações divididas contam por linha, com a categoria de cada linha;
+-- transferências entre contas não são receita nem despesa
+lines AS (
+  SELECT
+    t.type,
+    t.reference_month,
+    COALESCE(s.amount, t.amount) AS amount,
+    CASE WHEN s.id IS NULL THEN t.category_id ELSE s.category_id END AS category_id
+  FROM transactions t
+  LEFT JOIN transaction_splits s ON s.transaction_id = t.id
+  WHERE t.user_id = auth.uid()
+    AND t.transfer_id IS NULL
+),
+
+-- Categorias do usuário (apenas Standard, excluindo Debt, Investment e Transfer)
+cats AS (
+  SELECT DISTINCT c.id AS category_id, c.name AS category_name
+  FROM categories c
+  WHERE c.user_id = auth.uid()
+    AND c.type = 'Standard'
+),
+
+-- Despesas do mês de referência por categoria (apenas categorias Standard)
+cur AS (
+  SELECT
+    t.category_id,
+    SUM(ABS(t.amount))::numeric AS current_expense
+  FROM lines t
+  CROSS JOIN m
+  INNER JOIN cats ON cats.category_id = t.category_id
+  WHERE t.reference_month = m.m0
+    AND (t.amount < 0 OR t.type = 'Expense')
+    AND t.category_id IS NOT NULL
+  GROUP BY t.category_id
+),
+
+-- Receita total do mês de referência (excluindo categorias Transfer)
+income AS (
+  SELECT
+    COALESCE(SUM(CASE WHEN (t.amount > 0 OR t.type = 'Income') THEN t.amount ELSE 0 END), 0)::numeric AS income_in_month
+  FROM lines t
+  CROSS JOIN m
+  LEFT JOIN categories c ON c.id = t.category_id AND c.user_id = auth.uid()
+  WHERE t.reference_month = m.m0
+    AND (c.type IS NULL OR c.type != 'Transfer')
+),
+
+-- Soma de cada um dos 3 meses anteriores por categoria (apenas Standard)
+prev3_by_cat AS (
+  SELECT
+    cats.category_id,
+    mp.month_start,
+    COALESCE(SUM(ABS(t.amount)) FILTER (
+      WHERE t.reference_month = mp.month_start
+        AND (t.amount < 0 OR t.type = 'Expense')
+    ), 0)::numeric AS month_expense
+  FROM cats
+  CROSS JOIN months_prev3 mp
+  LEFT JOIN lines t
+    ON t.category_id = cats.category_id
+  GROUP BY cats.category_id, mp.month_start
+),
+
+-- Média dos 3 meses anteriores
+prev3_avg AS (
+  SELECT
+    category_id,
+    (SUM(month_expense) / 3.0)::numeric AS prev3_avg_expense
+  FROM prev3_by_cat
+  GROUP BY category_id
+)
+
+SELECT DISTINCT ON (coalesce(cur.category_id, p.category_id))
+  COALESCE(cur.category_id, p.category_id) AS category_id,
+  cats.category_name,
+  COALESCE(cur.current_expense, 0)::numeric AS current_expense,
+  i.income_in_month::numeric AS income_in_month,
+  COALESCE(p.prev3_avg_expense, 0)::numeric AS prev3_avg_expense,
+  CASE WHEN COALESCE(p.prev3_avg_expense, 0) = 0 THEN NULL
+       ELSE (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense 
+  END AS deviation_pct,
+  CASE WHEN i.income_in_month = 0 THEN NULL
+       ELSE COALESCE(cur.current_expense, 0) / i.income_in_month 
+  END AS share_over_income,
+  CASE
+    WHEN i.income_in_month > 0
+         AND COALESCE(cur.current_expense, 0) / i.income_in_month > 0.20 THEN 'critico'
+    WHEN COALESCE(p.prev3_avg_expense, 0) > 0
+         AND (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense > 0.20 THEN 'alto'
+    WHEN COALESCE(p.prev3_avg_expense, 0) > 0
+         AND (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense BETWEEN 0.10 AND 0.20 THEN 'medio'
+    ELSE NULL
+  END AS severity
+FROM prev3_avg p
+FULL JOIN cur ON cur.category_id = p.category_id
+INNER JOIN cats ON cats.category_id = COALESCE(cur.category_id, p.category_id)
+CROSS JOIN income i
+WHERE COALESCE(cur.category_id, p.category_id) IS NOT NULL
+ORDER BY COALESCE(cur.category_id, p.category_id), current_expense DESC NULLS LAST;
+$$;
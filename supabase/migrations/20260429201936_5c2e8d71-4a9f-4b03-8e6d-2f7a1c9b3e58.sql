@@ -0,0 +1,227 @@
+-- Lançamentos recorrentes: modelos (aluguel, salário, assinaturas...) que geram
+-- ocorrências pendentes, confirmadas pelo usuário antes de virarem transações
+CREATE TABLE public.recurring_templates (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  type public.transaction_type NOT NULL,
+  account_id bigint NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  category_id bigint REFERENCES public.categories(id) ON DELETE SET NULL,
+  subcategory_id bigint REFERENCES public.subcategories(id) ON DELETE SET NULL,
+  -- Agenda: a cada N semanas, meses ou anos a partir da data de início
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'yearly')),
+  frequency_interval integer NOT NULL DEFAULT 1 CHECK (frequency_interval > 0),
+  day_of_month integer CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date date NOT NULL,
+  -- Um modelo encerrado antes de começar (end_date < start_date) simplesmente não gera nada
+  end_date date,
+  occurrence_count integer CHECK (occurrence_count > 0),
+  -- Última data já materializada em ocorrências
+  generated_until date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX recurring_templates_user_id_idx ON public.recurring_templates (user_id);
+
+ALTER TABLE public.recurring_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurring_templates" ON public.recurring_templates
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own recurring_templates" ON public.recurring_templates
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own recurring_templates" ON public.recurring_templates
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own recurring_templates" ON public.recurring_templates
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to recurring_templates" ON public.recurring_templates
+  FOR ALL TO anon USING (false);
+
+-- Ocorrências de um modelo. Cada data agendada existe uma única vez por modelo, então
+-- gerar de novo não duplica, e ocorrências puladas ou confirmadas não voltam
+CREATE TABLE public.recurring_occurrences (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  template_id bigint NOT NULL REFERENCES public.recurring_templates(id) ON DELETE CASCADE,
+  scheduled_date date NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'skipped')),
+  -- Valores do lançamento, copiados do modelo e editáveis só nesta ocorrência
+  description text NOT NULL,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  type public.transaction_type NOT NULL,
+  account_id bigint NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  category_id bigint REFERENCES public.categories(id) ON DELETE SET NULL,
+  subcategory_id bigint REFERENCES public.subcategories(id) ON DELETE SET NULL,
+  transaction_date date NOT NULL,
+  reference_month date NOT NULL,
+  transaction_id bigint REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (template_id, scheduled_date)
+);
+
+CREATE INDEX recurring_occurrences_user_status_idx
+  ON public.recurring_occurrences (user_id, status, reference_month);
+
+ALTER TABLE public.recurring_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurring_occurrences" ON public.recurring_occurrences
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own recurring_occurrences" ON public.recurring_occurrences
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own recurring_occurrences" ON public.recurring_occurrences
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own recurring_occurrences" ON public.recurring_occurrences
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to recurring_occurrences" ON public.recurring_occurrences
+  FOR ALL TO anon USING (false);
+
+-- Confirma ocorrências pendentes: cria a transação de cada uma e a marca como confirmada
+CREATE OR REPLACE FUNCTION public.confirm_recurring_occurrences(occurrence_ids_input bigint[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_occurrence record;
+  v_transaction_id bigint;
+  v_count integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  FOR v_occurrence IN
+    SELECT *
+    FROM recurring_occurrences
+    WHERE id = ANY(occurrence_ids_input)
+      AND user_id = v_user_id
+      AND status = 'pending'
+    ORDER BY transaction_date, id
+    FOR UPDATE
+  LOOP
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, type,
+      transaction_date, reference_month, category_id, subcategory_id
+    )
+    VALUES (
+      v_user_id, v_occurrence.account_id, v_occurrence.description, v_occurrence.amount, v_occurrence.type,
+      v_occurrence.transaction_date, v_occurrence.reference_month, v_occurrence.category_id, v_occurrence.subcategory_id
+    )
+    RETURNING id INTO v_transaction_id;
+
+    UPDATE recurring_occurrences
+    SET status = 'confirmed', transaction_id = v_transaction_id
+    WHERE id = v_occurrence.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Altera um modelo a partir de uma data ("esta e as futuras"). As ocorrências pendentes
+-- a partir da data são descartadas para serem geradas de novo com os novos valores.
+-- Se o modelo já tem ocorrências anteriores, ele é encerrado na véspera e um novo modelo
+-- assume a partir da data, preservando o histórico; caso contrário é alterado no lugar.
+-- Retorna o id do modelo que vale a partir da data.
+CREATE OR REPLACE FUNCTION public.update_recurring_template(
+  template_id_input bigint,
+  template_input jsonb,
+  from_date_input date
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_start_date date := (template_input->>'start_date')::date;
+  v_last_occurrence date;
+  v_template_id bigint;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF from_date_input IS NULL OR v_start_date IS NULL THEN
+    RAISE EXCEPTION 'Informe a data a partir da qual o modelo muda';
+  END IF;
+
+  PERFORM 1 FROM recurring_templates
+  WHERE id = template_id_input AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lançamento recorrente não encontrado';
+  END IF;
+
+  DELETE FROM recurring_occurrences
+  WHERE template_id = template_id_input
+    AND status = 'pending'
+    AND scheduled_date >= from_date_input;
+
+  IF NOT EXISTS (SELECT 1 FROM recurring_occurrences WHERE template_id = template_id_input) THEN
+    UPDATE recurring_templates
+    SET description = template_input->>'description',
+        amount = (template_input->>'amount')::numeric,
+        type = (template_input->>'type')::transaction_type,
+        account_id = (template_input->>'account_id')::bigint,
+        category_id = (template_input->>'category_id')::bigint,
+        subcategory_id = (template_input->>'subcategory_id')::bigint,
+        frequency = template_input->>'frequency',
+        frequency_interval = (template_input->>'frequency_interval')::integer,
+        day_of_month = (template_input->>'day_of_month')::integer,
+        start_date = v_start_date,
+        end_date = (template_input->>'end_date')::date,
+        occurrence_count = (template_input->>'occurrence_count')::integer,
+        is_active = COALESCE((template_input->>'is_active')::boolean, true),
+        generated_until = NULL
+    WHERE id = template_id_input;
+
+    RETURN template_id_input;
+  END IF;
+
+  SELECT max(scheduled_date) INTO v_last_occurrence
+  FROM recurring_occurrences
+  WHERE template_id = template_id_input
+    AND scheduled_date < from_date_input;
+
+  IF v_last_occurrence IS NOT NULL AND v_start_date <= v_last_occurrence THEN
+    RAISE EXCEPTION 'A nova data de início deve ser posterior à última ocorrência já lançada (%)',
+      to_char(v_last_occurrence, 'DD/MM/YYYY');
+  END IF;
+
+  UPDATE recurring_templates
+  SET end_date = from_date_input - 1
+  WHERE id = template_id_input;
+
+  INSERT INTO recurring_templates (
+    user_id, description, amount, type, account_id, category_id, subcategory_id,
+    frequency, frequency_interval, day_of_month, start_date, end_date, occurrence_count, is_active
+  )
+  VALUES (
+    v_user_id,
+    template_input->>'description',
+    (template_input->>'amount')::numeric,
+    (template_input->>'type')::transaction_type,
+    (template_input->>'account_id')::bigint,
+    (template_input->>'category_id')::bigint,
+    (template_input->>'subcategory_id')::bigint,
+    template_input->>'frequency',
+    (template_input->>'frequency_interval')::integer,
+    (template_input->>'day_of_month')::integer,
+    v_start_date,
+    (template_input->>'end_date')::date,
+    (template_input->>'occurrence_count')::integer,
+    COALESCE((template_input->>'is_active')::boolean, true)
+  )
+  RETURNING id INTO v_template_id;
+
+  RETURN v_template_id;
+END;
+$$;
@@ -0,0 +1,204 @@
+-- Compras parceladas lançadas manualmente: a compra é registrada uma vez e gera
+-- uma transação por mês. Também permite a quitação antecipada das parcelas restantes.
+
+-- Parcela a partir da qual a compra foi quitada antecipadamente
+ALTER TABLE public.installment_purchases
+  ADD COLUMN paid_off_from integer,
+  ADD CONSTRAINT installment_purchases_paid_off_from_check
+    CHECK (paid_off_from IS NULL OR paid_off_from BETWEEN 1 AND total_installments);
+
+-- Cria a compra e as parcelas. Informa-se o valor total ou o valor da parcela; com o total,
+-- os centavos que não dividem igualmente ficam na primeira parcela
+CREATE OR REPLACE FUNCTION public.create_installment_purchase(
+  account_id_input bigint,
+  description_input text,
+  total_installments_input integer,
+  first_reference_month_input date,
+  first_transaction_date_input date,
+  total_amount_input numeric DEFAULT NULL,
+  installment_amount_input numeric DEFAULT NULL,
+  category_id_input bigint DEFAULT NULL,
+  subcategory_id_input bigint DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_description text := NULLIF(btrim(description_input), '');
+  v_category_type public.category_type;
+  v_total numeric;
+  v_installment numeric;
+  v_first_installment numeric;
+  v_purchase_id bigint;
+  v_number integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = account_id_input AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  IF v_description IS NULL THEN
+    RAISE EXCEPTION 'Descrição é obrigatória';
+  END IF;
+
+  IF total_installments_input IS NULL OR total_installments_input NOT BETWEEN 2 AND 120 THEN
+    RAISE EXCEPTION 'O número de parcelas deve estar entre 2 e 120';
+  END IF;
+
+  IF first_reference_month_input IS NULL OR first_transaction_date_input IS NULL THEN
+    RAISE EXCEPTION 'Data e mês de referência da primeira parcela são obrigatórios';
+  END IF;
+
+  IF (total_amount_input IS NULL) = (installment_amount_input IS NULL) THEN
+    RAISE EXCEPTION 'Informe o valor total ou o valor da parcela';
+  END IF;
+
+  IF COALESCE(total_amount_input, installment_amount_input) <= 0 THEN
+    RAISE EXCEPTION 'Valor deve ser maior que zero';
+  END IF;
+
+  IF category_id_input IS NOT NULL THEN
+    SELECT type INTO v_category_type FROM categories WHERE id = category_id_input AND user_id = v_user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Categoria não encontrada';
+    END IF;
+    IF v_category_type IN ('Debt', 'Investment') THEN
+      RAISE EXCEPTION 'Compras parceladas não podem usar categorias de dívidas ou investimentos';
+    END IF;
+  END IF;
+
+  IF subcategory_id_input IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM subcategories
+    WHERE id = subcategory_id_input AND user_id = v_user_id AND category_id = category_id_input
+  ) THEN
+    RAISE EXCEPTION 'Subcategoria não pertence à categoria selecionada';
+  END IF;
+
+  IF total_amount_input IS NOT NULL THEN
+    v_total := round(total_amount_input, 2);
+    v_installment := floor(v_total * 100 / total_installments_input) / 100;
+    IF v_installment <= 0 THEN
+      RAISE EXCEPTION 'Valor total insuficiente para o número de parcelas';
+    END IF;
+  ELSE
+    v_installment := round(installment_amount_input, 2);
+    v_total := v_installment * total_installments_input;
+  END IF;
+  v_first_installment := v_total - v_installment * (total_installments_input - 1);
+
+  INSERT INTO installment_purchases (
+    user_id, account_id, description, total_amount, installment_amount, total_installments,
+    first_reference_month, category_id, subcategory_id
+  ) VALUES (
+    v_user_id, account_id_input, v_description, v_total, v_installment, total_installments_input,
+    date_trunc('month', first_reference_month_input)::date, category_id_input, subcategory_id_input
+  )
+  RETURNING id INTO v_purchase_id;
+
+  -- Uma parcela por mês; datas no dia 31 caem no último dia dos meses mais curtos
+  FOR v_number IN 1..total_installments_input LOOP
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, type, transaction_date, reference_month,
+      category_id, subcategory_id, installment_purchase_id, installment_number
+    ) VALUES (
+      v_user_id,
+      account_id_input,
+      v_description,
+      CASE WHEN v_number = 1 THEN v_first_installment ELSE v_installment END,
+      'Expense',
+      (first_transaction_date_input + make_interval(months => v_number - 1))::date,
+      (date_trunc('month', first_reference_month_input) + make_interval(months => v_number - 1))::date,
+      category_id_input,
+      subcategory_id_input,
+      v_purchase_id,
+      v_number
+    );
+  END LOOP;
+
+  RETURN v_purchase_id;
+END;
+$$;
+
+-- Quitação antecipada: as parcelas a partir de from_installment_input são substituídas
+-- por uma única transação com o valor pago (que pode ter desconto). Retorna o id dessa transação.
+CREATE OR REPLACE FUNCTION public.pay_off_installment_purchase(
+  purchase_id_input bigint,
+  from_installment_input integer,
+  amount_input numeric,
+  transaction_date_input date,
+  reference_month_input date
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_purchase record;
+  v_transaction_id bigint;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_purchase
+  FROM installment_purchases
+  WHERE id = purchase_id_input AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Compra parcelada não encontrada';
+  END IF;
+
+  IF v_purchase.paid_off_from IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta compra já foi quitada';
+  END IF;
+
+  IF from_installment_input IS NULL OR from_installment_input NOT BETWEEN 1 AND v_purchase.total_installments THEN
+    RAISE EXCEPTION 'Parcela inicial da quitação inválida';
+  END IF;
+
+  IF amount_input IS NULL OR amount_input <= 0 THEN
+    RAISE EXCEPTION 'Valor deve ser maior que zero';
+  END IF;
+
+  IF transaction_date_input IS NULL OR reference_month_input IS NULL THEN
+    RAISE EXCEPTION 'Data e mês de referência são obrigatórios';
+  END IF;
+
+  DELETE FROM transactions
+  WHERE installment_purchase_id = purchase_id_input
+    AND user_id = v_user_id
+    AND installment_number >= from_installment_input;
+
+  INSERT INTO transactions (
+    user_id, account_id, description, amount, type, transaction_date, reference_month,
+    category_id, subcategory_id, installment_purchase_id
+  ) VALUES (
+    v_user_id,
+    v_purchase.account_id,
+    'Quitação antecipada: ' || v_purchase.description,
+    round(amount_input, 2),
+    'Expense',
+    transaction_date_input,
+    date_trunc('month', reference_month_input)::date,
+    v_purchase.category_id,
+    v_purchase.subcategory_id,
+    purchase_id_input
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE installment_purchases
+  SET paid_off_from = from_installment_input
+  WHERE id = purchase_id_input;
+
+  RETURN v_transaction_id;
+END;
+$$;
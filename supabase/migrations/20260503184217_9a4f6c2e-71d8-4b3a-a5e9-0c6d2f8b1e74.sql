@@ -0,0 +1,462 @@
+-- Tags: rótulos livres que atravessam as categorias (ex.: "viagem-2026", "reembolsável").
+-- Uma transação pode ter várias tags e uma tag pode estar em várias transações.
+CREATE TABLE public.tags (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX tags_user_id_idx ON public.tags (user_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tags" ON public.tags
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own tags" ON public.tags
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own tags" ON public.tags
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own tags" ON public.tags
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to tags" ON public.tags
+  FOR ALL TO anon USING (false);
+
+CREATE TABLE public.transaction_tags (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  transaction_id bigint NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  tag_id bigint NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (transaction_id, tag_id)
+);
+
+CREATE INDEX transaction_tags_tag_id_idx ON public.transaction_tags (tag_id);
+CREATE INDEX transaction_tags_user_id_idx ON public.transaction_tags (user_id);
+
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction_tags" ON public.transaction_tags
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own transaction_tags" ON public.transaction_tags
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own transaction_tags" ON public.transaction_tags
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own transaction_tags" ON public.transaction_tags
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to transaction_tags" ON public.transaction_tags
+  FOR ALL TO anon USING (false);
+
+-- Normaliza os nomes (sem espaços nas pontas, minúsculas), cria as tags que ainda
+-- não existem e retorna os ids, sem repetições
+CREATE OR REPLACE FUNCTION public.ensure_tags(tag_names_input text[])
+RETURNS bigint[]
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_names text[];
+  v_ids bigint[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT n), '{}') INTO v_names
+  FROM (
+    SELECT lower(regexp_replace(btrim(name), '\s+', ' ', 'g')) AS n
+    FROM unnest(COALESCE(tag_names_input, '{}')) AS name
+  ) names
+  WHERE n <> '';
+
+  IF EXISTS (SELECT 1 FROM unnest(v_names) AS n WHERE char_length(n) > 50) THEN
+    RAISE EXCEPTION 'Cada tag deve ter no máximo 50 caracteres';
+  END IF;
+
+  INSERT INTO tags (user_id, name)
+  SELECT v_user_id, n FROM unnest(v_names) AS n
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_ids
+  FROM tags
+  WHERE user_id = v_user_id AND name = ANY(v_names);
+
+  RETURN v_ids;
+END;
+$$;
+
+-- Substitui as tags de uma transação; um array vazio remove todas
+CREATE OR REPLACE FUNCTION public.set_transaction_tags(transaction_id_input bigint, tag_names_input text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tag_ids bigint[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM transactions WHERE id = transaction_id_input AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Transação não encontrada';
+  END IF;
+
+  v_tag_ids := ensure_tags(tag_names_input);
+
+  DELETE FROM transaction_tags
+  WHERE transaction_id = transaction_id_input
+    AND user_id = v_user_id
+    AND NOT (tag_id = ANY(v_tag_ids));
+
+  INSERT INTO transaction_tags (user_id, transaction_id, tag_id)
+  SELECT v_user_id, transaction_id_input, unnest(v_tag_ids)
+  ON CONFLICT (transaction_id, tag_id) DO NOTHING;
+END;
+$$;
+
+-- Resumo por tag num intervalo de meses de referência. Transferências não entram;
+-- uma transação com várias tags conta inteira em cada uma delas.
+CREATE OR REPLACE FUNCTION public.get_tag_summary(start_month_input date, end_month_input date)
+RETURNS TABLE(tag_id bigint, tag_name text, expense_total numeric, income_total numeric, transaction_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    g.id AS tag_id,
+    g.name AS tag_name,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'Expense'), 0)::numeric AS expense_total,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'Income'), 0)::numeric AS income_total,
+    COUNT(t.id) AS transaction_count
+  FROM tags g
+  LEFT JOIN transaction_tags tt ON tt.tag_id = g.id
+  LEFT JOIN transactions t
+    ON t.id = tt.transaction_id
+   AND t.transfer_id IS NULL
+   AND t.reference_month BETWEEN date_trunc('month', start_month_input)::date AND date_trunc('month', end_month_input)::date
+  WHERE g.user_id = auth.uid()
+  GROUP BY g.id, g.name
+  ORDER BY expense_total DESC, g.name;
+$$;
+
+-- A importação em lote aceita tags (campo tags de cada linha, com os nomes)
+CREATE OR REPLACE FUNCTION public.import_transactions_batch(
+  account_id_input bigint,
+  rows_input jsonb,
+  file_name_input text DEFAULT NULL,
+  reference_month_input date DEFAULT NULL,
+  purchases_input jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_row jsonb;
+  v_ordinality bigint;
+  v_row_index integer;
+  v_errors jsonb := '[]'::jsonb;
+  v_seen_fitids text[] := '{}';
+  v_description text;
+  v_amount numeric;
+  v_type public.transaction_type;
+  v_transaction_date date;
+  v_reference_month date;
+  v_category_id bigint;
+  v_category_type public.category_type;
+  v_subcategory_id bigint;
+  v_debt_id bigint;
+  v_investment_id bigint;
+  v_fitid text;
+  v_inserted integer := 0;
+  v_batch_id bigint;
+  v_installment_purchase_id bigint;
+  v_installment_number integer;
+  v_installment_group text;
+  v_total_installments integer;
+  v_purchase jsonb;
+  v_purchase_ids jsonb := '{}'::jsonb;
+  v_new_purchase_id bigint;
+  v_splits jsonb;
+  v_split_error text;
+  v_transaction_id bigint;
+  v_tags jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = account_id_input AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Conta de destino não encontrada';
+  END IF;
+
+  IF rows_input IS NULL OR jsonb_typeof(rows_input) <> 'array' OR jsonb_array_length(rows_input) = 0 THEN
+    RAISE EXCEPTION 'Nenhuma transação para importar';
+  END IF;
+
+  -- 1. Validação de todas as linhas
+  FOR v_row, v_ordinality IN
+    SELECT value, ordinality FROM jsonb_array_elements(rows_input) WITH ORDINALITY
+  LOOP
+    v_row_index := COALESCE((v_row->>'row_index')::integer, v_ordinality::integer - 1);
+
+    BEGIN
+      v_description := NULLIF(btrim(v_row->>'description'), '');
+      v_amount := (v_row->>'amount')::numeric;
+      v_type := (v_row->>'type')::public.transaction_type;
+      v_transaction_date := (v_row->>'transaction_date')::date;
+      v_reference_month := (v_row->>'reference_month')::date;
+      v_category_id := (v_row->>'category_id')::bigint;
+      v_subcategory_id := (v_row->>'subcategory_id')::bigint;
+      v_debt_id := (v_row->>'debt_id')::bigint;
+      v_investment_id := (v_row->>'investment_id')::bigint;
+      v_fitid := NULLIF(v_row->>'fitid', '');
+      v_installment_purchase_id := (v_row->>'installment_purchase_id')::bigint;
+      v_installment_number := (v_row->>'installment_number')::integer;
+      v_installment_group := NULLIF(v_row->>'installment_group', '');
+    EXCEPTION WHEN invalid_text_representation OR invalid_datetime_format OR datetime_field_overflow OR numeric_value_out_of_range THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Dados inválidos: ' || SQLERRM);
+      CONTINUE;
+    END;
+
+    IF v_description IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Descrição é obrigatória');
+      CONTINUE;
+    END IF;
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Valor deve ser maior que zero');
+      CONTINUE;
+    END IF;
+
+    IF v_type IS NULL OR v_transaction_date IS NULL OR v_reference_month IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Tipo, data e mês de referência são obrigatórios');
+      CONTINUE;
+    END IF;
+
+    v_category_type := NULL;
+    IF v_category_id IS NOT NULL THEN
+      SELECT type INTO v_category_type FROM categories WHERE id = v_category_id AND user_id = v_user_id;
+      IF NOT FOUND THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Categoria não encontrada');
+        CONTINUE;
+      END IF;
+    END IF;
+
+    IF v_subcategory_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM subcategories
+      WHERE id = v_subcategory_id AND user_id = v_user_id AND category_id = v_category_id
+    ) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Subcategoria não pertence à categoria selecionada');
+      CONTINUE;
+    END IF;
+
+    IF v_category_type = 'Debt' AND v_debt_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Para categorias de dívidas, é obrigatório vincular a uma dívida');
+      CONTINUE;
+    END IF;
+
+    IF v_category_type = 'Investment' AND v_investment_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Para categorias de investimentos, é obrigatório vincular a um investimento');
+      CONTINUE;
+    END IF;
+
+    IF v_debt_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM debts WHERE id = v_debt_id AND user_id = v_user_id) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Dívida não encontrada');
+      CONTINUE;
+    END IF;
+
+    IF v_investment_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM investments WHERE id = v_investment_id AND user_id = v_user_id) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Investimento não encontrado');
+      CONTINUE;
+    END IF;
+
+    -- Linhas da divisão, quando a transação é repartida entre categorias
+    v_splits := v_row->'splits';
+    IF jsonb_typeof(v_splits) = 'array' AND jsonb_array_length(v_splits) > 0 THEN
+      IF v_debt_id IS NOT NULL OR v_investment_id IS NOT NULL THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Transações vinculadas a dívidas ou investimentos não podem ser divididas');
+        CONTINUE;
+      END IF;
+
+      v_split_error := transaction_splits_error(v_splits, v_amount);
+      IF v_split_error IS NOT NULL THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', v_split_error);
+        CONTINUE;
+      END IF;
+    END IF;
+
+    v_tags := v_row->'tags';
+    IF v_tags IS NOT NULL AND jsonb_typeof(v_tags) <> 'null' THEN
+      IF jsonb_typeof(v_tags) <> 'array' OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(v_tags) t
+        WHERE jsonb_typeof(t) <> 'string' OR char_length(btrim(t #>> '{}')) NOT BETWEEN 1 AND 50
+      ) THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Tags inválidas: cada tag deve ter entre 1 e 50 caracteres');
+        CONTINUE;
+      END IF;
+    END IF;
+
+    -- Parcela vinculada a uma compra existente ou a uma compra criada neste lote
+    v_total_installments := NULL;
+    IF v_installment_purchase_id IS NOT NULL THEN
+      SELECT total_installments INTO v_total_installments
+      FROM installment_purchases
+      WHERE id = v_installment_purchase_id AND user_id = v_user_id;
+      IF NOT FOUND THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Compra parcelada não encontrada');
+        CONTINUE;
+      END IF;
+    ELSIF v_installment_group IS NOT NULL THEN
+      SELECT (p->>'total_installments')::integer INTO v_total_installments
+      FROM jsonb_array_elements(COALESCE(purchases_input, '[]'::jsonb)) p
+      WHERE p->>'group' = v_installment_group;
+      IF v_total_installments IS NULL THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Compra parcelada a criar não foi informada');
+        CONTINUE;
+      END IF;
+    END IF;
+
+    IF v_total_installments IS NOT NULL
+       AND (v_installment_number IS NULL OR v_installment_number < 1 OR v_installment_number > v_total_installments) THEN
+      v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Número da parcela inválido para a compra parcelada');
+      CONTINUE;
+    END IF;
+
+    IF v_fitid IS NOT NULL THEN
+      IF v_fitid = ANY(v_seen_fitids) OR EXISTS (
+        SELECT 1 FROM transactions WHERE account_id = account_id_input AND fitid = v_fitid
+      ) THEN
+        v_errors := v_errors || jsonb_build_object('row_index', v_row_index, 'message', 'Transação já importada anteriormente para esta conta');
+        CONTINUE;
+      END IF;
+      v_seen_fitids := array_append(v_seen_fitids, v_fitid);
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'inserted_count', 0, 'batch_id', NULL, 'errors', v_errors);
+  END IF;
+
+  -- 2. Gravação: lote, transações e impacto patrimonial, na ordem do arquivo
+  INSERT INTO import_batches (user_id, account_id, file_name, reference_month, row_count)
+  VALUES (
+    v_user_id,
+    account_id_input,
+    COALESCE(NULLIF(btrim(file_name_input), ''), 'Importação sem nome'),
+    COALESCE(reference_month_input, date_trunc('month', now())::date),
+    jsonb_array_length(rows_input)
+  )
+  RETURNING id INTO v_batch_id;
+
+  -- Compras parceladas detectadas no arquivo que o usuário optou por criar
+  FOR v_purchase IN SELECT value FROM jsonb_array_elements(COALESCE(purchases_input, '[]'::jsonb)) LOOP
+    INSERT INTO installment_purchases (
+      user_id, account_id, description, total_amount, installment_amount, total_installments,
+      first_reference_month, category_id, subcategory_id, batch_id
+    ) VALUES (
+      v_user_id,
+      account_id_input,
+      btrim(v_purchase->>'description'),
+      (v_purchase->>'total_amount')::numeric,
+      (v_purchase->>'installment_amount')::numeric,
+      (v_purchase->>'total_installments')::integer,
+      (v_purchase->>'first_reference_month')::date,
+      (v_purchase->>'category_id')::bigint,
+      (v_purchase->>'subcategory_id')::bigint,
+      v_batch_id
+    )
+    RETURNING id INTO v_new_purchase_id;
+
+    v_purchase_ids := v_purchase_ids || jsonb_build_object(v_purchase->>'group', v_new_purchase_id);
+  END LOOP;
+
+  FOR v_row IN
+    SELECT value FROM jsonb_array_elements(rows_input) WITH ORDINALITY ORDER BY ordinality
+  LOOP
+    v_amount := (v_row->>'amount')::numeric;
+    v_type := (v_row->>'type')::public.transaction_type;
+    v_debt_id := (v_row->>'debt_id')::bigint;
+    v_investment_id := (v_row->>'investment_id')::bigint;
+    v_splits := CASE WHEN jsonb_typeof(v_row->'splits') = 'array' THEN v_row->'splits' ELSE '[]'::jsonb END;
+
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, type, transaction_date, reference_month,
+      category_id, subcategory_id, debt_id, investment_id, fitid, batch_id,
+      installment_purchase_id, installment_number
+    ) VALUES (
+      v_user_id,
+      account_id_input,
+      btrim(v_row->>'description'),
+      v_amount,
+      v_type,
+      (v_row->>'transaction_date')::date,
+      (v_row->>'reference_month')::date,
+      CASE WHEN jsonb_array_length(v_splits) = 0 THEN (v_row->>'category_id')::bigint END,
+      CASE WHEN jsonb_array_length(v_splits) = 0 THEN (v_row->>'subcategory_id')::bigint END,
+      v_debt_id,
+      v_investment_id,
+      NULLIF(v_row->>'fitid', ''),
+      v_batch_id,
+      COALESCE((v_row->>'installment_purchase_id')::bigint, (v_purchase_ids->>(v_row->>'installment_group'))::bigint),
+      (v_row->>'installment_number')::integer
+    )
+    RETURNING id INTO v_transaction_id;
+
+    -- Transação dividida: a categoria fica nas linhas
+    INSERT INTO transaction_splits (user_id, transaction_id, amount, category_id, subcategory_id)
+    SELECT
+      v_user_id,
+      v_transaction_id,
+      (s->>'amount')::numeric,
+      (s->>'category_id')::bigint,
+      (s->>'subcategory_id')::bigint
+    FROM jsonb_array_elements(v_splits) WITH ORDINALITY AS e(s, ordinality)
+    ORDER BY ordinality;
+
+    IF jsonb_typeof(v_row->'tags') = 'array' AND jsonb_array_length(v_row->'tags') > 0 THEN
+      INSERT INTO transaction_tags (user_id, transaction_id, tag_id)
+      SELECT v_user_id, v_transaction_id, unnest(ensure_tags(ARRAY(SELECT jsonb_array_elements_text(v_row->'tags'))))
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    -- Pagamento de dívida: abate o saldo e uma parcela
+    IF v_debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = GREATEST(0, current_balance - v_amount),
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE GREATEST(0, remaining_installments - 1)
+          END
+      WHERE id = v_debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Aporte (despesa) soma ao investimento; resgate (receita) subtrai
+    IF v_investment_id IS NOT NULL THEN
+      IF v_type = 'Expense' THEN
+        UPDATE investments
+        SET initial_amount = CASE WHEN current_balance = 0 THEN v_amount ELSE initial_amount END,
+            current_balance = current_balance + v_amount
+        WHERE id = v_investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_amount)
+        WHERE id = v_investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    v_inserted := v_inserted + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'inserted_count', v_inserted, 'batch_id', v_batch_id, 'errors', '[]'::jsonb);
+END;
+$$;
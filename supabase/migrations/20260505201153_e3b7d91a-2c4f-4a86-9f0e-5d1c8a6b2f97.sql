@@ -0,0 +1,54 @@
+-- Anexos de transações: fotos de recibos, boletos e notas fiscais em PDF.
+-- Os arquivos ficam num bucket privado, em pastas por usuário: <user_id>/<transaction_id>/<arquivo>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'transaction-attachments',
+  'transaction-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Cada usuário só acessa a própria pasta do bucket
+CREATE POLICY "Users can view own attachment files" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'transaction-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can insert own attachment files" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'transaction-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can update own attachment files" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (bucket_id = 'transaction-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can delete own attachment files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'transaction-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Metadados dos anexos. O registro some junto com a transação; o arquivo é
+-- removido do bucket pelo aplicativo ao excluir a transação
+CREATE TABLE public.transaction_attachments (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  transaction_id bigint NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+  content_type text NOT NULL,
+  size_bytes integer NOT NULL CHECK (size_bytes > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX transaction_attachments_transaction_id_idx ON public.transaction_attachments (transaction_id);
+CREATE INDEX transaction_attachments_user_id_idx ON public.transaction_attachments (user_id);
+
+ALTER TABLE public.transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction_attachments" ON public.transaction_attachments
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own transaction_attachments" ON public.transaction_attachments
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own transaction_attachments" ON public.transaction_attachments
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own transaction_attachments" ON public.transaction_attachments
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to transaction_attachments" ON public.transaction_attachments
+  FOR ALL TO anon USING (false);
@@ -0,0 +1,27 @@
+-- Visões salvas da página de transações: um nome para uma combinação de filtros e
+-- ordenação, guardada como a query string da página (ex.: "tipo=Expense&categoria=3").
+-- As visões fixadas aparecem no cabeçalho da página.
+CREATE TABLE public.saved_views (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  query text NOT NULL DEFAULT '' CHECK (char_length(query) <= 2000),
+  is_pinned boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX saved_views_user_id_idx ON public.saved_views (user_id);
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved_views" ON public.saved_views
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own saved_views" ON public.saved_views
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own saved_views" ON public.saved_views
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own saved_views" ON public.saved_views
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to saved_views" ON public.saved_views
+  FOR ALL TO anon USING (false);
@@ -0,0 +1,70 @@
+-- Lista de transações paginada no servidor: a view expõe os nomes de categoria,
+-- subcategoria e conta para ordenar por eles no banco, e marca a perna de entrada
+-- das transferências para que cada transferência apareça uma única vez.
+-- security_invoker faz a view respeitar as políticas RLS de transactions.
+CREATE VIEW public.transaction_list
+WITH (security_invoker = true) AS
+SELECT
+  t.*,
+  c.name AS category_name,
+  s.name AS subcategory_name,
+  a.name AS account_name,
+  (t.transfer_id IS NOT NULL AND t.type = 'Income') AS is_transfer_in
+FROM public.transactions t
+LEFT JOIN public.categories c ON c.id = t.category_id
+LEFT JOIN public.subcategories s ON s.id = t.subcategory_id
+LEFT JOIN public.accounts a ON a.id = t.account_id;
+
+GRANT SELECT ON public.transaction_list TO authenticated;
+
+-- Ordenação padrão da página (data mais recente primeiro, id como desempate)
+CREATE INDEX transactions_user_date_idx ON public.transactions (user_id, transaction_date DESC, id DESC);
+
+-- Totais de receitas e despesas de todo o conjunto filtrado, não só da página
+-- carregada. Os filtros são os mesmos da lista; parâmetros nulos não filtram.
+-- Transferências não entram nos totais.
+CREATE OR REPLACE FUNCTION public.get_transaction_list_totals(
+  reference_month_input date DEFAULT NULL,
+  type_input text DEFAULT NULL,
+  account_id_input bigint DEFAULT NULL,
+  category_id_input bigint DEFAULT NULL,
+  subcategory_id_input bigint DEFAULT NULL,
+  tag_id_input bigint DEFAULT NULL,
+  description_input text DEFAULT NULL
+)
+RETURNS TABLE (
+  income_total numeric,
+  expense_total numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'Income'), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'Expense'), 0)
+  FROM transactions t
+  WHERE t.user_id = v_user_id
+    AND t.transfer_id IS NULL
+    AND (reference_month_input IS NULL OR t.reference_month = reference_month_input)
+    -- 'Transfer' não casa com nenhum tipo: o filtro só de transferências tem totais zero
+    AND (type_input IS NULL OR t.type::text = type_input)
+    AND (account_id_input IS NULL OR t.account_id = account_id_input)
+    AND (category_id_input IS NULL OR t.category_id = category_id_input)
+    AND (subcategory_id_input IS NULL OR t.subcategory_id = subcategory_id_input)
+    AND (description_input IS NULL OR t.description ILIKE '%' || description_input || '%')
+    AND (tag_id_input IS NULL OR EXISTS (
+      SELECT 1 FROM transaction_tags tt
+      WHERE tt.transaction_id = t.id AND tt.tag_id = tag_id_input
+    ));
+END;
+$$;
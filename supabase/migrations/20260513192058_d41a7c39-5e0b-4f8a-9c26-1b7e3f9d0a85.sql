@@ -0,0 +1,117 @@
+-- Busca estruturada de transações (ex.: valor>200 categoria:Mercado -tag:reembolsavel).
+-- A view ganha os nomes das tags de cada transação, para filtrar por tag na própria lista.
+CREATE OR REPLACE VIEW public.transaction_list
+WITH (security_invoker = true) AS
+SELECT
+  t.*,
+  c.name AS category_name,
+  s.name AS subcategory_name,
+  a.name AS account_name,
+  (t.transfer_id IS NOT NULL AND t.type = 'Income') AS is_transfer_in,
+  ARRAY(
+    SELECT tg.name
+    FROM public.transaction_tags tt
+    JOIN public.tags tg ON tg.id = tt.tag_id
+    WHERE tt.transaction_id = t.id
+  ) AS tag_names
+FROM public.transactions t
+LEFT JOIN public.categories c ON c.id = t.category_id
+LEFT JOIN public.subcategories s ON s.id = t.subcategory_id
+LEFT JOIN public.accounts a ON a.id = t.account_id;
+
+-- Os totais passam a aplicar as condições da busca no lugar do filtro por descrição.
+-- Cada condição é {column, operator, value, negated}, no formato dos filtros do PostgREST
+-- que a página aplica à lista; colunas e operadores fora da lista são rejeitados.
+DROP FUNCTION IF EXISTS public.get_transaction_list_totals(date, text, bigint, bigint, bigint, bigint, text);
+
+CREATE OR REPLACE FUNCTION public.get_transaction_list_totals(
+  reference_month_input date DEFAULT NULL,
+  type_input text DEFAULT NULL,
+  account_id_input bigint DEFAULT NULL,
+  category_id_input bigint DEFAULT NULL,
+  subcategory_id_input bigint DEFAULT NULL,
+  tag_id_input bigint DEFAULT NULL,
+  conditions_input jsonb DEFAULT '[]'
+)
+RETURNS TABLE (
+  income_total numeric,
+  expense_total numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_condition jsonb;
+  v_column text;
+  v_operator text;
+  v_clause text;
+  v_where text := '';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  FOR v_condition IN SELECT * FROM jsonb_array_elements(COALESCE(conditions_input, '[]'))
+  LOOP
+    v_column := v_condition->>'column';
+    v_operator := CASE v_condition->>'operator'
+      WHEN 'eq' THEN '='
+      WHEN 'gt' THEN '>'
+      WHEN 'gte' THEN '>='
+      WHEN 'lt' THEN '<'
+      WHEN 'lte' THEN '<='
+      WHEN 'ilike' THEN 'ILIKE'
+      WHEN 'cs' THEN '@>'
+      WHEN 'is' THEN 'IS'
+    END;
+
+    IF v_column IS NULL OR v_column NOT IN (
+      'description', 'amount', 'type', 'transaction_date', 'reference_month', 'transfer_id',
+      'category_name', 'subcategory_name', 'account_name', 'tag_names'
+    ) THEN
+      RAISE EXCEPTION 'Campo de busca inválido: %', v_column;
+    END IF;
+
+    IF v_operator IS NULL THEN
+      RAISE EXCEPTION 'Operador de busca inválido: %', v_condition->>'operator';
+    END IF;
+
+    -- "is" só é usado com null
+    v_clause := CASE
+      WHEN v_operator = 'IS' THEN format('%I IS NULL', v_column)
+      ELSE format('%I %s %L', v_column, v_operator, v_condition->>'value')
+    END;
+
+    IF COALESCE((v_condition->>'negated')::boolean, false) THEN
+      v_clause := format('NOT (%s)', v_clause);
+    END IF;
+
+    v_where := v_where || ' AND ' || v_clause;
+  END LOOP;
+
+  -- Transferências não entram nos totais
+  RETURN QUERY EXECUTE format(
+    'SELECT
+       COALESCE(SUM(amount) FILTER (WHERE type = ''Income''), 0),
+       COALESCE(SUM(amount) FILTER (WHERE type = ''Expense''), 0)
+     FROM transaction_list
+     WHERE user_id = $1
+       AND transfer_id IS NULL
+       AND ($2::date IS NULL OR reference_month = $2)
+       AND ($3::text IS NULL OR type::text = $3)
+       AND ($4::bigint IS NULL OR account_id = $4)
+       AND ($5::bigint IS NULL OR category_id = $5)
+       AND ($6::bigint IS NULL OR subcategory_id = $6)
+       AND ($7::bigint IS NULL OR EXISTS (
+         SELECT 1 FROM transaction_tags tt
+         WHERE tt.transaction_id = transaction_list.id AND tt.tag_id = $7
+       ))%s',
+    v_where
+  )
+  USING v_user_id, reference_month_input, type_input, account_id_input,
+        category_id_input, subcategory_id_input, tag_id_input;
+END;
+$$;
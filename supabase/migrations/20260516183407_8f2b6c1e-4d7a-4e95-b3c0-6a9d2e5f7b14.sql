@@ -0,0 +1,219 @@
+-- Histórico de alterações das transações: cada inserção, alteração e exclusão em
+-- transactions é registrada por trigger com os valores antes e depois.
+-- O histórico não referencia transactions, para sobreviver à exclusão da transação.
+CREATE TABLE public.transaction_history (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  transaction_id bigint NOT NULL,
+  operation text NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_by uuid,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX transaction_history_transaction_idx ON public.transaction_history (transaction_id, changed_at DESC);
+CREATE INDEX transaction_history_user_id_idx ON public.transaction_history (user_id);
+
+-- Somente leitura para o usuário: as entradas são gravadas apenas pelo trigger
+ALTER TABLE public.transaction_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction history" ON public.transaction_history
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to transaction_history" ON public.transaction_history
+  FOR ALL TO anon USING (false);
+
+-- SECURITY DEFINER porque o usuário não tem permissão de inserir no histórico.
+-- Alterações que não mudam nenhuma coluna não geram entrada.
+CREATE OR REPLACE FUNCTION public.record_transaction_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO transaction_history (user_id, transaction_id, operation, new_data, changed_by)
+    VALUES (NEW.user_id, NEW.id, TG_OP, to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF to_jsonb(NEW) = to_jsonb(OLD) THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO transaction_history (user_id, transaction_id, operation, old_data, new_data, changed_by)
+    VALUES (NEW.user_id, NEW.id, TG_OP, to_jsonb(OLD), to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO transaction_history (user_id, transaction_id, operation, old_data, changed_by)
+  VALUES (OLD.user_id, OLD.id, TG_OP, to_jsonb(OLD), auth.uid());
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER record_transaction_history
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_transaction_history();
+
+-- Restaura uma versão do histórico: a transação depois da alteração registrada, ou,
+-- para uma exclusão, a transação como estava antes de ser excluída (que é recriada
+-- com o mesmo id; tags, divisões e anexos excluídos não voltam).
+-- Voltam descrição, valor, tipo, datas, conta, categoria, subcategoria, dívida e
+-- investimento. Referências que não existem mais ficam vazias; a conta é obrigatória.
+-- O impacto em dívidas e investimentos é estornado e reaplicado como na edição individual.
+-- Transferências só mudam pelo formulário de transferência e não são restauradas.
+-- Retorna o id da transação restaurada.
+CREATE OR REPLACE FUNCTION public.restore_transaction_version(history_id_input bigint)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_entry transaction_history%ROWTYPE;
+  v_version transactions%ROWTYPE;
+  v_current transactions%ROWTYPE;
+  v_exists boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_entry
+  FROM transaction_history
+  WHERE id = history_id_input AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Versão não encontrada';
+  END IF;
+
+  v_version := jsonb_populate_record(
+    NULL::transactions,
+    CASE WHEN v_entry.operation = 'DELETE' THEN v_entry.old_data ELSE v_entry.new_data END
+  );
+
+  SELECT * INTO v_current
+  FROM transactions
+  WHERE id = v_entry.transaction_id AND user_id = v_user_id
+  FOR UPDATE;
+  v_exists := FOUND;
+
+  IF v_version.transfer_id IS NOT NULL OR (v_exists AND v_current.transfer_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Transferências não podem ser restauradas; edite a transferência';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = v_version.account_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'A conta desta versão não existe mais';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM categories WHERE id = v_version.category_id AND user_id = v_user_id) THEN
+    v_version.category_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM subcategories WHERE id = v_version.subcategory_id AND user_id = v_user_id) THEN
+    v_version.subcategory_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM debts WHERE id = v_version.debt_id AND user_id = v_user_id) THEN
+    v_version.debt_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM investments WHERE id = v_version.investment_id AND user_id = v_user_id) THEN
+    v_version.investment_id := NULL;
+  END IF;
+
+  IF v_exists THEN
+    -- A divisão pertence à transação atual: só vale para o mesmo valor e sem categoria própria
+    IF EXISTS (SELECT 1 FROM transaction_splits WHERE transaction_id = v_current.id)
+       AND (v_version.amount <> v_current.amount OR v_version.category_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'A transação está dividida: desfaça a divisão antes de restaurar esta versão';
+    END IF;
+
+    -- Estorno do impacto atual: devolve o pagamento da dívida e desfaz aporte/resgate
+    IF v_current.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = current_balance + v_current.amount,
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE remaining_installments + 1
+          END
+      WHERE id = v_current.debt_id AND user_id = v_user_id;
+    END IF;
+
+    IF v_current.investment_id IS NOT NULL THEN
+      IF v_current.type = 'Expense' THEN
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_current.amount)
+        WHERE id = v_current.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = current_balance + v_current.amount
+        WHERE id = v_current.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    UPDATE transactions
+    SET description = v_version.description,
+        amount = v_version.amount,
+        type = v_version.type,
+        transaction_date = v_version.transaction_date,
+        reference_month = v_version.reference_month,
+        account_id = v_version.account_id,
+        category_id = v_version.category_id,
+        subcategory_id = v_version.subcategory_id,
+        debt_id = v_version.debt_id,
+        investment_id = v_version.investment_id
+    WHERE id = v_current.id;
+  ELSE
+    -- Recriada, a transação também recupera o FITID, o lote de importação e a parcela
+    IF NOT EXISTS (SELECT 1 FROM import_batches WHERE id = v_version.batch_id AND user_id = v_user_id) THEN
+      v_version.batch_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM installment_purchases WHERE id = v_version.installment_purchase_id AND user_id = v_user_id) THEN
+      v_version.installment_purchase_id := NULL;
+      v_version.installment_number := NULL;
+    END IF;
+
+    INSERT INTO transactions (
+      id, created_at, user_id, account_id, category_id, subcategory_id, investment_id, debt_id,
+      description, amount, type, transaction_date, reference_month, fitid, batch_id,
+      installment_purchase_id, installment_number
+    )
+    VALUES (
+      v_entry.transaction_id, v_version.created_at, v_user_id, v_version.account_id,
+      v_version.category_id, v_version.subcategory_id, v_version.investment_id, v_version.debt_id,
+      v_version.description, v_version.amount, v_version.type, v_version.transaction_date,
+      v_version.reference_month, v_version.fitid, v_version.batch_id,
+      v_version.installment_purchase_id, v_version.installment_number
+    );
+  END IF;
+
+  -- Reaplica o impacto com os valores restaurados
+  IF v_version.debt_id IS NOT NULL THEN
+    UPDATE debts
+    SET current_balance = GREATEST(0, current_balance - v_version.amount),
+        remaining_installments = CASE
+          WHEN remaining_installments IS NULL THEN NULL
+          ELSE GREATEST(0, remaining_installments - 1)
+        END
+    WHERE id = v_version.debt_id AND user_id = v_user_id;
+  END IF;
+
+  IF v_version.investment_id IS NOT NULL THEN
+    IF v_version.type = 'Expense' THEN
+      UPDATE investments
+      SET initial_amount = CASE WHEN current_balance = 0 THEN v_version.amount ELSE initial_amount END,
+          current_balance = current_balance + v_version.amount
+      WHERE id = v_version.investment_id AND user_id = v_user_id;
+    ELSE
+      UPDATE investments
+      SET current_balance = GREATEST(0, current_balance - v_version.amount)
+      WHERE id = v_version.investment_id AND user_id = v_user_id;
+    END IF;
+  END IF;
+
+  RETURN v_entry.transaction_id;
+END;
+$$;
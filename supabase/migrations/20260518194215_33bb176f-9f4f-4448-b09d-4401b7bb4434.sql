@@ -0,0 +1,832 @@
+-- Lixeira: transações, contas e categorias excluídas ficam marcadas com deleted_at
+-- por 30 dias antes de serem apagadas de vez, e podem ser restauradas nesse período.
+ALTER TABLE public.transactions ADD COLUMN deleted_at timestamptz;
+ALTER TABLE public.accounts ADD COLUMN deleted_at timestamptz;
+ALTER TABLE public.categories ADD COLUMN deleted_at timestamptz;
+
+CREATE INDEX idx_transactions_deleted_at ON public.transactions (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Itens na lixeira somem de todas as consultas do usuário: das tabelas, da view
+-- transaction_list (security_invoker) e das funções SECURITY INVOKER.
+-- Políticas restritivas se somam às políticas existentes em vez de ampliá-las.
+CREATE POLICY "Hide deleted transactions" ON public.transactions
+  AS RESTRICTIVE FOR SELECT TO authenticated USING (deleted_at IS NULL);
+CREATE POLICY "Hide deleted accounts" ON public.accounts
+  AS RESTRICTIVE FOR SELECT TO authenticated USING (deleted_at IS NULL);
+CREATE POLICY "Hide deleted categories" ON public.categories
+  AS RESTRICTIVE FOR SELECT TO authenticated USING (deleted_at IS NULL);
+
+-- Subcategorias acompanham a categoria: a consulta em categories já esconde as excluídas
+CREATE POLICY "Hide subcategories of deleted categories" ON public.subcategories
+  AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.categories c WHERE c.id = subcategories.category_id));
+
+-- O FITID só bloqueia reimportação enquanto a transação não está na lixeira
+DROP INDEX IF EXISTS public.idx_transactions_account_fitid;
+CREATE UNIQUE INDEX idx_transactions_account_fitid
+  ON public.transactions (account_id, fitid)
+  WHERE fitid IS NOT NULL AND deleted_at IS NULL;
+
+-- A exclusão passa a ser feita pela lixeira
+DROP FUNCTION IF EXISTS public.bulk_delete_transactions(bigint[]);
+DROP FUNCTION IF EXISTS public.delete_transfer(bigint);
+
+-- As funções da lixeira são SECURITY DEFINER porque as políticas acima impedem o
+-- usuário de ver (e portanto de alterar) as linhas marcadas; cada consulta filtra
+-- explicitamente pelo usuário autenticado.
+
+-- Move transações para a lixeira, estornando o impacto em dívidas e investimentos.
+-- Transferências vão inteiras: as duas transações do par são movidas juntas.
+-- Retorna quantas transações foram movidas.
+CREATE OR REPLACE FUNCTION public.trash_transactions(transaction_ids_input bigint[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_now timestamptz := now();
+  v_transaction record;
+  v_trashed integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF transaction_ids_input IS NULL OR cardinality(transaction_ids_input) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_transaction IN
+    SELECT id, amount, type, debt_id, investment_id
+    FROM transactions
+    WHERE user_id = v_user_id
+      AND deleted_at IS NULL
+      AND (
+        id = ANY(transaction_ids_input)
+        OR transfer_id IN (
+          SELECT transfer_id FROM transactions
+          WHERE id = ANY(transaction_ids_input) AND user_id = v_user_id AND transfer_id IS NOT NULL
+        )
+      )
+    ORDER BY id DESC
+    FOR UPDATE
+  LOOP
+    -- Estorno do pagamento de dívida: devolve o valor e a parcela
+    IF v_transaction.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = current_balance + v_transaction.amount,
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE remaining_installments + 1
+          END
+      WHERE id = v_transaction.debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Estorno de aporte (despesa) ou resgate (receita)
+    IF v_transaction.investment_id IS NOT NULL THEN
+      IF v_transaction.type = 'Expense' THEN
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_transaction.amount)
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = current_balance + v_transaction.amount
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    UPDATE transactions SET deleted_at = v_now WHERE id = v_transaction.id;
+    v_trashed := v_trashed + 1;
+  END LOOP;
+
+  RETURN v_trashed;
+END;
+$$;
+
+-- Move uma conta para a lixeira junto com as suas transações e com a outra ponta
+-- das transferências que a envolvem. Tudo recebe o mesmo deleted_at, que é o que
+-- a restauração da conta usa para trazer de volta exatamente o que saiu com ela.
+-- Retorna quantas transações foram movidas.
+CREATE OR REPLACE FUNCTION public.trash_account(account_id_input bigint)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_now timestamptz := now();
+  v_transaction record;
+  v_trashed integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  PERFORM 1 FROM accounts
+  WHERE id = account_id_input AND user_id = v_user_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  FOR v_transaction IN
+    SELECT id, amount, type, debt_id, investment_id
+    FROM transactions
+    WHERE user_id = v_user_id
+      AND deleted_at IS NULL
+      AND (
+        account_id = account_id_input
+        OR transfer_id IN (
+          SELECT transfer_id FROM transactions
+          WHERE account_id = account_id_input AND user_id = v_user_id AND transfer_id IS NOT NULL
+        )
+      )
+    ORDER BY id DESC
+    FOR UPDATE
+  LOOP
+    -- Estorno do pagamento de dívida: devolve o valor e a parcela
+    IF v_transaction.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = current_balance + v_transaction.amount,
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE remaining_installments + 1
+          END
+      WHERE id = v_transaction.debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Estorno de aporte (despesa) ou resgate (receita)
+    IF v_transaction.investment_id IS NOT NULL THEN
+      IF v_transaction.type = 'Expense' THEN
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_transaction.amount)
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = current_balance + v_transaction.amount
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    UPDATE transactions SET deleted_at = v_now WHERE id = v_transaction.id;
+    v_trashed := v_trashed + 1;
+  END LOOP;
+
+  UPDATE accounts SET deleted_at = v_now WHERE id = account_id_input;
+
+  RETURN v_trashed;
+END;
+$$;
+
+-- Move uma categoria (e, com ela, as suas subcategorias) para a lixeira.
+-- As transações mantêm a categoria, que volta a aparecer nelas se for restaurada;
+-- só perdem a categoria quando ela é excluída definitivamente.
+CREATE OR REPLACE FUNCTION public.trash_category(category_id_input bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  UPDATE categories
+  SET deleted_at = now()
+  WHERE id = category_id_input AND user_id = v_user_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Categoria não encontrada';
+  END IF;
+END;
+$$;
+
+-- Itens da lixeira, do excluído mais recentemente ao mais antigo, com a data em
+-- que serão apagados de vez (30 dias após a exclusão).
+-- Transações que saíram junto com a sua conta aparecem só como parte da conta
+-- (related_count), e cada transferência aparece uma vez, pela transação de origem.
+CREATE OR REPLACE FUNCTION public.get_trash()
+RETURNS TABLE(
+  item_type text,
+  item_id bigint,
+  name text,
+  detail text,
+  amount numeric,
+  transaction_type text,
+  is_transfer boolean,
+  related_count bigint,
+  deleted_at timestamptz,
+  purge_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+SELECT *
+FROM (
+  SELECT
+    'transaction'::text,
+    t.id,
+    t.description,
+    a.name,
+    t.amount,
+    t.type::text,
+    t.transfer_id IS NOT NULL,
+    0::bigint,
+    t.deleted_at,
+    t.deleted_at + interval '30 days'
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  WHERE t.user_id = auth.uid()
+    AND t.deleted_at IS NOT NULL
+    AND (t.transfer_id IS NULL OR t.type = 'Expense')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM transactions leg
+      JOIN accounts la ON la.id = leg.account_id
+      WHERE (leg.id = t.id OR leg.transfer_id = t.transfer_id)
+        AND leg.user_id = auth.uid()
+        AND la.deleted_at = t.deleted_at
+    )
+
+  UNION ALL
+
+  SELECT
+    'account'::text,
+    a.id,
+    a.name,
+    NULL,
+    NULL,
+    NULL,
+    false,
+    (SELECT count(*) FROM transactions t WHERE t.account_id = a.id AND t.deleted_at = a.deleted_at),
+    a.deleted_at,
+    a.deleted_at + interval '30 days'
+  FROM accounts a
+  WHERE a.user_id = auth.uid()
+    AND a.deleted_at IS NOT NULL
+
+  UNION ALL
+
+  SELECT
+    'category'::text,
+    c.id,
+    c.name,
+    NULL,
+    NULL,
+    NULL,
+    false,
+    (SELECT count(*) FROM transactions t WHERE t.category_id = c.id AND t.deleted_at IS NULL),
+    c.deleted_at,
+    c.deleted_at + interval '30 days'
+  FROM categories c
+  WHERE c.user_id = auth.uid()
+    AND c.deleted_at IS NOT NULL
+) items (item_type, item_id, name, detail, amount, transaction_type, is_transfer, related_count, deleted_at, purge_at)
+ORDER BY deleted_at DESC, item_id DESC;
+$$;
+
+-- Restaura um item da lixeira (item_type_input: 'transaction', 'account' ou 'category').
+-- Uma transação volta com a outra ponta da transferência, e uma conta volta com as
+-- transações que foram para a lixeira junto com ela. O impacto em dívidas e
+-- investimentos é reaplicado como na criação da transação.
+CREATE OR REPLACE FUNCTION public.restore_from_trash(item_type_input text, item_id_input bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_deleted_at timestamptz;
+  v_ids bigint[];
+  v_account_name text;
+  v_transaction record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF item_type_input = 'category' THEN
+    UPDATE categories
+    SET deleted_at = NULL
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Categoria não encontrada na lixeira';
+    END IF;
+    RETURN;
+  END IF;
+
+  IF item_type_input = 'account' THEN
+    SELECT deleted_at INTO v_deleted_at
+    FROM accounts
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Conta não encontrada na lixeira';
+    END IF;
+
+    v_ids := ARRAY(
+      SELECT id FROM transactions
+      WHERE user_id = v_user_id
+        AND deleted_at = v_deleted_at
+        AND (
+          account_id = item_id_input
+          OR transfer_id IN (
+            SELECT transfer_id FROM transactions
+            WHERE account_id = item_id_input AND user_id = v_user_id AND transfer_id IS NOT NULL
+          )
+        )
+    );
+
+    UPDATE accounts SET deleted_at = NULL WHERE id = item_id_input;
+  ELSIF item_type_input = 'transaction' THEN
+    SELECT deleted_at INTO v_deleted_at
+    FROM transactions
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transação não encontrada na lixeira';
+    END IF;
+
+    v_ids := ARRAY(
+      SELECT id FROM transactions
+      WHERE user_id = v_user_id
+        AND deleted_at = v_deleted_at
+        AND (
+          id = item_id_input
+          OR transfer_id = (SELECT transfer_id FROM transactions WHERE id = item_id_input)
+        )
+    );
+  ELSE
+    RAISE EXCEPTION 'Tipo de item inválido: %', item_type_input;
+  END IF;
+
+  SELECT a.name INTO v_account_name
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  WHERE t.id = ANY(v_ids) AND a.deleted_at IS NOT NULL
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'A conta "%" está na lixeira: restaure a conta primeiro', v_account_name;
+  END IF;
+
+  -- Uma reimportação feita enquanto a transação estava na lixeira ocupa o mesmo FITID
+  IF EXISTS (
+    SELECT 1
+    FROM transactions t
+    JOIN transactions live ON live.account_id = t.account_id AND live.fitid = t.fitid
+    WHERE t.id = ANY(v_ids) AND live.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Uma transação com o mesmo identificador (FITID) foi importada novamente; exclua-a antes de restaurar';
+  END IF;
+
+  FOR v_transaction IN
+    SELECT id, amount, type, debt_id, investment_id
+    FROM transactions
+    WHERE id = ANY(v_ids)
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    UPDATE transactions SET deleted_at = NULL WHERE id = v_transaction.id;
+
+    -- Reaplica o pagamento de dívida: abate o valor e a parcela
+    IF v_transaction.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = GREATEST(0, current_balance - v_transaction.amount),
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE GREATEST(0, remaining_installments - 1)
+          END
+      WHERE id = v_transaction.debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Reaplica o aporte (despesa) ou o resgate (receita)
+    IF v_transaction.investment_id IS NOT NULL THEN
+      IF v_transaction.type = 'Expense' THEN
+        UPDATE investments
+        SET initial_amount = CASE WHEN current_balance = 0 THEN v_transaction.amount ELSE initial_amount END,
+            current_balance = current_balance + v_transaction.amount
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_transaction.amount)
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Exclui definitivamente um item da lixeira, com o que foi para a lixeira junto com ele.
+-- O impacto em dívidas e investimentos já foi estornado ao mover para a lixeira.
+-- Retorna os caminhos dos anexos das transações excluídas, para que os arquivos
+-- sejam removidos do storage.
+CREATE OR REPLACE FUNCTION public.delete_from_trash(item_type_input text, item_id_input bigint)
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_deleted_at timestamptz;
+  v_ids bigint[];
+  v_attachment_paths text[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF item_type_input = 'category' THEN
+    -- Transações e linhas de divisão ficam sem categoria (ON DELETE SET NULL)
+    DELETE FROM categories
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Categoria não encontrada na lixeira';
+    END IF;
+    RETURN '{}';
+  END IF;
+
+  IF item_type_input = 'account' THEN
+    IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL) THEN
+      RAISE EXCEPTION 'Conta não encontrada na lixeira';
+    END IF;
+
+    -- As transações da conta e as transferências que a envolvem saem em cascata
+    v_ids := ARRAY(
+      SELECT t.id FROM transactions t
+      WHERE t.user_id = v_user_id
+        AND (
+          t.account_id = item_id_input
+          OR t.transfer_id IN (
+            SELECT id FROM transfers WHERE from_account_id = item_id_input OR to_account_id = item_id_input
+          )
+        )
+    );
+  ELSIF item_type_input = 'transaction' THEN
+    SELECT deleted_at INTO v_deleted_at
+    FROM transactions
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transação não encontrada na lixeira';
+    END IF;
+
+    v_ids := ARRAY(
+      SELECT id FROM transactions
+      WHERE user_id = v_user_id
+        AND deleted_at = v_deleted_at
+        AND (
+          id = item_id_input
+          OR transfer_id = (SELECT transfer_id FROM transactions WHERE id = item_id_input)
+        )
+    );
+  ELSE
+    RAISE EXCEPTION 'Tipo de item inválido: %', item_type_input;
+  END IF;
+
+  -- As linhas dos anexos saem com as transações, então os caminhos são lidos antes
+  v_attachment_paths := ARRAY(
+    SELECT storage_path
+    FROM transaction_attachments
+    WHERE transaction_id = ANY(v_ids) AND user_id = v_user_id
+  );
+
+  IF item_type_input = 'account' THEN
+    DELETE FROM accounts WHERE id = item_id_input;
+  ELSE
+    -- Excluir a transferência leva junto as duas transações do par
+    DELETE FROM transfers
+    WHERE id IN (SELECT transfer_id FROM transactions WHERE id = ANY(v_ids))
+      AND user_id = v_user_id;
+    DELETE FROM transactions WHERE id = ANY(v_ids);
+  END IF;
+
+  RETURN v_attachment_paths;
+END;
+$$;
+
+-- Exclui definitivamente os itens que estão na lixeira há mais de 30 dias.
+-- Retorna os caminhos dos anexos das transações excluídas.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+  v_attachment_paths text[] := '{}';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  FOR v_item IN
+    SELECT item_type, item_id FROM get_trash() WHERE purge_at <= now()
+  LOOP
+    -- Transações de uma conta excluída antes no mesmo laço já saíram em cascata
+    CONTINUE WHEN v_item.item_type = 'transaction'
+      AND NOT EXISTS (SELECT 1 FROM transactions WHERE id = v_item.item_id);
+
+    v_attachment_paths := v_attachment_paths || delete_from_trash(v_item.item_type, v_item.item_id);
+  END LOOP;
+
+  RETURN v_attachment_paths;
+END;
+$$;
+
+-- Insights ignoram transações e categorias que estão na lixeira
+CREATE OR REPLACE FUNCTION public.get_category_insights(ref_month date)
+ RETURNS TABLE(category_id bigint, category_name text, current_expense numeric, income_in_month numeric, prev3_avg_expense numeric, deviation_pct numeric, share_over_income numeric, severity text)
+ LANGUAGE sql
+ STABLE
+ SET search_path TO 'public'
+AS $$
+WITH m AS (
+  SELECT date_trunc('month', ref_month)::date AS m0
+),
+months_prev3 AS (
+  SELECT (m.m0 - interval '1 month')::date AS month_start FROM m
+  UNION ALL SELECT (m.m0 - interval '2 month')::date FROM m
+  UNION ALL SELECT (m.m0 - interval '3 month')::date FROM m
+),
+
+-- Linhas de lançamento: transações divididas contam por linha, com a categoria de cada linha;
+-- transferências entre contas não são receita nem despesa
+lines AS (
+  SELECT
+    t.type,
+    t.reference_month,
+    COALESCE(s.amount, t.amount) AS amount,
+    CASE WHEN s.id IS NULL THEN t.category_id ELSE s.category_id END AS category_id
+  FROM transactions t
+  LEFT JOIN transaction_splits s ON s.transaction_id = t.id
+  WHERE t.user_id = auth.uid()
+    AND t.transfer_id IS NULL
+    AND t.deleted_at IS NULL
+),
+
+-- Categorias do usuário (apenas Standard, excluindo Debt, Investment e Transfer)
+cats AS (
+  SELECT DISTINCT c.id AS category_id, c.name AS category_name
+  FROM categories c
+  WHERE c.user_id = auth.uid()
+    AND c.type = 'Standard'
+    AND c.deleted_at IS NULL
+),
+
+-- Despesas do mês de referência por categoria (apenas categorias Standard)
+cur AS (
+  SELECT
+    t.category_id,
+    SUM(ABS(t.amount))::numeric AS current_expense
+  FROM lines t
+  CROSS JOIN m
+  INNER JOIN cats ON cats.category_id = t.category_id
+  WHERE t.reference_month = m.m0
+    AND (t.amount < 0 OR t.type = 'Expense')
+    AND t.category_id IS NOT NULL
+  GROUP BY t.category_id
+),
+
+-- Receita total do mês de referência (excluindo categorias Transfer)
+income AS (
+  SELECT
+    COALESCE(SUM(CASE WHEN (t.amount > 0 OR t.type = 'Income') THEN t.amount ELSE 0 END), 0)::numeric AS income_in_month
+  FROM lines t
+  CROSS JOIN m
+  LEFT JOIN categories c ON c.id = t.category_id AND c.user_id = auth.uid()
+  WHERE t.reference_month = m.m0
+    AND (c.type IS NULL OR c.type != 'Transfer')
+),
+
+-- Soma de cada um dos 3 meses anteriores por categoria (apenas Standard)
+prev3_by_cat AS (
+  SELECT
+    cats.category_id,
+    mp.month_start,
+    COALESCE(SUM(ABS(t.amount)) FILTER (
+      WHERE t.reference_month = mp.month_start
+        AND (t.amount < 0 OR t.type = 'Expense')
+    ), 0)::numeric AS month_expense
+  FROM cats
+  CROSS JOIN months_prev3 mp
+  LEFT JOIN lines t
+    ON t.category_id = cats.category_id
+  GROUP BY cats.category_id, mp.month_start
+),
+
+-- Média dos 3 meses anteriores
+prev3_avg AS (
+  SELECT
+    category_id,
+    (SUM(month_expense) / 3.0)::numeric AS prev3_avg_expense
+  FROM prev3_by_cat
+  GROUP BY category_id
+)
+
+SELECT DISTINCT ON (coalesce(cur.category_id, p.category_id))
+  COALESCE(cur.category_id, p.category_id) AS category_id,
+  cats.category_name,
+  COALESCE(cur.current_expense, 0)::numeric AS current_expense,
+  i.income_in_month::numeric AS income_in_month,
+  COALESCE(p.prev3_avg_expense, 0)::numeric AS prev3_avg_expense,
+  CASE WHEN COALESCE(p.prev3_avg_expense, 0) = 0 THEN NULL
+       ELSE (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense 
+  END AS deviation_pct,
+  CASE WHEN i.income_in_month = 0 THEN NULL
+       ELSE COALESCE(cur.current_expense, 0) / i.income_in_month 
+  END AS share_over_income,
+  CASE
+    WHEN i.income_in_month > 0
+         AND COALESCE(cur.current_expense, 0) / i.income_in_month > 0.20 THEN 'critico'
+    WHEN COALESCE(p.prev3_avg_expense, 0) > 0
+         AND (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense > 0.20 THEN 'alto'
+    WHEN COALESCE(p.prev3_avg_expense, 0) > 0
+         AND (COALESCE(cur.current_expense, 0) - p.prev3_avg_expense) / p.prev3_avg_expense BETWEEN 0.10 AND 0.20 THEN 'medio'
+    ELSE NULL
+  END AS severity
+FROM prev3_avg p
+FULL JOIN cur ON cur.category_id = p.category_id
+INNER JOIN cats ON cats.category_id = COALESCE(cur.category_id, p.category_id)
+CROSS JOIN income i
+WHERE COALESCE(cur.category_id, p.category_id) IS NOT NULL
+ORDER BY COALESCE(cur.category_id, p.category_id), current_expense DESC NULLS LAST;
+$$;
+
+-- Transações na lixeira não são vistas pelo usuário: restaurar a versão de uma delas
+-- tentaria recriá-la com um id que ainda existe
+CREATE OR REPLACE FUNCTION public.restore_transaction_version(history_id_input bigint)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_entry transaction_history%ROWTYPE;
+  v_version transactions%ROWTYPE;
+  v_current transactions%ROWTYPE;
+  v_exists boolean;
+  v_constraint text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_entry
+  FROM transaction_history
+  WHERE id = history_id_input AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Versão não encontrada';
+  END IF;
+
+  v_version := jsonb_populate_record(
+    NULL::transactions,
+    CASE WHEN v_entry.operation = 'DELETE' THEN v_entry.old_data ELSE v_entry.new_data END
+  );
+
+  SELECT * INTO v_current
+  FROM transactions
+  WHERE id = v_entry.transaction_id AND user_id = v_user_id
+  FOR UPDATE;
+  v_exists := FOUND;
+
+  IF v_version.transfer_id IS NOT NULL OR (v_exists AND v_current.transfer_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Transferências não podem ser restauradas; edite a transferência';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = v_version.account_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'A conta desta versão não existe mais';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM categories WHERE id = v_version.category_id AND user_id = v_user_id) THEN
+    v_version.category_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM subcategories WHERE id = v_version.subcategory_id AND user_id = v_user_id) THEN
+    v_version.subcategory_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM debts WHERE id = v_version.debt_id AND user_id = v_user_id) THEN
+    v_version.debt_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM investments WHERE id = v_version.investment_id AND user_id = v_user_id) THEN
+    v_version.investment_id := NULL;
+  END IF;
+
+  IF v_exists THEN
+    -- A divisão pertence à transação atual: só vale para o mesmo valor e sem categoria própria
+    IF EXISTS (SELECT 1 FROM transaction_splits WHERE transaction_id = v_current.id)
+       AND (v_version.amount <> v_current.amount OR v_version.category_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'A transação está dividida: desfaça a divisão antes de restaurar esta versão';
+    END IF;
+
+    -- Estorno do impacto atual: devolve o pagamento da dívida e desfaz aporte/resgate
+    IF v_current.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = current_balance + v_current.amount,
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE remaining_installments + 1
+          END
+      WHERE id = v_current.debt_id AND user_id = v_user_id;
+    END IF;
+
+    IF v_current.investment_id IS NOT NULL THEN
+      IF v_current.type = 'Expense' THEN
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_current.amount)
+        WHERE id = v_current.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = current_balance + v_current.amount
+        WHERE id = v_current.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    UPDATE transactions
+    SET description = v_version.description,
+        amount = v_version.amount,
+        type = v_version.type,
+        transaction_date = v_version.transaction_date,
+        reference_month = v_version.reference_month,
+        account_id = v_version.account_id,
+        category_id = v_version.category_id,
+        subcategory_id = v_version.subcategory_id,
+        debt_id = v_version.debt_id,
+        investment_id = v_version.investment_id
+    WHERE id = v_current.id;
+  ELSE
+    -- Recriada, a transação também recupera o FITID, o lote de importação e a parcela
+    IF NOT EXISTS (SELECT 1 FROM import_batches WHERE id = v_version.batch_id AND user_id = v_user_id) THEN
+      v_version.batch_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM installment_purchases WHERE id = v_version.installment_purchase_id AND user_id = v_user_id) THEN
+      v_version.installment_purchase_id := NULL;
+      v_version.installment_number := NULL;
+    END IF;
+
+    BEGIN
+      INSERT INTO transactions (
+        id, created_at, user_id, account_id, category_id, subcategory_id, investment_id, debt_id,
+        description, amount, type, transaction_date, reference_month, fitid, batch_id,
+        installment_purchase_id, installment_number
+      )
+      VALUES (
+        v_entry.transaction_id, v_version.created_at, v_user_id, v_version.account_id,
+        v_version.category_id, v_version.subcategory_id, v_version.investment_id, v_version.debt_id,
+        v_version.description, v_version.amount, v_version.type, v_version.transaction_date,
+        v_version.reference_month, v_version.fitid, v_version.batch_id,
+        v_version.installment_purchase_id, v_version.installment_number
+      );
+    EXCEPTION WHEN unique_violation THEN
+      -- A transação está escondida na lixeira, não excluída
+      GET STACKED DIAGNOSTICS v_constraint = CONSTRAINT_NAME;
+      IF v_constraint = 'transactions_pkey' THEN
+        RAISE EXCEPTION 'A transação está na lixeira; restaure-a pela Lixeira';
+      END IF;
+      RAISE;
+    END;
+  END IF;
+
+  -- Reaplica o impacto com os valores restaurados
+  IF v_version.debt_id IS NOT NULL THEN
+    UPDATE debts
+    SET current_balance = GREATEST(0, current_balance - v_version.amount),
+        remaining_installments = CASE
+          WHEN remaining_installments IS NULL THEN NULL
+          ELSE GREATEST(0, remaining_installments - 1)
+        END
+    WHERE id = v_version.debt_id AND user_id = v_user_id;
+  END IF;
+
+  IF v_version.investment_id IS NOT NULL THEN
+    IF v_version.type = 'Expense' THEN
+      UPDATE investments
+      SET initial_amount = CASE WHEN current_balance = 0 THEN v_version.amount ELSE initial_amount END,
+          current_balance = current_balance + v_version.amount
+      WHERE id = v_version.investment_id AND user_id = v_user_id;
+    ELSE
+      UPDATE investments
+      SET current_balance = GREATEST(0, current_balance - v_version.amount)
+      WHERE id = v_version.investment_id AND user_id = v_user_id;
+    END IF;
+  END IF;
+
+  RETURN v_entry.transaction_id;
+END;
+$$;
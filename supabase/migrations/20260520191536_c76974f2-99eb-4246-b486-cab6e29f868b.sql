@@ -0,0 +1,207 @@
+-- Favorecidos: o estabelecimento ou pessoa por trás de uma transação. Descrições de
+-- extrato diferentes ("PAG*IFOOD 1234", "IFOOD *RESTAURANTE", "IFD*") apontam para o
+-- mesmo favorecido por meio de apelidos, aprendidos quando o usuário escolhe o
+-- favorecido de uma transação.
+CREATE TABLE public.payees (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.payees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payees" ON public.payees
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own payees" ON public.payees
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own payees" ON public.payees
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own payees" ON public.payees
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to payees" ON public.payees
+  FOR ALL TO anon USING (false);
+
+-- Apelido: a descrição normalizada por payee_alias_key. Um apelido vale para as
+-- descrições iguais a ele ou que começam com ele seguido de outras palavras.
+CREATE TABLE public.payee_aliases (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  payee_id bigint NOT NULL REFERENCES public.payees(id) ON DELETE CASCADE,
+  alias text NOT NULL CHECK (alias <> ''),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, alias)
+);
+
+CREATE INDEX payee_aliases_payee_id_idx ON public.payee_aliases (payee_id);
+
+ALTER TABLE public.payee_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payee_aliases" ON public.payee_aliases
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own payee_aliases" ON public.payee_aliases
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own payee_aliases" ON public.payee_aliases
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own payee_aliases" ON public.payee_aliases
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Deny anonymous access to payee_aliases" ON public.payee_aliases
+  FOR ALL TO anon USING (false);
+
+ALTER TABLE public.transactions
+  ADD COLUMN payee_id bigint REFERENCES public.payees(id) ON DELETE SET NULL;
+
+CREATE INDEX transactions_payee_id_idx ON public.transactions (payee_id);
+
+-- Chave de apelido de uma descrição: maiúsculas sem acentos, sem o prefixo do
+-- intermediador de pagamento ("PAG*", "MP*", "PAYPAL *"...), sem pontuação e sem
+-- as palavras com dígitos (número do pedido, da loja, parcela).
+-- Ex.: 'PAG*IFOOD 1234' => 'IFOOD'; 'IFOOD *RESTAURANTE' => 'IFOOD RESTAURANTE'; 'IFD*' => 'IFD'
+CREATE OR REPLACE FUNCTION public.payee_alias_key(description_input text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          translate(upper(COALESCE(description_input, '')), 'ÁÀÂÃÄÉÈÊËÍÌÎÏÓÒÔÕÖÚÙÛÜÇÑ', 'AAAAAEEEEIIIIOOOOOUUUUCN'),
+          '^\s*(PAG|PG|PAGSEGURO|PAGSEG|MP|MERCADOPAGO|MERCPAGO|PICPAY|PAYPAL|SUMUP|EBANX|DL)\s*\*\s*(?=\S)',
+          ''
+        ),
+        '[^A-Z0-9]+', ' ', 'g'
+      ),
+      '\S*[0-9]\S*', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- Favorecido de uma descrição pelos apelidos do usuário; vale o apelido mais longo
+CREATE OR REPLACE FUNCTION public.find_payee_id(user_id_input uuid, description_input text)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.payee_id
+  FROM payee_aliases a
+  CROSS JOIN LATERAL (SELECT payee_alias_key(description_input) AS key) k
+  WHERE a.user_id = user_id_input
+    AND k.key <> ''
+    AND (k.key = a.alias OR k.key LIKE a.alias || ' %')
+  ORDER BY length(a.alias) DESC
+  LIMIT 1;
+$$;
+
+-- Transações novas sem favorecido recebem o favorecido dos apelidos, seja qual for a
+-- origem (formulário, importação, recorrentes, parcelas).
+-- Quando o usuário escolhe um favorecido diferente do que os apelidos indicariam, a
+-- descrição vira apelido desse favorecido e as transações sem favorecido que passam a
+-- corresponder a ele também o recebem. Transferências não têm favorecido.
+CREATE OR REPLACE FUNCTION public.assign_transaction_payee()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_key text;
+  v_matched bigint;
+BEGIN
+  IF NEW.transfer_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_key := payee_alias_key(NEW.description);
+  IF v_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  v_matched := find_payee_id(NEW.user_id, NEW.description);
+
+  IF TG_OP = 'INSERT' AND NEW.payee_id IS NULL THEN
+    NEW.payee_id := v_matched;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payee_id IS NULL
+     OR NEW.payee_id IS NOT DISTINCT FROM v_matched
+     OR (TG_OP = 'UPDATE' AND NEW.payee_id IS NOT DISTINCT FROM OLD.payee_id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO payee_aliases (user_id, payee_id, alias)
+  VALUES (NEW.user_id, NEW.payee_id, v_key)
+  ON CONFLICT (user_id, alias) DO UPDATE SET payee_id = EXCLUDED.payee_id;
+
+  UPDATE transactions
+  SET payee_id = NEW.payee_id
+  WHERE user_id = NEW.user_id
+    AND id <> NEW.id
+    AND payee_id IS NULL
+    AND transfer_id IS NULL
+    AND find_payee_id(user_id, description) = NEW.payee_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_transaction_payee
+  BEFORE INSERT OR UPDATE OF payee_id ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_transaction_payee();
+
+-- A lista de transações mostra o favorecido. A view é recriada (e não substituída)
+-- porque t.* passa a incluir as colunas novas de transactions.
+DROP VIEW public.transaction_list;
+
+CREATE VIEW public.transaction_list
+WITH (security_invoker = true) AS
+SELECT
+  t.*,
+  c.name AS category_name,
+  s.name AS subcategory_name,
+  a.name AS account_name,
+  (t.transfer_id IS NOT NULL AND t.type = 'Income') AS is_transfer_in,
+  ARRAY(
+    SELECT tg.name
+    FROM public.transaction_tags tt
+    JOIN public.tags tg ON tg.id = tt.tag_id
+    WHERE tt.transaction_id = t.id
+  ) AS tag_names,
+  p.name AS payee_name
+FROM public.transactions t
+LEFT JOIN public.categories c ON c.id = t.category_id
+LEFT JOIN public.subcategories s ON s.id = t.subcategory_id
+LEFT JOIN public.accounts a ON a.id = t.account_id
+LEFT JOIN public.payees p ON p.id = t.payee_id;
+
+GRANT SELECT ON public.transaction_list TO authenticated;
+
+-- Resumo por favorecido num intervalo de meses de referência. Transferências não entram;
+-- transações divididas contam inteiras no favorecido.
+CREATE OR REPLACE FUNCTION public.get_payee_summary(start_month_input date, end_month_input date)
+RETURNS TABLE(payee_id bigint, payee_name text, expense_total numeric, income_total numeric, transaction_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    p.id AS payee_id,
+    p.name AS payee_name,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'Expense'), 0)::numeric AS expense_total,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'Income'), 0)::numeric AS income_total,
+    COUNT(t.id) AS transaction_count
+  FROM payees p
+  LEFT JOIN transactions t
+    ON t.payee_id = p.id
+   AND t.transfer_id IS NULL
+   AND t.reference_month BETWEEN date_trunc('month', start_month_input)::date AND date_trunc('month', end_month_input)::date
+  WHERE p.user_id = auth.uid()
+  GROUP BY p.id, p.name
+  ORDER BY expense_total DESC, p.name;
+$$;
@@ -0,0 +1,114 @@
+-- Altera um modelo a partir de uma data ("esta e as futuras"). Correção: ocorrências
+-- confirmadas ou puladas a partir da data continuam no modelo antigo, então o novo
+-- modelo só pode começar depois da última ocorrência que restou (senão geraria as
+-- mesmas datas de novo e a confirmação lançaria a transação duas vezes), e a
+-- quantidade de ocorrências do novo modelo desconta as que já foram lançadas.
+CREATE OR REPLACE FUNCTION public.update_recurring_template(
+  template_id_input bigint,
+  template_input jsonb,
+  from_date_input date
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_start_date date := (template_input->>'start_date')::date;
+  v_occurrence_count integer := (template_input->>'occurrence_count')::integer;
+  v_last_occurrence date;
+  v_booked integer;
+  v_template_id bigint;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF from_date_input IS NULL OR v_start_date IS NULL THEN
+    RAISE EXCEPTION 'Informe a data a partir da qual o modelo muda';
+  END IF;
+
+  PERFORM 1 FROM recurring_templates
+  WHERE id = template_id_input AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lançamento recorrente não encontrado';
+  END IF;
+
+  DELETE FROM recurring_occurrences
+  WHERE template_id = template_id_input
+    AND status = 'pending'
+    AND scheduled_date >= from_date_input;
+
+  IF NOT EXISTS (SELECT 1 FROM recurring_occurrences WHERE template_id = template_id_input) THEN
+    UPDATE recurring_templates
+    SET description = template_input->>'description',
+        amount = (template_input->>'amount')::numeric,
+        type = (template_input->>'type')::transaction_type,
+        account_id = (template_input->>'account_id')::bigint,
+        category_id = (template_input->>'category_id')::bigint,
+        subcategory_id = (template_input->>'subcategory_id')::bigint,
+        frequency = template_input->>'frequency',
+        frequency_interval = (template_input->>'frequency_interval')::integer,
+        day_of_month = (template_input->>'day_of_month')::integer,
+        start_date = v_start_date,
+        end_date = (template_input->>'end_date')::date,
+        occurrence_count = v_occurrence_count,
+        is_active = COALESCE((template_input->>'is_active')::boolean, true),
+        generated_until = NULL
+    WHERE id = template_id_input;
+
+    RETURN template_id_input;
+  END IF;
+
+  -- Restaram as ocorrências anteriores à data e as confirmadas ou puladas a partir dela
+  SELECT max(scheduled_date), count(*) FILTER (WHERE scheduled_date >= from_date_input)
+  INTO v_last_occurrence, v_booked
+  FROM recurring_occurrences
+  WHERE template_id = template_id_input;
+
+  IF v_start_date <= v_last_occurrence THEN
+    RAISE EXCEPTION 'A nova data de início deve ser posterior à última ocorrência já lançada (%)',
+      to_char(v_last_occurrence, 'DD/MM/YYYY');
+  END IF;
+
+  UPDATE recurring_templates
+  SET end_date = from_date_input - 1
+  WHERE id = template_id_input;
+
+  -- A quantidade informada conta a partir da data; as já lançadas depois dela saem da conta
+  IF v_occurrence_count IS NOT NULL THEN
+    v_occurrence_count := v_occurrence_count - v_booked;
+
+    IF v_occurrence_count <= 0 THEN
+      RETURN template_id_input;
+    END IF;
+  END IF;
+
+  INSERT INTO recurring_templates (
+    user_id, description, amount, type, account_id, category_id, subcategory_id,
+    frequency, frequency_interval, day_of_month, start_date, end_date, occurrence_count, is_active
+  )
+  VALUES (
+    v_user_id,
+    template_input->>'description',
+    (template_input->>'amount')::numeric,
+    (template_input->>'type')::transaction_type,
+    (template_input->>'account_id')::bigint,
+    (template_input->>'category_id')::bigint,
+    (template_input->>'subcategory_id')::bigint,
+    template_input->>'frequency',
+    (template_input->>'frequency_interval')::integer,
+    (template_input->>'day_of_month')::integer,
+    v_start_date,
+    (template_input->>'end_date')::date,
+    v_occurrence_count,
+    COALESCE((template_input->>'is_active')::boolean, true)
+  )
+  RETURNING id INTO v_template_id;
+
+  RETURN v_template_id;
+END;
+$$;
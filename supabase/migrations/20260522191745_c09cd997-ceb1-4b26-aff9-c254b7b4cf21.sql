@@ -0,0 +1,186 @@
+-- Ações em massa: a troca de categoria não aceita categorias de dívidas ou investimentos.
+-- Elas exigem a dívida ou o investimento vinculado, que a ação em massa não informa
+-- (e limpa); a categoria ficaria sem vínculo e o saldo da dívida voltaria a crescer.
+CREATE OR REPLACE FUNCTION public.bulk_update_transactions(transaction_ids_input bigint[], changes_input jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_set_category boolean := changes_input ? 'category_id';
+  v_category_id bigint := (changes_input->>'category_id')::bigint;
+  v_set_subcategory boolean := changes_input ? 'subcategory_id';
+  v_subcategory_id bigint := (changes_input->>'subcategory_id')::bigint;
+  v_subcategory_category_id bigint;
+  v_category_type public.category_type;
+  v_account_id bigint := (changes_input->>'account_id')::bigint;
+  v_reference_month date := date_trunc('month', (changes_input->>'reference_month')::date)::date;
+  v_add_tag_ids bigint[] := '{}';
+  v_remove_tag_ids bigint[] := '{}';
+  v_transaction transactions%ROWTYPE;
+  v_new transactions%ROWTYPE;
+  v_is_split boolean;
+  v_updated integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF transaction_ids_input IS NULL OR cardinality(transaction_ids_input) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF (SELECT count(*) FROM transactions WHERE id = ANY(transaction_ids_input) AND user_id = v_user_id)
+     <> (SELECT count(DISTINCT id) FROM unnest(transaction_ids_input) AS id) THEN
+    RAISE EXCEPTION 'Transação não encontrada';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE id = ANY(transaction_ids_input) AND transfer_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Transferências não podem ser alteradas em massa';
+  END IF;
+
+  IF v_category_id IS NOT NULL THEN
+    SELECT type INTO v_category_type FROM categories WHERE id = v_category_id AND user_id = v_user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Categoria não encontrada';
+    END IF;
+    IF v_category_type IN ('Debt', 'Investment') THEN
+      RAISE EXCEPTION 'Categorias de dívidas ou investimentos não podem ser aplicadas em massa';
+    END IF;
+  END IF;
+
+  IF v_subcategory_id IS NOT NULL THEN
+    SELECT category_id INTO v_subcategory_category_id
+    FROM subcategories
+    WHERE id = v_subcategory_id AND user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Subcategoria não encontrada';
+    END IF;
+
+    IF v_set_category AND v_subcategory_category_id IS DISTINCT FROM v_category_id THEN
+      RAISE EXCEPTION 'A subcategoria não pertence à categoria escolhida';
+    END IF;
+  END IF;
+
+  IF v_account_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM accounts WHERE id = v_account_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  IF jsonb_typeof(changes_input->'add_tags') = 'array' THEN
+    v_add_tag_ids := ensure_tags(ARRAY(SELECT jsonb_array_elements_text(changes_input->'add_tags')));
+  END IF;
+
+  IF jsonb_typeof(changes_input->'remove_tags') = 'array' THEN
+    v_remove_tag_ids := ARRAY(SELECT jsonb_array_elements_text(changes_input->'remove_tags')::bigint);
+  END IF;
+
+  FOR v_transaction IN
+    SELECT *
+    FROM transactions
+    WHERE id = ANY(transaction_ids_input) AND user_id = v_user_id
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    v_new := v_transaction;
+    v_is_split := EXISTS (SELECT 1 FROM transaction_splits WHERE transaction_id = v_transaction.id);
+
+    IF v_set_category THEN
+      CONTINUE WHEN v_is_split;
+      v_new.category_id := v_category_id;
+      v_new.subcategory_id := v_subcategory_id;
+      v_new.debt_id := NULL;
+      v_new.investment_id := NULL;
+    ELSIF v_set_subcategory THEN
+      CONTINUE WHEN v_is_split
+        OR (v_subcategory_id IS NOT NULL AND v_transaction.category_id IS DISTINCT FROM v_subcategory_category_id);
+      v_new.subcategory_id := v_subcategory_id;
+    END IF;
+
+    IF v_account_id IS NOT NULL THEN
+      v_new.account_id := v_account_id;
+    END IF;
+
+    IF v_reference_month IS NOT NULL THEN
+      v_new.reference_month := v_reference_month;
+    END IF;
+
+    IF v_new IS DISTINCT FROM v_transaction THEN
+      -- Estorno do impacto anterior: devolve o pagamento da dívida e desfaz aporte/resgate
+      IF v_transaction.debt_id IS NOT NULL THEN
+        UPDATE debts
+        SET current_balance = current_balance + v_transaction.amount,
+            remaining_installments = CASE
+              WHEN remaining_installments IS NULL THEN NULL
+              ELSE remaining_installments + 1
+            END
+        WHERE id = v_transaction.debt_id AND user_id = v_user_id;
+      END IF;
+
+      IF v_transaction.investment_id IS NOT NULL THEN
+        IF v_transaction.type = 'Expense' THEN
+          UPDATE investments
+          SET current_balance = GREATEST(0, current_balance - v_transaction.amount)
+          WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+        ELSE
+          UPDATE investments
+          SET current_balance = current_balance + v_transaction.amount
+          WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+        END IF;
+      END IF;
+
+      UPDATE transactions
+      SET category_id = v_new.category_id,
+          subcategory_id = v_new.subcategory_id,
+          debt_id = v_new.debt_id,
+          investment_id = v_new.investment_id,
+          account_id = v_new.account_id,
+          reference_month = v_new.reference_month
+      WHERE id = v_transaction.id;
+
+      -- Reaplica o impacto com os novos valores
+      IF v_new.debt_id IS NOT NULL THEN
+        UPDATE debts
+        SET current_balance = GREATEST(0, current_balance - v_new.amount),
+            remaining_installments = CASE
+              WHEN remaining_installments IS NULL THEN NULL
+              ELSE GREATEST(0, remaining_installments - 1)
+            END
+        WHERE id = v_new.debt_id AND user_id = v_user_id;
+      END IF;
+
+      IF v_new.investment_id IS NOT NULL THEN
+        IF v_new.type = 'Expense' THEN
+          UPDATE investments
+          SET initial_amount = CASE WHEN current_balance = 0 THEN v_new.amount ELSE initial_amount END,
+              current_balance = current_balance + v_new.amount
+          WHERE id = v_new.investment_id AND user_id = v_user_id;
+        ELSE
+          UPDATE investments
+          SET current_balance = GREATEST(0, current_balance - v_new.amount)
+          WHERE id = v_new.investment_id AND user_id = v_user_id;
+        END IF;
+      END IF;
+    END IF;
+
+    IF cardinality(v_add_tag_ids) > 0 THEN
+      INSERT INTO transaction_tags (user_id, transaction_id, tag_id)
+      SELECT v_user_id, v_transaction.id, tag_id
+      FROM unnest(v_add_tag_ids) AS tag_id
+      ON CONFLICT (transaction_id, tag_id) DO NOTHING;
+    END IF;
+
+    IF cardinality(v_remove_tag_ids) > 0 THEN
+      DELETE FROM transaction_tags
+      WHERE transaction_id = v_transaction.id AND tag_id = ANY(v_remove_tag_ids);
+    END IF;
+
+    v_updated := v_updated + 1;
+  END LOOP;
+
+  RETURN v_updated;
+END;
+$$;
@@ -0,0 +1,99 @@
+-- Busca: um nome negado (-categoria:Mercado) não pode descartar as transações sem
+-- categoria, subcategoria ou conta, em que a comparação dá NULL. Condições com
+-- includeNull também aceitam a coluna nula, como o filtro "or" que a página aplica à lista.
+CREATE OR REPLACE FUNCTION public.get_transaction_list_totals(
+  reference_month_input date DEFAULT NULL,
+  type_input text DEFAULT NULL,
+  account_id_input bigint DEFAULT NULL,
+  category_id_input bigint DEFAULT NULL,
+  subcategory_id_input bigint DEFAULT NULL,
+  tag_id_input bigint DEFAULT NULL,
+  conditions_input jsonb DEFAULT '[]'
+)
+RETURNS TABLE (
+  income_total numeric,
+  expense_total numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_condition jsonb;
+  v_column text;
+  v_operator text;
+  v_clause text;
+  v_where text := '';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  FOR v_condition IN SELECT * FROM jsonb_array_elements(COALESCE(conditions_input, '[]'))
+  LOOP
+    v_column := v_condition->>'column';
+    v_operator := CASE v_condition->>'operator'
+      WHEN 'eq' THEN '='
+      WHEN 'gt' THEN '>'
+      WHEN 'gte' THEN '>='
+      WHEN 'lt' THEN '<'
+      WHEN 'lte' THEN '<='
+      WHEN 'ilike' THEN 'ILIKE'
+      WHEN 'cs' THEN '@>'
+      WHEN 'is' THEN 'IS'
+    END;
+
+    IF v_column IS NULL OR v_column NOT IN (
+      'description', 'amount', 'type', 'transaction_date', 'reference_month', 'transfer_id',
+      'category_name', 'subcategory_name', 'account_name', 'tag_names'
+    ) THEN
+      RAISE EXCEPTION 'Campo de busca inválido: %', v_column;
+    END IF;
+
+    IF v_operator IS NULL THEN
+      RAISE EXCEPTION 'Operador de busca inválido: %', v_condition->>'operator';
+    END IF;
+
+    -- "is" só é usado com null
+    v_clause := CASE
+      WHEN v_operator = 'IS' THEN format('%I IS NULL', v_column)
+      ELSE format('%I %s %L', v_column, v_operator, v_condition->>'value')
+    END;
+
+    IF COALESCE((v_condition->>'negated')::boolean, false) THEN
+      v_clause := format('NOT (%s)', v_clause);
+    END IF;
+
+    -- Nomes negados também valem para transações sem o nome (sem categoria, divididas)
+    IF COALESCE((v_condition->>'includeNull')::boolean, false) THEN
+      v_clause := format('(%I IS NULL OR %s)', v_column, v_clause);
+    END IF;
+
+    v_where := v_where || ' AND ' || v_clause;
+  END LOOP;
+
+  -- Transferências não entram nos totais
+  RETURN QUERY EXECUTE format(
+    'SELECT
+       COALESCE(SUM(amount) FILTER (WHERE type = ''Income''), 0),
+       COALESCE(SUM(amount) FILTER (WHERE type = ''Expense''), 0)
+     FROM transaction_list
+     WHERE user_id = $1
+       AND transfer_id IS NULL
+       AND ($2::date IS NULL OR reference_month = $2)
+       AND ($3::text IS NULL OR type::text = $3)
+       AND ($4::bigint IS NULL OR account_id = $4)
+       AND ($5::bigint IS NULL OR category_id = $5)
+       AND ($6::bigint IS NULL OR subcategory_id = $6)
+       AND ($7::bigint IS NULL OR EXISTS (
+         SELECT 1 FROM transaction_tags tt
+         WHERE tt.transaction_id = transaction_list.id AND tt.tag_id = $7
+       ))%s',
+    v_where
+  )
+  USING v_user_id, reference_month_input, type_input, account_id_input,
+        category_id_input, subcategory_id_input, tag_id_input;
+END;
+$$;
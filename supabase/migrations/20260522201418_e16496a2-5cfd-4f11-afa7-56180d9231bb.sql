@@ -0,0 +1,80 @@
+-- Lixeira: a exclusão definitiva depois de 30 dias passa a rodar no servidor, todo dia,
+-- para todos os usuários, e não mais quando alguém abre a página da Lixeira.
+-- O agendamento (pg_cron) chama a edge function purge-trash, que executa
+-- purge_expired_trash e remove do storage os arquivos dos anexos excluídos.
+-- A URL do projeto e a service role key ficam no Vault, criadas uma vez por projeto:
+--   select vault.create_secret('https://<projeto>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+-- Exclui definitivamente, de todos os usuários, o que está na lixeira há mais de 30 dias.
+-- Itens que foram juntos para a lixeira (conta e transações, as duas pontas de uma
+-- transferência) têm o mesmo deleted_at e expiram juntos.
+-- Retorna os caminhos dos anexos das transações excluídas. Só o servidor pode chamar.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expired_before timestamptz := now() - interval '30 days';
+  v_account_ids bigint[];
+  v_ids bigint[];
+  v_attachment_paths text[];
+BEGIN
+  -- Transações e linhas de divisão ficam sem categoria (ON DELETE SET NULL)
+  DELETE FROM categories WHERE deleted_at <= v_expired_before;
+
+  v_account_ids := ARRAY(SELECT id FROM accounts WHERE deleted_at <= v_expired_before);
+
+  -- Transações expiradas, mais as que saem em cascata com as contas expiradas
+  -- (as da conta e as das transferências que a envolvem)
+  v_ids := ARRAY(
+    SELECT t.id FROM transactions t
+    WHERE t.deleted_at <= v_expired_before
+       OR t.account_id = ANY(v_account_ids)
+       OR t.transfer_id IN (
+         SELECT id FROM transfers
+         WHERE from_account_id = ANY(v_account_ids) OR to_account_id = ANY(v_account_ids)
+       )
+  );
+
+  -- As linhas dos anexos saem com as transações, então os caminhos são lidos antes
+  v_attachment_paths := ARRAY(
+    SELECT storage_path
+    FROM transaction_attachments
+    WHERE transaction_id = ANY(v_ids)
+  );
+
+  DELETE FROM accounts WHERE id = ANY(v_account_ids);
+
+  -- Excluir a transferência leva junto as duas transações do par
+  DELETE FROM transfers
+  WHERE id IN (SELECT transfer_id FROM transactions WHERE id = ANY(v_ids));
+  DELETE FROM transactions WHERE id = ANY(v_ids);
+
+  RETURN v_attachment_paths;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_expired_trash() TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Todo dia às 03:00 (UTC)
+SELECT cron.schedule(
+  'purge-expired-trash',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,106 @@
+-- Favorecidos: ao aprender um apelido, as transações sem favorecido que passam a
+-- corresponder a ele eram procuradas com find_payee_id (chave da descrição e busca nos
+-- apelidos) em cada transação do usuário, dentro do salvamento do formulário.
+-- A chave da descrição passa a ficar gravada na transação, com índice para as que estão
+-- sem favorecido, e o preenchimento compara só com o apelido novo.
+ALTER TABLE public.transactions
+  ADD COLUMN payee_key text GENERATED ALWAYS AS (public.payee_alias_key(description)) STORED;
+
+CREATE INDEX transactions_unassigned_payee_key_idx
+  ON public.transactions (user_id, payee_key text_pattern_ops)
+  WHERE payee_id IS NULL AND transfer_id IS NULL;
+
+-- Transações novas sem favorecido recebem o favorecido dos apelidos, seja qual for a
+-- origem (formulário, importação, recorrentes, parcelas).
+-- Quando o usuário escolhe um favorecido diferente do que os apelidos indicariam, a
+-- descrição vira apelido desse favorecido e as transações sem favorecido que passam a
+-- corresponder a ele também o recebem, a menos que um apelido mais longo (que vence
+-- em find_payee_id) já valha para elas. Transferências não têm favorecido.
+CREATE OR REPLACE FUNCTION public.assign_transaction_payee()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_key text;
+  v_matched bigint;
+BEGIN
+  -- O preenchimento abaixo não ensina apelidos
+  IF NEW.transfer_id IS NOT NULL OR (TG_OP = 'UPDATE' AND pg_trigger_depth() > 1) THEN
+    RETURN NEW;
+  END IF;
+
+  v_key := payee_alias_key(NEW.description);
+  IF v_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  v_matched := find_payee_id(NEW.user_id, NEW.description);
+
+  IF TG_OP = 'INSERT' AND NEW.payee_id IS NULL THEN
+    NEW.payee_id := v_matched;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payee_id IS NULL
+     OR NEW.payee_id IS NOT DISTINCT FROM v_matched
+     OR (TG_OP = 'UPDATE' AND NEW.payee_id IS NOT DISTINCT FROM OLD.payee_id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO payee_aliases (user_id, payee_id, alias)
+  VALUES (NEW.user_id, NEW.payee_id, v_key)
+  ON CONFLICT (user_id, alias) DO UPDATE SET payee_id = EXCLUDED.payee_id;
+
+  UPDATE transactions t
+  SET payee_id = NEW.payee_id
+  WHERE t.user_id = NEW.user_id
+    AND t.id <> NEW.id
+    AND t.payee_id IS NULL
+    AND t.transfer_id IS NULL
+    AND (t.payee_key = v_key OR t.payee_key LIKE v_key || ' %')
+    AND NOT EXISTS (
+      SELECT 1 FROM payee_aliases a
+      WHERE a.user_id = NEW.user_id
+        AND length(a.alias) > length(v_key)
+        AND (t.payee_key = a.alias OR t.payee_key LIKE a.alias || ' %')
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+-- O preenchimento automático do favorecido (uma alteração feita por outro trigger que
+-- só muda payee_id) não entra no histórico, que não mostra o favorecido.
+CREATE OR REPLACE FUNCTION public.record_transaction_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO transaction_history (user_id, transaction_id, operation, new_data, changed_by)
+    VALUES (NEW.user_id, NEW.id, TG_OP, to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF to_jsonb(NEW) = to_jsonb(OLD) THEN
+      RETURN NEW;
+    END IF;
+
+    IF pg_trigger_depth() > 1 AND to_jsonb(NEW) - 'payee_id' = to_jsonb(OLD) - 'payee_id' THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO transaction_history (user_id, transaction_id, operation, old_data, new_data, changed_by)
+    VALUES (NEW.user_id, NEW.id, TG_OP, to_jsonb(OLD), to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO transaction_history (user_id, transaction_id, operation, old_data, changed_by)
+  VALUES (OLD.user_id, OLD.id, TG_OP, to_jsonb(OLD), auth.uid());
+  RETURN OLD;
+END;
+$$;
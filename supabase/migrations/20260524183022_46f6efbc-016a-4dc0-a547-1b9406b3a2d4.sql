@@ -0,0 +1,88 @@
+-- Quitação antecipada: a partir de uma parcela do mês atual em diante. Antes, escolher
+-- uma parcela anterior excluía de vez parcelas já lançadas, com tags, divisões e anexos.
+CREATE OR REPLACE FUNCTION public.pay_off_installment_purchase(
+  purchase_id_input bigint,
+  from_installment_input integer,
+  amount_input numeric,
+  transaction_date_input date,
+  reference_month_input date
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_purchase record;
+  v_transaction_id bigint;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_purchase
+  FROM installment_purchases
+  WHERE id = purchase_id_input AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Compra parcelada não encontrada';
+  END IF;
+
+  IF v_purchase.paid_off_from IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta compra já foi quitada';
+  END IF;
+
+  IF from_installment_input IS NULL OR from_installment_input NOT BETWEEN 1 AND v_purchase.total_installments THEN
+    RAISE EXCEPTION 'Parcela inicial da quitação inválida';
+  END IF;
+
+  IF amount_input IS NULL OR amount_input <= 0 THEN
+    RAISE EXCEPTION 'Valor deve ser maior que zero';
+  END IF;
+
+  IF transaction_date_input IS NULL OR reference_month_input IS NULL THEN
+    RAISE EXCEPTION 'Data e mês de referência são obrigatórios';
+  END IF;
+
+  -- Parcelas de meses anteriores já foram lançadas (e provavelmente pagas): não são substituídas
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE installment_purchase_id = purchase_id_input
+      AND user_id = v_user_id
+      AND installment_number >= from_installment_input
+      AND reference_month < date_trunc('month', current_date)::date
+  ) THEN
+    RAISE EXCEPTION 'Parcelas de meses anteriores não podem ser quitadas: escolha uma parcela do mês atual em diante';
+  END IF;
+
+  DELETE FROM transactions
+  WHERE installment_purchase_id = purchase_id_input
+    AND user_id = v_user_id
+    AND installment_number >= from_installment_input;
+
+  INSERT INTO transactions (
+    user_id, account_id, description, amount, type, transaction_date, reference_month,
+    category_id, subcategory_id, installment_purchase_id
+  ) VALUES (
+    v_user_id,
+    v_purchase.account_id,
+    'Quitação antecipada: ' || v_purchase.description,
+    round(amount_input, 2),
+    'Expense',
+    transaction_date_input,
+    date_trunc('month', reference_month_input)::date,
+    v_purchase.category_id,
+    v_purchase.subcategory_id,
+    purchase_id_input
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE installment_purchases
+  SET paid_off_from = from_installment_input
+  WHERE id = purchase_id_input;
+
+  RETURN v_transaction_id;
+END;
+$$;
@@ -0,0 +1,183 @@
+-- Desfazer uma importação e quitar parcelas excluem transações de vez, e os anexos
+-- delas saem em cascata. As funções passam a retornar os caminhos dos anexos
+-- excluídos, como delete_from_trash, para que os arquivos sejam removidos do storage.
+-- O tipo de retorno muda, então as funções são recriadas.
+DROP FUNCTION IF EXISTS public.undo_import_batch(bigint);
+
+-- Ao desfazer um lote, remove também as compras parceladas que ele criou
+CREATE FUNCTION public.undo_import_batch(batch_id_input bigint)
+RETURNS TABLE(deleted_count integer, attachment_paths text[])
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_transaction record;
+  v_deleted integer := 0;
+  v_attachment_paths text[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM import_batches WHERE id = batch_id_input AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Importação não encontrada';
+  END IF;
+
+  -- As linhas dos anexos saem com as transações, então os caminhos são lidos antes
+  v_attachment_paths := ARRAY(
+    SELECT a.storage_path
+    FROM transaction_attachments a
+    JOIN transactions t ON t.id = a.transaction_id
+    WHERE t.batch_id = batch_id_input AND t.user_id = v_user_id
+  );
+
+  FOR v_transaction IN
+    SELECT id, amount, type, debt_id, investment_id
+    FROM transactions
+    WHERE batch_id = batch_id_input AND user_id = v_user_id
+    ORDER BY id DESC
+    FOR UPDATE
+  LOOP
+    -- Estorno do pagamento de dívida: devolve o valor e a parcela
+    IF v_transaction.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = current_balance + v_transaction.amount,
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE remaining_installments + 1
+          END
+      WHERE id = v_transaction.debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Estorno de aporte (despesa) ou resgate (receita)
+    IF v_transaction.investment_id IS NOT NULL THEN
+      IF v_transaction.type = 'Expense' THEN
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_transaction.amount)
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = current_balance + v_transaction.amount
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    DELETE FROM transactions WHERE id = v_transaction.id;
+    v_deleted := v_deleted + 1;
+  END LOOP;
+
+  -- Compras parceladas criadas por este lote que ficaram sem parcelas
+  DELETE FROM installment_purchases p
+  WHERE p.batch_id = batch_id_input
+    AND p.user_id = v_user_id
+    AND NOT EXISTS (SELECT 1 FROM transactions t WHERE t.installment_purchase_id = p.id);
+
+  DELETE FROM import_batches WHERE id = batch_id_input AND user_id = v_user_id;
+
+  RETURN QUERY SELECT v_deleted, v_attachment_paths;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.pay_off_installment_purchase(bigint, integer, numeric, date, date);
+
+-- Quitação antecipada: as parcelas a partir de from_installment_input são substituídas
+-- por uma única transação com o valor pago (que pode ter desconto).
+CREATE FUNCTION public.pay_off_installment_purchase(
+  purchase_id_input bigint,
+  from_installment_input integer,
+  amount_input numeric,
+  transaction_date_input date,
+  reference_month_input date
+)
+RETURNS TABLE(transaction_id bigint, attachment_paths text[])
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_purchase record;
+  v_transaction_id bigint;
+  v_attachment_paths text[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_purchase
+  FROM installment_purchases
+  WHERE id = purchase_id_input AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Compra parcelada não encontrada';
+  END IF;
+
+  IF v_purchase.paid_off_from IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta compra já foi quitada';
+  END IF;
+
+  IF from_installment_input IS NULL OR from_installment_input NOT BETWEEN 1 AND v_purchase.total_installments THEN
+    RAISE EXCEPTION 'Parcela inicial da quitação inválida';
+  END IF;
+
+  IF amount_input IS NULL OR amount_input <= 0 THEN
+    RAISE EXCEPTION 'Valor deve ser maior que zero';
+  END IF;
+
+  IF transaction_date_input IS NULL OR reference_month_input IS NULL THEN
+    RAISE EXCEPTION 'Data e mês de referência são obrigatórios';
+  END IF;
+
+  -- Parcelas de meses anteriores já foram lançadas (e provavelmente pagas): não são substituídas
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE installment_purchase_id = purchase_id_input
+      AND user_id = v_user_id
+      AND installment_number >= from_installment_input
+      AND reference_month < date_trunc('month', current_date)::date
+  ) THEN
+    RAISE EXCEPTION 'Parcelas de meses anteriores não podem ser quitadas: escolha uma parcela do mês atual em diante';
+  END IF;
+
+  -- As linhas dos anexos saem com as transações, então os caminhos são lidos antes
+  v_attachment_paths := ARRAY(
+    SELECT a.storage_path
+    FROM transaction_attachments a
+    JOIN transactions t ON t.id = a.transaction_id
+    WHERE t.installment_purchase_id = purchase_id_input
+      AND t.user_id = v_user_id
+      AND t.installment_number >= from_installment_input
+  );
+
+  DELETE FROM transactions
+  WHERE installment_purchase_id = purchase_id_input
+    AND user_id = v_user_id
+    AND installment_number >= from_installment_input;
+
+  INSERT INTO transactions (
+    user_id, account_id, description, amount, type, transaction_date, reference_month,
+    category_id, subcategory_id, installment_purchase_id
+  ) VALUES (
+    v_user_id,
+    v_purchase.account_id,
+    'Quitação antecipada: ' || v_purchase.description,
+    round(amount_input, 2),
+    'Expense',
+    transaction_date_input,
+    date_trunc('month', reference_month_input)::date,
+    v_purchase.category_id,
+    v_purchase.subcategory_id,
+    purchase_id_input
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE installment_purchases
+  SET paid_off_from = from_installment_input
+  WHERE id = purchase_id_input;
+
+  RETURN QUERY SELECT v_transaction_id, v_attachment_paths;
+END;
+$$;
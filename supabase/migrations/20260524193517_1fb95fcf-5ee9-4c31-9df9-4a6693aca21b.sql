@@ -0,0 +1,415 @@
+-- Lixeira: uma conta excluída continuava com os lançamentos recorrentes ativos, que
+-- geravam ocorrências para ela, e a confirmação lançava transações na conta excluída.
+-- Ao ir para a lixeira, a conta pausa os seus modelos e pula as ocorrências pendentes;
+-- a restauração da conta traz de volta exatamente os que ela pausou.
+
+-- deleted_at da conta que pausou o modelo (ou pulou a ocorrência) ao ir para a lixeira
+ALTER TABLE public.recurring_templates ADD COLUMN account_trashed_at timestamptz;
+ALTER TABLE public.recurring_occurrences ADD COLUMN account_trashed_at timestamptz;
+
+-- Move uma conta para a lixeira junto com as suas transações e com a outra ponta
+-- das transferências que a envolvem. Tudo recebe o mesmo deleted_at, que é o que
+-- a restauração da conta usa para trazer de volta exatamente o que saiu com ela.
+-- Retorna quantas transações foram movidas.
+CREATE OR REPLACE FUNCTION public.trash_account(account_id_input bigint)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_now timestamptz := now();
+  v_transaction record;
+  v_trashed integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  PERFORM 1 FROM accounts
+  WHERE id = account_id_input AND user_id = v_user_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  FOR v_transaction IN
+    SELECT id, amount, type, debt_id, investment_id
+    FROM transactions
+    WHERE user_id = v_user_id
+      AND deleted_at IS NULL
+      AND (
+        account_id = account_id_input
+        OR transfer_id IN (
+          SELECT transfer_id FROM transactions
+          WHERE account_id = account_id_input AND user_id = v_user_id AND transfer_id IS NOT NULL
+        )
+      )
+    ORDER BY id DESC
+    FOR UPDATE
+  LOOP
+    -- Estorno do pagamento de dívida: devolve o valor e a parcela
+    IF v_transaction.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = current_balance + v_transaction.amount,
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE remaining_installments + 1
+          END
+      WHERE id = v_transaction.debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Estorno de aporte (despesa) ou resgate (receita)
+    IF v_transaction.investment_id IS NOT NULL THEN
+      IF v_transaction.type = 'Expense' THEN
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_transaction.amount)
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = current_balance + v_transaction.amount
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    UPDATE transactions SET deleted_at = v_now WHERE id = v_transaction.id;
+    v_trashed := v_trashed + 1;
+  END LOOP;
+
+  -- Os modelos ativos da conta param de gerar ocorrências e as pendentes são puladas.
+  -- Ficam marcados com o deleted_at da conta para voltarem junto com ela.
+  UPDATE recurring_templates
+  SET is_active = false, account_trashed_at = v_now
+  WHERE account_id = account_id_input AND user_id = v_user_id AND is_active;
+
+  UPDATE recurring_occurrences
+  SET status = 'skipped', account_trashed_at = v_now
+  WHERE account_id = account_id_input AND user_id = v_user_id AND status = 'pending';
+
+  UPDATE accounts SET deleted_at = v_now WHERE id = account_id_input;
+
+  RETURN v_trashed;
+END;
+$$;
+
+-- Restaura um item da lixeira (item_type_input: 'transaction', 'account' ou 'category').
+-- Uma transação volta com a outra ponta da transferência, e uma conta volta com as
+-- transações que foram para a lixeira junto com ela e com os lançamentos recorrentes
+-- que pausou. O impacto em dívidas e investimentos é reaplicado como na criação da transação.
+CREATE OR REPLACE FUNCTION public.restore_from_trash(item_type_input text, item_id_input bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_deleted_at timestamptz;
+  v_ids bigint[];
+  v_account_name text;
+  v_transaction record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF item_type_input = 'category' THEN
+    UPDATE categories
+    SET deleted_at = NULL
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Categoria não encontrada na lixeira';
+    END IF;
+    RETURN;
+  END IF;
+
+  IF item_type_input = 'account' THEN
+    SELECT deleted_at INTO v_deleted_at
+    FROM accounts
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Conta não encontrada na lixeira';
+    END IF;
+
+    v_ids := ARRAY(
+      SELECT id FROM transactions
+      WHERE user_id = v_user_id
+        AND deleted_at = v_deleted_at
+        AND (
+          account_id = item_id_input
+          OR transfer_id IN (
+            SELECT transfer_id FROM transactions
+            WHERE account_id = item_id_input AND user_id = v_user_id AND transfer_id IS NOT NULL
+          )
+        )
+    );
+
+    UPDATE accounts SET deleted_at = NULL WHERE id = item_id_input;
+
+    UPDATE recurring_templates
+    SET is_active = true, account_trashed_at = NULL
+    WHERE account_id = item_id_input AND user_id = v_user_id AND account_trashed_at = v_deleted_at;
+
+    UPDATE recurring_occurrences
+    SET status = 'pending', account_trashed_at = NULL
+    WHERE account_id = item_id_input AND user_id = v_user_id AND account_trashed_at = v_deleted_at;
+  ELSIF item_type_input = 'transaction' THEN
+    SELECT deleted_at INTO v_deleted_at
+    FROM transactions
+    WHERE id = item_id_input AND user_id = v_user_id AND deleted_at IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transação não encontrada na lixeira';
+    END IF;
+
+    v_ids := ARRAY(
+      SELECT id FROM transactions
+      WHERE user_id = v_user_id
+        AND deleted_at = v_deleted_at
+        AND (
+          id = item_id_input
+          OR transfer_id = (SELECT transfer_id FROM transactions WHERE id = item_id_input)
+        )
+    );
+  ELSE
+    RAISE EXCEPTION 'Tipo de item inválido: %', item_type_input;
+  END IF;
+
+  SELECT a.name INTO v_account_name
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  WHERE t.id = ANY(v_ids) AND a.deleted_at IS NOT NULL
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'A conta "%" está na lixeira: restaure a conta primeiro', v_account_name;
+  END IF;
+
+  -- Uma reimportação feita enquanto a transação estava na lixeira ocupa o mesmo FITID
+  IF EXISTS (
+    SELECT 1
+    FROM transactions t
+    JOIN transactions live ON live.account_id = t.account_id AND live.fitid = t.fitid
+    WHERE t.id = ANY(v_ids) AND live.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Uma transação com o mesmo identificador (FITID) foi importada novamente; exclua-a antes de restaurar';
+  END IF;
+
+  FOR v_transaction IN
+    SELECT id, amount, type, debt_id, investment_id
+    FROM transactions
+    WHERE id = ANY(v_ids)
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    UPDATE transactions SET deleted_at = NULL WHERE id = v_transaction.id;
+
+    -- Reaplica o pagamento de dívida: abate o valor e a parcela
+    IF v_transaction.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = GREATEST(0, current_balance - v_transaction.amount),
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE GREATEST(0, remaining_installments - 1)
+          END
+      WHERE id = v_transaction.debt_id AND user_id = v_user_id;
+    END IF;
+
+    -- Reaplica o aporte (despesa) ou o resgate (receita)
+    IF v_transaction.investment_id IS NOT NULL THEN
+      IF v_transaction.type = 'Expense' THEN
+        UPDATE investments
+        SET initial_amount = CASE WHEN current_balance = 0 THEN v_transaction.amount ELSE initial_amount END,
+            current_balance = current_balance + v_transaction.amount
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_transaction.amount)
+        WHERE id = v_transaction.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Confirma ocorrências pendentes: cria a transação de cada uma e a marca como confirmada.
+-- Não lança em conta que está na lixeira.
+CREATE OR REPLACE FUNCTION public.confirm_recurring_occurrences(occurrence_ids_input bigint[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_occurrence record;
+  v_transaction_id bigint;
+  v_count integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  FOR v_occurrence IN
+    SELECT *
+    FROM recurring_occurrences
+    WHERE id = ANY(occurrence_ids_input)
+      AND user_id = v_user_id
+      AND status = 'pending'
+    ORDER BY transaction_date, id
+    FOR UPDATE
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM accounts
+      WHERE id = v_occurrence.account_id AND user_id = v_user_id AND deleted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A conta do lançamento "%" está na lixeira', v_occurrence.description;
+    END IF;
+
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, type,
+      transaction_date, reference_month, category_id, subcategory_id
+    )
+    VALUES (
+      v_user_id, v_occurrence.account_id, v_occurrence.description, v_occurrence.amount, v_occurrence.type,
+      v_occurrence.transaction_date, v_occurrence.reference_month, v_occurrence.category_id, v_occurrence.subcategory_id
+    )
+    RETURNING id INTO v_transaction_id;
+
+    UPDATE recurring_occurrences
+    SET status = 'confirmed', transaction_id = v_transaction_id
+    WHERE id = v_occurrence.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Cria a compra e as parcelas. Informa-se o valor total ou o valor da parcela; com o total,
+-- os centavos que não dividem igualmente ficam na primeira parcela. A conta não pode
+-- estar na lixeira.
+CREATE OR REPLACE FUNCTION public.create_installment_purchase(
+  account_id_input bigint,
+  description_input text,
+  total_installments_input integer,
+  first_reference_month_input date,
+  first_transaction_date_input date,
+  total_amount_input numeric DEFAULT NULL,
+  installment_amount_input numeric DEFAULT NULL,
+  category_id_input bigint DEFAULT NULL,
+  subcategory_id_input bigint DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_description text := NULLIF(btrim(description_input), '');
+  v_category_type public.category_type;
+  v_total numeric;
+  v_installment numeric;
+  v_first_installment numeric;
+  v_purchase_id bigint;
+  v_number integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM accounts
+    WHERE id = account_id_input AND user_id = v_user_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  IF v_description IS NULL THEN
+    RAISE EXCEPTION 'Descrição é obrigatória';
+  END IF;
+
+  IF total_installments_input IS NULL OR total_installments_input NOT BETWEEN 2 AND 120 THEN
+    RAISE EXCEPTION 'O número de parcelas deve estar entre 2 e 120';
+  END IF;
+
+  IF first_reference_month_input IS NULL OR first_transaction_date_input IS NULL THEN
+    RAISE EXCEPTION 'Data e mês de referência da primeira parcela são obrigatórios';
+  END IF;
+
+  IF (total_amount_input IS NULL) = (installment_amount_input IS NULL) THEN
+    RAISE EXCEPTION 'Informe o valor total ou o valor da parcela';
+  END IF;
+
+  IF COALESCE(total_amount_input, installment_amount_input) <= 0 THEN
+    RAISE EXCEPTION 'Valor deve ser maior que zero';
+  END IF;
+
+  IF category_id_input IS NOT NULL THEN
+    SELECT type INTO v_category_type FROM categories WHERE id = category_id_input AND user_id = v_user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Categoria não encontrada';
+    END IF;
+    IF v_category_type IN ('Debt', 'Investment') THEN
+      RAISE EXCEPTION 'Compras parceladas não podem usar categorias de dívidas ou investimentos';
+    END IF;
+  END IF;
+
+  IF subcategory_id_input IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM subcategories
+    WHERE id = subcategory_id_input AND user_id = v_user_id AND category_id = category_id_input
+  ) THEN
+    RAISE EXCEPTION 'Subcategoria não pertence à categoria selecionada';
+  END IF;
+
+  IF total_amount_input IS NOT NULL THEN
+    v_total := round(total_amount_input, 2);
+    v_installment := floor(v_total * 100 / total_installments_input) / 100;
+    IF v_installment <= 0 THEN
+      RAISE EXCEPTION 'Valor total insuficiente para o número de parcelas';
+    END IF;
+  ELSE
+    v_installment := round(installment_amount_input, 2);
+    v_total := v_installment * total_installments_input;
+  END IF;
+  v_first_installment := v_total - v_installment * (total_installments_input - 1);
+
+  INSERT INTO installment_purchases (
+    user_id, account_id, description, total_amount, installment_amount, total_installments,
+    first_reference_month, category_id, subcategory_id
+  ) VALUES (
+    v_user_id, account_id_input, v_description, v_total, v_installment, total_installments_input,
+    date_trunc('month', first_reference_month_input)::date, category_id_input, subcategory_id_input
+  )
+  RETURNING id INTO v_purchase_id;
+
+  -- Uma parcela por mês; datas no dia 31 caem no último dia dos meses mais curtos
+  FOR v_number IN 1..total_installments_input LOOP
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, type, transaction_date, reference_month,
+      category_id, subcategory_id, installment_purchase_id, installment_number
+    ) VALUES (
+      v_user_id,
+      account_id_input,
+      v_description,
+      CASE WHEN v_number = 1 THEN v_first_installment ELSE v_installment END,
+      'Expense',
+      (first_transaction_date_input + make_interval(months => v_number - 1))::date,
+      (date_trunc('month', first_reference_month_input) + make_interval(months => v_number - 1))::date,
+      category_id_input,
+      subcategory_id_input,
+      v_purchase_id,
+      v_number
+    );
+  END LOOP;
+
+  RETURN v_purchase_id;
+END;
+$$;
@@ -0,0 +1,187 @@
+-- Histórico de transações: restaurar a versão de uma transação que está na lixeira, ou
+-- cujo FITID já foi reimportado na conta, falhava com o erro cru da chave duplicada.
+-- As duas situações passam a ser verificadas antes de gravar, com uma mensagem clara.
+
+-- Se a transação do usuário está na lixeira. SECURITY DEFINER porque as políticas da
+-- lixeira escondem a linha do usuário.
+CREATE OR REPLACE FUNCTION public.is_transaction_in_trash(transaction_id_input bigint)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM transactions
+    WHERE id = transaction_id_input AND user_id = auth.uid() AND deleted_at IS NOT NULL
+  );
+$$;
+
+-- Restaura uma versão do histórico: altera a transação ou, se ela foi excluída, recria-a
+CREATE OR REPLACE FUNCTION public.restore_transaction_version(history_id_input bigint)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_entry transaction_history%ROWTYPE;
+  v_version transactions%ROWTYPE;
+  v_current transactions%ROWTYPE;
+  v_exists boolean;
+  v_fitid text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_entry
+  FROM transaction_history
+  WHERE id = history_id_input AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Versão não encontrada';
+  END IF;
+
+  v_version := jsonb_populate_record(
+    NULL::transactions,
+    CASE WHEN v_entry.operation = 'DELETE' THEN v_entry.old_data ELSE v_entry.new_data END
+  );
+
+  SELECT * INTO v_current
+  FROM transactions
+  WHERE id = v_entry.transaction_id AND user_id = v_user_id
+  FOR UPDATE;
+  v_exists := FOUND;
+
+  IF NOT v_exists AND is_transaction_in_trash(v_entry.transaction_id) THEN
+    RAISE EXCEPTION 'Transação está na lixeira; restaure-a pela Lixeira';
+  END IF;
+
+  IF v_version.transfer_id IS NOT NULL OR (v_exists AND v_current.transfer_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Transferências não podem ser restauradas; edite a transferência';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = v_version.account_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'A conta desta versão não existe mais';
+  END IF;
+
+  -- Alterada, a transação mantém o FITID atual; recriada, recupera o da versão
+  v_fitid := CASE WHEN v_exists THEN v_current.fitid ELSE v_version.fitid END;
+  IF v_fitid IS NOT NULL AND EXISTS (
+    SELECT 1 FROM transactions
+    WHERE account_id = v_version.account_id
+      AND fitid = v_fitid
+      AND id <> v_entry.transaction_id
+      AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Uma transação com o mesmo identificador (FITID) já existe nesta conta; exclua-a antes de restaurar';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM categories WHERE id = v_version.category_id AND user_id = v_user_id) THEN
+    v_version.category_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM subcategories WHERE id = v_version.subcategory_id AND user_id = v_user_id) THEN
+    v_version.subcategory_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM debts WHERE id = v_version.debt_id AND user_id = v_user_id) THEN
+    v_version.debt_id := NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM investments WHERE id = v_version.investment_id AND user_id = v_user_id) THEN
+    v_version.investment_id := NULL;
+  END IF;
+
+  IF v_exists THEN
+    -- A divisão pertence à transação atual: só vale para o mesmo valor e sem categoria própria
+    IF EXISTS (SELECT 1 FROM transaction_splits WHERE transaction_id = v_current.id)
+       AND (v_version.amount <> v_current.amount OR v_version.category_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'A transação está dividida: desfaça a divisão antes de restaurar esta versão';
+    END IF;
+
+    -- Estorno do impacto atual: devolve o pagamento da dívida e desfaz aporte/resgate
+    IF v_current.debt_id IS NOT NULL THEN
+      UPDATE debts
+      SET current_balance = current_balance + v_current.amount,
+          remaining_installments = CASE
+            WHEN remaining_installments IS NULL THEN NULL
+            ELSE remaining_installments + 1
+          END
+      WHERE id = v_current.debt_id AND user_id = v_user_id;
+    END IF;
+
+    IF v_current.investment_id IS NOT NULL THEN
+      IF v_current.type = 'Expense' THEN
+        UPDATE investments
+        SET current_balance = GREATEST(0, current_balance - v_current.amount)
+        WHERE id = v_current.investment_id AND user_id = v_user_id;
+      ELSE
+        UPDATE investments
+        SET current_balance = current_balance + v_current.amount
+        WHERE id = v_current.investment_id AND user_id = v_user_id;
+      END IF;
+    END IF;
+
+    UPDATE transactions
+    SET description = v_version.description,
+        amount = v_version.amount,
+        type = v_version.type,
+        transaction_date = v_version.transaction_date,
+        reference_month = v_version.reference_month,
+        account_id = v_version.account_id,
+        category_id = v_version.category_id,
+        subcategory_id = v_version.subcategory_id,
+        debt_id = v_version.debt_id,
+        investment_id = v_version.investment_id
+    WHERE id = v_current.id;
+  ELSE
+    -- Recriada, a transação também recupera o FITID, o lote de importação e a parcela
+    IF NOT EXISTS (SELECT 1 FROM import_batches WHERE id = v_version.batch_id AND user_id = v_user_id) THEN
+      v_version.batch_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM installment_purchases WHERE id = v_version.installment_purchase_id AND user_id = v_user_id) THEN
+      v_version.installment_purchase_id := NULL;
+      v_version.installment_number := NULL;
+    END IF;
+
+    INSERT INTO transactions (
+      id, created_at, user_id, account_id, category_id, subcategory_id, investment_id, debt_id,
+      description, amount, type, transaction_date, reference_month, fitid, batch_id,
+      installment_purchase_id, installment_number
+    )
+    VALUES (
+      v_entry.transaction_id, v_version.created_at, v_user_id, v_version.account_id,
+      v_version.category_id, v_version.subcategory_id, v_version.investment_id, v_version.debt_id,
+      v_version.description, v_version.amount, v_version.type, v_version.transaction_date,
+      v_version.reference_month, v_version.fitid, v_version.batch_id,
+      v_version.installment_purchase_id, v_version.installment_number
+    );
+  END IF;
+
+  -- Reaplica o impacto com os valores restaurados
+  IF v_version.debt_id IS NOT NULL THEN
+    UPDATE debts
+    SET current_balance = GREATEST(0, current_balance - v_version.amount),
+        remaining_installments = CASE
+          WHEN remaining_installments IS NULL THEN NULL
+          ELSE GREATEST(0, remaining_installments - 1)
+        END
+    WHERE id = v_version.debt_id AND user_id = v_user_id;
+  END IF;
+
+  IF v_version.investment_id IS NOT NULL THEN
+    IF v_version.type = 'Expense' THEN
+      UPDATE investments
+      SET initial_amount = CASE WHEN current_balance = 0 THEN v_version.amount ELSE initial_amount END,
+          current_balance = current_balance + v_version.amount
+      WHERE id = v_version.investment_id AND user_id = v_user_id;
+    ELSE
+      UPDATE investments
+      SET current_balance = GREATEST(0, current_balance - v_version.amount)
+      WHERE id = v_version.investment_id AND user_id = v_user_id;
+    END IF;
+  END IF;
+
+  RETURN v_entry.transaction_id;
+END;
+$$;